@@ -0,0 +1,59 @@
+#!/usr/bin/env ts-node
+import { dataStore } from '../src/services/dataStore';
+import { EntityType } from '../src/services/dynamodb';
+import { participantService } from '../src/services/participantService';
+import { userService } from '../src/services/userService';
+import { ParticipantRole, Prenup } from '../src/types/entities';
+
+const PAGE_SIZE = 100;
+
+// Creates the PARTY_A and PARTY_B participant records of prenups created
+// before access was decided by participants. Safe to run more than once.
+async function backfillParticipants() {
+  let lastKey: any;
+  let scanned = 0;
+  let created = 0;
+
+  do {
+    const page = await dataStore.queryByEntityType<Prenup>(EntityType.PRENUP, PAGE_SIZE, lastKey);
+    lastKey = page.lastKey;
+
+    for (const prenup of page.items) {
+      scanned++;
+      const participants = await participantService.listParticipants(prenup.id);
+      const parties: [string | undefined, ParticipantRole][] = [
+        [prenup.createdBy, ParticipantRole.PARTY_A],
+        [prenup.partnerId, ParticipantRole.PARTY_B]
+      ];
+
+      for (const [userId, role] of parties) {
+        if (!userId || participants.some(participant => participant.role === role)) {
+          continue;
+        }
+
+        const user = await userService.getUserById(userId);
+        if (!user) {
+          console.warn(`  ! User ${userId} of prenup ${prenup.id} not found, skipped`);
+          continue;
+        }
+
+        await dataStore.create(participantService.partyEntity(prenup.id, user, role, prenup.createdBy));
+        created++;
+        console.log(`  + ${role} ${userId} on prenup ${prenup.id}`);
+      }
+    }
+  } while (lastKey);
+
+  console.log(`Scanned ${scanned} prenups, created ${created} participant records`);
+}
+
+if (require.main === module) {
+  backfillParticipants()
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error('Backfill failed:', error);
+      process.exit(1);
+    });
+}
+
+export { backfillParticipants };
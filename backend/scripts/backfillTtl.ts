@@ -0,0 +1,48 @@
+#!/usr/bin/env ts-node
+import { dataStore } from '../src/services/dataStore';
+import { BaseEntity, EntityType, toTtl } from '../src/services/dynamodb';
+
+const PAGE_SIZE = 100;
+
+// Entities DynamoDB deletes once they expire
+const EXPIRING_TYPES = [EntityType.REFRESH_TOKEN, EntityType.SESSION];
+
+type Expiring = BaseEntity & { expiresAt: string; ttl?: number };
+
+// Sets the `ttl` of expiring entities written before it existed, so time to
+// live deletes them too. Safe to run more than once.
+async function backfillTtl() {
+  let scanned = 0;
+  let updated = 0;
+
+  for (const entityType of EXPIRING_TYPES) {
+    let lastKey: any;
+    do {
+      const page = await dataStore.queryByEntityType<Expiring>(entityType, PAGE_SIZE, lastKey);
+      lastKey = page.lastKey;
+
+      for (const entity of page.items) {
+        scanned++;
+        if (entity.ttl !== undefined) {
+          continue;
+        }
+
+        await dataStore.update<Expiring>(entityType, entity.id, { ttl: toTtl(entity.expiresAt) }, false);
+        updated++;
+      }
+    } while (lastKey);
+  }
+
+  console.log(`Scanned ${scanned} items, set ttl on ${updated}`);
+}
+
+if (require.main === module) {
+  backfillTtl()
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error('Backfill failed:', error);
+      process.exit(1);
+    });
+}
+
+export { backfillTtl };
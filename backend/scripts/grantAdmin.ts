@@ -0,0 +1,37 @@
+#!/usr/bin/env ts-node
+import { userService } from '../src/services/userService';
+import { UserRole } from '../src/types/entities';
+
+// Gives an existing account the ADMIN role. Admins cannot be created through
+// the API, so the first one is granted from here.
+async function grantAdmin(email: string) {
+  const user = await userService.getUserByEmail(email);
+  if (!user) {
+    throw new Error(`No account found for ${email}`);
+  }
+
+  if (user.role === UserRole.ADMIN) {
+    console.log(`${email} is already an admin`);
+    return;
+  }
+
+  await userService.updateUser(user.id, { role: UserRole.ADMIN });
+  console.log(`${email} is now an admin`);
+}
+
+if (require.main === module) {
+  const email = process.argv[2];
+  if (!email) {
+    console.error('Usage: npm run admin:grant -- <email>');
+    process.exit(1);
+  }
+
+  grantAdmin(email)
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error('Granting admin failed:', error.message);
+      process.exit(1);
+    });
+}
+
+export { grantAdmin };
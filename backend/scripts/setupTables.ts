@@ -1,12 +1,18 @@
 #!/usr/bin/env ts-node
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { 
+  AttributeDefinition,
   CreateTableCommand, 
   DescribeTableCommand, 
-  DeleteTableCommand,
-  ListTablesCommand 
+  DescribeTimeToLiveCommand,
+  GlobalSecondaryIndex,
+  ListTablesCommand,
+  TableDescription,
+  UpdateTableCommand,
+  UpdateTimeToLiveCommand
 } from '@aws-sdk/client-dynamodb';
 import { config } from '../src/utils/config';
+import { INDEX_KEYS, IndexName, TTL_ATTRIBUTE } from '../src/services/dynamodb';
 
 const dynamoDBClient = new DynamoDBClient({
   region: config.dynamodb.region,
@@ -19,102 +25,48 @@ const dynamoDBClient = new DynamoDBClient({
 
 const TABLE_NAME = config.dynamodb.tableName;
 
+const INDEX_DESCRIPTIONS: Record<IndexName, string> = {
+  [IndexName.ENTITY_TYPE]: 'for querying by entity type',
+  [IndexName.EMAIL]: 'for user lookups by email',
+  [IndexName.CREATED_BY]: 'for user-owned entities',
+  [IndexName.PARTNER]: 'for prenups joined as partner',
+  [IndexName.PRENUP]: 'for prenup-related entities',
+  [IndexName.TOKEN]: 'for invitation lookups by token hash',
+  [IndexName.USER]: 'for entities belonging to a user, e.g. counsel appointments'
+};
+
+const indexDefinition = (indexName: IndexName): GlobalSecondaryIndex => {
+  const { attribute, hasSortKey } = INDEX_KEYS[indexName];
+  return {
+    IndexName: indexName,
+    KeySchema: [
+      { AttributeName: attribute, KeyType: 'HASH' },
+      ...(hasSortKey ? [{ AttributeName: 'SK', KeyType: 'RANGE' as const }] : [])
+    ],
+    Projection: { ProjectionType: 'ALL' }
+  };
+};
+
+// The table keys and the key attributes of the given indexes
+const attributeDefinitions = (indexNames: IndexName[]): AttributeDefinition[] =>
+  ['PK', 'SK', ...new Set(indexNames.map(indexName => INDEX_KEYS[indexName].attribute))]
+    .map(attribute => ({ AttributeName: attribute, AttributeType: 'S' }));
+
+// Creates the table, or brings an existing one up to date by adding the
+// indexes it lacks. Never deletes the table or its data.
 async function setupTables() {
   try {
     console.log(`Setting up DynamoDB table: ${TABLE_NAME}`);
-    
-    // Check if table already exists
-    try {
-      await dynamoDBClient.send(new DescribeTableCommand({ TableName: TABLE_NAME }));
-      console.log(`Table ${TABLE_NAME} already exists. Deleting and recreating...`);
-      
-      // Delete existing table
-      await dynamoDBClient.send(new DeleteTableCommand({ TableName: TABLE_NAME }));
-      
-      // Wait a bit for deletion to complete
-      await new Promise(resolve => setTimeout(resolve, 2000));
-    } catch (error: any) {
-      if (error.name !== 'ResourceNotFoundException') {
-        throw error;
-      }
-    }
-    
-    // Create table with single-table design
-    const createTableParams = {
-      TableName: TABLE_NAME,
-      KeySchema: [
-        { AttributeName: 'PK', KeyType: 'HASH' as const },  // Partition key
-        { AttributeName: 'SK', KeyType: 'RANGE' as const }  // Sort key
-      ],
-      AttributeDefinitions: [
-        { AttributeName: 'PK', AttributeType: 'S' as const },
-        { AttributeName: 'SK', AttributeType: 'S' as const },
-        { AttributeName: 'entityType', AttributeType: 'S' as const },
-        { AttributeName: 'email', AttributeType: 'S' as const },
-        { AttributeName: 'createdBy', AttributeType: 'S' as const },
-        { AttributeName: 'prenupId', AttributeType: 'S' as const }
-      ],
-      BillingMode: 'PAY_PER_REQUEST' as const,
-      GlobalSecondaryIndexes: [
-        {
-          IndexName: 'EntityTypeIndex',
-          KeySchema: [
-            { AttributeName: 'entityType', KeyType: 'HASH' as const },
-            { AttributeName: 'SK', KeyType: 'RANGE' as const }
-          ],
-          Projection: { ProjectionType: 'ALL' as const }
-        },
-        {
-          IndexName: 'EmailIndex',
-          KeySchema: [
-            { AttributeName: 'email', KeyType: 'HASH' as const }
-          ],
-          Projection: { ProjectionType: 'ALL' as const }
-        },
-        {
-          IndexName: 'CreatedByIndex',
-          KeySchema: [
-            { AttributeName: 'createdBy', KeyType: 'HASH' as const },
-            { AttributeName: 'SK', KeyType: 'RANGE' as const }
-          ],
-          Projection: { ProjectionType: 'ALL' as const }
-        },
-        {
-          IndexName: 'PrenupIndex',
-          KeySchema: [
-            { AttributeName: 'prenupId', KeyType: 'HASH' as const },
-            { AttributeName: 'SK', KeyType: 'RANGE' as const }
-          ],
-          Projection: { ProjectionType: 'ALL' as const }
-        }
-      ]
-    };
-    
-    await dynamoDBClient.send(new CreateTableCommand(createTableParams));
-    
-    console.log(`✅ Table ${TABLE_NAME} created successfully with GSIs:`);
-    console.log('  - EntityTypeIndex: for querying by entity type');
-    console.log('  - EmailIndex: for user lookups by email');
-    console.log('  - CreatedByIndex: for user-owned entities');
-    console.log('  - PrenupIndex: for prenup-related entities');
-    
-    // Wait for table to become active
-    console.log('Waiting for table to become active...');
-    let tableActive = false;
-    while (!tableActive) {
-      try {
-        const result = await dynamoDBClient.send(new DescribeTableCommand({ TableName: TABLE_NAME }));
-        if (result.Table?.TableStatus === 'ACTIVE') {
-          tableActive = true;
-          console.log('✅ Table is now active!');
-        } else {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-      } catch (error) {
-        console.log('Still waiting for table...');
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
+
+    const table = await describeTable();
+    if (table) {
+      console.log(`Table ${TABLE_NAME} already exists. Adding missing indexes...`);
+      await addMissingIndexes(table);
+    } else {
+      await createTable();
     }
+
+    await enableTimeToLive();
     
   } catch (error) {
     console.error('❌ Error setting up tables:', error);
@@ -122,6 +74,97 @@ async function setupTables() {
   }
 }
 
+async function describeTable(): Promise<TableDescription | null> {
+  try {
+    const { Table } = await dynamoDBClient.send(new DescribeTableCommand({ TableName: TABLE_NAME }));
+    return Table || null;
+  } catch (error: any) {
+    if (error.name === 'ResourceNotFoundException') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Create table with single-table design
+async function createTable() {
+  const indexNames = Object.values(IndexName);
+  await dynamoDBClient.send(new CreateTableCommand({
+    TableName: TABLE_NAME,
+    KeySchema: [
+      { AttributeName: 'PK', KeyType: 'HASH' },  // Partition key
+      { AttributeName: 'SK', KeyType: 'RANGE' }  // Sort key
+    ],
+    AttributeDefinitions: attributeDefinitions(indexNames),
+    BillingMode: 'PAY_PER_REQUEST',
+    GlobalSecondaryIndexes: indexNames.map(indexDefinition)
+  }));
+
+  console.log(`✅ Table ${TABLE_NAME} created successfully with GSIs:`);
+  indexNames.forEach(indexName => console.log(`  - ${indexName}: ${INDEX_DESCRIPTIONS[indexName]}`));
+
+  await waitUntilActive();
+}
+
+// DynamoDB builds one new index at a time, backfilling it from the items
+// already in the table, so each is added and waited for in turn
+async function addMissingIndexes(table: TableDescription) {
+  const existing = new Set((table.GlobalSecondaryIndexes || []).map(index => index.IndexName));
+  const missing = Object.values(IndexName).filter(indexName => !existing.has(indexName));
+
+  // Finish anything still being built by an earlier run first
+  await waitUntilActive();
+
+  if (missing.length === 0) {
+    console.log('All indexes are in place');
+    return;
+  }
+
+  for (const indexName of missing) {
+    console.log(`Adding ${indexName} (${INDEX_DESCRIPTIONS[indexName]})...`);
+    await dynamoDBClient.send(new UpdateTableCommand({
+      TableName: TABLE_NAME,
+      AttributeDefinitions: attributeDefinitions([indexName]),
+      GlobalSecondaryIndexUpdates: [{ Create: indexDefinition(indexName) }]
+    }));
+    await waitUntilActive();
+    console.log(`✅ ${indexName} is now active`);
+  }
+}
+
+// Waits for the table and every index on it to become active. Queries on
+// an index fail while it is still being built.
+async function waitUntilActive() {
+  console.log('Waiting for table and indexes to become active...');
+  for (;;) {
+    const table = await describeTable();
+    const building = (table?.GlobalSecondaryIndexes || [])
+      .filter(index => index.IndexStatus !== 'ACTIVE')
+      .map(index => index.IndexName);
+
+    if (table?.TableStatus === 'ACTIVE' && building.length === 0) {
+      console.log('✅ Table is now active!');
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, building.length > 0 ? 5000 : 1000));
+  }
+}
+
+// Lets DynamoDB delete expired refresh tokens and sessions by their `ttl` attribute
+async function enableTimeToLive() {
+  const { TimeToLiveDescription } = await dynamoDBClient.send(new DescribeTimeToLiveCommand({ TableName: TABLE_NAME }));
+  if (TimeToLiveDescription?.TimeToLiveStatus === 'ENABLED' || TimeToLiveDescription?.TimeToLiveStatus === 'ENABLING') {
+    console.log(`Time to live already enabled on ${TimeToLiveDescription.AttributeName}`);
+    return;
+  }
+
+  await dynamoDBClient.send(new UpdateTimeToLiveCommand({
+    TableName: TABLE_NAME,
+    TimeToLiveSpecification: { AttributeName: TTL_ATTRIBUTE, Enabled: true }
+  }));
+  console.log(`✅ Time to live enabled on ${TTL_ATTRIBUTE}`);
+}
+
 async function listTables() {
   try {
     const result = await dynamoDBClient.send(new ListTablesCommand({}));
@@ -134,7 +177,7 @@ async function listTables() {
 
 // Run setup if called directly
 if (require.main === module) {
-  console.log('🚀 Starting DynamoDB table setup for local development...\n');
+  console.log('🚀 Starting DynamoDB table setup...\n');
   console.log(`Configuration:`);
   console.log(`  Region: ${config.dynamodb.region}`);
   console.log(`  Endpoint: ${config.dynamodb.endpoint}`);
@@ -155,4 +198,4 @@ if (require.main === module) {
     });
 }
 
-export { setupTables, listTables };
\ No newline at end of file
+export { setupTables, addMissingIndexes, enableTimeToLive, listTables };
\ No newline at end of file
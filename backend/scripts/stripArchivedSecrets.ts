@@ -0,0 +1,66 @@
+#!/usr/bin/env ts-node
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { dataStore } from '../src/services/dataStore';
+import { EntityType, LATEST_VERSION, UNARCHIVED_FIELDS, createPartitionKey } from '../src/services/dynamodb';
+import { config } from '../src/utils/config';
+
+const PAGE_SIZE = 100;
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({
+  region: config.dynamodb.region,
+  endpoint: config.dynamodb.endpoint,
+  credentials: {
+    accessKeyId: config.dynamodb.accessKeyId,
+    secretAccessKey: config.dynamodb.secretAccessKey
+  }
+}));
+
+// Removes the fields that are no longer archived (MFA secrets and recovery
+// codes) from versions archived before they were left out. Safe to run more
+// than once.
+async function stripArchivedSecrets() {
+  let scanned = 0;
+  let stripped = 0;
+
+  for (const [entityType, fields] of Object.entries(UNARCHIVED_FIELDS) as [EntityType, string[]][]) {
+    let lastKey: any;
+    do {
+      const page = await dataStore.queryByEntityType(entityType, PAGE_SIZE, lastKey);
+      lastKey = page.lastKey;
+
+      for (const entity of page.items) {
+        const versions = await dataStore.getAllVersions(entityType, entity.id);
+        for (const version of versions) {
+          scanned++;
+          const present = fields.filter(field => field in version);
+          if (version.version === LATEST_VERSION || present.length === 0) {
+            continue;
+          }
+
+          await docClient.send(new UpdateCommand({
+            TableName: config.dynamodb.tableName,
+            Key: { PK: createPartitionKey(entityType, entity.id), SK: version.version },
+            UpdateExpression: `REMOVE ${present.map((_, index) => `#field${index}`).join(', ')}`,
+            ExpressionAttributeNames: Object.fromEntries(present.map((field, index) => [`#field${index}`, field]))
+          }));
+          stripped++;
+          console.log(`  - ${present.join(', ')} from ${entityType} ${entity.id} ${version.version}`);
+        }
+      }
+    } while (lastKey);
+  }
+
+  console.log(`Scanned ${scanned} versions, stripped ${stripped}`);
+}
+
+if (require.main === module) {
+  stripArchivedSecrets()
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error('Migration failed:', error);
+      process.exit(1);
+    });
+}
+
+export { stripArchivedSecrets };
@@ -0,0 +1,58 @@
+import {
+  fairness,
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const alabama: JurisdictionLaw = {
+  state: USState.ALABAMA,
+  displayName: 'Alabama',
+  code: 'AL',
+  versions: [
+    {
+      version: 'AL-1980',
+      effectiveFrom: '1980-01-01',
+      citations: [
+        'Barnhill v. Barnhill, 386 So. 2d 749 (Ala. Civ. App. 1980)',
+        'Ala. Code § 43-8-72'
+      ],
+      summary: 'No premarital agreement statute; the agreement must be fair, or made with full knowledge and independent advice',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Ala. Code § 8-9-2' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Barnhill v. Barnhill, 386 So. 2d 749 (Ala. Civ. App. 1980)' },
+        {
+          name: 'Full Disclosure',
+          description: 'Full disclosure of assets, debts and income, or independent knowledge of them',
+          required: true,
+          category: 'disclosure',
+          citation: 'Barnhill v. Barnhill, 386 So. 2d 749 (Ala. Civ. App. 1980)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] }
+        },
+        {
+          name: 'Fair and Equitable',
+          description: 'Agreement must be fair and equitable, or entered with competent independent advice and full knowledge',
+          required: true,
+          category: 'fairness',
+          citation: 'Barnhill v. Barnhill, 386 So. 2d 749 (Ala. Civ. App. 1980)',
+          rule: { kind: 'any', rules: [{ kind: 'independent-counsel' }, fairness('Is the agreement fair and equitable to the party giving up rights?')] }
+        },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Courts apply contract principles; there is no premarital agreement statute',
+        'Independent counsel for each party makes the agreement far harder to challenge',
+        'Waiver of inheritance rights requires fair disclosure'
+      ]
+    }
+  ]
+};
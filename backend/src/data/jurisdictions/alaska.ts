@@ -0,0 +1,58 @@
+import {
+  fairness,
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const alaska: JurisdictionLaw = {
+  state: USState.ALASKA,
+  displayName: 'Alaska',
+  code: 'AK',
+  versions: [
+    {
+      version: 'AK-1987',
+      effectiveFrom: '1987-01-01',
+      citations: [
+        'Brooks v. Brooks, 733 P.2d 1044 (Alaska 1987)',
+        'Alaska Stat. ch. 34.77'
+      ],
+      summary: 'Common-law review for disclosure and fairness; spouses may opt into community property',
+      totalSteps: 7,
+      requirements: [
+        WRITTEN_AGREEMENT,
+        { ...VOLUNTARY_EXECUTION, citation: 'Brooks v. Brooks, 733 P.2d 1044 (Alaska 1987)' },
+        {
+          name: 'Full Disclosure',
+          description: 'Full disclosure of assets, debts and income, or independent knowledge of them',
+          required: true,
+          category: 'disclosure',
+          citation: 'Brooks v. Brooks, 733 P.2d 1044 (Alaska 1987)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] }
+        },
+        {
+          name: 'Fair When Enforced',
+          description: 'Agreement must be fair when made and not unconscionable when enforced',
+          required: true,
+          category: 'fairness',
+          citation: 'Brooks v. Brooks, 733 P.2d 1044 (Alaska 1987)',
+          rule: fairness('Was the agreement fair when made, and have circumstances not changed so far that enforcing it would be unfair?')
+        },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'No premarital agreement statute; courts review disclosure and fairness',
+        'Spouses may opt into community property by written agreement',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
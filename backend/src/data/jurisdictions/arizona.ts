@@ -0,0 +1,40 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  UPAA_SPECIAL_RULES,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const arizona: JurisdictionLaw = {
+  state: USState.ARIZONA,
+  displayName: 'Arizona',
+  code: 'AZ',
+  versions: [
+    {
+      version: 'AZ-1991',
+      effectiveFrom: '1991-01-01',
+      uniformAct: 'UPAA',
+      citations: ['Ariz. Rev. Stat. §§ 25-201 to 25-205'],
+      summary: 'Community property state following the Uniform Premarital Agreement Act',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Ariz. Rev. Stat. § 25-202(A)' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Ariz. Rev. Stat. § 25-202(C)' },
+        { ...UPAA_DISCLOSURE, citation: 'Ariz. Rev. Stat. § 25-202(C)' },
+        { ...UPAA_CONSCIONABILITY, citation: 'Ariz. Rev. Stat. § 25-202(C)' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: UPAA_SPECIAL_RULES
+    }
+  ]
+};
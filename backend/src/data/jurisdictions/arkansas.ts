@@ -0,0 +1,40 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  UPAA_SPECIAL_RULES,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const arkansas: JurisdictionLaw = {
+  state: USState.ARKANSAS,
+  displayName: 'Arkansas',
+  code: 'AR',
+  versions: [
+    {
+      version: 'AR-1987',
+      effectiveFrom: '1987-01-01',
+      uniformAct: 'UPAA',
+      citations: ['Ark. Code Ann. §§ 9-11-401 to 9-11-413'],
+      summary: 'Follows the Uniform Premarital Agreement Act (UPAA)',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Ark. Code Ann. § 9-11-402' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Ark. Code Ann. § 9-11-406' },
+        { ...UPAA_DISCLOSURE, citation: 'Ark. Code Ann. § 9-11-406' },
+        { ...UPAA_CONSCIONABILITY, citation: 'Ark. Code Ann. § 9-11-406' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: UPAA_SPECIAL_RULES
+    }
+  ]
+};
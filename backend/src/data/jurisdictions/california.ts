@@ -0,0 +1,81 @@
+import {
+  FULL_DISCLOSURE,
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT,
+  waitingPeriod
+} from './common';
+import { USState } from '../../types/entities';
+
+export const california: JurisdictionLaw = {
+  state: USState.CALIFORNIA,
+  displayName: 'California',
+  code: 'CA',
+  versions: [
+    {
+      version: 'CA-1986',
+      effectiveFrom: '1986-01-01',
+      uniformAct: 'UPAA',
+      citations: ['Cal. Fam. Code §§ 1600-1617'],
+      summary: 'Community property state following the Uniform Premarital Agreement Act',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Cal. Fam. Code § 1611' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Cal. Fam. Code § 1615(a)(1)' },
+        { ...UPAA_DISCLOSURE, citation: 'Cal. Fam. Code § 1615(a)(2)' },
+        { ...UPAA_CONSCIONABILITY, citation: 'Cal. Fam. Code § 1615(a)(2)' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Court will examine fairness at time of enforcement',
+        'Waiver of spousal support may be scrutinized more closely'
+      ]
+    },
+    {
+      version: 'CA-2002',
+      effectiveFrom: '2002-01-01',
+      uniformAct: 'UPAA',
+      citations: ['Cal. Fam. Code §§ 1600-1617'],
+      summary: 'Community property state with a 7-day waiting period before signing',
+      totalSteps: 8,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Cal. Fam. Code § 1611' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Cal. Fam. Code § 1615(a)(1), (c)' },
+        { ...FULL_DISCLOSURE, citation: 'Cal. Fam. Code § 1615(a)(2)' },
+        {
+          name: 'Seven-Day Waiting Period',
+          description: 'At least 7 days must pass between first receiving the final agreement, with the advice to seek independent counsel, and signing it',
+          required: true,
+          category: 'timing',
+          citation: 'Cal. Fam. Code § 1615(c)(2)',
+          ...waitingPeriod(7)
+        },
+        { ...INDEPENDENT_COUNSEL, citation: 'Cal. Fam. Code § 1615(c)(1)' }
+      ],
+      disclosureRequirements: [
+        'All assets owned individually',
+        'All debts and obligations',
+        'Annual income and income sources',
+        'Any expected inheritances or gifts'
+      ],
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: '7 days',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Agreements signed less than 7 days after the final agreement was presented are not voluntary',
+        'Court will examine fairness at time of enforcement',
+        'Waiver of spousal support may be scrutinized more closely'
+      ]
+    }
+  ]
+};
@@ -0,0 +1,74 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPMAA_CONSCIONABILITY,
+  UPMAA_COUNSEL,
+  UPMAA_DISCLOSURE,
+  UPMAA_NOTICE,
+  UPMAA_SPECIAL_RULES,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const colorado: JurisdictionLaw = {
+  state: USState.COLORADO,
+  displayName: 'Colorado',
+  code: 'CO',
+  versions: [
+    {
+      version: 'CO-1986',
+      effectiveFrom: '1986-07-01',
+      citations: [
+        'Colo. Rev. Stat. §§ 14-2-301 to 14-2-310 (Colorado Marital Agreement Act)'
+      ],
+      summary: 'Colorado Marital Agreement Act; fair disclosure is required',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Colo. Rev. Stat. § 14-2-303' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Colo. Rev. Stat. § 14-2-307' },
+        {
+          name: 'Fair Disclosure',
+          description: 'Fair and reasonable disclosure of property and financial obligations',
+          required: true,
+          category: 'disclosure',
+          citation: 'Colo. Rev. Stat. § 14-2-307',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts'] }
+        },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Cannot adversely affect child support',
+        'Maintenance terms may be reviewed for unconscionability at divorce'
+      ]
+    },
+    {
+      version: 'CO-2014',
+      effectiveFrom: '2014-07-01',
+      uniformAct: 'UPMAA',
+      citations: ['Colo. Rev. Stat. §§ 14-2-301 to 14-2-313'],
+      summary: 'Follows the Uniform Premarital and Marital Agreements Act, with notice of waived rights',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Colo. Rev. Stat. § 14-2-306' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Colo. Rev. Stat. § 14-2-309' },
+        { ...UPMAA_COUNSEL, citation: 'Colo. Rev. Stat. § 14-2-309' },
+        { ...UPMAA_NOTICE, citation: 'Colo. Rev. Stat. § 14-2-309' },
+        { ...UPMAA_DISCLOSURE, citation: 'Colo. Rev. Stat. § 14-2-309' },
+        { ...UPMAA_CONSCIONABILITY, citation: 'Colo. Rev. Stat. § 14-2-309' }
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: UPMAA_SPECIAL_RULES
+    }
+  ]
+};
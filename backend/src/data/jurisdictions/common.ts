@@ -0,0 +1,211 @@
+import { ComplianceRule, DisclosureSection } from '../../services/complianceRules';
+import { USState } from '../../types/entities';
+
+export type RequirementCategory = 'timing' | 'disclosure' | 'execution' | 'fairness';
+
+export interface StateRequirement {
+  name: string;
+  description: string;
+  required: boolean;
+  category: RequirementCategory;
+  waitingPeriod?: number; // in days
+  // Statute or case the requirement comes from
+  citation?: string;
+  rule: ComplianceRule;
+}
+
+export type UniformAct = 'UPAA' | 'UPMAA';
+
+// A jurisdiction's premarital agreement law from one date on. Prenups are
+// pinned to the version in effect when they were created, so a published
+// version is never edited: a change in the law is a new version.
+export interface LawVersion {
+  // Unique across jurisdictions, e.g. 'CA-2002'
+  version: string;
+  // YYYY-MM-DD; applies to prenups created on or after this date. A first
+  // version only has to predate the earliest prenup in the state.
+  effectiveFrom: string;
+  // The uniform act the statute is based on, if any
+  uniformAct?: UniformAct;
+  citations: string[];
+  // One line on what sets the jurisdiction apart, shown when choosing a state
+  summary: string;
+  totalSteps: number;
+  requirements: StateRequirement[];
+  disclosureRequirements: string[];
+  notarizationRequired: boolean;
+  witnessRequired: boolean;
+  // Waiting period as shown to users, e.g. '7 days' or 'None'
+  waitingPeriodText: string;
+  attorneyReviewRecommended: boolean;
+  specialRules: string[];
+}
+
+export interface JurisdictionLaw {
+  state: USState;
+  displayName: string;
+  // Postal abbreviation, e.g. 'CA'
+  code: string;
+  // Oldest first
+  versions: LawVersion[];
+}
+
+type SharedRequirement = Omit<StateRequirement, 'citation'>;
+
+// Rules shared by several jurisdictions
+export const WRITTEN_AND_SIGNED: ComplianceRule = {
+  kind: 'all',
+  rules: [{ kind: 'written-agreement' }, { kind: 'signed-by-parties' }]
+};
+
+export const VOLUNTARY: ComplianceRule = {
+  kind: 'manual-review',
+  question: 'Did both parties enter the agreement voluntarily, without duress or undue influence?'
+};
+
+// Fairness is judged on the agreement as made, so the disclosures must be in first
+export const fairness = (question: string): ComplianceRule => ({
+  kind: 'all',
+  rules: [{ kind: 'disclosures-submitted', sections: [] }, { kind: 'manual-review', question }]
+});
+
+// Disclosure the uniform acts let a party waive in writing
+export const disclosedOrWaived = (sections: DisclosureSection[]): ComplianceRule => ({
+  kind: 'any',
+  rules: [
+    { kind: 'disclosures-submitted', sections },
+    {
+      kind: 'manual-review',
+      question: 'Did a party who received no disclosure waive it in a signed writing, knowing the other party\'s finances?'
+    }
+  ]
+});
+
+// Time each party must have the final text before signing. The clock that
+// blocks signing reads `waitingPeriod`; the rule reports on it.
+export const waitingPeriod = (days: number): Pick<StateRequirement, 'waitingPeriod' | 'rule'> => ({
+  waitingPeriod: days,
+  rule: { kind: 'waiting-period', days }
+});
+
+// Counsel for both parties, or a reviewer confirms what the statute asks of a party without one
+export const counselOr = (question: string): ComplianceRule => ({
+  kind: 'any',
+  rules: [{ kind: 'independent-counsel' }, { kind: 'manual-review', question }]
+});
+
+export const WRITTEN_AGREEMENT: SharedRequirement = {
+  name: 'Written Agreement',
+  description: 'Agreement must be in writing and signed by both parties',
+  required: true,
+  category: 'execution',
+  rule: WRITTEN_AND_SIGNED
+};
+
+export const VOLUNTARY_EXECUTION: SharedRequirement = {
+  name: 'Voluntary Execution',
+  description: 'Both parties must enter the agreement voluntarily',
+  required: true,
+  category: 'execution',
+  rule: VOLUNTARY
+};
+
+export const FULL_DISCLOSURE: SharedRequirement = {
+  name: 'Full Disclosure',
+  description: 'Complete disclosure of assets, debts, and income',
+  required: true,
+  category: 'disclosure',
+  rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] }
+};
+
+export const FAIR_AND_REASONABLE: SharedRequirement = {
+  name: 'Fair and Reasonable',
+  description: 'Agreement must be fair and reasonable when made',
+  required: true,
+  category: 'fairness',
+  rule: fairness('Is the agreement fair and reasonable as made?')
+};
+
+export const ACKNOWLEDGMENT: SharedRequirement = {
+  name: 'Acknowledgment or Notarization',
+  description: 'Agreement must be notarized or acknowledged',
+  required: true,
+  category: 'execution',
+  rule: { kind: 'notarized' }
+};
+
+export const INDEPENDENT_COUNSEL: SharedRequirement = {
+  name: 'Independent Legal Representation',
+  description: 'Recommended but not required',
+  required: false,
+  category: 'execution',
+  rule: { kind: 'independent-counsel' }
+};
+
+// Under the UPAA an agreement falls for missing disclosure only when it is
+// also unconscionable, and disclosure can be waived in writing
+export const UPAA_DISCLOSURE: SharedRequirement = {
+  name: 'Fair Disclosure',
+  description: 'Fair and reasonable disclosure of property and financial obligations, unless waived in writing',
+  required: true,
+  category: 'disclosure',
+  rule: disclosedOrWaived(['assets', 'debts'])
+};
+
+export const UPAA_CONSCIONABILITY: SharedRequirement = {
+  name: 'Not Unconscionable',
+  description: 'Agreement must not be unconscionable when executed',
+  required: true,
+  category: 'fairness',
+  rule: fairness('Was the agreement conscionable when it was executed?')
+};
+
+export const UPMAA_COUNSEL: SharedRequirement = {
+  name: 'Access to Independent Counsel',
+  description: 'Each party must have had a reasonable time to decide whether to retain a lawyer, and the means to retain one',
+  required: true,
+  category: 'execution',
+  rule: counselOr('Did each party without counsel have the time and means to retain a lawyer before signing?')
+};
+
+export const UPMAA_NOTICE: SharedRequirement = {
+  name: 'Notice of Waiver of Rights',
+  description: 'A party without counsel must receive a plain-language explanation of the rights the agreement modifies or waives',
+  required: true,
+  category: 'execution',
+  rule: counselOr('Does the agreement explain in plain language the rights a party without counsel gives up?')
+};
+
+export const UPMAA_DISCLOSURE: SharedRequirement = {
+  name: 'Adequate Financial Disclosure',
+  description: 'A reasonably accurate description and good-faith estimate of property, liabilities and income, unless waived in a signed record',
+  required: true,
+  category: 'disclosure',
+  rule: disclosedOrWaived(['assets', 'debts', 'income'])
+};
+
+export const UPMAA_CONSCIONABILITY: SharedRequirement = {
+  name: 'Not Unconscionable',
+  description: 'A court may refuse a term that was unconscionable when signed',
+  required: true,
+  category: 'fairness',
+  rule: fairness('Were the terms conscionable when the agreement was signed?')
+};
+
+export const STANDARD_DISCLOSURE: string[] = [
+  'All assets and their values',
+  'All debts and liabilities',
+  'Income and income sources'
+];
+
+export const UPAA_SPECIAL_RULES: string[] = [
+  'Follows the Uniform Premarital Agreement Act',
+  'Disclosure may be waived in a signed writing',
+  'Cannot adversely affect child support'
+];
+
+export const UPMAA_SPECIAL_RULES: string[] = [
+  'Follows the Uniform Premarital and Marital Agreements Act',
+  'A party without counsel must receive a plain-language notice of waived rights',
+  'Cannot adversely affect child support or limit remedies for domestic violence'
+];
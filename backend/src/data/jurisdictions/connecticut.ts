@@ -0,0 +1,62 @@
+import {
+  counselOr,
+  fairness,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const connecticut: JurisdictionLaw = {
+  state: USState.CONNECTICUT,
+  displayName: 'Connecticut',
+  code: 'CT',
+  versions: [
+    {
+      version: 'CT-1995',
+      effectiveFrom: '1995-10-01',
+      citations: ['Conn. Gen. Stat. §§ 46b-36a to 46b-36j'],
+      summary: 'Requires fair disclosure and an opportunity to consult counsel; reviewed for fairness when enforced',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Conn. Gen. Stat. § 46b-36c' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Conn. Gen. Stat. § 46b-36g(a)(1)' },
+        {
+          name: 'Fair Disclosure',
+          description: 'Fair and reasonable disclosure of property, financial obligations and income',
+          required: true,
+          category: 'disclosure',
+          citation: 'Conn. Gen. Stat. § 46b-36g(a)(3)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] }
+        },
+        {
+          name: 'Opportunity to Consult Counsel',
+          description: 'Each party must have had a reasonable opportunity to consult independent counsel',
+          required: true,
+          category: 'execution',
+          citation: 'Conn. Gen. Stat. § 46b-36g(a)(4)',
+          rule: counselOr('Did each party without counsel have a reasonable opportunity to consult one?')
+        },
+        {
+          name: 'Not Unconscionable',
+          description: 'Agreement must not be unconscionable when executed or when enforced',
+          required: true,
+          category: 'fairness',
+          citation: 'Conn. Gen. Stat. § 46b-36g(a)(2)',
+          rule: fairness('Was the agreement conscionable when executed, and is it still when enforced?')
+        }
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Based on the Uniform Premarital Agreement Act, with stricter disclosure and counsel rules',
+        'Courts examine unconscionability at execution and enforcement',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
@@ -0,0 +1,40 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  UPAA_SPECIAL_RULES,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const delaware: JurisdictionLaw = {
+  state: USState.DELAWARE,
+  displayName: 'Delaware',
+  code: 'DE',
+  versions: [
+    {
+      version: 'DE-1996',
+      effectiveFrom: '1996-01-01',
+      uniformAct: 'UPAA',
+      citations: ['Del. Code Ann. tit. 13, §§ 321-328'],
+      summary: 'Follows the Uniform Premarital Agreement Act (UPAA)',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Del. Code Ann. tit. 13, § 322' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Del. Code Ann. tit. 13, § 326' },
+        { ...UPAA_DISCLOSURE, citation: 'Del. Code Ann. tit. 13, § 326' },
+        { ...UPAA_CONSCIONABILITY, citation: 'Del. Code Ann. tit. 13, § 326' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: UPAA_SPECIAL_RULES
+    }
+  ]
+};
@@ -0,0 +1,53 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  VOLUNTARY,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const florida: JurisdictionLaw = {
+  state: USState.FLORIDA,
+  displayName: 'Florida',
+  code: 'FL',
+  versions: [
+    {
+      version: 'FL-2007',
+      effectiveFrom: '2007-10-01',
+      uniformAct: 'UPAA',
+      citations: [
+        'Fla. Stat. § 61.079',
+        'Fla. Stat. § 732.702'
+      ],
+      summary: 'Follows the UPAA and also voids agreements obtained by fraud, duress, coercion or overreaching',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Fla. Stat. § 61.079(3)' },
+        {
+          name: 'Voluntary Execution',
+          description: 'Agreement must not be the product of fraud, duress, coercion or overreaching',
+          required: true,
+          category: 'execution',
+          citation: 'Fla. Stat. § 61.079(7)(a)',
+          rule: VOLUNTARY
+        },
+        { ...UPAA_DISCLOSURE, citation: 'Fla. Stat. § 61.079(7)(a)' },
+        { ...UPAA_CONSCIONABILITY, citation: 'Fla. Stat. § 61.079(7)(a)' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Follows the Uniform Premarital Agreement Act',
+        'Fraud, duress, coercion or overreaching make the agreement unenforceable',
+        'Waiving elective share rights after marriage requires fair disclosure'
+      ]
+    }
+  ]
+};
@@ -0,0 +1,73 @@
+import {
+  fairness,
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  VOLUNTARY,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const georgia: JurisdictionLaw = {
+  state: USState.GEORGIA,
+  displayName: 'Georgia',
+  code: 'GA',
+  versions: [
+    {
+      version: 'GA-1982',
+      effectiveFrom: '1982-01-01',
+      citations: [
+        'Ga. Code Ann. §§ 19-3-62, 19-3-63',
+        'Scherer v. Scherer, 249 Ga. 635 (1982)'
+      ],
+      summary: 'Agreement must be attested by two witnesses and survive a three-part fairness test',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Ga. Code Ann. § 19-3-62' },
+        {
+          name: 'Attested by Two Witnesses',
+          description: 'Agreement must be attested by at least two witnesses',
+          required: true,
+          category: 'execution',
+          citation: 'Ga. Code Ann. § 19-3-63',
+          rule: { kind: 'manual-review', question: 'Was the agreement attested by at least two witnesses?' }
+        },
+        {
+          name: 'Voluntary Execution',
+          description: 'Agreement must not be obtained through fraud, duress, mistake or misrepresentation',
+          required: true,
+          category: 'execution',
+          citation: 'Scherer v. Scherer, 249 Ga. 635 (1982)',
+          rule: VOLUNTARY
+        },
+        {
+          name: 'Full Disclosure',
+          description: 'Nondisclosure of material facts makes the agreement unenforceable',
+          required: true,
+          category: 'disclosure',
+          citation: 'Scherer v. Scherer, 249 Ga. 635 (1982)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] }
+        },
+        {
+          name: 'Not Unconscionable',
+          description: 'Agreement must not be unconscionable, or unfair to enforce after a change in circumstances',
+          required: true,
+          category: 'fairness',
+          citation: 'Scherer v. Scherer, 249 Ga. 635 (1982)',
+          rule: fairness('Is the agreement conscionable, and have circumstances not changed so that enforcing it would be unfair?')
+        },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: true,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Two witnesses must attest the agreement',
+        'Courts apply the three-part Scherer test',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
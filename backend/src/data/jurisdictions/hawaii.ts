@@ -0,0 +1,40 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  UPAA_SPECIAL_RULES,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const hawaii: JurisdictionLaw = {
+  state: USState.HAWAII,
+  displayName: 'Hawaii',
+  code: 'HI',
+  versions: [
+    {
+      version: 'HI-1987',
+      effectiveFrom: '1987-01-01',
+      uniformAct: 'UPAA',
+      citations: ['Haw. Rev. Stat. §§ 572D-1 to 572D-11'],
+      summary: 'Follows the Uniform Premarital Agreement Act (UPAA)',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Haw. Rev. Stat. § 572D-2' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Haw. Rev. Stat. § 572D-6' },
+        { ...UPAA_DISCLOSURE, citation: 'Haw. Rev. Stat. § 572D-6' },
+        { ...UPAA_CONSCIONABILITY, citation: 'Haw. Rev. Stat. § 572D-6' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: UPAA_SPECIAL_RULES
+    }
+  ]
+};
@@ -0,0 +1,48 @@
+import {
+  ACKNOWLEDGMENT,
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const idaho: JurisdictionLaw = {
+  state: USState.IDAHO,
+  displayName: 'Idaho',
+  code: 'ID',
+  versions: [
+    {
+      version: 'ID-1995',
+      effectiveFrom: '1995-07-01',
+      uniformAct: 'UPAA',
+      citations: [
+        'Idaho Code §§ 32-921 to 32-929',
+        'Idaho Code § 32-917'
+      ],
+      summary: 'Community property state following the UPAA; the agreement must be acknowledged like a deed',
+      totalSteps: 8,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Idaho Code § 32-923' },
+        { ...ACKNOWLEDGMENT, citation: 'Idaho Code § 32-917' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Idaho Code § 32-925' },
+        { ...UPAA_DISCLOSURE, citation: 'Idaho Code § 32-925' },
+        { ...UPAA_CONSCIONABILITY, citation: 'Idaho Code § 32-925' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: true,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Follows the Uniform Premarital Agreement Act',
+        'Must be acknowledged or proved like a conveyance of land',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
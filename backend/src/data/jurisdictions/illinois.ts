@@ -0,0 +1,40 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  UPAA_SPECIAL_RULES,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const illinois: JurisdictionLaw = {
+  state: USState.ILLINOIS,
+  displayName: 'Illinois',
+  code: 'IL',
+  versions: [
+    {
+      version: 'IL-1990',
+      effectiveFrom: '1990-01-01',
+      uniformAct: 'UPAA',
+      citations: ['750 Ill. Comp. Stat. 10/1 to 10/11'],
+      summary: 'Follows the Uniform Premarital Agreement Act (UPAA)',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: '750 Ill. Comp. Stat. 10/3' },
+        { ...VOLUNTARY_EXECUTION, citation: '750 Ill. Comp. Stat. 10/7' },
+        { ...UPAA_DISCLOSURE, citation: '750 Ill. Comp. Stat. 10/7' },
+        { ...UPAA_CONSCIONABILITY, citation: '750 Ill. Comp. Stat. 10/7' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: UPAA_SPECIAL_RULES
+    }
+  ]
+};
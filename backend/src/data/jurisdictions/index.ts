@@ -0,0 +1,111 @@
+import { JurisdictionLaw } from './common';
+import { USState } from '../../types/entities';
+import { alabama } from './alabama';
+import { alaska } from './alaska';
+import { arizona } from './arizona';
+import { arkansas } from './arkansas';
+import { california } from './california';
+import { colorado } from './colorado';
+import { connecticut } from './connecticut';
+import { delaware } from './delaware';
+import { florida } from './florida';
+import { georgia } from './georgia';
+import { hawaii } from './hawaii';
+import { idaho } from './idaho';
+import { illinois } from './illinois';
+import { indiana } from './indiana';
+import { iowa } from './iowa';
+import { kansas } from './kansas';
+import { kentucky } from './kentucky';
+import { louisiana } from './louisiana';
+import { maine } from './maine';
+import { maryland } from './maryland';
+import { massachusetts } from './massachusetts';
+import { michigan } from './michigan';
+import { minnesota } from './minnesota';
+import { mississippi } from './mississippi';
+import { missouri } from './missouri';
+import { montana } from './montana';
+import { nebraska } from './nebraska';
+import { nevada } from './nevada';
+import { newHampshire } from './newHampshire';
+import { newJersey } from './newJersey';
+import { newMexico } from './newMexico';
+import { newYork } from './newYork';
+import { northCarolina } from './northCarolina';
+import { northDakota } from './northDakota';
+import { ohio } from './ohio';
+import { oklahoma } from './oklahoma';
+import { oregon } from './oregon';
+import { pennsylvania } from './pennsylvania';
+import { rhodeIsland } from './rhodeIsland';
+import { southCarolina } from './southCarolina';
+import { southDakota } from './southDakota';
+import { tennessee } from './tennessee';
+import { texas } from './texas';
+import { utah } from './utah';
+import { vermont } from './vermont';
+import { virginia } from './virginia';
+import { washington } from './washington';
+import { washingtonDc } from './washingtonDc';
+import { westVirginia } from './westVirginia';
+import { wisconsin } from './wisconsin';
+import { wyoming } from './wyoming';
+
+export * from './common';
+
+// Premarital agreement law of every supported jurisdiction, one file each.
+// Typed by USState so a jurisdiction cannot be added without its law.
+export const JURISDICTIONS: Record<USState, JurisdictionLaw> = {
+  [USState.ALABAMA]: alabama,
+  [USState.ALASKA]: alaska,
+  [USState.ARIZONA]: arizona,
+  [USState.ARKANSAS]: arkansas,
+  [USState.CALIFORNIA]: california,
+  [USState.COLORADO]: colorado,
+  [USState.CONNECTICUT]: connecticut,
+  [USState.DELAWARE]: delaware,
+  [USState.FLORIDA]: florida,
+  [USState.GEORGIA]: georgia,
+  [USState.HAWAII]: hawaii,
+  [USState.IDAHO]: idaho,
+  [USState.ILLINOIS]: illinois,
+  [USState.INDIANA]: indiana,
+  [USState.IOWA]: iowa,
+  [USState.KANSAS]: kansas,
+  [USState.KENTUCKY]: kentucky,
+  [USState.LOUISIANA]: louisiana,
+  [USState.MAINE]: maine,
+  [USState.MARYLAND]: maryland,
+  [USState.MASSACHUSETTS]: massachusetts,
+  [USState.MICHIGAN]: michigan,
+  [USState.MINNESOTA]: minnesota,
+  [USState.MISSISSIPPI]: mississippi,
+  [USState.MISSOURI]: missouri,
+  [USState.MONTANA]: montana,
+  [USState.NEBRASKA]: nebraska,
+  [USState.NEVADA]: nevada,
+  [USState.NEW_HAMPSHIRE]: newHampshire,
+  [USState.NEW_JERSEY]: newJersey,
+  [USState.NEW_MEXICO]: newMexico,
+  [USState.NEW_YORK]: newYork,
+  [USState.NORTH_CAROLINA]: northCarolina,
+  [USState.NORTH_DAKOTA]: northDakota,
+  [USState.OHIO]: ohio,
+  [USState.OKLAHOMA]: oklahoma,
+  [USState.OREGON]: oregon,
+  [USState.PENNSYLVANIA]: pennsylvania,
+  [USState.RHODE_ISLAND]: rhodeIsland,
+  [USState.SOUTH_CAROLINA]: southCarolina,
+  [USState.SOUTH_DAKOTA]: southDakota,
+  [USState.TENNESSEE]: tennessee,
+  [USState.TEXAS]: texas,
+  [USState.UTAH]: utah,
+  [USState.VERMONT]: vermont,
+  [USState.VIRGINIA]: virginia,
+  [USState.WASHINGTON]: washington,
+  [USState.WASHINGTON_DC]: washingtonDc,
+  [USState.WEST_VIRGINIA]: westVirginia,
+  [USState.WISCONSIN]: wisconsin,
+  [USState.WYOMING]: wyoming
+};
@@ -0,0 +1,40 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  UPAA_SPECIAL_RULES,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const indiana: JurisdictionLaw = {
+  state: USState.INDIANA,
+  displayName: 'Indiana',
+  code: 'IN',
+  versions: [
+    {
+      version: 'IN-1997',
+      effectiveFrom: '1997-07-01',
+      uniformAct: 'UPAA',
+      citations: ['Ind. Code §§ 31-11-3-1 to 31-11-3-10'],
+      summary: 'Follows the Uniform Premarital Agreement Act (UPAA)',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Ind. Code § 31-11-3-4' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Ind. Code § 31-11-3-8' },
+        { ...UPAA_DISCLOSURE, citation: 'Ind. Code § 31-11-3-8' },
+        { ...UPAA_CONSCIONABILITY, citation: 'Ind. Code § 31-11-3-8' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: UPAA_SPECIAL_RULES
+    }
+  ]
+};
@@ -0,0 +1,49 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const iowa: JurisdictionLaw = {
+  state: USState.IOWA,
+  displayName: 'Iowa',
+  code: 'IA',
+  versions: [
+    {
+      version: 'IA-1992',
+      effectiveFrom: '1992-01-01',
+      uniformAct: 'UPAA',
+      citations: ['Iowa Code §§ 596.1 to 596.12'],
+      summary: 'UPAA-based, but disclosure cannot be waived and spousal support cannot be limited',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Iowa Code § 596.4' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Iowa Code § 596.8(1)' },
+        {
+          name: 'Fair Disclosure',
+          description: 'Fair and reasonable disclosure of property and financial obligations',
+          required: true,
+          category: 'disclosure',
+          citation: 'Iowa Code § 596.8(3)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts'] }
+        },
+        { ...UPAA_CONSCIONABILITY, citation: 'Iowa Code § 596.8(2)' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Missing disclosure alone makes the agreement unenforceable',
+        'Cannot adversely affect spousal support',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
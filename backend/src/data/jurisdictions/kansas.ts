@@ -0,0 +1,40 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  UPAA_SPECIAL_RULES,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const kansas: JurisdictionLaw = {
+  state: USState.KANSAS,
+  displayName: 'Kansas',
+  code: 'KS',
+  versions: [
+    {
+      version: 'KS-1988',
+      effectiveFrom: '1988-07-01',
+      uniformAct: 'UPAA',
+      citations: ['Kan. Stat. Ann. §§ 23-2401 to 23-2411'],
+      summary: 'Follows the Uniform Premarital Agreement Act (UPAA)',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Kan. Stat. Ann. § 23-2403' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Kan. Stat. Ann. § 23-2407' },
+        { ...UPAA_DISCLOSURE, citation: 'Kan. Stat. Ann. § 23-2407' },
+        { ...UPAA_CONSCIONABILITY, citation: 'Kan. Stat. Ann. § 23-2407' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: UPAA_SPECIAL_RULES
+    }
+  ]
+};
@@ -0,0 +1,58 @@
+import {
+  fairness,
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const kentucky: JurisdictionLaw = {
+  state: USState.KENTUCKY,
+  displayName: 'Kentucky',
+  code: 'KY',
+  versions: [
+    {
+      version: 'KY-1990',
+      effectiveFrom: '1990-01-01',
+      citations: [
+        'Gentry v. Gentry, 798 S.W.2d 928 (Ky. 1990)',
+        'Edwardson v. Edwardson, 798 S.W.2d 941 (Ky. 1990)'
+      ],
+      summary: 'No premarital agreement statute; courts check disclosure and fairness at enforcement',
+      totalSteps: 7,
+      requirements: [
+        WRITTEN_AGREEMENT,
+        { ...VOLUNTARY_EXECUTION, citation: 'Gentry v. Gentry, 798 S.W.2d 928 (Ky. 1990)' },
+        {
+          name: 'Full Disclosure',
+          description: 'Full disclosure of assets, debts and income, or independent knowledge of them',
+          required: true,
+          category: 'disclosure',
+          citation: 'Gentry v. Gentry, 798 S.W.2d 928 (Ky. 1990)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] }
+        },
+        {
+          name: 'Fair When Enforced',
+          description: 'Agreement must be fair when made and not unconscionable when enforced',
+          required: true,
+          category: 'fairness',
+          citation: 'Gentry v. Gentry, 798 S.W.2d 928 (Ky. 1990)',
+          rule: fairness('Was the agreement fair when made, and have circumstances not changed so that enforcing it would be unconscionable?')
+        },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Courts apply contract principles; there is no premarital agreement statute',
+        'Agreements are reviewed for unconscionability at enforcement',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
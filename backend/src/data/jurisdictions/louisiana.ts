@@ -0,0 +1,55 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  VOLUNTARY,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const louisiana: JurisdictionLaw = {
+  state: USState.LOUISIANA,
+  displayName: 'Louisiana',
+  code: 'LA',
+  versions: [
+    {
+      version: 'LA-1980',
+      effectiveFrom: '1980-01-01',
+      citations: ['La. Civ. Code arts. 2328-2333'],
+      summary: 'Civil-law community property regime; the agreement must be an authentic act or acknowledged',
+      totalSteps: 8,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'La. Civ. Code art. 2331' },
+        {
+          name: 'Authentic Act or Acknowledgment',
+          description: 'Agreement must be made by authentic act or acknowledged by both spouses',
+          required: true,
+          category: 'execution',
+          citation: 'La. Civ. Code art. 2331',
+          rule: { kind: 'notarized' }
+        },
+        {
+          name: 'Voluntary Execution',
+          description: 'Consent must be free of error, fraud or duress',
+          required: true,
+          category: 'execution',
+          citation: 'La. Civ. Code art. 1948',
+          rule: VOLUNTARY
+        },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: [
+        'Separate and community property',
+        'Debts and obligations'
+      ],
+      notarizationRequired: true,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Opting out of the community property regime requires a matrimonial agreement',
+        'No financial disclosure is required by statute',
+        'Agreements made during marriage may need court approval'
+      ]
+    }
+  ]
+};
@@ -0,0 +1,40 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  UPAA_SPECIAL_RULES,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const maine: JurisdictionLaw = {
+  state: USState.MAINE,
+  displayName: 'Maine',
+  code: 'ME',
+  versions: [
+    {
+      version: 'ME-1987',
+      effectiveFrom: '1987-01-01',
+      uniformAct: 'UPAA',
+      citations: ['Me. Rev. Stat. tit. 19-A, §§ 601-611'],
+      summary: 'Follows the Uniform Premarital Agreement Act (UPAA)',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Me. Rev. Stat. tit. 19-A, § 603' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Me. Rev. Stat. tit. 19-A, § 608' },
+        { ...UPAA_DISCLOSURE, citation: 'Me. Rev. Stat. tit. 19-A, § 608' },
+        { ...UPAA_CONSCIONABILITY, citation: 'Me. Rev. Stat. tit. 19-A, § 608' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: UPAA_SPECIAL_RULES
+    }
+  ]
+};
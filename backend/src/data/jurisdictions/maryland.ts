@@ -0,0 +1,58 @@
+import {
+  fairness,
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const maryland: JurisdictionLaw = {
+  state: USState.MARYLAND,
+  displayName: 'Maryland',
+  code: 'MD',
+  versions: [
+    {
+      version: 'MD-1967',
+      effectiveFrom: '1967-01-01',
+      citations: [
+        'Hartz v. Hartz, 248 Md. 47 (1967)',
+        'Md. Code Ann., Est. & Trusts § 3-205'
+      ],
+      summary: 'No premarital agreement statute; the agreement must be fair or follow full disclosure',
+      totalSteps: 7,
+      requirements: [
+        WRITTEN_AGREEMENT,
+        { ...VOLUNTARY_EXECUTION, citation: 'Hartz v. Hartz, 248 Md. 47 (1967)' },
+        {
+          name: 'Full Disclosure',
+          description: 'Full disclosure of assets, debts and income, or independent knowledge of them',
+          required: true,
+          category: 'disclosure',
+          citation: 'Hartz v. Hartz, 248 Md. 47 (1967)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] }
+        },
+        {
+          name: 'Fair and Equitable',
+          description: 'Agreement must be fair and equitable, or made with full knowledge of the other\'s finances',
+          required: true,
+          category: 'fairness',
+          citation: 'Hartz v. Hartz, 248 Md. 47 (1967)',
+          rule: fairness('Is the agreement fair and equitable, or did the party giving up rights fully know what they gave up?')
+        },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Engaged parties are in a confidential relationship and owe each other candor',
+        'Waiving inheritance rights is governed by statute',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
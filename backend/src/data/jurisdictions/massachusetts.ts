@@ -0,0 +1,58 @@
+import {
+  fairness,
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const massachusetts: JurisdictionLaw = {
+  state: USState.MASSACHUSETTS,
+  displayName: 'Massachusetts',
+  code: 'MA',
+  versions: [
+    {
+      version: 'MA-2002',
+      effectiveFrom: '2002-01-01',
+      citations: [
+        'DeMatteo v. DeMatteo, 436 Mass. 18 (2002)',
+        'Mass. Gen. Laws ch. 209, § 25'
+      ],
+      summary: 'Agreements get a "second look" for conscionability when enforced',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Mass. Gen. Laws ch. 209, § 25' },
+        { ...VOLUNTARY_EXECUTION, citation: 'DeMatteo v. DeMatteo, 436 Mass. 18 (2002)' },
+        {
+          name: 'Full Disclosure',
+          description: 'Full disclosure of assets, debts and income, or independent knowledge of them',
+          required: true,
+          category: 'disclosure',
+          citation: 'DeMatteo v. DeMatteo, 436 Mass. 18 (2002)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] }
+        },
+        {
+          name: 'Fair When Enforced',
+          description: 'Agreement must be fair when made and conscionable at the time of divorce',
+          required: true,
+          category: 'fairness',
+          citation: 'DeMatteo v. DeMatteo, 436 Mass. 18 (2002)',
+          rule: fairness('Was the agreement fair and reasonable when made, and would enforcing it now leave a party without sufficient property, maintenance or employment to support themselves?')
+        },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Courts take a "second look" at the time of divorce',
+        'Full disclosure is required',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
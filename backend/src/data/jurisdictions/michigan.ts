@@ -0,0 +1,58 @@
+import {
+  fairness,
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const michigan: JurisdictionLaw = {
+  state: USState.MICHIGAN,
+  displayName: 'Michigan',
+  code: 'MI',
+  versions: [
+    {
+      version: 'MI-1991',
+      effectiveFrom: '1991-01-01',
+      citations: [
+        'Mich. Comp. Laws § 557.28',
+        'Rinvelt v. Rinvelt, 190 Mich. App. 372 (1991)'
+      ],
+      summary: 'Agreements are enforced unless procured by fraud, duress or nondisclosure, or unfair after changed circumstances',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Mich. Comp. Laws § 557.28' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Rinvelt v. Rinvelt, 190 Mich. App. 372 (1991)' },
+        {
+          name: 'Full Disclosure',
+          description: 'Full disclosure of assets, debts and income, or independent knowledge of them',
+          required: true,
+          category: 'disclosure',
+          citation: 'Rinvelt v. Rinvelt, 190 Mich. App. 372 (1991)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] }
+        },
+        {
+          name: 'Fair When Enforced',
+          description: 'Agreement must be fair when made and not unconscionable when enforced',
+          required: true,
+          category: 'fairness',
+          citation: 'Rinvelt v. Rinvelt, 190 Mich. App. 372 (1991)',
+          rule: fairness('Was the agreement fair when made, and have circumstances not changed so that enforcing it would be unfair?')
+        },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Courts apply contract principles',
+        'Unforeseeable changes in circumstances can make enforcement unfair',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
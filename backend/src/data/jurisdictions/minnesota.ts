@@ -0,0 +1,63 @@
+import {
+  counselOr,
+  FAIR_AND_REASONABLE,
+  FULL_DISCLOSURE,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const minnesota: JurisdictionLaw = {
+  state: USState.MINNESOTA,
+  displayName: 'Minnesota',
+  code: 'MN',
+  versions: [
+    {
+      version: 'MN-1979',
+      effectiveFrom: '1979-01-01',
+      citations: ['Minn. Stat. § 519.11'],
+      summary: 'Requires full disclosure, an opportunity to consult counsel, two witnesses and a notary',
+      totalSteps: 8,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Minn. Stat. § 519.11, subd. 2' },
+        { ...FULL_DISCLOSURE, citation: 'Minn. Stat. § 519.11, subd. 1' },
+        {
+          name: 'Opportunity to Consult Counsel',
+          description: 'Each party must have had an opportunity to consult legal counsel of their own choice',
+          required: true,
+          category: 'execution',
+          citation: 'Minn. Stat. § 519.11, subd. 1',
+          rule: counselOr('Did each party without counsel have the opportunity to consult one?')
+        },
+        {
+          name: 'Witnessed and Acknowledged',
+          description: 'Agreement must be signed before two witnesses and acknowledged before a notary',
+          required: true,
+          category: 'execution',
+          citation: 'Minn. Stat. § 519.11, subd. 2',
+          rule: {
+            kind: 'all',
+            rules: [
+              { kind: 'notarized' },
+              { kind: 'manual-review', question: 'Did both parties sign in the presence of two witnesses?' }
+            ]
+          }
+        },
+        VOLUNTARY_EXECUTION,
+        FAIR_AND_REASONABLE
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: true,
+      witnessRequired: true,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Must be executed before two witnesses and a notary',
+        'Agreement must be signed before the wedding day',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
@@ -0,0 +1,48 @@
+import {
+  FAIR_AND_REASONABLE,
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const mississippi: JurisdictionLaw = {
+  state: USState.MISSISSIPPI,
+  displayName: 'Mississippi',
+  code: 'MS',
+  versions: [
+    {
+      version: 'MS-2003',
+      effectiveFrom: '2003-01-01',
+      citations: ['Mabus v. Mabus, 890 So. 2d 806 (Miss. 2003)'],
+      summary: 'No premarital agreement statute; the agreement must be fairly executed with full knowledge',
+      totalSteps: 7,
+      requirements: [
+        WRITTEN_AGREEMENT,
+        { ...VOLUNTARY_EXECUTION, citation: 'Mabus v. Mabus, 890 So. 2d 806 (Miss. 2003)' },
+        {
+          name: 'Full Disclosure',
+          description: 'Full disclosure of assets, debts and income, or independent knowledge of them',
+          required: true,
+          category: 'disclosure',
+          citation: 'Mabus v. Mabus, 890 So. 2d 806 (Miss. 2003)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] }
+        },
+        { ...FAIR_AND_REASONABLE, citation: 'Mabus v. Mabus, 890 So. 2d 806 (Miss. 2003)' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Courts apply contract principles; there is no premarital agreement statute',
+        'Fair execution and full knowledge are required',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
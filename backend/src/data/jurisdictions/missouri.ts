@@ -0,0 +1,58 @@
+import {
+  fairness,
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const missouri: JurisdictionLaw = {
+  state: USState.MISSOURI,
+  displayName: 'Missouri',
+  code: 'MO',
+  versions: [
+    {
+      version: 'MO-1979',
+      effectiveFrom: '1979-01-01',
+      citations: [
+        'Ferry v. Ferry, 586 S.W.2d 782 (Mo. Ct. App. 1979)',
+        'Mo. Rev. Stat. § 474.220'
+      ],
+      summary: 'No premarital agreement statute; the agreement must be free, fair and fully informed',
+      totalSteps: 7,
+      requirements: [
+        WRITTEN_AGREEMENT,
+        { ...VOLUNTARY_EXECUTION, citation: 'Ferry v. Ferry, 586 S.W.2d 782 (Mo. Ct. App. 1979)' },
+        {
+          name: 'Full Disclosure',
+          description: 'Full disclosure of assets, debts and income, or independent knowledge of them',
+          required: true,
+          category: 'disclosure',
+          citation: 'Ferry v. Ferry, 586 S.W.2d 782 (Mo. Ct. App. 1979)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] }
+        },
+        {
+          name: 'Fair When Enforced',
+          description: 'Agreement must be fair when made and not unconscionable when enforced',
+          required: true,
+          category: 'fairness',
+          citation: 'Ferry v. Ferry, 586 S.W.2d 782 (Mo. Ct. App. 1979)',
+          rule: fairness('Was the agreement fair when made and is it not unconscionable when enforced?')
+        },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Courts apply contract principles; there is no premarital agreement statute',
+        'Waiving the right of election requires full disclosure',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
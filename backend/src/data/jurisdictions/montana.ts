@@ -0,0 +1,40 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  UPAA_SPECIAL_RULES,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const montana: JurisdictionLaw = {
+  state: USState.MONTANA,
+  displayName: 'Montana',
+  code: 'MT',
+  versions: [
+    {
+      version: 'MT-1987',
+      effectiveFrom: '1987-01-01',
+      uniformAct: 'UPAA',
+      citations: ['Mont. Code Ann. §§ 40-2-601 to 40-2-610'],
+      summary: 'Follows the Uniform Premarital Agreement Act (UPAA)',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Mont. Code Ann. § 40-2-603' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Mont. Code Ann. § 40-2-608' },
+        { ...UPAA_DISCLOSURE, citation: 'Mont. Code Ann. § 40-2-608' },
+        { ...UPAA_CONSCIONABILITY, citation: 'Mont. Code Ann. § 40-2-608' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: UPAA_SPECIAL_RULES
+    }
+  ]
+};
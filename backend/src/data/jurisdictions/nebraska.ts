@@ -0,0 +1,40 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  UPAA_SPECIAL_RULES,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const nebraska: JurisdictionLaw = {
+  state: USState.NEBRASKA,
+  displayName: 'Nebraska',
+  code: 'NE',
+  versions: [
+    {
+      version: 'NE-1994',
+      effectiveFrom: '1994-01-01',
+      uniformAct: 'UPAA',
+      citations: ['Neb. Rev. Stat. §§ 42-1001 to 42-1011'],
+      summary: 'Follows the Uniform Premarital Agreement Act (UPAA)',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Neb. Rev. Stat. § 42-1003' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Neb. Rev. Stat. § 42-1006' },
+        { ...UPAA_DISCLOSURE, citation: 'Neb. Rev. Stat. § 42-1006' },
+        { ...UPAA_CONSCIONABILITY, citation: 'Neb. Rev. Stat. § 42-1006' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: UPAA_SPECIAL_RULES
+    }
+  ]
+};
@@ -0,0 +1,40 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  UPAA_SPECIAL_RULES,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const nevada: JurisdictionLaw = {
+  state: USState.NEVADA,
+  displayName: 'Nevada',
+  code: 'NV',
+  versions: [
+    {
+      version: 'NV-1989',
+      effectiveFrom: '1989-01-01',
+      uniformAct: 'UPAA',
+      citations: ['Nev. Rev. Stat. §§ 123A.010 to 123A.100'],
+      summary: 'Community property state following the Uniform Premarital Agreement Act',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Nev. Rev. Stat. § 123A.040' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Nev. Rev. Stat. § 123A.080' },
+        { ...UPAA_DISCLOSURE, citation: 'Nev. Rev. Stat. § 123A.080' },
+        { ...UPAA_CONSCIONABILITY, citation: 'Nev. Rev. Stat. § 123A.080' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: UPAA_SPECIAL_RULES
+    }
+  ]
+};
@@ -0,0 +1,58 @@
+import {
+  fairness,
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const newHampshire: JurisdictionLaw = {
+  state: USState.NEW_HAMPSHIRE,
+  displayName: 'New Hampshire',
+  code: 'NH',
+  versions: [
+    {
+      version: 'NH-1988',
+      effectiveFrom: '1988-01-01',
+      citations: [
+        'N.H. Rev. Stat. Ann. § 460:2-a',
+        'In re Estate of Hollett, 150 N.H. 39 (2003)'
+      ],
+      summary: 'Agreements are valid unless obtained by duress, nondisclosure or unconscionable terms',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'N.H. Rev. Stat. Ann. § 460:2-a' },
+        { ...VOLUNTARY_EXECUTION, citation: 'In re Estate of Hollett, 150 N.H. 39 (2003)' },
+        {
+          name: 'Full Disclosure',
+          description: 'Full disclosure of assets, debts and income, or independent knowledge of them',
+          required: true,
+          category: 'disclosure',
+          citation: 'In re Estate of Hollett, 150 N.H. 39 (2003)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] }
+        },
+        {
+          name: 'Fair When Enforced',
+          description: 'Agreement must be fair when made and not unconscionable when enforced',
+          required: true,
+          category: 'fairness',
+          citation: 'In re Estate of Hollett, 150 N.H. 39 (2003)',
+          rule: fairness('Was the agreement conscionable, and have circumstances not changed so that enforcing it would be unfair?')
+        },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Presenting the agreement shortly before the wedding can amount to duress',
+        'Full disclosure is required',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
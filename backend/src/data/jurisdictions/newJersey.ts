@@ -0,0 +1,110 @@
+import {
+  counselOr,
+  disclosedOrWaived,
+  fairness,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const newJersey: JurisdictionLaw = {
+  state: USState.NEW_JERSEY,
+  displayName: 'New Jersey',
+  code: 'NJ',
+  versions: [
+    {
+      version: 'NJ-1988',
+      effectiveFrom: '1988-01-01',
+      uniformAct: 'UPAA',
+      citations: ['N.J. Stat. Ann. §§ 37:2-31 to 37:2-41'],
+      summary: 'UPAA-based; agreements are tested for unconscionability when enforced',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'N.J. Stat. Ann. § 37:2-33' },
+        { ...VOLUNTARY_EXECUTION, citation: 'N.J. Stat. Ann. § 37:2-38(b)' },
+        {
+          name: 'Full Disclosure',
+          description: 'Full and fair disclosure of earnings, property and financial obligations, unless waived in writing',
+          required: true,
+          category: 'disclosure',
+          citation: 'N.J. Stat. Ann. § 37:2-38(c)',
+          rule: disclosedOrWaived(['assets', 'debts', 'income'])
+        },
+        {
+          name: 'Independent Counsel or Written Waiver',
+          description: 'Each party must consult independent counsel or waive the opportunity in writing',
+          required: true,
+          category: 'execution',
+          citation: 'N.J. Stat. Ann. § 37:2-38(c)',
+          rule: counselOr('Did each party without counsel expressly waive, in writing, the opportunity to consult one?')
+        },
+        {
+          name: 'Not Unconscionable When Enforced',
+          description: 'Agreement must not be unconscionable at the time enforcement is sought',
+          required: true,
+          category: 'fairness',
+          citation: 'N.J. Stat. Ann. § 37:2-38(a)',
+          rule: fairness('Would enforcing the agreement leave a party without a means of reasonable support, or otherwise be unconscionable?')
+        }
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Unconscionability is judged when enforcement is sought',
+        'Counsel must be consulted or waived in writing',
+        'Cannot adversely affect child support'
+      ]
+    },
+    {
+      version: 'NJ-2013',
+      effectiveFrom: '2013-06-27',
+      uniformAct: 'UPAA',
+      citations: ['N.J. Stat. Ann. §§ 37:2-31 to 37:2-41'],
+      summary: 'UPAA-based; counsel must be consulted or waived in writing',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'N.J. Stat. Ann. § 37:2-33' },
+        { ...VOLUNTARY_EXECUTION, citation: 'N.J. Stat. Ann. § 37:2-38(b)' },
+        {
+          name: 'Full Disclosure',
+          description: 'Full and fair disclosure of earnings, property and financial obligations, unless waived in writing',
+          required: true,
+          category: 'disclosure',
+          citation: 'N.J. Stat. Ann. § 37:2-38(c)',
+          rule: disclosedOrWaived(['assets', 'debts', 'income'])
+        },
+        {
+          name: 'Independent Counsel or Written Waiver',
+          description: 'Each party must consult independent counsel or waive the opportunity in writing',
+          required: true,
+          category: 'execution',
+          citation: 'N.J. Stat. Ann. § 37:2-38(c)',
+          rule: counselOr('Did each party without counsel expressly waive, in writing, the opportunity to consult one?')
+        },
+        {
+          name: 'Not Unconscionable',
+          description: 'Agreement must not be unconscionable when executed',
+          required: true,
+          category: 'fairness',
+          citation: 'N.J. Stat. Ann. § 37:2-38(b)',
+          rule: fairness('Was the agreement conscionable when it was executed?')
+        }
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Unconscionability is judged when the agreement was executed',
+        'Counsel must be consulted or waived in writing',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
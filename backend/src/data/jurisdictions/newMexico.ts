@@ -0,0 +1,40 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  UPAA_SPECIAL_RULES,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const newMexico: JurisdictionLaw = {
+  state: USState.NEW_MEXICO,
+  displayName: 'New Mexico',
+  code: 'NM',
+  versions: [
+    {
+      version: 'NM-1995',
+      effectiveFrom: '1995-07-01',
+      uniformAct: 'UPAA',
+      citations: ['N.M. Stat. Ann. §§ 40-3A-1 to 40-3A-10'],
+      summary: 'Community property state following the Uniform Premarital Agreement Act',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'N.M. Stat. Ann. § 40-3A-3' },
+        { ...VOLUNTARY_EXECUTION, citation: 'N.M. Stat. Ann. § 40-3A-7' },
+        { ...UPAA_DISCLOSURE, citation: 'N.M. Stat. Ann. § 40-3A-7' },
+        { ...UPAA_CONSCIONABILITY, citation: 'N.M. Stat. Ann. § 40-3A-7' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: UPAA_SPECIAL_RULES
+    }
+  ]
+};
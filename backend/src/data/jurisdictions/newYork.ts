@@ -0,0 +1,75 @@
+import {
+  ACKNOWLEDGMENT,
+  fairness,
+  JurisdictionLaw,
+  WRITTEN_AND_SIGNED
+} from './common';
+import { USState } from '../../types/entities';
+
+export const newYork: JurisdictionLaw = {
+  state: USState.NEW_YORK,
+  displayName: 'New York',
+  code: 'NY',
+  versions: [
+    {
+      version: 'NY-1980',
+      effectiveFrom: '1980-07-19',
+      citations: [
+        'N.Y. Dom. Rel. Law § 236(B)(3)',
+        'Christian v. Christian, 42 N.Y.2d 63 (1977)',
+        'Matisoff v. Dobi, 90 N.Y.2d 127 (1997)'
+      ],
+      summary: 'Requires notarization and holds agreements to strict fairness standards',
+      totalSteps: 8,
+      requirements: [
+        {
+          name: 'Written Agreement',
+          description: 'Agreement must be in writing and subscribed by both parties',
+          required: true,
+          category: 'execution',
+          citation: 'N.Y. Dom. Rel. Law § 236(B)(3)',
+          rule: WRITTEN_AND_SIGNED
+        },
+        { ...ACKNOWLEDGMENT, citation: 'N.Y. Dom. Rel. Law § 236(B)(3)' },
+        {
+          name: 'Fair and Reasonable',
+          description: 'Agreement must be fair and reasonable when made and enforced',
+          required: true,
+          category: 'fairness',
+          citation: 'N.Y. Dom. Rel. Law § 236(B)(3)',
+          rule: fairness('Is the agreement fair and reasonable when made, and not unconscionable when enforced?')
+        },
+        {
+          name: 'Full Disclosure',
+          description: 'Fair disclosure of assets and financial obligations',
+          required: true,
+          category: 'disclosure',
+          citation: 'Christian v. Christian, 42 N.Y.2d 63 (1977)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts'] }
+        },
+        {
+          name: 'Independent Legal Representation',
+          description: 'Highly recommended for validity',
+          required: false,
+          category: 'execution',
+          rule: { kind: 'independent-counsel' }
+        }
+      ],
+      disclosureRequirements: [
+        'Assets and property owned',
+        'Income and earning capacity',
+        'Debts and financial obligations',
+        'Any expected inheritances'
+      ],
+      notarizationRequired: true,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Agreement must be notarized or properly acknowledged',
+        'Courts examine fairness at both execution and enforcement',
+        'Cannot completely waive maintenance without meeting strict requirements'
+      ]
+    }
+  ]
+};
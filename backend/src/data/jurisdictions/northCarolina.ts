@@ -0,0 +1,40 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  UPAA_SPECIAL_RULES,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const northCarolina: JurisdictionLaw = {
+  state: USState.NORTH_CAROLINA,
+  displayName: 'North Carolina',
+  code: 'NC',
+  versions: [
+    {
+      version: 'NC-1987',
+      effectiveFrom: '1987-07-01',
+      uniformAct: 'UPAA',
+      citations: ['N.C. Gen. Stat. §§ 52B-1 to 52B-11'],
+      summary: 'Follows the Uniform Premarital Agreement Act (UPAA)',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'N.C. Gen. Stat. § 52B-3' },
+        { ...VOLUNTARY_EXECUTION, citation: 'N.C. Gen. Stat. § 52B-7' },
+        { ...UPAA_DISCLOSURE, citation: 'N.C. Gen. Stat. § 52B-7' },
+        { ...UPAA_CONSCIONABILITY, citation: 'N.C. Gen. Stat. § 52B-7' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: UPAA_SPECIAL_RULES
+    }
+  ]
+};
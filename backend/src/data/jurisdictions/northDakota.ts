@@ -0,0 +1,67 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  UPAA_SPECIAL_RULES,
+  UPMAA_CONSCIONABILITY,
+  UPMAA_COUNSEL,
+  UPMAA_DISCLOSURE,
+  UPMAA_NOTICE,
+  UPMAA_SPECIAL_RULES,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const northDakota: JurisdictionLaw = {
+  state: USState.NORTH_DAKOTA,
+  displayName: 'North Dakota',
+  code: 'ND',
+  versions: [
+    {
+      version: 'ND-1985',
+      effectiveFrom: '1985-07-01',
+      uniformAct: 'UPAA',
+      citations: ['N.D. Cent. Code ch. 14-03.1'],
+      summary: 'Follows the Uniform Premarital Agreement Act (UPAA)',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'N.D. Cent. Code ch. 14-03.1' },
+        { ...VOLUNTARY_EXECUTION, citation: 'N.D. Cent. Code ch. 14-03.1' },
+        { ...UPAA_DISCLOSURE, citation: 'N.D. Cent. Code ch. 14-03.1' },
+        { ...UPAA_CONSCIONABILITY, citation: 'N.D. Cent. Code ch. 14-03.1' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: UPAA_SPECIAL_RULES
+    },
+    {
+      version: 'ND-2013',
+      effectiveFrom: '2013-08-01',
+      uniformAct: 'UPMAA',
+      citations: ['N.D. Cent. Code ch. 14-03.2'],
+      summary: 'Follows the Uniform Premarital and Marital Agreements Act, with notice of waived rights',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'N.D. Cent. Code ch. 14-03.2' },
+        { ...VOLUNTARY_EXECUTION, citation: 'N.D. Cent. Code ch. 14-03.2' },
+        { ...UPMAA_COUNSEL, citation: 'N.D. Cent. Code ch. 14-03.2' },
+        { ...UPMAA_NOTICE, citation: 'N.D. Cent. Code ch. 14-03.2' },
+        { ...UPMAA_DISCLOSURE, citation: 'N.D. Cent. Code ch. 14-03.2' },
+        { ...UPMAA_CONSCIONABILITY, citation: 'N.D. Cent. Code ch. 14-03.2' }
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: UPMAA_SPECIAL_RULES
+    }
+  ]
+};
@@ -0,0 +1,58 @@
+import {
+  fairness,
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const ohio: JurisdictionLaw = {
+  state: USState.OHIO,
+  displayName: 'Ohio',
+  code: 'OH',
+  versions: [
+    {
+      version: 'OH-1984',
+      effectiveFrom: '1984-01-01',
+      citations: [
+        'Gross v. Gross, 11 Ohio St. 3d 99 (1984)',
+        'Ohio Rev. Code § 3105.171'
+      ],
+      summary: 'Agreement must be free of overreaching, fully disclosed, and must not promote divorce',
+      totalSteps: 7,
+      requirements: [
+        WRITTEN_AGREEMENT,
+        { ...VOLUNTARY_EXECUTION, citation: 'Gross v. Gross, 11 Ohio St. 3d 99 (1984)' },
+        {
+          name: 'Full Disclosure',
+          description: 'Full disclosure of assets, debts and income, or independent knowledge of them',
+          required: true,
+          category: 'disclosure',
+          citation: 'Gross v. Gross, 11 Ohio St. 3d 99 (1984)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] }
+        },
+        {
+          name: 'Does Not Promote Divorce',
+          description: 'Terms must not promote or encourage divorce; support terms are reviewed for conscionability at divorce',
+          required: true,
+          category: 'fairness',
+          citation: 'Gross v. Gross, 11 Ohio St. 3d 99 (1984)',
+          rule: fairness('Are the terms free of incentives to divorce, and are the support terms conscionable today?')
+        },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Agreement must be entered without fraud, duress, coercion or overreaching',
+        'Support provisions are reviewed for unconscionability at divorce',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
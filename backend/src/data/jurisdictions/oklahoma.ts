@@ -0,0 +1,51 @@
+import {
+  FAIR_AND_REASONABLE,
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const oklahoma: JurisdictionLaw = {
+  state: USState.OKLAHOMA,
+  displayName: 'Oklahoma',
+  code: 'OK',
+  versions: [
+    {
+      version: 'OK-1960',
+      effectiveFrom: '1960-01-01',
+      citations: [
+        'Hudson v. Hudson, 1960 OK 120, 350 P.2d 596',
+        'Okla. Stat. tit. 15, § 136'
+      ],
+      summary: 'No premarital agreement statute; the agreement must be fair or follow full disclosure',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Okla. Stat. tit. 15, § 136' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Hudson v. Hudson, 1960 OK 120, 350 P.2d 596' },
+        {
+          name: 'Full Disclosure',
+          description: 'Full disclosure of assets, debts and income, or independent knowledge of them',
+          required: true,
+          category: 'disclosure',
+          citation: 'Hudson v. Hudson, 1960 OK 120, 350 P.2d 596',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] }
+        },
+        { ...FAIR_AND_REASONABLE, citation: 'Hudson v. Hudson, 1960 OK 120, 350 P.2d 596' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Courts apply contract principles; there is no premarital agreement statute',
+        'An unfair agreement stands only after full disclosure',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
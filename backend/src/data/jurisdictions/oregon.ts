@@ -0,0 +1,40 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  UPAA_SPECIAL_RULES,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const oregon: JurisdictionLaw = {
+  state: USState.OREGON,
+  displayName: 'Oregon',
+  code: 'OR',
+  versions: [
+    {
+      version: 'OR-1987',
+      effectiveFrom: '1987-01-01',
+      uniformAct: 'UPAA',
+      citations: ['Or. Rev. Stat. §§ 108.700 to 108.740'],
+      summary: 'Follows the Uniform Premarital Agreement Act (UPAA)',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Or. Rev. Stat. § 108.710' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Or. Rev. Stat. § 108.725' },
+        { ...UPAA_DISCLOSURE, citation: 'Or. Rev. Stat. § 108.725' },
+        { ...UPAA_CONSCIONABILITY, citation: 'Or. Rev. Stat. § 108.725' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: UPAA_SPECIAL_RULES
+    }
+  ]
+};
@@ -0,0 +1,43 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const pennsylvania: JurisdictionLaw = {
+  state: USState.PENNSYLVANIA,
+  displayName: 'Pennsylvania',
+  code: 'PA',
+  versions: [
+    {
+      version: 'PA-1990',
+      effectiveFrom: '1990-01-01',
+      citations: [
+        'Simeone v. Simeone, 525 Pa. 392 (1990)',
+        '23 Pa. Cons. Stat. § 3106'
+      ],
+      summary: 'Enforced like any contract after full disclosure; courts do not review the terms for fairness',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: '23 Pa. Cons. Stat. § 3106(a)' },
+        { ...VOLUNTARY_EXECUTION, citation: '23 Pa. Cons. Stat. § 3106(a)(1)' },
+        { ...UPAA_DISCLOSURE, citation: '23 Pa. Cons. Stat. § 3106(a)(2)' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Courts do not review the agreement for reasonableness',
+        'Full and fair disclosure is required unless waived in writing',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
@@ -0,0 +1,43 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const rhodeIsland: JurisdictionLaw = {
+  state: USState.RHODE_ISLAND,
+  displayName: 'Rhode Island',
+  code: 'RI',
+  versions: [
+    {
+      version: 'RI-1987',
+      effectiveFrom: '1987-01-01',
+      uniformAct: 'UPAA',
+      citations: ['R.I. Gen. Laws §§ 15-17-1 to 15-17-11'],
+      summary: 'Follows the Uniform Premarital Agreement Act (UPAA)',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'R.I. Gen. Laws § 15-17-2' },
+        { ...VOLUNTARY_EXECUTION, citation: 'R.I. Gen. Laws § 15-17-6' },
+        { ...UPAA_DISCLOSURE, citation: 'R.I. Gen. Laws § 15-17-6' },
+        { ...UPAA_CONSCIONABILITY, citation: 'R.I. Gen. Laws § 15-17-6' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Follows the Uniform Premarital Agreement Act',
+        'Unenforceable only if both unconscionable when executed and lacking disclosure',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
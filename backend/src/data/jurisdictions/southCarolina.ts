@@ -0,0 +1,58 @@
+import {
+  fairness,
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const southCarolina: JurisdictionLaw = {
+  state: USState.SOUTH_CAROLINA,
+  displayName: 'South Carolina',
+  code: 'SC',
+  versions: [
+    {
+      version: 'SC-2003',
+      effectiveFrom: '2003-01-01',
+      citations: [
+        'Hardee v. Hardee, 355 S.C. 382 (2003)',
+        'S.C. Code Ann. § 32-3-10'
+      ],
+      summary: 'No premarital agreement statute; courts apply a three-part fairness test',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'S.C. Code Ann. § 32-3-10' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Hardee v. Hardee, 355 S.C. 382 (2003)' },
+        {
+          name: 'Full Disclosure',
+          description: 'Full disclosure of assets, debts and income, or independent knowledge of them',
+          required: true,
+          category: 'disclosure',
+          citation: 'Hardee v. Hardee, 355 S.C. 382 (2003)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] }
+        },
+        {
+          name: 'Not Unconscionable',
+          description: 'Agreement must not be unconscionable, or unfair to enforce after a change in circumstances',
+          required: true,
+          category: 'fairness',
+          citation: 'Hardee v. Hardee, 355 S.C. 382 (2003)',
+          rule: fairness('Is the agreement conscionable, and have circumstances not changed so that enforcing it would be unfair?')
+        },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Courts apply the three-part Hardee test',
+        'Nondisclosure of material facts makes the agreement unenforceable',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
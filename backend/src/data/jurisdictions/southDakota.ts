@@ -0,0 +1,40 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  UPAA_SPECIAL_RULES,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const southDakota: JurisdictionLaw = {
+  state: USState.SOUTH_DAKOTA,
+  displayName: 'South Dakota',
+  code: 'SD',
+  versions: [
+    {
+      version: 'SD-1989',
+      effectiveFrom: '1989-07-01',
+      uniformAct: 'UPAA',
+      citations: ['S.D. Codified Laws §§ 25-2-16 to 25-2-25'],
+      summary: 'Follows the Uniform Premarital Agreement Act (UPAA)',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'S.D. Codified Laws §§ 25-2-16 to 25-2-25' },
+        { ...VOLUNTARY_EXECUTION, citation: 'S.D. Codified Laws §§ 25-2-16 to 25-2-25' },
+        { ...UPAA_DISCLOSURE, citation: 'S.D. Codified Laws §§ 25-2-16 to 25-2-25' },
+        { ...UPAA_CONSCIONABILITY, citation: 'S.D. Codified Laws §§ 25-2-16 to 25-2-25' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: UPAA_SPECIAL_RULES
+    }
+  ]
+};
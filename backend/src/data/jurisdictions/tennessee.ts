@@ -0,0 +1,58 @@
+import {
+  fairness,
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const tennessee: JurisdictionLaw = {
+  state: USState.TENNESSEE,
+  displayName: 'Tennessee',
+  code: 'TN',
+  versions: [
+    {
+      version: 'TN-1996',
+      effectiveFrom: '1996-01-01',
+      citations: [
+        'Tenn. Code Ann. § 36-3-501',
+        'Randolph v. Randolph, 937 S.W.2d 815 (Tenn. 1996)'
+      ],
+      summary: 'Agreement must be entered freely, knowledgeably and in good faith',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Tenn. Code Ann. § 36-3-501' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Tenn. Code Ann. § 36-3-501' },
+        {
+          name: 'Knowledgeable Execution',
+          description: 'Full disclosure of the other party\'s holdings, or independent knowledge of them',
+          required: true,
+          category: 'disclosure',
+          citation: 'Randolph v. Randolph, 937 S.W.2d 815 (Tenn. 1996)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] }
+        },
+        {
+          name: 'Good Faith',
+          description: 'Agreement must be entered in good faith, without duress or undue influence',
+          required: true,
+          category: 'fairness',
+          citation: 'Tenn. Code Ann. § 36-3-501',
+          rule: fairness('Was the agreement entered in good faith?')
+        },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Knowledgeable means full disclosure or independent knowledge',
+        'Courts do not review the terms for fairness',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
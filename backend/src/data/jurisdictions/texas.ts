@@ -0,0 +1,40 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  UPAA_SPECIAL_RULES,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const texas: JurisdictionLaw = {
+  state: USState.TEXAS,
+  displayName: 'Texas',
+  code: 'TX',
+  versions: [
+    {
+      version: 'TX-1987',
+      effectiveFrom: '1987-09-01',
+      uniformAct: 'UPAA',
+      citations: ['Tex. Fam. Code §§ 4.001 to 4.010'],
+      summary: 'Community property state following the Uniform Premarital Agreement Act',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Tex. Fam. Code § 4.002' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Tex. Fam. Code § 4.006' },
+        { ...UPAA_DISCLOSURE, citation: 'Tex. Fam. Code § 4.006' },
+        { ...UPAA_CONSCIONABILITY, citation: 'Tex. Fam. Code § 4.006' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: UPAA_SPECIAL_RULES
+    }
+  ]
+};
@@ -0,0 +1,40 @@
+import {
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  UPAA_CONSCIONABILITY,
+  UPAA_DISCLOSURE,
+  UPAA_SPECIAL_RULES,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const utah: JurisdictionLaw = {
+  state: USState.UTAH,
+  displayName: 'Utah',
+  code: 'UT',
+  versions: [
+    {
+      version: 'UT-1994',
+      effectiveFrom: '1994-01-01',
+      uniformAct: 'UPAA',
+      citations: ['Utah Code Ann. §§ 30-8-1 to 30-8-9'],
+      summary: 'Follows the Uniform Premarital Agreement Act (UPAA)',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Utah Code Ann. § 30-8-3' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Utah Code Ann. § 30-8-6' },
+        { ...UPAA_DISCLOSURE, citation: 'Utah Code Ann. § 30-8-6' },
+        { ...UPAA_CONSCIONABILITY, citation: 'Utah Code Ann. § 30-8-6' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: UPAA_SPECIAL_RULES
+    }
+  ]
+};
@@ -0,0 +1,51 @@
+import {
+  FAIR_AND_REASONABLE,
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const vermont: JurisdictionLaw = {
+  state: USState.VERMONT,
+  displayName: 'Vermont',
+  code: 'VT',
+  versions: [
+    {
+      version: 'VT-1991',
+      effectiveFrom: '1991-01-01',
+      citations: [
+        'Bassler v. Bassler, 156 Vt. 353 (1991)',
+        'Vt. Stat. Ann. tit. 12, § 181'
+      ],
+      summary: 'No premarital agreement statute; disclosure and fairness are reviewed case by case',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Vt. Stat. Ann. tit. 12, § 181' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Bassler v. Bassler, 156 Vt. 353 (1991)' },
+        {
+          name: 'Full Disclosure',
+          description: 'Full disclosure of assets, debts and income, or independent knowledge of them',
+          required: true,
+          category: 'disclosure',
+          citation: 'Bassler v. Bassler, 156 Vt. 353 (1991)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] }
+        },
+        { ...FAIR_AND_REASONABLE, citation: 'Bassler v. Bassler, 156 Vt. 353 (1991)' },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Courts apply contract principles; there is no premarital agreement statute',
+        'Full disclosure is required',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
@@ -0,0 +1,65 @@
+import {
+  fairness,
+  JurisdictionLaw,
+  VOLUNTARY,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const virginia: JurisdictionLaw = {
+  state: USState.VIRGINIA,
+  displayName: 'Virginia',
+  code: 'VA',
+  versions: [
+    {
+      version: 'VA-1986',
+      effectiveFrom: '1986-07-01',
+      uniformAct: 'UPAA',
+      citations: ['Va. Code Ann. §§ 20-147 to 20-155'],
+      summary: 'Emphasizes voluntariness and full disclosure',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Va. Code Ann. § 20-149' },
+        {
+          name: 'Voluntary Execution',
+          description: 'Both parties must enter the agreement voluntarily without duress',
+          required: true,
+          category: 'execution',
+          citation: 'Va. Code Ann. § 20-151(A)(1)',
+          rule: VOLUNTARY
+        },
+        {
+          name: 'Full and Fair Disclosure',
+          description: 'Complete disclosure of assets, debts, and income',
+          required: true,
+          category: 'disclosure',
+          citation: 'Va. Code Ann. § 20-151(A)(2)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] }
+        },
+        {
+          name: 'Conscionable Agreement',
+          description: 'Agreement must not be unconscionable',
+          required: true,
+          category: 'fairness',
+          citation: 'Va. Code Ann. § 20-151(A)(2)',
+          rule: fairness('Is the agreement free of unconscionable terms?')
+        }
+      ],
+      disclosureRequirements: [
+        'All assets and their values',
+        'All debts and liabilities',
+        'Income and earning capacity',
+        'Any expected inheritances or gifts'
+      ],
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Emphasizes voluntariness and full disclosure',
+        'Court will examine unconscionability',
+        'Cannot adversely affect child support obligations'
+      ]
+    }
+  ]
+};
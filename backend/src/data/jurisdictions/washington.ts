@@ -0,0 +1,54 @@
+import {
+  FAIR_AND_REASONABLE,
+  JurisdictionLaw,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const washington: JurisdictionLaw = {
+  state: USState.WASHINGTON,
+  displayName: 'Washington',
+  code: 'WA',
+  versions: [
+    {
+      version: 'WA-1986',
+      effectiveFrom: '1986-01-01',
+      citations: [
+        'In re Marriage of Matson, 107 Wn.2d 479 (1986)',
+        'In re Marriage of Bernard, 165 Wn.2d 895 (2009)',
+        'Wash. Rev. Code § 26.16.120'
+      ],
+      summary: 'Community property state with comprehensive disclosure requirements',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Wash. Rev. Code § 26.16.120' },
+        { ...VOLUNTARY_EXECUTION, citation: 'In re Marriage of Matson, 107 Wn.2d 479 (1986)' },
+        {
+          name: 'Full Financial Disclosure',
+          description: 'Complete and accurate disclosure of all assets and debts',
+          required: true,
+          category: 'disclosure',
+          citation: 'In re Marriage of Matson, 107 Wn.2d 479 (1986)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts'] }
+        },
+        { ...FAIR_AND_REASONABLE, citation: 'In re Marriage of Bernard, 165 Wn.2d 895 (2009)' }
+      ],
+      disclosureRequirements: [
+        'Complete list of assets with fair market values',
+        'All debts and liabilities',
+        'Income information',
+        'Any business interests'
+      ],
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Community property state - agreement affects property rights',
+        'Courts will not enforce unconscionable agreements',
+        'Full disclosure is strictly required'
+      ]
+    }
+  ]
+};
@@ -0,0 +1,63 @@
+import {
+  JurisdictionLaw,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT,
+  WRITTEN_AND_SIGNED
+} from './common';
+import { USState } from '../../types/entities';
+
+export const washingtonDc: JurisdictionLaw = {
+  state: USState.WASHINGTON_DC,
+  displayName: 'Washington D.C.',
+  code: 'DC',
+  versions: [
+    {
+      version: 'DC-1996',
+      effectiveFrom: '1996-01-01',
+      uniformAct: 'UPAA',
+      citations: ['D.C. Code §§ 46-501 to 46-510'],
+      summary: 'Follows the Uniform Premarital Agreement Act (UPAA)',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'D.C. Code § 46-502' },
+        { ...VOLUNTARY_EXECUTION, citation: 'D.C. Code § 46-506(a)(1)' },
+        {
+          name: 'UPAA Compliance',
+          description: 'Must comply with Uniform Premarital Agreement Act',
+          required: true,
+          category: 'execution',
+          citation: 'D.C. Code § 46-503',
+          rule: {
+            kind: 'all',
+            rules: [
+              WRITTEN_AND_SIGNED,
+              { kind: 'manual-review', question: 'Do the terms stay within what the Act allows, leaving child support unaffected?' }
+            ]
+          }
+        },
+        {
+          name: 'Financial Disclosure',
+          description: 'Adequate disclosure of assets and obligations',
+          required: true,
+          category: 'disclosure',
+          citation: 'D.C. Code § 46-506(a)(2)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts'] }
+        }
+      ],
+      disclosureRequirements: [
+        'Assets and property',
+        'Debts and financial obligations',
+        'Income sources'
+      ],
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Follows Uniform Premarital Agreement Act',
+        'Agreement unconscionable if lacking disclosure',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
@@ -0,0 +1,56 @@
+import {
+  counselOr,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const westVirginia: JurisdictionLaw = {
+  state: USState.WEST_VIRGINIA,
+  displayName: 'West Virginia',
+  code: 'WV',
+  versions: [
+    {
+      version: 'WV-2009',
+      effectiveFrom: '2009-01-01',
+      citations: [
+        'Ware v. Ware, 224 W. Va. 599 (2009)',
+        'Gant v. Gant, 174 W. Va. 740 (1985)'
+      ],
+      summary: 'An agreement signed without counsel must show that party understood the rights waived',
+      totalSteps: 7,
+      requirements: [
+        WRITTEN_AGREEMENT,
+        { ...VOLUNTARY_EXECUTION, citation: 'Gant v. Gant, 174 W. Va. 740 (1985)' },
+        {
+          name: 'Full Disclosure',
+          description: 'Full disclosure of assets, debts and income, or independent knowledge of them',
+          required: true,
+          category: 'disclosure',
+          citation: 'Gant v. Gant, 174 W. Va. 740 (1985)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] }
+        },
+        {
+          name: 'Independent Counsel or Informed Waiver',
+          description: 'A party without counsel must have understood the rights the agreement waived',
+          required: true,
+          category: 'execution',
+          citation: 'Ware v. Ware, 224 W. Va. 599 (2009)',
+          rule: counselOr('Did each party without counsel understand the rights the agreement waived?')
+        }
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Agreements are presumed valid when both parties had counsel',
+        'Without counsel, the party relying on the agreement must show informed consent',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
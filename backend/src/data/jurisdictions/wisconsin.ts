@@ -0,0 +1,59 @@
+import {
+  fairness,
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const wisconsin: JurisdictionLaw = {
+  state: USState.WISCONSIN,
+  displayName: 'Wisconsin',
+  code: 'WI',
+  versions: [
+    {
+      version: 'WI-1986',
+      effectiveFrom: '1986-01-01',
+      citations: [
+        'Wis. Stat. § 766.58',
+        'Wis. Stat. § 767.61(3)(L)',
+        'Button v. Button, 131 Wis. 2d 84 (1986)'
+      ],
+      summary: 'Marital property state; agreements must be fair when made and when divorce is sought',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Wis. Stat. § 766.58' },
+        { ...VOLUNTARY_EXECUTION, citation: 'Button v. Button, 131 Wis. 2d 84 (1986)' },
+        {
+          name: 'Full Disclosure',
+          description: 'Full disclosure of assets, debts and income, or independent knowledge of them',
+          required: true,
+          category: 'disclosure',
+          citation: 'Button v. Button, 131 Wis. 2d 84 (1986)',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] }
+        },
+        {
+          name: 'Fair When Enforced',
+          description: 'Agreement must be fair when made and at the time of divorce',
+          required: true,
+          category: 'fairness',
+          citation: 'Button v. Button, 131 Wis. 2d 84 (1986)',
+          rule: fairness('Was the agreement fair when made, and is it still fair to both parties at divorce?')
+        },
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Marital property state - agreement affects property rights',
+        'Courts review fairness at execution and at divorce',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
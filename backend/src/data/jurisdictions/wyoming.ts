@@ -0,0 +1,47 @@
+import {
+  FAIR_AND_REASONABLE,
+  INDEPENDENT_COUNSEL,
+  JurisdictionLaw,
+  STANDARD_DISCLOSURE,
+  VOLUNTARY_EXECUTION,
+  WRITTEN_AGREEMENT
+} from './common';
+import { USState } from '../../types/entities';
+
+export const wyoming: JurisdictionLaw = {
+  state: USState.WYOMING,
+  displayName: 'Wyoming',
+  code: 'WY',
+  versions: [
+    {
+      version: 'WY-1980',
+      effectiveFrom: '1980-01-01',
+      citations: ['Wyo. Stat. Ann. § 1-23-105'],
+      summary: 'No premarital agreement statute; agreements are reviewed as contracts',
+      totalSteps: 7,
+      requirements: [
+        { ...WRITTEN_AGREEMENT, citation: 'Wyo. Stat. Ann. § 1-23-105' },
+        VOLUNTARY_EXECUTION,
+        {
+          name: 'Full Disclosure',
+          description: 'Full disclosure of assets, debts and income, or independent knowledge of them',
+          required: true,
+          category: 'disclosure',
+          rule: { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] }
+        },
+        FAIR_AND_REASONABLE,
+        INDEPENDENT_COUNSEL
+      ],
+      disclosureRequirements: STANDARD_DISCLOSURE,
+      notarizationRequired: false,
+      witnessRequired: false,
+      waitingPeriodText: 'None',
+      attorneyReviewRecommended: true,
+      specialRules: [
+        'Courts apply contract principles; there is no premarital agreement statute',
+        'Full disclosure is expected',
+        'Cannot adversely affect child support'
+      ]
+    }
+  ]
+};
@@ -12,11 +12,18 @@ import authRoutes from './routes/auth';
 import prenupRoutes from './routes/prenups';
 import documentRoutes from './routes/documents';
 import financialRoutes from './routes/financial';
+import invitationRoutes from './routes/invitations';
+import adminRoutes from './routes/admin';
+import devRoutes from './routes/dev';
 
 // Create Express app for Lambda
 const createExpressApp = () => {
   const app = express();
 
+  // API Gateway appends the caller's address to X-Forwarded-For; trusting that
+  // one hop gives rate limiting and login throttling the real client IP
+  app.set('trust proxy', 1);
+
   // Security middleware
   app.use(helmet());
   app.use(cors({
@@ -50,6 +57,11 @@ const createExpressApp = () => {
   app.use('/api/prenups', prenupRoutes);
   app.use('/api/documents', documentRoutes);
   app.use('/api/financial', financialRoutes);
+  app.use('/api/invitations', invitationRoutes);
+  app.use('/api/admin', adminRoutes);
+  if (config.nodeEnv === 'development' || config.nodeEnv === 'test') {
+    app.use('/api/dev', devRoutes);
+  }
 
   // Error handling
   app.use(errorHandler);
@@ -0,0 +1,16 @@
+import { AuthRequest } from './auth';
+import { auditService, AuditActor, AuditRecord } from '../services/auditService';
+import { AuditEvent } from '../types/entities';
+
+// The signed-in user and the address and browser the request came from
+export const auditActor = (req: AuthRequest): AuditActor => ({
+  userId: req.user!.id,
+  ipAddress: req.ip,
+  userAgent: req.get('User-Agent')
+});
+
+// Records an action of the signed-in user on a prenup in its audit trail.
+// Services that take the actor instead record the event in the same
+// transaction as their change.
+export const audit = (req: AuthRequest, prenupId: string, record: AuditRecord): Promise<AuditEvent> =>
+  auditService.record(prenupId, auditActor(req), record);
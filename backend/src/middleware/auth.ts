@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { userService } from '../services/userService';
+import { sessionService } from '../services/sessionService';
+import { PrenupAccess } from '../services/participantService';
 import { createError } from './errorHandler';
 
 export interface AuthRequest extends Request {
@@ -7,7 +9,10 @@ export interface AuthRequest extends Request {
     id: string;
     email: string;
     role: string;
+    sessionId: string;
   };
+  // Set by authorizePrenup
+  prenupAccess?: PrenupAccess;
 }
 
 export const authenticate = async (req: AuthRequest, res: Response, next: NextFunction) => {
@@ -19,9 +24,15 @@ export const authenticate = async (req: AuthRequest, res: Response, next: NextFu
     }
 
     const decoded = userService.verifyToken(token);
-    if (!decoded) {
+    if (!decoded || !decoded.jti) {
       throw createError('Invalid token.', 401);
     }
+
+    // The token stops working as soon as its session is signed out
+    const session = await sessionService.getActive(decoded.jti, decoded.id);
+    if (!session) {
+      throw createError('Session expired or revoked.', 401);
+    }
     
     const user = await userService.getUserById(decoded.id);
 
@@ -29,10 +40,17 @@ export const authenticate = async (req: AuthRequest, res: Response, next: NextFu
       throw createError('Invalid token.', 401);
     }
 
+    if (user.disabled) {
+      throw createError('Account disabled.', 403);
+    }
+
+    await sessionService.touch(session, { ip: req.ip });
+
     req.user = {
       id: user.id,
       email: user.email,
-      role: user.role
+      role: user.role,
+      sessionId: session.id
     };
     next();
   } catch (error: any) {
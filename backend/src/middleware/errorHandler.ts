@@ -4,6 +4,7 @@ import { logger } from '../utils/logger';
 export interface ApiError extends Error {
   statusCode?: number;
   isOperational?: boolean;
+  data?: any; // Returned to the client alongside the message
 }
 
 export const errorHandler = (
@@ -25,14 +26,16 @@ export const errorHandler = (
   res.status(statusCode).json({
     success: false,
     error: message,
+    ...(err.isOperational && err.data && { data: err.data }),
     ...(process.env.NODE_ENV === 'development' && { stack: err.stack })
   });
 };
 
-export const createError = (message: string, statusCode: number = 500): ApiError => {
+export const createError = (message: string, statusCode: number = 500, data?: any): ApiError => {
   const error = new Error(message) as ApiError;
   error.statusCode = statusCode;
   error.isOperational = true;
+  error.data = data;
   return error;
 };
 
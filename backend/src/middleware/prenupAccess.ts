@@ -0,0 +1,44 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth';
+import { ApiError, createError } from './errorHandler';
+import { participantService, PrenupAction, PrenupAccessDeniedError } from '../services/participantService';
+
+// The prenup a request acts on and, for disclosures, whose data it reads
+export interface PrenupTarget {
+  prenupId: string;
+  subjectId?: string;
+  // Reported instead of "Prenup not found" to users outside the prenup
+  notFoundMessage?: string;
+}
+
+export type TargetResolver = (req: AuthRequest) => Promise<PrenupTarget | null> | PrenupTarget | null;
+
+// The prenup named by the route (`:id` or `:prenupId`) or the request body
+const fromRequest: TargetResolver = req => {
+  const prenupId = req.params.id || req.params.prenupId || req.body?.prenupId;
+  return typeof prenupId === 'string' && prenupId ? { prenupId } : null;
+};
+
+// 404 for users outside the prenup, 403 for participants lacking the permission
+export const accessDeniedError = (error: PrenupAccessDeniedError, notFoundMessage?: string): ApiError =>
+  error.visible
+    ? createError(error.message, 403)
+    : createError(notFoundMessage || error.message, 404);
+
+// Lets the request through when the signed-in user may take the action on
+// the target prenup. The resolved access is left on `req.prenupAccess`.
+export const authorizePrenup = (action: PrenupAction, resolveTarget: TargetResolver = fromRequest) =>
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    let target: PrenupTarget | null = null;
+    try {
+      target = await resolveTarget(req);
+      if (!target) {
+        throw createError('Prenup ID required', 400);
+      }
+
+      req.prenupAccess = await participantService.authorize(target.prenupId, req.user!.id, action, target.subjectId);
+      next();
+    } catch (error) {
+      next(error instanceof PrenupAccessDeniedError ? accessDeniedError(error, target?.notFoundMessage) : error);
+    }
+  };
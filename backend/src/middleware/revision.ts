@@ -0,0 +1,32 @@
+import express from 'express';
+import { createError } from './errorHandler';
+import { BaseEntity, currentRevision } from '../services/dynamodb';
+
+// ETags are the entity revision, e.g. "3"
+export const setETag = (res: express.Response, entity: BaseEntity): void => {
+  res.setHeader('ETag', `"${currentRevision(entity)}"`);
+};
+
+// Revision the client last saw, taken from If-Match or a `revision` body field
+export const readExpectedRevision = (req: express.Request, bodyRevision?: number): number | undefined => {
+  const ifMatch = req.headers['if-match'];
+
+  if (ifMatch) {
+    const match = /^(?:W\/)?"?(\d+)"?$/.exec(ifMatch.trim());
+    if (!match) {
+      throw createError('If-Match must be a revision ETag', 400);
+    }
+    return parseInt(match[1]);
+  }
+
+  return bodyRevision;
+};
+
+// Updates without a revision are rejected so edits are never applied blindly
+export const requireExpectedRevision = (req: express.Request, bodyRevision?: number): number => {
+  const revision = readExpectedRevision(req, bodyRevision);
+  if (revision === undefined) {
+    throw createError('If-Match header or revision is required', 428);
+  }
+  return revision;
+};
@@ -0,0 +1,248 @@
+import express from 'express';
+import Joi from 'joi';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import { createError, asyncHandler } from '../middleware/errorHandler';
+import { audit, auditActor } from '../middleware/audit';
+import { adminService } from '../services/adminService';
+import { auditService, ACCOUNT_TRAIL_ID } from '../services/auditService';
+import { prenupService } from '../services/prenupService';
+import { prenupLifecycle } from '../services/prenupLifecycle';
+import { EntityType, LATEST_VERSION, RevisionConflictError, createPartitionKey, currentRevision } from '../services/dynamodb';
+import { AuditAction, NotarizationSource, UserRole } from '../types/entities';
+
+// Support console; every route requires the ADMIN role
+const router = express.Router();
+router.use(authenticate, authorize([UserRole.ADMIN]));
+
+const listUsersSchema = Joi.object({
+  search: Joi.string().trim().min(2),
+  limit: Joi.number().integer().min(1).max(100).default(25),
+  cursor: Joi.string()
+});
+
+const roleSchema = Joi.object({
+  role: Joi.string().valid(UserRole.USER, UserRole.ATTORNEY).required()
+});
+
+const notarizationSchema = Joi.object({
+  notaryName: Joi.string().required(),
+  commissionNumber: Joi.string(),
+  notarizedAt: Joi.string().isoDate().required()
+});
+
+// Page keys travel to the client as opaque cursors
+const encodeCursor = (lastKey: any) =>
+  lastKey ? Buffer.from(JSON.stringify(lastKey)).toString('base64url') : null;
+
+// The key of a user in the entity type index: its table key plus the index
+// key. The query starts from whatever the cursor holds, so nothing else is
+// passed on.
+const USER_PAGE_KEY_ATTRIBUTES = ['PK', 'SK', 'entityType'];
+
+const isUserPageKey = (key: any): boolean =>
+  !!key && typeof key === 'object' && !Array.isArray(key) &&
+  Object.keys(key).sort().join() === USER_PAGE_KEY_ATTRIBUTES.join() &&
+  typeof key.PK === 'string' && key.PK.startsWith(createPartitionKey(EntityType.USER, '')) &&
+  key.SK === LATEST_VERSION &&
+  key.entityType === EntityType.USER;
+
+const decodeCursor = (cursor?: string) => {
+  if (!cursor) {
+    return undefined;
+  }
+
+  let key;
+  try {
+    key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw createError('Invalid cursor', 400);
+  }
+  if (!isUserPageKey(key)) {
+    throw createError('Invalid cursor', 400);
+  }
+  return key;
+};
+
+// Maps admin operation errors to API errors
+const adminAction = async <T>(action: () => Promise<T>): Promise<T> => {
+  try {
+    return await action();
+  } catch (error: any) {
+    switch (error.message) {
+      case 'User not found':
+      case 'Invitation not found':
+      case 'Prenup not found':
+        throw createError(error.message, 404);
+    }
+    if (error instanceof RevisionConflictError) {
+      throw createError('Record was modified by someone else', 409);
+    }
+    throw createError(error.message, 400);
+  }
+};
+
+// List users a page at a time, or search them by email or name
+router.get('/users', asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { error, value } = listUsersSchema.validate(req.query);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const { users, lastKey } = await adminService.listUsers(value.search, value.limit, decodeCursor(value.cursor));
+
+  res.json({
+    success: true,
+    data: { users, nextCursor: encodeCursor(lastKey) }
+  });
+}));
+
+// A user and the prenups they take part in
+router.get('/users/:id', asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const result = await adminService.getUser(req.params.id);
+  if (!result) {
+    throw createError('User not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: result
+  });
+}));
+
+// Disable an account: sign-in is refused and every session ends
+router.post('/users/:id/disable', asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const user = await adminAction(() => adminService.disableUser(req.params.id, auditActor(req)));
+
+  res.json({
+    success: true,
+    data: { user },
+    message: 'Account disabled'
+  });
+}));
+
+router.post('/users/:id/enable', asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const user = await adminAction(() => adminService.enableUser(req.params.id, auditActor(req)));
+
+  res.json({
+    success: true,
+    data: { user },
+    message: 'Account enabled'
+  });
+}));
+
+// Grant the attorney role after checking the attorney's standing, or take it back
+router.post('/users/:id/role', asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { error, value } = roleSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const user = await adminAction(() => adminService.setRole(req.params.id, value.role, auditActor(req)));
+
+  res.json({
+    success: true,
+    data: { user },
+    message: 'Role updated'
+  });
+}));
+
+// Prenup metadata, participants, invitations and storage; no content or financials
+router.get('/prenups/:id', asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const overview = await adminService.getPrenupOverview(req.params.id);
+  if (!overview) {
+    throw createError('Prenup not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: overview
+  });
+}));
+
+// Administrators' actions on accounts: disabling, enabling and role changes
+router.get('/audit/accounts', asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const trail = await auditService.exportTrail(ACCOUNT_TRAIL_ID);
+  await audit(req, ACCOUNT_TRAIL_ID, {
+    action: AuditAction.AUDIT_EXPORTED,
+    targetType: EntityType.AUDIT_TRAIL,
+    targetId: ACCOUNT_TRAIL_ID,
+    details: { eventCount: trail.events.length, lastHash: trail.verification.lastHash }
+  });
+
+  res.json({
+    success: true,
+    data: trail
+  });
+}));
+
+// Audit trail of a prenup, for disputes and support
+router.get('/prenups/:id/audit', asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { id } = req.params;
+
+  const prenup = await prenupService.getPrenupById(id);
+  if (!prenup) {
+    throw createError('Prenup not found', 404);
+  }
+
+  const trail = await auditService.exportTrail(id);
+  await audit(req, id, {
+    action: AuditAction.AUDIT_EXPORTED,
+    targetType: EntityType.AUDIT_TRAIL,
+    targetId: id,
+    details: { eventCount: trail.events.length, lastHash: trail.verification.lastHash }
+  });
+
+  res.json({
+    success: true,
+    data: trail
+  });
+}));
+
+// Record a notarization the administrator has checked, e.g. against a copy
+// sent in by the notary
+router.post('/prenups/:id/notarization', asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { error, value } = notarizationSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const prenup = await adminAction(() =>
+    prenupLifecycle.recordNotarization(req.params.id, auditActor(req), value, NotarizationSource.ADMIN)
+  );
+
+  res.json({
+    success: true,
+    data: { notarization: prenup.notarization },
+    message: 'Notarization recorded'
+  });
+}));
+
+// Expire a pending partner or counsel invitation immediately
+router.post('/invitations/:invitationId/expire', asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const expired = await adminAction(() => adminService.expireInvitation(req.params.invitationId, req.user!.id));
+  await audit(req, expired.invitation.prenupId, {
+    action: AuditAction.INVITATION_EXPIRED,
+    targetType: expired.kind === 'partner' ? EntityType.PARTNER_INVITATION : EntityType.PRENUP_PARTICIPANT,
+    targetId: expired.invitation.id,
+    targetRevision: currentRevision(expired.invitation),
+    details: { kind: expired.kind, email: expired.invitation.email }
+  });
+
+  res.json({
+    success: true,
+    data: expired,
+    message: 'Invitation expired'
+  });
+}));
+
+// Document storage used per prenup, largest first
+router.get('/storage', asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const usage = await adminService.getStorageUsage();
+
+  res.json({
+    success: true,
+    data: usage
+  });
+}));
+
+export default router;
@@ -3,6 +3,12 @@ import Joi from 'joi';
 import { createError, asyncHandler } from '../middleware/errorHandler';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { userService } from '../services/userService';
+import { authTokenService } from '../services/authTokenService';
+import { accountTokenService } from '../services/accountTokenService';
+import { mfaService } from '../services/mfaService';
+import { loginService, LoginResult } from '../services/loginService';
+import { LoginThrottledError } from '../services/loginThrottleService';
+import { sessionService, ClientInfo } from '../services/sessionService';
 import { Handler } from 'aws-lambda';
 
 const router = express.Router();
@@ -20,6 +26,123 @@ const loginSchema = Joi.object({
   password: Joi.string().required()
 });
 
+const refreshSchema = Joi.object({
+  refreshToken: Joi.string().required()
+});
+
+const passwordResetRequestSchema = Joi.object({
+  email: Joi.string().email().required()
+});
+
+const passwordResetSchema = Joi.object({
+  token: Joi.string().required(),
+  password: Joi.string().min(8).required()
+});
+
+const verifyEmailSchema = Joi.object({
+  token: Joi.string().required()
+});
+
+const unlockRequestSchema = Joi.object({
+  email: Joi.string().email().required()
+});
+
+const unlockSchema = Joi.object({
+  token: Joi.string().required()
+});
+
+const mfaLoginSchema = Joi.object({
+  mfaToken: Joi.string().required(),
+  code: Joi.string().required()
+});
+
+const mfaCodeSchema = Joi.object({
+  code: Joi.string().required()
+});
+
+const clientInfo = (req: express.Request): ClientInfo => ({
+  ip: req.ip,
+  userAgent: req.get('User-Agent')
+});
+
+// Same for a Lambda event from API Gateway
+const eventClientInfo = (event: any): ClientInfo => ({
+  ip: event.requestContext?.identity?.sourceIp,
+  userAgent: event.headers?.['User-Agent'] || event.headers?.['user-agent']
+});
+
+// Response body of a login step, shared by the routes and the Lambda handler
+const loginBody = (result: LoginResult) => {
+  if ('mfaToken' in result) {
+    return {
+      success: true,
+      data: { mfaRequired: true, mfaToken: result.mfaToken },
+      message: 'Verification code required'
+    };
+  }
+
+  const { user, ...tokens } = result;
+  return {
+    success: true,
+    data: { user: userService.sanitizeUser(user), ...tokens },
+    message: 'Login successful'
+  };
+};
+
+// Status, headers and body of a failed login step, or null for unexpected errors
+const loginFailure = (error: any) => {
+  if (error instanceof LoginThrottledError) {
+    return {
+      statusCode: 429,
+      headers: { 'Retry-After': String(error.retryAfterSeconds) },
+      message: error.message,
+      data: { retryAfter: error.retryAfterSeconds, locked: !!error.lockedScope }
+    };
+  }
+  switch (error.message) {
+    case 'Invalid email or password':
+    case 'Invalid or expired challenge':
+    case 'Invalid verification code':
+      return { statusCode: 401, headers: {}, message: error.message, data: undefined };
+    case 'Account disabled':
+      return { statusCode: 403, headers: {}, message: error.message, data: undefined };
+    default:
+      return null;
+  }
+};
+
+const loginStep = async (res: express.Response, step: () => Promise<LoginResult>) => {
+  try {
+    res.json(loginBody(await step()));
+  } catch (error: any) {
+    const failure = loginFailure(error);
+    if (!failure) {
+      throw error;
+    }
+    res.set(failure.headers);
+    throw createError(failure.message, failure.statusCode, failure.data);
+  }
+};
+
+// Maps MFA service errors to responses
+const mfaAction = async <T>(action: () => Promise<T>): Promise<T> => {
+  try {
+    return await action();
+  } catch (error: any) {
+    switch (error.message) {
+      case 'Invalid verification code':
+      case 'Two-factor authentication is already enabled':
+      case 'Two-factor authentication is not enabled':
+      case 'Two-factor enrollment has not been started':
+        throw createError(error.message, 400);
+      case 'User not found':
+        throw createError(error.message, 404);
+      default:
+        throw error;
+    }
+  }
+};
+
 // Register user
 router.post('/register', asyncHandler(async (req: express.Request, res: express.Response) => {
   const { error, value } = registerSchema.validate(req.body);
@@ -37,12 +160,12 @@ router.post('/register', asyncHandler(async (req: express.Request, res: express.
       lastName
     });
 
-    // Generate JWT token
-    const token = userService.generateToken(user);
+    const tokens = await authTokenService.issueTokens(user, clientInfo(req));
+    await accountTokenService.sendEmailVerification(user);
 
     res.status(201).json({
       success: true,
-      data: { user: userService.sanitizeUser(user), token },
+      data: { user: userService.sanitizeUser(user), ...tokens },
       message: 'User registered successfully'
     });
   } catch (error: any) {
@@ -53,34 +176,299 @@ router.post('/register', asyncHandler(async (req: express.Request, res: express.
   }
 }));
 
-// Login user
+// Login user. Repeated failures for an account or from an IP address are
+// answered with 429 and a Retry-After header.
 router.post('/login', asyncHandler(async (req: express.Request, res: express.Response) => {
   const { error, value } = loginSchema.validate(req.body);
   if (error) {
     throw createError(error.details[0].message, 400);
   }
 
-  const { email, password } = value;
+  await loginStep(res, () => loginService.login(value.email, value.password, clientInfo(req)));
+}));
+
+// Second login step: answer the MFA challenge with an authenticator or recovery code
+router.post('/login/mfa', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { error, value } = mfaLoginSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  await loginStep(res, () => loginService.completeMfaLogin(value.mfaToken, value.code, clientInfo(req)));
+}));
+
+// Exchange a refresh token for a new access token and refresh token
+router.post('/refresh', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { error, value } = refreshSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  try {
+    const { user, ...tokens } = await authTokenService.refresh(value.refreshToken, clientInfo(req));
+
+    res.json({
+      success: true,
+      data: { user: userService.sanitizeUser(user), ...tokens }
+    });
+  } catch (error: any) {
+    if (error.message === 'Invalid refresh token' || error.message === 'Refresh token expired') {
+      throw createError(error.message, 401);
+    }
+    throw error;
+  }
+}));
+
+// Log out: revokes the refresh token and every token rotated from it
+router.post('/logout', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { error, value } = refreshSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  await authTokenService.revoke(value.refreshToken);
+
+  res.json({
+    success: true,
+    message: 'Logged out successfully'
+  });
+}));
+
+// Email a password reset link. The response is the same whether or not
+// an account exists for the address.
+router.post('/password-reset/request', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { error, value } = passwordResetRequestSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  await accountTokenService.requestPasswordReset(value.email);
+
+  res.json({
+    success: true,
+    message: 'If an account exists for that email, a reset link has been sent'
+  });
+}));
+
+// Set a new password with the emailed token
+router.post('/password-reset/confirm', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { error, value } = passwordResetSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  try {
+    await accountTokenService.resetPassword(value.token, value.password);
+  } catch (error: any) {
+    if (error.message === 'Invalid or expired token') {
+      throw createError('Reset link is invalid or has expired', 400);
+    }
+    throw error;
+  }
+
+  res.json({
+    success: true,
+    message: 'Password reset successfully'
+  });
+}));
+
+// Send a new verification email to the signed-in user
+router.post('/verify-email/request', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const user = await userService.getUserById(req.user!.id);
+  if (!user) {
+    throw createError('User not found', 404);
+  }
+
+  try {
+    await accountTokenService.sendEmailVerification(user);
+  } catch (error: any) {
+    if (error.message === 'Email already verified') {
+      throw createError(error.message, 400);
+    }
+    throw error;
+  }
+
+  res.json({
+    success: true,
+    message: 'Verification email sent'
+  });
+}));
+
+// Confirm an email address with the emailed token
+router.post('/verify-email/confirm', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { error, value } = verifyEmailSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  try {
+    const user = await accountTokenService.verifyEmail(value.token);
+
+    res.json({
+      success: true,
+      data: { user: userService.sanitizeUser(user) },
+      message: 'Email verified successfully'
+    });
+  } catch (error: any) {
+    if (error.message === 'Invalid or expired token') {
+      throw createError('Verification link is invalid or has expired', 400);
+    }
+    throw error;
+  }
+}));
+
+// Email a new unlock link for an account locked after failed logins. The
+// response doesn't reveal whether the account exists or is locked.
+router.post('/unlock/request', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { error, value } = unlockRequestSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  await accountTokenService.requestAccountUnlock(value.email);
+
+  res.json({
+    success: true,
+    message: 'If that account is locked, an unlock link has been sent'
+  });
+}));
+
+// Unlock an account with the emailed token
+router.post('/unlock/confirm', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { error, value } = unlockSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  try {
+    await accountTokenService.unlockAccount(value.token);
+  } catch (error: any) {
+    if (error.message === 'Invalid or expired token') {
+      throw createError('Unlock link is invalid or has expired', 400);
+    }
+    throw error;
+  }
 
-  // Find user
-  const user = await userService.getUserByEmail(email);
+  res.json({
+    success: true,
+    message: 'Account unlocked; you can sign in again'
+  });
+}));
+
+// Two-factor authentication status of the signed-in user
+router.get('/mfa', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const user = await userService.getUserById(req.user!.id);
   if (!user) {
-    throw createError('Invalid email or password', 401);
+    throw createError('User not found', 404);
   }
 
-  // Check password
-  const isPasswordValid = await userService.verifyPassword(user, password);
-  if (!isPasswordValid) {
-    throw createError('Invalid email or password', 401);
+  res.json({
+    success: true,
+    data: { mfa: mfaService.getStatus(user) }
+  });
+}));
+
+// Start enrollment: returns the secret and the otpauth:// URI for a QR code
+router.post('/mfa/enroll', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const enrollment = await mfaAction(() => mfaService.beginEnrollment(req.user!.id));
+
+  res.json({
+    success: true,
+    data: enrollment
+  });
+}));
+
+// Finish enrollment with a code from the authenticator app
+router.post('/mfa/confirm', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { error, value } = mfaCodeSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
   }
 
-  // Generate JWT token
-  const token = userService.generateToken(user);
+  const recoveryCodes = await mfaAction(() => mfaService.confirmEnrollment(req.user!.id, value.code));
 
   res.json({
     success: true,
-    data: { user: userService.sanitizeUser(user), token },
-    message: 'Login successful'
+    data: { recoveryCodes },
+    message: 'Two-factor authentication enabled'
+  });
+}));
+
+router.post('/mfa/disable', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { error, value } = mfaCodeSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  await mfaAction(() => mfaService.disable(req.user!.id, value.code));
+
+  res.json({
+    success: true,
+    message: 'Two-factor authentication disabled'
+  });
+}));
+
+// Replace the recovery codes; the old ones stop working
+router.post('/mfa/recovery-codes', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { error, value } = mfaCodeSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const recoveryCodes = await mfaAction(() => mfaService.regenerateRecoveryCodes(req.user!.id, value.code));
+
+  res.json({
+    success: true,
+    data: { recoveryCodes },
+    message: 'Recovery codes regenerated'
+  });
+}));
+
+// Signed-in devices of the current user; `current` marks the one asking
+router.get('/sessions', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const sessions = await sessionService.listForUser(req.user!.id);
+
+  res.json({
+    success: true,
+    data: {
+      sessions: sessions.map(session => ({
+        id: session.id,
+        device: session.device,
+        ipAddress: session.ipAddress,
+        userAgent: session.userAgent,
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt,
+        current: session.id === req.user!.sessionId
+      }))
+    }
+  });
+}));
+
+// Sign out every other device
+router.delete('/sessions', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const revoked = await sessionService.revokeAllForUser(req.user!.id, req.user!.sessionId);
+
+  res.json({
+    success: true,
+    data: { revoked },
+    message: 'Signed out of all other sessions'
+  });
+}));
+
+// Sign out one device, e.g. a lost phone
+router.delete('/sessions/:id', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  try {
+    await sessionService.revoke(req.user!.id, req.params.id);
+  } catch (error: any) {
+    if (error.message === 'Session not found') {
+      throw createError(error.message, 404);
+    }
+    throw error;
+  }
+
+  res.json({
+    success: true,
+    message: 'Session revoked'
   });
 }));
 
@@ -123,13 +511,14 @@ export const registerHandler: Handler = async (event, context) => {
       lastName
     });
 
-    const token = userService.generateToken(user);
+    const tokens = await authTokenService.issueTokens(user, eventClientInfo(event));
+    await accountTokenService.sendEmailVerification(user);
 
     return {
       statusCode: 201,
       body: JSON.stringify({
         success: true,
-        data: { user: userService.sanitizeUser(user), token },
+        data: { user: userService.sanitizeUser(user), ...tokens },
         message: 'User registered successfully'
       })
     };
@@ -160,45 +549,21 @@ export const loginHandler: Handler = async (event, context) => {
     }
 
     const { email, password } = value;
-    
-    const user = await userService.getUserByEmail(email);
-    if (!user) {
-      return {
-        statusCode: 401,
-        body: JSON.stringify({
-          success: false,
-          error: 'Invalid email or password'
-        })
-      };
-    }
-
-    const isPasswordValid = await userService.verifyPassword(user, password);
-    if (!isPasswordValid) {
-      return {
-        statusCode: 401,
-        body: JSON.stringify({
-          success: false,
-          error: 'Invalid email or password'
-        })
-      };
-    }
-
-    const token = userService.generateToken(user);
+    const result = await loginService.login(email, password, eventClientInfo(event));
 
     return {
       statusCode: 200,
-      body: JSON.stringify({
-        success: true,
-        data: { user: userService.sanitizeUser(user), token },
-        message: 'Login successful'
-      })
+      body: JSON.stringify(loginBody(result))
     };
   } catch (error: any) {
+    const failure = loginFailure(error);
     return {
-      statusCode: 500,
+      statusCode: failure?.statusCode || 500,
+      headers: failure?.headers,
       body: JSON.stringify({
         success: false,
-        error: error.message
+        error: error.message,
+        ...(failure?.data && { data: failure.data })
       })
     };
   }
@@ -0,0 +1,37 @@
+import express from 'express';
+import { createError, asyncHandler } from '../middleware/errorHandler';
+import { notificationService } from '../services/notificationService';
+
+// Development helpers; only mounted in development and test
+const router = express.Router();
+
+const captureTransport = () => {
+  const transport = notificationService.getCaptureTransport();
+  if (!transport) {
+    throw createError('Email capture is not enabled', 404);
+  }
+  return transport;
+};
+
+// Emails captured instead of sent, newest first
+router.get('/emails', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { to } = req.query;
+  const emails = captureTransport().list()
+    .filter(email => !to || email.to.toLowerCase() === String(to).toLowerCase());
+
+  res.json({
+    success: true,
+    data: { emails }
+  });
+}));
+
+router.delete('/emails', asyncHandler(async (req: express.Request, res: express.Response) => {
+  captureTransport().clear();
+
+  res.json({
+    success: true,
+    message: 'Captured emails cleared'
+  });
+}));
+
+export default router;
@@ -2,9 +2,13 @@ import express from 'express';
 import multer from 'multer';
 import path from 'path';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { authorizePrenup, accessDeniedError, TargetResolver } from '../middleware/prenupAccess';
 import { createError, asyncHandler } from '../middleware/errorHandler';
+import { audit } from '../middleware/audit';
 import { documentService } from '../services/documentService';
-import { DocumentType } from '../types/entities';
+import { participantService, PrenupAction, PrenupAccessDeniedError } from '../services/participantService';
+import { EntityType, currentRevision } from '../services/dynamodb';
+import { AuditAction, Document, DocumentType } from '../types/entities';
 import { Handler } from 'aws-lambda';
 
 const router = express.Router();
@@ -37,8 +41,26 @@ const upload = multer({
   }
 });
 
+// The prenup of the document named by the route
+const documentTarget: TargetResolver = async req => {
+  const document = await documentService.getDocumentById(req.params.documentId);
+  if (!document) {
+    throw createError('Document not found', 404);
+  }
+  return { prenupId: document.prenupId, notFoundMessage: 'Document not found' };
+};
+
+const auditDocument = (req: AuthRequest, action: AuditAction, document: Document) =>
+  audit(req, document.prenupId, {
+    action,
+    targetType: EntityType.DOCUMENT,
+    targetId: document.id,
+    targetRevision: currentRevision(document),
+    details: { filename: document.filename, type: document.type }
+  });
+
 // Upload document
-router.post('/upload/:prenupId', authenticate, upload.single('document'), 
+router.post('/upload/:prenupId', authenticate, authorizePrenup(PrenupAction.MANAGE_DOCUMENTS), upload.single('document'), 
   asyncHandler(async (req: AuthRequest, res: express.Response) => {
     const { prenupId } = req.params;
     const { type } = req.body;
@@ -47,8 +69,9 @@ router.post('/upload/:prenupId', authenticate, upload.single('document'),
       throw createError('No file uploaded', 400);
     }
 
+    let document;
     try {
-      const document = await documentService.createDocument({
+      document = await documentService.createDocument({
         prenupId,
         type: type as DocumentType || DocumentType.SUPPORTING_DOCUMENT,
         filename: req.file.originalname,
@@ -57,12 +80,6 @@ router.post('/upload/:prenupId', authenticate, upload.single('document'),
         mimeType: req.file.mimetype,
         uploadedBy: req.user!.id
       });
-
-      res.json({
-        success: true,
-        data: { document },
-        message: 'Document uploaded successfully'
-      });
     } catch (error: any) {
       // Clean up uploaded file on error
       const fs = require('fs');
@@ -70,24 +87,25 @@ router.post('/upload/:prenupId', authenticate, upload.single('document'),
         fs.unlinkSync(req.file.path);
       }
 
-      if (error.message === 'Access denied to prenup') {
-        throw createError('Prenup not found', 404);
+      if (error instanceof PrenupAccessDeniedError) {
+        throw accessDeniedError(error);
       }
       throw error;
     }
+    await auditDocument(req, AuditAction.DOCUMENT_UPLOADED, document);
+
+    res.json({
+      success: true,
+      data: { document },
+      message: 'Document uploaded successfully'
+    });
   })
 );
 
 // Get documents for a prenup
-router.get('/:prenupId', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+router.get('/:prenupId', authenticate, authorizePrenup(PrenupAction.READ_CONTENT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
   const { prenupId } = req.params;
 
-  // Verify user has access to this prenup
-  const hasAccess = await require('../services/prenupService').prenupService.userHasAccessToPrenup(prenupId, req.user!.id);
-  if (!hasAccess) {
-    throw createError('Prenup not found', 404);
-  }
-
   const documents = await documentService.getDocumentsByPrenup(prenupId);
 
   res.json({
@@ -97,14 +115,9 @@ router.get('/:prenupId', authenticate, asyncHandler(async (req: AuthRequest, res
 }));
 
 // Download document
-router.get('/download/:documentId', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+router.get('/download/:documentId', authenticate, authorizePrenup(PrenupAction.READ_CONTENT, documentTarget), asyncHandler(async (req: AuthRequest, res: express.Response) => {
   const { documentId } = req.params;
 
-  const canAccess = await documentService.userCanAccessDocument(documentId, req.user!.id);
-  if (!canAccess) {
-    throw createError('Document not found', 404);
-  }
-
   const document = await documentService.getDocumentById(documentId);
   if (!document) {
     throw createError('Document not found', 404);
@@ -115,6 +128,7 @@ router.get('/download/:documentId', authenticate, asyncHandler(async (req: AuthR
   if (!fileStats.exists) {
     throw createError('File not found on server', 404);
   }
+  await auditDocument(req, AuditAction.DOCUMENT_DOWNLOADED, document);
 
   // Send file
   res.download(document.path, document.filename, (err) => {
@@ -131,37 +145,33 @@ router.get('/download/:documentId', authenticate, asyncHandler(async (req: AuthR
 }));
 
 // Delete document
-router.delete('/:documentId', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+router.delete('/:documentId', authenticate, authorizePrenup(PrenupAction.MANAGE_DOCUMENTS, documentTarget), asyncHandler(async (req: AuthRequest, res: express.Response) => {
   const { documentId } = req.params;
 
+  let document;
   try {
-    await documentService.deleteDocument(documentId, req.user!.id);
-
-    res.json({
-      success: true,
-      message: 'Document deleted successfully'
-    });
+    document = await documentService.deleteDocument(documentId, req.user!.id);
   } catch (error: any) {
     if (error.message === 'Document not found') {
       throw createError('Document not found', 404);
     }
-    if (error.message === 'Access denied') {
-      throw createError('Access denied', 403);
+    if (error instanceof PrenupAccessDeniedError) {
+      throw accessDeniedError(error, 'Document not found');
     }
     throw error;
   }
+  await auditDocument(req, AuditAction.DOCUMENT_DELETED, document);
+
+  res.json({
+    success: true,
+    message: 'Document deleted successfully'
+  });
 }));
 
 // Get documents by type
-router.get('/:prenupId/type/:type', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+router.get('/:prenupId/type/:type', authenticate, authorizePrenup(PrenupAction.READ_CONTENT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
   const { prenupId, type } = req.params;
 
-  // Verify user has access to this prenup
-  const hasAccess = await require('../services/prenupService').prenupService.userHasAccessToPrenup(prenupId, req.user!.id);
-  if (!hasAccess) {
-    throw createError('Prenup not found', 404);
-  }
-
   if (!Object.values(DocumentType).includes(type as DocumentType)) {
     throw createError('Invalid document type', 400);
   }
@@ -175,15 +185,9 @@ router.get('/:prenupId/type/:type', authenticate, asyncHandler(async (req: AuthR
 }));
 
 // Get file usage stats for a prenup
-router.get('/:prenupId/stats', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+router.get('/:prenupId/stats', authenticate, authorizePrenup(PrenupAction.READ_CONTENT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
   const { prenupId } = req.params;
 
-  // Verify user has access to this prenup
-  const hasAccess = await require('../services/prenupService').prenupService.userHasAccessToPrenup(prenupId, req.user!.id);
-  if (!hasAccess) {
-    throw createError('Prenup not found', 404);
-  }
-
   const documents = await documentService.getDocumentsByPrenup(prenupId);
   const totalSize = await documentService.getTotalFileSizeForPrenup(prenupId);
 
@@ -259,7 +263,7 @@ export const getDocumentsHandler: Handler = async (event, context) => {
     const userId = 'user-from-jwt';
 
     // Verify access
-    const hasAccess = await require('../services/prenupService').prenupService.userHasAccessToPrenup(prenupId, userId);
+    const hasAccess = await participantService.can(prenupId, userId, PrenupAction.READ_CONTENT);
     if (!hasAccess) {
       return {
         statusCode: 404,
@@ -1,10 +1,17 @@
 import express from 'express';
 import Joi from 'joi';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { authorizePrenup, accessDeniedError, TargetResolver } from '../middleware/prenupAccess';
 import { createError, asyncHandler } from '../middleware/errorHandler';
+import { readExpectedRevision } from '../middleware/revision';
+import { audit } from '../middleware/audit';
 import { financialService } from '../services/financialService';
 import { prenupService } from '../services/prenupService';
-import { Asset, Debt, Income } from '../types/entities';
+import { PrenupAction, PrenupAccessDeniedError } from '../services/participantService';
+import { diffService } from '../services/diffService';
+import { PrenupLockedError } from '../services/prenupLock';
+import { EntityType, LATEST_VERSION, RevisionConflictError, currentRevision } from '../services/dynamodb';
+import { Asset, AuditAction, Debt, FinancialDisclosure, Income, ParticipantRole } from '../types/entities';
 import { Handler } from 'aws-lambda';
 
 const router = express.Router();
@@ -37,97 +44,191 @@ const incomeSchema = Joi.object({
   otherDescription: Joi.string().allow('')
 });
 
+const diffQuerySchema = Joi.object({
+  from: Joi.string().pattern(/^V\d+$/).required(),
+  to: Joi.string().pattern(/^V\d+$/).default(LATEST_VERSION)
+});
+
 const financialDisclosureSchema = Joi.object({
   prenupId: Joi.string().required(),
   assets: Joi.array().items(assetSchema).default([]),
   debts: Joi.array().items(debtSchema).default([]),
-  income: incomeSchema.required()
+  income: incomeSchema.required(),
+  revision: Joi.number().integer().min(0) // Required when updating an existing disclosure
 });
 
-// Get financial disclosure for a prenup
-router.get('/:prenupId', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
-  const { prenupId } = req.params;
+// The prenup of the disclosure named by the route, read on behalf of its owner
+const disclosureTarget: TargetResolver = async req => {
+  const disclosure = await financialService.getFinancialDisclosureById(req.params.disclosureId);
+  if (!disclosure) {
+    throw createError('Financial disclosure not found', 404);
+  }
+  return {
+    prenupId: disclosure.prenupId,
+    subjectId: disclosure.userId,
+    notFoundMessage: 'Financial disclosure not found'
+  };
+};
 
-  // Verify user has access to this prenup
-  const hasAccess = await prenupService.userHasAccessToPrenup(prenupId, req.user!.id);
-  if (!hasAccess) {
-    throw createError('Prenup not found', 404);
+// Records that the requester was shown a disclosure, and whose it was
+const auditView = (req: AuthRequest, disclosure: FinancialDisclosure, details?: Record<string, any>) =>
+  audit(req, disclosure.prenupId, {
+    action: AuditAction.DISCLOSURE_VIEWED,
+    targetType: EntityType.FINANCIAL_DISCLOSURE,
+    targetId: disclosure.id,
+    targetRevision: currentRevision(disclosure),
+    details: { ownerId: disclosure.userId, ...details }
+  });
+
+// Get version history of a financial disclosure
+router.get('/disclosures/:disclosureId/versions', authenticate, authorizePrenup(PrenupAction.READ_DISCLOSURE, disclosureTarget), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { disclosureId } = req.params;
+
+  const versions = await financialService.getFinancialDisclosureVersions(disclosureId);
+
+  res.json({
+    success: true,
+    data: { versions }
+  });
+}));
+
+// Get a specific version of a financial disclosure
+router.get('/disclosures/:disclosureId/versions/:version', authenticate, authorizePrenup(PrenupAction.READ_DISCLOSURE, disclosureTarget), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { disclosureId, version } = req.params;
+
+  const disclosureVersion = await financialService.getFinancialDisclosureVersion(disclosureId, version);
+  if (!disclosureVersion) {
+    throw createError('Version not found', 404);
   }
+  await auditView(req, disclosureVersion, { version });
 
-  // Get financial disclosure for current user
-  const disclosure = await financialService.getFinancialDisclosureByPrenupAndUser(
-    prenupId,
-    req.user!.id
-  );
-
-  // Get partner's disclosure if user is creator
-  const prenup = await prenupService.getPrenupById(prenupId);
-  let partnerDisclosure = null;
-  
-  if (prenup?.partnerId && prenup.createdBy === req.user!.id) {
-    partnerDisclosure = await financialService.getFinancialDisclosureByPrenupAndUser(
-      prenupId,
-      prenup.partnerId
-    );
+  res.json({
+    success: true,
+    data: { disclosure: disclosureVersion }
+  });
+}));
+
+// Compare two versions of a financial disclosure
+router.get('/disclosures/:disclosureId/diff', authenticate, authorizePrenup(PrenupAction.READ_DISCLOSURE, disclosureTarget), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { error, value } = diffQuerySchema.validate(req.query);
+  if (error) {
+    throw createError(error.details[0].message, 400);
   }
 
+  const { disclosureId } = req.params;
+
+  const diff = await diffService.diffVersions(EntityType.FINANCIAL_DISCLOSURE, disclosureId, value.from, value.to);
+  if (!diff) {
+    throw createError('Version not found', 404);
+  }
+  await audit(req, req.prenupAccess!.prenup.id, {
+    action: AuditAction.DISCLOSURE_VIEWED,
+    targetType: EntityType.FINANCIAL_DISCLOSURE,
+    targetId: disclosureId,
+    details: { from: value.from, to: value.to }
+  });
+
   res.json({
     success: true,
-    data: { 
-      disclosure,
-      partnerDisclosure,
-      canViewPartner: prenup?.createdBy === req.user!.id
+    data: { diff }
+  });
+}));
+
+// Get financial disclosure for a prenup: the requester's own, or their
+// client's for counsel, and the other party's where the matrix allows it
+router.get('/:prenupId', authenticate, authorizePrenup(PrenupAction.READ_CONTENT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { prenupId } = req.params;
+  const access = req.prenupAccess!;
+  const { prenup } = access;
+
+  const subjectId = access.as(ParticipantRole.COUNSEL)?.representing || req.user!.id;
+  const otherPartyId = [prenup.createdBy, prenup.partnerId].find(partyId => partyId && partyId !== subjectId);
+  const canViewPartner = !!otherPartyId && access.can(PrenupAction.READ_DISCLOSURE, otherPartyId);
+
+  const disclosure = access.can(PrenupAction.READ_DISCLOSURE, subjectId)
+    ? await financialService.getFinancialDisclosureByPrenupAndUser(prenupId, subjectId)
+    : null;
+  const partnerDisclosure = canViewPartner
+    ? await financialService.getFinancialDisclosureByPrenupAndUser(prenupId, otherPartyId!)
+    : null;
+
+  for (const shown of [disclosure, partnerDisclosure]) {
+    if (shown) {
+      await auditView(req, shown);
     }
+  }
+
+  res.json({
+    success: true,
+    data: { disclosure, partnerDisclosure, canViewPartner }
   });
 }));
 
 // Create or update financial disclosure
-router.post('/', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+router.post('/', authenticate, authorizePrenup(PrenupAction.EDIT_CONTENT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
   const { error, value } = financialDisclosureSchema.validate(req.body);
   if (error) {
     throw createError(error.details[0].message, 400);
   }
 
-  const { prenupId, assets, debts, income } = value;
+  const { prenupId, assets, debts, income, revision } = value;
+  const expectedRevision = readExpectedRevision(req, revision);
 
+  let disclosure;
   try {
-    const disclosure = await financialService.createOrUpdateFinancialDisclosure({
+    disclosure = await financialService.createOrUpdateFinancialDisclosure({
       prenupId,
       userId: req.user!.id,
       assets: assets as Asset[],
       debts: debts as Debt[],
-      income: income as Income
-    });
-
-    res.json({
-      success: true,
-      data: { disclosure },
-      message: 'Financial disclosure saved successfully'
+      income: income as Income,
+      expectedRevision
     });
   } catch (error: any) {
-    if (error.message === 'Access denied to prenup') {
-      throw createError('Prenup not found', 404);
+    if (error instanceof PrenupAccessDeniedError) {
+      throw accessDeniedError(error);
+    }
+    if (error instanceof PrenupLockedError) {
+      throw createError(error.message, 409);
+    }
+    if (error.message === 'Revision required to update disclosure') {
+      throw createError('If-Match header or revision is required', 428);
+    }
+    if (error instanceof RevisionConflictError) {
+      throw createError('Financial disclosure was modified by someone else', 409, { disclosure: error.current });
     }
     throw error;
   }
+  await audit(req, prenupId, {
+    action: AuditAction.DISCLOSURE_SAVED,
+    targetType: EntityType.FINANCIAL_DISCLOSURE,
+    targetId: disclosure.id,
+    targetRevision: currentRevision(disclosure)
+  });
+
+  res.json({
+    success: true,
+    data: { disclosure },
+    message: 'Financial disclosure saved successfully'
+  });
 }));
 
 // Get financial summary for comparison
-router.get('/:prenupId/summary', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+router.get('/:prenupId/summary', authenticate, authorizePrenup(PrenupAction.READ_FINANCIAL_SUMMARY), asyncHandler(async (req: AuthRequest, res: express.Response) => {
   const { prenupId } = req.params;
 
-  // Verify user has access to this prenup
-  const hasAccess = await prenupService.userHasAccessToPrenup(prenupId, req.user!.id);
-  if (!hasAccess) {
-    throw createError('Prenup not found', 404);
-  }
-
   const prenup = await prenupService.getPrenupWithUsers(prenupId);
   if (!prenup) {
     throw createError('Prenup not found', 404);
   }
 
   const summary = await financialService.getFinancialSummary(prenupId);
+  await audit(req, prenupId, {
+    action: AuditAction.FINANCIAL_SUMMARY_VIEWED,
+    targetType: EntityType.PRENUP,
+    targetId: prenupId,
+    details: { view: 'summary' }
+  });
 
   res.json({
     success: true,
@@ -136,16 +237,16 @@ router.get('/:prenupId/summary', authenticate, asyncHandler(async (req: AuthRequ
 }));
 
 // Generate financial disclosure report
-router.get('/:prenupId/report', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+router.get('/:prenupId/report', authenticate, authorizePrenup(PrenupAction.READ_FINANCIAL_SUMMARY), asyncHandler(async (req: AuthRequest, res: express.Response) => {
   const { prenupId } = req.params;
 
-  // Verify user has access to this prenup
-  const hasAccess = await prenupService.userHasAccessToPrenup(prenupId, req.user!.id);
-  if (!hasAccess) {
-    throw createError('Prenup not found', 404);
-  }
-
   const report = await financialService.generateFinancialReport(prenupId);
+  await audit(req, prenupId, {
+    action: AuditAction.FINANCIAL_SUMMARY_VIEWED,
+    targetType: EntityType.PRENUP,
+    targetId: prenupId,
+    details: { view: 'report' }
+  });
 
   res.json({
     success: true,
@@ -211,14 +312,15 @@ export const saveFinancialDisclosureHandler: Handler = async (event, context) =>
 
     // Extract user info from JWT (placeholder)
     const userId = 'user-from-jwt';
-    const { prenupId, assets, debts, income } = value;
+    const { prenupId, assets, debts, income, revision } = value;
 
     const disclosure = await financialService.createOrUpdateFinancialDisclosure({
       prenupId,
       userId,
       assets: assets as Asset[],
       debts: debts as Debt[],
-      income: income as Income
+      income: income as Income,
+      expectedRevision: revision
     });
 
     return {
@@ -230,6 +332,16 @@ export const saveFinancialDisclosureHandler: Handler = async (event, context) =>
       })
     };
   } catch (error: any) {
+    if (error instanceof RevisionConflictError) {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({
+          success: false,
+          error: 'Financial disclosure was modified by someone else',
+          data: { disclosure: error.current }
+        })
+      };
+    }
     return {
       statusCode: 500,
       body: JSON.stringify({
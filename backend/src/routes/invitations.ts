@@ -0,0 +1,153 @@
+import express from 'express';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { createError, asyncHandler } from '../middleware/errorHandler';
+import { audit, auditActor } from '../middleware/audit';
+import { prenupService } from '../services/prenupService';
+import { counselService } from '../services/counselService';
+import { userService } from '../services/userService';
+import { EntityType, RevisionConflictError, currentRevision } from '../services/dynamodb';
+import { AuditAction, InvitationStatus } from '../types/entities';
+
+const router = express.Router();
+
+// Preview a counsel invitation before signing in (public)
+router.get('/counsel/:token', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { token } = req.params;
+
+  const participant = await counselService.getCounselInvitation(token);
+  if (!participant) {
+    throw createError('Invitation not found or expired', 404);
+  }
+
+  const prenup = await prenupService.getPrenupById(participant.prenupId);
+  const client = await userService.getUserById(participant.representing);
+  if (!prenup || !client) {
+    throw createError('Invitation not found or expired', 404);
+  }
+
+  res.json({
+    success: true,
+    data: {
+      invitation: {
+        email: participant.email,
+        expiresAt: participant.expiresAt
+      },
+      prenup: {
+        id: prenup.id,
+        title: prenup.title,
+        state: prenup.state
+      },
+      client: {
+        firstName: client.firstName,
+        lastName: client.lastName
+      }
+    }
+  });
+}));
+
+// Accept a counsel invitation as the signed-in attorney
+router.post('/counsel/:token/accept', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { token } = req.params;
+
+  let participant;
+  try {
+    participant = await counselService.acceptCounselInvitation(token, req.user!.id);
+  } catch (error: any) {
+    if (error.message === 'Invalid or expired invitation') {
+      throw createError('Invitation not found or expired', 404);
+    }
+    if (error instanceof RevisionConflictError) {
+      throw createError('Invitation is no longer valid', 410);
+    }
+    if (error.message === 'Only attorney accounts can accept counsel invitations' ||
+        error.message === 'Invitation was sent to a different email address') {
+      throw createError(error.message, 403);
+    }
+    throw createError(error.message, 400);
+  }
+  await audit(req, participant.prenupId, {
+    action: AuditAction.COUNSEL_ACCEPTED,
+    targetType: EntityType.PRENUP_PARTICIPANT,
+    targetId: participant.id,
+    targetRevision: currentRevision(participant),
+    details: { representing: participant.representing }
+  });
+
+  const { tokenHash, ...counsel } = participant;
+  res.json({
+    success: true,
+    data: { counsel },
+    message: 'You are now counsel on this prenup'
+  });
+}));
+
+// Preview an invitation before signing in (public)
+router.get('/:token', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { token } = req.params;
+
+  const invitation = await prenupService.getPartnerInvitation(token);
+  if (!invitation) {
+    throw createError('Invitation not found or expired', 404);
+  }
+
+  if (invitation.status !== InvitationStatus.PENDING) {
+    throw createError('Invitation is no longer valid', 410);
+  }
+
+  const prenup = await prenupService.getPrenupById(invitation.prenupId);
+  const inviter = await userService.getUserById(invitation.invitedBy);
+  if (!prenup || !inviter) {
+    throw createError('Invitation not found or expired', 404);
+  }
+
+  res.json({
+    success: true,
+    data: {
+      invitation: {
+        email: invitation.email,
+        expiresAt: invitation.expiresAt,
+        emailRestricted: !invitation.allowAnyEmail
+      },
+      prenup: {
+        id: prenup.id,
+        title: prenup.title,
+        state: prenup.state
+      },
+      inviter: {
+        firstName: inviter.firstName,
+        lastName: inviter.lastName
+      }
+    }
+  });
+}));
+
+// Accept an invitation as the signed-in user. Links are single-use and,
+// unless the creator allowed otherwise, only work for the invited address.
+router.post('/:token/accept', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { token } = req.params;
+
+  let prenup;
+  try {
+    prenup = await prenupService.acceptPartnerInvitation(token, auditActor(req));
+  } catch (error: any) {
+    if (error.message === 'Invalid or expired invitation') {
+      throw createError('Invitation not found or expired', 404);
+    }
+    if (error instanceof RevisionConflictError || error.message === 'Invitation has already been processed') {
+      throw createError('Invitation is no longer valid', 410);
+    }
+    if (error.message === 'Invitation was sent to a different email address') {
+      throw createError(error.message, 403);
+    }
+    throw createError(error.message, 400);
+  }
+  const prenupWithUsers = await prenupService.getPrenupWithUsers(prenup.id);
+
+  res.json({
+    success: true,
+    data: { prenup: prenupWithUsers },
+    message: 'Invitation accepted successfully'
+  });
+}));
+
+export default router;
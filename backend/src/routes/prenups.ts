@@ -1,28 +1,154 @@
 import express from 'express';
 import Joi from 'joi';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { authorizePrenup, accessDeniedError } from '../middleware/prenupAccess';
 import { createError, asyncHandler } from '../middleware/errorHandler';
-import { StateComplianceService } from '../services/stateCompliance';
+import { requireExpectedRevision, setETag } from '../middleware/revision';
+import { audit, auditActor } from '../middleware/audit';
+import { stateComplianceService } from '../services/stateCompliance';
 import { prenupService } from '../services/prenupService';
-import { USState, PrenupStatus } from '../types/entities';
+import { diffService } from '../services/diffService';
+import { prenupLifecycle, TransitionNotAllowedError } from '../services/prenupLifecycle';
+import { signatureService } from '../services/signatureService';
+import { counselService } from '../services/counselService';
+import { commentService } from '../services/commentService';
+import { participantService, PrenupAction, PrenupAccessDeniedError, ADDABLE_ROLES } from '../services/participantService';
+import { auditService } from '../services/auditService';
+import { complianceReportService } from '../services/complianceReportService';
+import { presentationService, ContentChangedError, WaitingPeriodNotElapsedError } from '../services/presentationService';
+import { assertEditable, PrenupLockedError } from '../services/prenupLock';
+import { EntityType, LATEST_VERSION, RevisionConflictError, currentRevision } from '../services/dynamodb';
+import {
+  USState,
+  PrenupStatus,
+  InvitationStatus,
+  ParticipantRole,
+  PrenupParticipant,
+  AuditAction,
+  NotarizationSource
+} from '../types/entities';
 import { Handler } from 'aws-lambda';
 
 const router = express.Router();
-const stateCompliance = new StateComplianceService();
 
 // Validation schemas
 const createPrenupSchema = Joi.object({
   title: Joi.string().min(3).required(),
-  state: Joi.string().valid('CALIFORNIA', 'WASHINGTON', 'NEW_YORK', 'WASHINGTON_DC', 'VIRGINIA').required()
+  state: Joi.string().valid(...stateComplianceService.getSupportedStates()).required()
+});
+
+const complianceReportQuerySchema = Joi.object({
+  format: Joi.string().valid('json', 'html').default('json')
+});
+
+const presentationSchema = Joi.object({
+  contentHash: Joi.string().hex().length(64).required()
+});
+
+const diffQuerySchema = Joi.object({
+  from: Joi.string().pattern(/^V\d+$/).required(),
+  to: Joi.string().pattern(/^V\d+$/).default(LATEST_VERSION)
 });
 
 const updatePrenupSchema = Joi.object({
   title: Joi.string().min(3),
   content: Joi.object(),
   progress: Joi.object(),
-  status: Joi.string().valid('DRAFT', 'IN_PROGRESS', 'READY_FOR_REVIEW', 'PENDING_SIGNATURES', 'EXECUTED')
+  revision: Joi.number().integer().min(0)
+});
+
+const notarizationSchema = Joi.object({
+  notaryName: Joi.string().required(),
+  commissionNumber: Joi.string(),
+  notarizedAt: Joi.string().isoDate().required()
+});
+
+// Status changes go through the lifecycle, never through PUT
+const transitionSchema = Joi.object({
+  to: Joi.string().valid(...Object.values(PrenupStatus)).required(),
+  notarization: notarizationSchema
+});
+
+const inviteCounselSchema = Joi.object({
+  email: Joi.string().email().required()
 });
 
+const approveSchema = Joi.object({
+  note: Joi.string().max(2000)
+});
+
+const commentSchema = Joi.object({
+  body: Joi.string().trim().min(1).max(5000).required()
+});
+
+const addParticipantSchema = Joi.object({
+  email: Joi.string().email().required(),
+  role: Joi.string().valid(...ADDABLE_ROLES).required()
+});
+
+// Participants as returned by the API, without the invitation token hash
+const publicParticipant = ({ tokenHash, ...participant }: PrenupParticipant) => participant;
+
+// Maps counsel management errors to API errors
+const manageCounsel = async <T>(action: () => Promise<T>): Promise<T> => {
+  try {
+    return await action();
+  } catch (error: any) {
+    if (error instanceof PrenupAccessDeniedError) {
+      throw accessDeniedError(error);
+    }
+    switch (error.message) {
+      case 'Prenup not found':
+      case 'Counsel not found':
+        throw createError(error.message, 404);
+      case 'Only the client or the counsel can end an appointment':
+        throw createError(error.message, 403);
+    }
+    if (error instanceof RevisionConflictError) {
+      throw createError('Counsel appointment was modified by someone else', 409);
+    }
+    throw createError(error.message, 400);
+  }
+};
+
+// Maps notary, witness and viewer management errors to API errors
+const manageParticipants = async <T>(action: () => Promise<T>): Promise<T> => {
+  try {
+    return await action();
+  } catch (error: any) {
+    if (error instanceof PrenupAccessDeniedError) {
+      throw accessDeniedError(error);
+    }
+    if (error.message === 'Participant not found') {
+      throw createError(error.message, 404);
+    }
+    if (error instanceof RevisionConflictError) {
+      throw createError('Participant was modified by someone else', 409);
+    }
+    throw createError(error.message, 400);
+  }
+};
+
+// Maps invitation management errors to API errors
+const manageInvitation = async <T>(action: () => Promise<T>): Promise<T> => {
+  try {
+    return await action();
+  } catch (error: any) {
+    switch (error.message) {
+      case 'Prenup not found':
+        throw createError('Prenup not found', 404);
+      case 'Only prenup creator can manage invitations':
+        throw createError(error.message, 403);
+      case 'Invitation not found':
+        throw createError(error.message, 404);
+    }
+    if (error instanceof RevisionConflictError) {
+      throw createError('Invitation was modified by someone else', 409);
+    }
+    throw createError(error.message, 400);
+  }
+};
+
 // Get all prenups for user
 router.get('/', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
   const prenups = await prenupService.getPrenupsByUser(req.user!.id);
@@ -40,27 +166,318 @@ router.get('/', authenticate, asyncHandler(async (req: AuthRequest, res: express
   });
 }));
 
+// List supported states with their requirements. Registered before
+// '/:id' so that 'states' is not taken for a prenup id.
+router.get('/states', asyncHandler(async (req: express.Request, res: express.Response) => {
+  res.json({
+    success: true,
+    data: { states: stateComplianceService.getAllStates() }
+  });
+}));
+
+// Get state requirements
+router.get('/states/:state/requirements', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { state } = req.params;
+  
+  if (!stateComplianceService.isSupportedState(state)) {
+    throw createError('Invalid state', 400);
+  }
+
+  const requirements = stateComplianceService.getStateRequirements(state);
+
+  res.json({
+    success: true,
+    data: { requirements }
+  });
+}));
+
+// Every version of a state's law, oldest first
+router.get('/states/:state/versions', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { state } = req.params;
+
+  if (!stateComplianceService.isSupportedState(state)) {
+    throw createError('Invalid state', 400);
+  }
+
+  res.json({
+    success: true,
+    data: { versions: stateComplianceService.getLawVersions(state) }
+  });
+}));
+
 // Get single prenup
-router.get('/:id', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+router.get('/:id', authenticate, authorizePrenup(PrenupAction.READ_CONTENT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
   const { id } = req.params;
   
-  // Check user access
-  const hasAccess = await prenupService.userHasAccessToPrenup(id, req.user!.id);
-  if (!hasAccess) {
+  const prenup = await prenupService.getPrenupWithUsers(id);
+  if (!prenup) {
     throw createError('Prenup not found', 404);
   }
 
-  const prenup = await prenupService.getPrenupWithUsers(id);
+  // Get state-specific requirements
+  const stateRequirements = stateComplianceService.getPrenupLaw(prenup);
+
+  // Who is represented by counsel, and the requester's own roles
+  const representation = (await counselService.getRepresentation(prenup)).map(party => ({
+    ...party,
+    counsel: party.counsel && publicParticipant(party.counsel)
+  }));
+  const access = req.prenupAccess!;
+  const counselFor = access.as(ParticipantRole.COUNSEL)?.representing || null;
+
+  setETag(res, prenup);
+  res.json({
+    success: true,
+    data: { prenup, stateRequirements, representation, counselFor, roles: access.roles }
+  });
+}));
+
+// Get version history of a prenup
+router.get('/:id/versions', authenticate, authorizePrenup(PrenupAction.READ_CONTENT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { id } = req.params;
+
+  const versions = await prenupService.getPrenupVersions(id);
+
+  res.json({
+    success: true,
+    data: { versions }
+  });
+}));
+
+// Get a specific version of a prenup
+router.get('/:id/versions/:version', authenticate, authorizePrenup(PrenupAction.READ_CONTENT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { id, version } = req.params;
+
+  const prenup = await prenupService.getPrenupVersion(id, version);
+  if (!prenup) {
+    throw createError('Version not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: { prenup }
+  });
+}));
+
+// Compare two versions of a prenup
+router.get('/:id/diff', authenticate, authorizePrenup(PrenupAction.READ_CONTENT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { error, value } = diffQuerySchema.validate(req.query);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const { id } = req.params;
+
+  const diff = await diffService.diffVersions(EntityType.PRENUP, id, value.from, value.to);
+  if (!diff) {
+    throw createError('Version not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: { diff }
+  });
+}));
+
+// List the status transitions available from the prenup's current status
+router.get('/:id/transitions', authenticate, authorizePrenup(PrenupAction.READ_CONTENT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { id } = req.params;
+
+  const prenup = await prenupService.getPrenupById(id);
   if (!prenup) {
     throw createError('Prenup not found', 404);
   }
 
-  // Get state-specific requirements
-  const stateRequirements = stateCompliance.getStateRequirements(prenup.state as any);
+  const transitions = await prenupLifecycle.getAvailableTransitions(prenup);
+
+  res.json({
+    success: true,
+    data: { status: prenup.status, transitions }
+  });
+}));
+
+// Evaluate the prenup against each of its state's requirements
+router.get('/:id/compliance', authenticate, authorizePrenup(PrenupAction.READ_CONTENT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const compliance = await stateComplianceService.evaluatePrenup(req.prenupAccess!.prenup);
+
+  res.json({
+    success: true,
+    data: { compliance }
+  });
+}));
+
+// Report for counsel: each requirement with its evidence and the timestamped
+// records behind it, as JSON or as a printable HTML page
+router.get('/:id/compliance-report', authenticate, authorizePrenup(PrenupAction.READ_CONTENT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { error, value } = complianceReportQuerySchema.validate(req.query);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const { id } = req.params;
+  const report = await complianceReportService.generateReport(req.prenupAccess!.prenup);
+  await audit(req, id, {
+    action: AuditAction.COMPLIANCE_REPORT_EXPORTED,
+    targetType: EntityType.PRENUP,
+    targetId: id,
+    details: { format: value.format, lawVersion: report.jurisdiction.lawVersion, status: report.status }
+  });
+
+  if (value.format === 'html') {
+    res.type('html').send(complianceReportService.renderHtml(report));
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: { report }
+  });
+}));
+
+// Move the prenup to another status
+router.post('/:id/transitions', authenticate, authorizePrenup(PrenupAction.EDIT_CONTENT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { error, value } = transitionSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const { id } = req.params;
+
+  let prenup;
+  try {
+    prenup = await prenupLifecycle.transition(id, value.to as PrenupStatus, auditActor(req), {
+      notarization: value.notarization
+    });
+  } catch (error) {
+    if (error instanceof TransitionNotAllowedError) {
+      throw error.unmet.length > 0
+        ? createError(error.message, 422, { unmet: error.unmet })
+        : createError(error.message, 400);
+    }
+    if (error instanceof RevisionConflictError) {
+      throw createError('Prenup was modified by someone else', 409);
+    }
+    throw error;
+  }
+  const prenupWithUsers = await prenupService.getPrenupWithUsers(prenup.id);
+
+  setETag(res, prenup);
+  res.json({
+    success: true,
+    data: { prenup: prenupWithUsers },
+    message: `Prenup moved to ${prenup.status}`
+  });
+}));
+
+// Counsel confirm the notarization of the agreement
+router.post('/:id/notarization', authenticate, authorizePrenup(PrenupAction.RECORD_NOTARIZATION), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { error, value } = notarizationSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  let prenup;
+  try {
+    prenup = await prenupLifecycle.recordNotarization(req.params.id, auditActor(req), value, NotarizationSource.COUNSEL);
+  } catch (error: any) {
+    if (error instanceof RevisionConflictError) {
+      throw createError('Prenup was modified by someone else', 409);
+    }
+    throw createError(error.message, 400);
+  }
+
+  setETag(res, prenup);
+  res.json({
+    success: true,
+    data: { notarization: prenup.notarization },
+    message: 'Notarization recorded'
+  });
+}));
+
+// List signatures on a prenup
+router.get('/:id/signatures', authenticate, authorizePrenup(PrenupAction.READ_CONTENT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { id } = req.params;
+
+  const signatures = await signatureService.getSignaturesByPrenup(id);
+
+  res.json({
+    success: true,
+    data: { signatures }
+  });
+}));
+
+// When each party received the current text and when each may sign
+router.get('/:id/presentations', authenticate, authorizePrenup(PrenupAction.READ_CONTENT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const status = await presentationService.getStatus(req.prenupAccess!.prenup);
 
   res.json({
     success: true,
-    data: { prenup, stateRequirements }
+    data: status
+  });
+}));
+
+// A party acknowledges receiving the final text, starting their waiting period
+router.post('/:id/presentations', authenticate, authorizePrenup(PrenupAction.SIGN), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { error, value } = presentationSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const { id } = req.params;
+  let result;
+  try {
+    result = await presentationService.recordPresentation(req.prenupAccess!.prenup, req.user!.id, value.contentHash);
+  } catch (error: any) {
+    if (error instanceof ContentChangedError) {
+      throw createError(error.message, 409, { contentHash: error.contentHash });
+    }
+    throw createError(error.message, 400);
+  }
+
+  const { presentation, created } = result;
+  if (created) {
+    await audit(req, id, {
+      action: AuditAction.AGREEMENT_PRESENTED,
+      targetType: EntityType.PRESENTATION,
+      targetId: presentation.id,
+      details: { contentHash: presentation.contentHash }
+    });
+  }
+
+  res.status(created ? 201 : 200).json({
+    success: true,
+    data: { presentation },
+    message: created ? 'Receipt of the final agreement recorded' : 'Receipt was already recorded'
+  });
+}));
+
+// Sign a prenup that is pending signatures
+router.post('/:id/signatures', authenticate, authorizePrenup(PrenupAction.SIGN), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { id } = req.params;
+
+  let signature;
+  try {
+    signature = await signatureService.signPrenup(id, req.user!.id, req.ip);
+  } catch (error: any) {
+    if (error instanceof PrenupAccessDeniedError) {
+      throw accessDeniedError(error);
+    }
+    if (error instanceof WaitingPeriodNotElapsedError) {
+      throw createError(error.message, 422, { clock: error.clock });
+    }
+    throw createError(error.message, 400);
+  }
+  await audit(req, id, {
+    action: AuditAction.PRENUP_SIGNED,
+    targetType: EntityType.SIGNATURE,
+    targetId: signature.id,
+    targetRevision: currentRevision(signature)
+  });
+
+  res.status(201).json({
+    success: true,
+    data: { signature },
+    message: 'Prenup signed successfully'
   });
 }));
 
@@ -78,6 +495,13 @@ router.post('/', authenticate, asyncHandler(async (req: AuthRequest, res: expres
     state: state as USState,
     createdBy: req.user!.id
   });
+  await audit(req, prenup.id, {
+    action: AuditAction.PRENUP_CREATED,
+    targetType: EntityType.PRENUP,
+    targetId: prenup.id,
+    targetRevision: currentRevision(prenup),
+    details: { title, state }
+  });
 
   const prenupWithUsers = await prenupService.getPrenupWithUsers(prenup.id);
 
@@ -89,33 +513,44 @@ router.post('/', authenticate, asyncHandler(async (req: AuthRequest, res: expres
 }));
 
 // Update prenup
-router.put('/:id', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+router.put('/:id', authenticate, authorizePrenup(PrenupAction.EDIT_CONTENT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
   const { error, value } = updatePrenupSchema.validate(req.body);
   if (error) {
     throw createError(error.details[0].message, 400);
   }
 
   const { id } = req.params;
-
-  // Check user access
-  const hasAccess = await prenupService.userHasAccessToPrenup(id, req.user!.id);
-  if (!hasAccess) {
-    throw createError('Prenup not found', 404);
-  }
+  const { revision, ...updates } = value;
+  const expectedRevision = requireExpectedRevision(req, revision);
 
   const prenup = await prenupService.getPrenupById(id);
   if (!prenup) {
     throw createError('Prenup not found', 404);
   }
 
-  // Check if user can edit (must be creator or partner, and not yet executed)
-  if (prenup.status === PrenupStatus.EXECUTED) {
-    throw createError('Cannot modify executed prenup', 400);
+  try {
+    assertEditable(prenup);
+  } catch (error) {
+    if (error instanceof PrenupLockedError) {
+      throw createError(error.message, 409);
+    }
+    throw error;
   }
 
-  const updatedPrenup = await prenupService.updatePrenup(id, value);
+  let updatedPrenup;
+  try {
+    updatedPrenup = await prenupService.updatePrenup(id, updates, auditActor(req), expectedRevision);
+  } catch (error) {
+    if (error instanceof RevisionConflictError) {
+      // Send the latest state so the client can merge its edits onto it
+      const current = await prenupService.getPrenupWithUsers(id);
+      throw createError('Prenup was modified by someone else', 409, { prenup: current });
+    }
+    throw error;
+  }
   const prenupWithUsers = await prenupService.getPrenupWithUsers(updatedPrenup.id);
 
+  setETag(res, updatedPrenup);
   res.json({
     success: true,
     data: { prenup: prenupWithUsers },
@@ -124,8 +559,8 @@ router.put('/:id', authenticate, asyncHandler(async (req: AuthRequest, res: expr
 }));
 
 // Invite partner
-router.post('/:id/invite-partner', authenticate, asyncHandler(async (req: AuthRequest, res: express.Response) => {
-  const { email } = req.body;
+router.post('/:id/invite-partner', authenticate, authorizePrenup(PrenupAction.MANAGE_PARTICIPANTS), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { email, allowAnyEmail } = req.body;
   const { id } = req.params;
 
   if (!email) {
@@ -145,41 +580,277 @@ router.post('/:id/invite-partner', authenticate, asyncHandler(async (req: AuthRe
     throw createError('Partner already assigned to this prenup', 400);
   }
 
+  let invitation;
   try {
-    const invitation = await prenupService.invitePartner(id, req.user!.id, email);
-    
-    if (invitation.id === 'direct-assignment') {
-      const updatedPrenup = await prenupService.getPrenupWithUsers(id);
-      res.json({
-        success: true,
-        data: { prenup: updatedPrenup },
-        message: 'Partner added successfully'
-      });
-    } else {
-      // TODO: Send email invitation
-      res.json({
-        success: true,
-        message: 'Invitation sent successfully'
-      });
-    }
+    ({ invitation } = await prenupService.invitePartner(id, auditActor(req), email, {
+      allowAnyEmail: allowAnyEmail === true
+    }));
   } catch (error: any) {
     throw createError(error.message, 400);
   }
+
+  // Existing users with a verified email are added straight away
+  if (invitation.status === InvitationStatus.ACCEPTED) {
+    const updatedPrenup = await prenupService.getPrenupWithUsers(id);
+    res.json({
+      success: true,
+      data: { prenup: updatedPrenup },
+      message: 'Partner added successfully'
+    });
+  } else {
+    res.json({
+      success: true,
+      message: 'Invitation sent successfully'
+    });
+  }
 }));
 
-// Get state requirements
-router.get('/states/:state/requirements', asyncHandler(async (req: express.Request, res: express.Response) => {
-  const { state } = req.params;
-  
-  if (!['CALIFORNIA', 'WASHINGTON', 'NEW_YORK', 'WASHINGTON_DC', 'VIRGINIA'].includes(state)) {
-    throw createError('Invalid state', 400);
+// List partner invitations sent for a prenup (creator only). Token hashes
+// are never returned; the token itself only travels in the invitation link.
+router.get('/:id/invitations', authenticate, authorizePrenup(PrenupAction.MANAGE_PARTICIPANTS), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { id } = req.params;
+
+  const prenup = await prenupService.getPrenupById(id);
+  if (!prenup) {
+    throw createError('Prenup not found', 404);
   }
 
-  const requirements = stateCompliance.getStateRequirements(state as any);
+  if (prenup.createdBy !== req.user!.id) {
+    throw createError('Only prenup creator can manage invitations', 403);
+  }
+
+  const invitations = await prenupService.getInvitationsByPrenup(id);
 
   res.json({
     success: true,
-    data: { requirements }
+    data: { invitations: invitations.map(({ tokenHash, ...invitation }) => invitation) }
+  });
+}));
+
+// Send a fresh link for a pending or expired invitation
+router.post('/:id/invitations/:invitationId/resend', authenticate, authorizePrenup(PrenupAction.MANAGE_PARTICIPANTS), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { id, invitationId } = req.params;
+
+  const { invitation: { tokenHash, ...invitation } } = await manageInvitation(() =>
+    prenupService.resendPartnerInvitation(id, invitationId, auditActor(req))
+  );
+
+  res.json({
+    success: true,
+    data: { invitation },
+    message: 'Invitation resent successfully'
+  });
+}));
+
+// Revoke an invitation so its link can no longer be used
+router.post('/:id/invitations/:invitationId/revoke', authenticate, authorizePrenup(PrenupAction.MANAGE_PARTICIPANTS), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { id, invitationId } = req.params;
+
+  const { tokenHash, ...invitation } = await manageInvitation(() =>
+    prenupService.revokePartnerInvitation(id, invitationId, auditActor(req))
+  );
+
+  res.json({
+    success: true,
+    data: { invitation },
+    message: 'Invitation revoked successfully'
+  });
+}));
+
+// List counsel appointments on a prenup, including pending invitations
+router.get('/:id/counsel', authenticate, authorizePrenup(PrenupAction.READ_CONTENT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { id } = req.params;
+
+  const counsel = await counselService.listCounsel(id);
+
+  res.json({
+    success: true,
+    data: { counsel: counsel.map(publicParticipant) }
+  });
+}));
+
+// Invite independent counsel to represent the requesting party
+router.post('/:id/counsel', authenticate, authorizePrenup(PrenupAction.MANAGE_PARTICIPANTS), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { error, value } = inviteCounselSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const { id } = req.params;
+
+  const { participant } = await manageCounsel(() =>
+    counselService.inviteCounsel(id, req.user!.id, value.email)
+  );
+  await audit(req, id, {
+    action: AuditAction.COUNSEL_INVITED,
+    targetType: EntityType.PRENUP_PARTICIPANT,
+    targetId: participant.id,
+    targetRevision: currentRevision(participant),
+    details: { email: participant.email, representing: participant.representing }
+  });
+
+  res.status(201).json({
+    success: true,
+    data: { counsel: publicParticipant(participant) },
+    message: 'Counsel invitation sent successfully'
+  });
+}));
+
+// Approve the agreement as counsel
+router.post('/:id/counsel/approve', authenticate, authorizePrenup(PrenupAction.APPROVE), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { error, value } = approveSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const { id } = req.params;
+
+  const participant = await manageCounsel(() => counselService.approve(id, req.user!.id, value.note));
+  await audit(req, id, {
+    action: AuditAction.COUNSEL_APPROVED,
+    targetType: EntityType.PRENUP_PARTICIPANT,
+    targetId: participant.id,
+    targetRevision: currentRevision(participant),
+    details: { representing: participant.representing }
+  });
+
+  res.json({
+    success: true,
+    data: { counsel: publicParticipant(participant) },
+    message: 'Agreement approved'
+  });
+}));
+
+// Dismiss counsel (the client) or withdraw (the counsel)
+router.delete('/:id/counsel/:participantId', authenticate, authorizePrenup(PrenupAction.READ_CONTENT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { id, participantId } = req.params;
+
+  const participant = await manageCounsel(() =>
+    counselService.removeCounsel(id, participantId, req.user!.id)
+  );
+  await audit(req, id, {
+    action: AuditAction.COUNSEL_REMOVED,
+    targetType: EntityType.PRENUP_PARTICIPANT,
+    targetId: participant.id,
+    targetRevision: currentRevision(participant),
+    details: { representing: participant.representing }
+  });
+
+  res.json({
+    success: true,
+    data: { counsel: publicParticipant(participant) },
+    message: 'Counsel removed'
+  });
+}));
+
+// List comments on a prenup
+router.get('/:id/comments', authenticate, authorizePrenup(PrenupAction.READ_CONTENT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { id } = req.params;
+
+  const comments = await commentService.listComments(id);
+
+  res.json({
+    success: true,
+    data: { comments }
+  });
+}));
+
+// Comment on a prenup as a party or as counsel
+router.post('/:id/comments', authenticate, authorizePrenup(PrenupAction.COMMENT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { error, value } = commentSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const { id } = req.params;
+
+  const comment = await commentService.addComment(id, req.user!.id, value.body);
+  await audit(req, id, {
+    action: AuditAction.COMMENT_ADDED,
+    targetType: EntityType.PRENUP_COMMENT,
+    targetId: comment.id,
+    targetRevision: currentRevision(comment)
+  });
+
+  res.status(201).json({
+    success: true,
+    data: { comment },
+    message: 'Comment added'
+  });
+}));
+
+// List everyone taking part in a prenup
+router.get('/:id/participants', authenticate, authorizePrenup(PrenupAction.READ_CONTENT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const participants = await participantService.listParticipants(req.params.id);
+
+  res.json({
+    success: true,
+    data: { participants: participants.map(publicParticipant) }
+  });
+}));
+
+// Add a notary, witness or viewer by the email of their account
+router.post('/:id/participants', authenticate, authorizePrenup(PrenupAction.MANAGE_PARTICIPANTS), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { error, value } = addParticipantSchema.validate(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const participant = await manageParticipants(() =>
+    participantService.addParticipant(req.params.id, req.user!.id, value.email, value.role as ParticipantRole)
+  );
+  await audit(req, req.params.id, {
+    action: AuditAction.PARTICIPANT_ADDED,
+    targetType: EntityType.PRENUP_PARTICIPANT,
+    targetId: participant.id,
+    targetRevision: currentRevision(participant),
+    details: { role: participant.role, userId: participant.userId }
+  });
+
+  res.status(201).json({
+    success: true,
+    data: { participant: publicParticipant(participant) },
+    message: 'Participant added'
+  });
+}));
+
+// Remove a notary, witness or viewer
+router.delete('/:id/participants/:participantId', authenticate, authorizePrenup(PrenupAction.MANAGE_PARTICIPANTS), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { id, participantId } = req.params;
+
+  const participant = await manageParticipants(() =>
+    participantService.removeParticipant(id, participantId, req.user!.id)
+  );
+  await audit(req, id, {
+    action: AuditAction.PARTICIPANT_REMOVED,
+    targetType: EntityType.PRENUP_PARTICIPANT,
+    targetId: participant.id,
+    targetRevision: currentRevision(participant),
+    details: { role: participant.role, userId: participant.userId }
+  });
+
+  res.json({
+    success: true,
+    data: { participant: publicParticipant(participant) },
+    message: 'Participant removed'
+  });
+}));
+
+// Export the prenup's audit trail along with the result of verifying its hash chain
+router.get('/:id/audit', authenticate, authorizePrenup(PrenupAction.EXPORT_AUDIT), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { id } = req.params;
+
+  const trail = await auditService.exportTrail(id);
+  await audit(req, id, {
+    action: AuditAction.AUDIT_EXPORTED,
+    targetType: EntityType.AUDIT_TRAIL,
+    targetId: id,
+    details: { eventCount: trail.events.length, lastHash: trail.verification.lastHash }
+  });
+
+  res.json({
+    success: true,
+    data: trail
   });
 }));
 
@@ -11,6 +11,9 @@ import authRoutes from './routes/auth';
 import prenupRoutes from './routes/prenups';
 import documentRoutes from './routes/documents';
 import financialRoutes from './routes/financial';
+import invitationRoutes from './routes/invitations';
+import adminRoutes from './routes/admin';
+import devRoutes from './routes/dev';
 
 const app = express();
 
@@ -47,6 +50,11 @@ app.use('/api/auth', authRoutes);
 app.use('/api/prenups', prenupRoutes);
 app.use('/api/documents', documentRoutes);
 app.use('/api/financial', financialRoutes);
+app.use('/api/invitations', invitationRoutes);
+app.use('/api/admin', adminRoutes);
+if (config.nodeEnv === 'development' || config.nodeEnv === 'test') {
+  app.use('/api/dev', devRoutes);
+}
 
 // Error handling
 app.use(errorHandler);
@@ -0,0 +1,122 @@
+import { dataStore } from '../dataStore';
+import { InMemoryDataStore } from '../memoryStore';
+import { EntityType } from '../dynamodb';
+import { accountTokenService } from '../accountTokenService';
+import { authTokenService } from '../authTokenService';
+import { notificationService } from '../notificationService';
+import { userService } from '../userService';
+import { EmailTemplate } from '../emailTemplates';
+import { AccountToken, User } from '../../types/entities';
+
+const store = dataStore as InMemoryDataStore;
+
+// The token in the link of the newest email of the template
+const emailedToken = (template: EmailTemplate): string => {
+  const email = notificationService.getCaptureTransport()!.list().find(message => message.template === template);
+  return email!.text.match(/token=([0-9a-f]+)/)![1];
+};
+
+const expireTokens = async (user: User) => {
+  const tokens = await store.queryByCreator<AccountToken>(EntityType.ACCOUNT_TOKEN, user.id);
+  await Promise.all(tokens.map(token => store.update<AccountToken>(EntityType.ACCOUNT_TOKEN, token.id, {
+    expiresAt: new Date(Date.now() - 1000).toISOString()
+  }, false)));
+};
+
+describe('account tokens', () => {
+  let user: User;
+
+  beforeEach(async () => {
+    store.clear();
+    notificationService.getCaptureTransport()!.clear();
+    user = await userService.createUser({
+      email: 'account@example.com',
+      password: 'Password123!',
+      firstName: 'Account',
+      lastName: 'User'
+    });
+  });
+
+  describe('password reset', () => {
+    it('sets the new password, verifies the address and signs the user out everywhere', async () => {
+      const { refreshToken } = await authTokenService.issueTokens(user);
+      await accountTokenService.requestPasswordReset('Account@Example.com');
+
+      await accountTokenService.resetPassword(emailedToken(EmailTemplate.PASSWORD_RESET), 'NewPassword456!');
+
+      const updated = (await userService.getUserById(user.id))!;
+      expect(await userService.verifyPassword(updated, 'NewPassword456!')).toBe(true);
+      expect(await userService.verifyPassword(updated, 'Password123!')).toBe(false);
+      expect(updated.emailVerified).toBe(true);
+      await expect(authTokenService.refresh(refreshToken)).rejects.toThrow('Invalid refresh token');
+    });
+
+    it('stores only the hash of the emailed token', async () => {
+      await accountTokenService.requestPasswordReset(user.email);
+      const token = emailedToken(EmailTemplate.PASSWORD_RESET);
+
+      const [stored] = await store.queryByCreator<AccountToken>(EntityType.ACCOUNT_TOKEN, user.id);
+      expect(stored.tokenHash).not.toBe(token);
+      expect(JSON.stringify(stored)).not.toContain(token);
+    });
+
+    it('accepts a link only once', async () => {
+      await accountTokenService.requestPasswordReset(user.email);
+      const token = emailedToken(EmailTemplate.PASSWORD_RESET);
+      await accountTokenService.resetPassword(token, 'NewPassword456!');
+
+      await expect(accountTokenService.resetPassword(token, 'Another789!')).rejects.toThrow('Invalid or expired token');
+    });
+
+    it('accepts only the most recent link', async () => {
+      await accountTokenService.requestPasswordReset(user.email);
+      const first = emailedToken(EmailTemplate.PASSWORD_RESET);
+      await accountTokenService.requestPasswordReset(user.email);
+
+      await expect(accountTokenService.resetPassword(first, 'NewPassword456!')).rejects.toThrow('Invalid or expired token');
+      await accountTokenService.resetPassword(emailedToken(EmailTemplate.PASSWORD_RESET), 'NewPassword456!');
+    });
+
+    it('refuses an expired link', async () => {
+      await accountTokenService.requestPasswordReset(user.email);
+      await expireTokens(user);
+
+      await expect(accountTokenService.resetPassword(emailedToken(EmailTemplate.PASSWORD_RESET), 'NewPassword456!'))
+        .rejects.toThrow('Invalid or expired token');
+    });
+
+    it('sends nothing for an unknown address', async () => {
+      await accountTokenService.requestPasswordReset('nobody@example.com');
+
+      expect(notificationService.getCaptureTransport()!.list()).toEqual([]);
+    });
+  });
+
+  describe('email verification', () => {
+    it('marks the address verified', async () => {
+      await accountTokenService.sendEmailVerification(user);
+
+      const verified = await accountTokenService.verifyEmail(emailedToken(EmailTemplate.EMAIL_VERIFICATION));
+
+      expect(verified.emailVerified).toBe(true);
+      expect(verified.emailVerifiedAt).toBeDefined();
+      await expect(accountTokenService.sendEmailVerification(verified)).rejects.toThrow('Email already verified');
+    });
+
+    it('does not accept a token issued for another purpose', async () => {
+      await accountTokenService.requestPasswordReset(user.email);
+
+      await expect(accountTokenService.verifyEmail(emailedToken(EmailTemplate.PASSWORD_RESET)))
+        .rejects.toThrow('Invalid or expired token');
+      expect((await userService.getUserById(user.id))!.emailVerified).toBe(false);
+    });
+
+    it('refuses an expired link', async () => {
+      await accountTokenService.sendEmailVerification(user);
+      await expireTokens(user);
+
+      await expect(accountTokenService.verifyEmail(emailedToken(EmailTemplate.EMAIL_VERIFICATION)))
+        .rejects.toThrow('Invalid or expired token');
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { dataStore } from '../dataStore';
+import { InMemoryDataStore } from '../memoryStore';
+import { adminService } from '../adminService';
+import { auditService, AuditActor, ACCOUNT_TRAIL_ID } from '../auditService';
+import { authTokenService } from '../authTokenService';
+import { counselService } from '../counselService';
+import { documentService } from '../documentService';
+import { loginService } from '../loginService';
+import { prenupService } from '../prenupService';
+import { sessionService } from '../sessionService';
+import { userService } from '../userService';
+import { AuditAction, DocumentType, InvitationStatus, ParticipantRole, Prenup, USState, User, UserRole } from '../../types/entities';
+
+const store = dataStore as InMemoryDataStore;
+
+const createUser = (name: string, lastName = 'Tester', role?: UserRole): Promise<User> =>
+  userService.createUser({
+    email: `${name}@example.com`,
+    password: 'Password123!',
+    firstName: name,
+    lastName,
+    role
+  });
+
+describe('admin', () => {
+  let admin: User;
+  let actor: AuditActor;
+  let owner: User;
+  let prenup: Prenup;
+
+  beforeEach(async () => {
+    store.clear();
+    admin = await createUser('admin', 'Tester', UserRole.ADMIN);
+    actor = { userId: admin.id, ipAddress: '203.0.113.7', userAgent: 'jest' };
+    owner = await createUser('owner', 'Smith');
+    prenup = await prenupService.createPrenup({ title: 'Ours', state: USState.CALIFORNIA, createdBy: owner.id });
+  });
+
+  it('searches users by email or name', async () => {
+    await createUser('other', 'Jones');
+
+    const byName = await adminService.listUsers('  owner smith ');
+    const byEmail = await adminService.listUsers('OTHER@');
+
+    expect(byName.users.map(user => user.id)).toEqual([owner.id]);
+    expect(byEmail.users.map(user => user.email)).toEqual(['other@example.com']);
+    expect((await adminService.listUsers()).users).toHaveLength(3);
+    expect(JSON.stringify(byName.users)).not.toContain('password');
+  });
+
+  it('shows a user with the prenups they take part in and the storage they use', async () => {
+    await documentService.createDocument({
+      prenupId: prenup.id,
+      type: DocumentType.SUPPORTING_DOCUMENT,
+      filename: 'deed.pdf',
+      path: 'uploads/deed.pdf',
+      size: 2048,
+      mimeType: 'application/pdf',
+      uploadedBy: owner.id
+    });
+
+    const shown = await adminService.getUser(owner.id);
+
+    expect(shown!.prenups).toEqual([{ prenupId: prenup.id, title: 'Ours', totalSize: 2048, roles: [ParticipantRole.PARTY_A] }]);
+    expect(await adminService.getUser('missing')).toBeNull();
+  });
+
+  describe('disabling accounts', () => {
+    it('ends every session and refuses sign-in until the account is enabled', async () => {
+      const { refreshToken } = await authTokenService.issueTokens(owner);
+
+      const disabled = await adminService.disableUser(owner.id, actor);
+
+      expect(disabled).toMatchObject({ disabled: true, disabledBy: admin.id });
+      expect(await sessionService.listForUser(owner.id)).toEqual([]);
+      await expect(authTokenService.refresh(refreshToken)).rejects.toThrow('Invalid refresh token');
+      await expect(loginService.login(owner.email, 'Password123!')).rejects.toThrow('Account disabled');
+
+      const enabled = await adminService.enableUser(owner.id, actor);
+
+      expect(enabled.disabled).toBeUndefined();
+      await expect(loginService.login(owner.email, 'Password123!')).resolves.toMatchObject({ user: { id: owner.id } });
+    });
+
+    it('refuses to disable the admin\'s own account or one already disabled', async () => {
+      await expect(adminService.disableUser(admin.id, actor)).rejects.toThrow('You cannot disable your own account');
+
+      await adminService.disableUser(owner.id, actor);
+      await expect(adminService.disableUser(owner.id, actor)).rejects.toThrow('Account is already disabled');
+      await expect(adminService.enableUser(admin.id, actor)).rejects.toThrow('Account is not disabled');
+      await expect(adminService.disableUser('missing', actor)).rejects.toThrow('User not found');
+    });
+  });
+
+  describe('attorney role', () => {
+    it('is granted only once the email is verified and lets the account accept counsel invitations', async () => {
+      const attorney = await createUser('attorney');
+      const { token } = await counselService.inviteCounsel(prenup.id, owner.id, attorney.email);
+
+      await expect(adminService.setRole(attorney.id, UserRole.ATTORNEY, actor))
+        .rejects.toThrow('Email must be verified before granting the attorney role');
+
+      await userService.updateUser(attorney.id, { emailVerified: true });
+      const granted = await adminService.setRole(attorney.id, UserRole.ATTORNEY, actor);
+
+      expect(granted.role).toBe(UserRole.ATTORNEY);
+      await expect(counselService.acceptCounselInvitation(token, attorney.id)).resolves.toBeDefined();
+      await expect(adminService.setRole(attorney.id, UserRole.USER, actor))
+        .rejects.toThrow('Account is acting as counsel; it must withdraw first');
+    });
+
+    it('can be taken back, but never from or for an administrator', async () => {
+      await userService.updateUser(owner.id, { emailVerified: true });
+      await adminService.setRole(owner.id, UserRole.ATTORNEY, actor);
+
+      expect((await adminService.setRole(owner.id, UserRole.USER, actor)).role).toBe(UserRole.USER);
+      await expect(adminService.setRole(owner.id, UserRole.USER, actor)).rejects.toThrow('Account already has the USER role');
+      await expect(adminService.setRole(owner.id, UserRole.ADMIN, actor)).rejects.toThrow('Only the attorney role can be granted here');
+      await expect(adminService.setRole(admin.id, UserRole.USER, actor)).rejects.toThrow('You cannot change your own role');
+
+      const other = await createUser('other', 'Tester', UserRole.ADMIN);
+      await expect(adminService.setRole(other.id, UserRole.USER, actor)).rejects.toThrow('Cannot change the role of an administrator');
+    });
+  });
+
+  it('records who changed which account and when in the account trail', async () => {
+    await userService.updateUser(owner.id, { emailVerified: true });
+    await adminService.disableUser(owner.id, actor);
+    await adminService.enableUser(owner.id, actor);
+    await adminService.setRole(owner.id, UserRole.ATTORNEY, actor);
+    await expect(adminService.disableUser(admin.id, actor)).rejects.toThrow();
+
+    const events = await auditService.listEvents(ACCOUNT_TRAIL_ID);
+
+    expect(events.map(event => event.action)).toEqual([
+      AuditAction.ACCOUNT_DISABLED,
+      AuditAction.ACCOUNT_ENABLED,
+      AuditAction.ACCOUNT_ROLE_CHANGED
+    ]);
+    events.forEach(event => {
+      expect(event).toMatchObject({ actorId: admin.id, ipAddress: '203.0.113.7', targetId: owner.id });
+      expect(Date.parse(event.occurredAt)).not.toBeNaN();
+    });
+    expect(events[2].details).toEqual({ from: UserRole.USER, to: UserRole.ATTORNEY });
+    expect((await auditService.verifyTrail(ACCOUNT_TRAIL_ID)).valid).toBe(true);
+  });
+
+  describe('expiring invitations', () => {
+    it('stops a pending partner invitation link from working', async () => {
+      const { invitation, token } = await prenupService.invitePartner(prenup.id, { userId: owner.id }, 'partner@example.com');
+      const partner = await createUser('partner');
+
+      const expired = await adminService.expireInvitation(invitation.id, admin.id);
+
+      expect(expired).toMatchObject({ kind: 'partner', invitation: { status: InvitationStatus.EXPIRED } });
+      expect(expired.invitation).not.toHaveProperty('tokenHash');
+      await expect(prenupService.acceptPartnerInvitation(token, { userId: partner.id }))
+        .rejects.toThrow(/Invalid or expired invitation|Invitation has already been processed/);
+      await expect(adminService.expireInvitation(invitation.id, admin.id)).rejects.toThrow('Invitation is not pending');
+    });
+
+    it('stops a pending counsel invitation link from working', async () => {
+      const attorney = await createUser('attorney', 'Tester', UserRole.ATTORNEY);
+      const { participant, token } = await counselService.inviteCounsel(prenup.id, owner.id, attorney.email);
+
+      expect(await adminService.expireInvitation(participant.id, admin.id)).toMatchObject({ kind: 'counsel' });
+      await expect(counselService.acceptCounselInvitation(token, attorney.id)).rejects.toThrow('Invalid or expired invitation');
+      await expect(adminService.expireInvitation('missing', admin.id)).rejects.toThrow('Invitation not found');
+    });
+  });
+
+  it('shows a prenup\'s metadata without its content or disclosures', async () => {
+    await prenupService.invitePartner(prenup.id, { userId: owner.id }, 'partner@example.com');
+
+    const overview = await adminService.getPrenupOverview(prenup.id);
+
+    expect(Object.keys(overview!.prenup).sort()).toEqual([
+      'createdAt', 'createdBy', 'createdByEmail', 'id', 'lawVersion', 'partnerEmail', 'partnerId', 'state',
+      'status', 'statusHistory', 'title', 'updatedAt'
+    ]);
+    expect(overview!.invitations).toHaveLength(1);
+    expect(overview!.invitations[0]).not.toHaveProperty('tokenHash');
+    expect(overview!.participants.map(participant => participant.role)).toEqual([ParticipantRole.PARTY_A]);
+    expect(await adminService.getPrenupOverview('missing')).toBeNull();
+  });
+
+  it('reports storage per prenup, largest first', async () => {
+    const other = await prenupService.createPrenup({ title: 'Theirs', state: USState.CALIFORNIA, createdBy: owner.id });
+    for (const [prenupId, size] of [[prenup.id, 100], [other.id, 500]] as const) {
+      await documentService.createDocument({
+        prenupId,
+        type: DocumentType.SUPPORTING_DOCUMENT,
+        filename: 'file.pdf',
+        path: 'uploads/file.pdf',
+        size,
+        mimeType: 'application/pdf',
+        uploadedBy: owner.id
+      });
+    }
+
+    const usage = await adminService.getStorageUsage();
+
+    expect(usage.prenups.map(entry => entry.prenupId)).toEqual([other.id, prenup.id]);
+    expect(usage.totalSize).toBe(600);
+  });
+});
@@ -0,0 +1,126 @@
+import { dataStore } from '../dataStore';
+import { InMemoryDataStore } from '../memoryStore';
+import { EntityType, RevisionConflictError } from '../dynamodb';
+import { auditService, AuditActor } from '../auditService';
+import { prenupService } from '../prenupService';
+import { userService } from '../userService';
+import { AuditAction, AuditEvent, Prenup, USState, User } from '../../types/entities';
+
+const store = dataStore as InMemoryDataStore;
+
+const viewed = (prenup: Prenup) => ({
+  action: AuditAction.DISCLOSURE_VIEWED,
+  targetType: EntityType.PRENUP,
+  targetId: prenup.id
+});
+
+describe('audit trail', () => {
+  let owner: User;
+  let actor: AuditActor;
+  let prenup: Prenup;
+
+  // Records three events and resolves to them, oldest first
+  const recordThree = async (): Promise<AuditEvent[]> => {
+    await auditService.record(prenup.id, actor, viewed(prenup));
+    await prenupService.updatePrenup(prenup.id, { title: 'Renamed' }, actor, prenup.revision!);
+    await auditService.record(prenup.id, actor, viewed(prenup));
+    return await auditService.listEvents(prenup.id);
+  };
+
+  beforeEach(async () => {
+    store.clear();
+    owner = await userService.createUser({
+      email: 'audit@example.com',
+      password: 'Password123!',
+      firstName: 'Audit',
+      lastName: 'User'
+    });
+    actor = { userId: owner.id, ipAddress: '203.0.113.7', userAgent: 'jest' };
+    prenup = await prenupService.createPrenup({ title: 'Audited', state: USState.CALIFORNIA, createdBy: owner.id });
+  });
+
+  it('links every event to the one before it', async () => {
+    const events = await recordThree();
+
+    expect(events.map(event => event.sequence)).toEqual([1, 2, 3]);
+    expect(events[0].previousHash).toBe('0'.repeat(64));
+    expect(events[1].previousHash).toBe(events[0].hash);
+    expect(events[2].previousHash).toBe(events[1].hash);
+    expect(events[1]).toMatchObject({
+      action: AuditAction.PRENUP_UPDATED,
+      actorId: owner.id,
+      ipAddress: '203.0.113.7',
+      userAgent: 'jest',
+      targetRevision: 2,
+      details: { fields: ['title'] }
+    });
+    expect(await auditService.verifyTrail(prenup.id)).toEqual({ valid: true, eventCount: 3, lastHash: events[2].hash });
+  });
+
+  it('exports the events with their verification', async () => {
+    const events = await recordThree();
+
+    const exported = await auditService.exportTrail(prenup.id);
+
+    expect(exported.events).toEqual(events);
+    expect(exported.verification.valid).toBe(true);
+  });
+
+  it('writes no event when the change it records fails', async () => {
+    await expect(prenupService.updatePrenup(prenup.id, { title: 'Stale' }, actor, prenup.revision! + 1))
+      .rejects.toBeInstanceOf(RevisionConflictError);
+
+    expect(await auditService.listEvents(prenup.id)).toEqual([]);
+    expect((await prenupService.getPrenupById(prenup.id))!.title).toBe('Audited');
+  });
+
+  it('keeps the chain intact under concurrent appends', async () => {
+    await Promise.all([1, 2, 3].map(() => auditService.record(prenup.id, actor, viewed(prenup))));
+
+    const events = await auditService.listEvents(prenup.id);
+    expect(events.map(event => event.sequence)).toEqual([1, 2, 3]);
+    expect((await auditService.verifyTrail(prenup.id)).valid).toBe(true);
+  });
+
+  describe('tampering', () => {
+    it('detects an edited event', async () => {
+      const events = await recordThree();
+      await store.update<AuditEvent>(EntityType.AUDIT_EVENT, events[1].id, { actorId: 'someone-else' }, false);
+
+      expect(await auditService.verifyTrail(prenup.id)).toMatchObject({
+        valid: false,
+        brokenAt: 2,
+        reason: 'Event was modified after it was recorded'
+      });
+    });
+
+    it('detects an event whose hash was replaced', async () => {
+      const events = await recordThree();
+      await store.update<AuditEvent>(EntityType.AUDIT_EVENT, events[1].id, { hash: 'f'.repeat(64) }, false);
+
+      expect(await auditService.verifyTrail(prenup.id)).toMatchObject({ valid: false, brokenAt: 2 });
+    });
+
+    it('detects an event removed from the middle', async () => {
+      const events = await recordThree();
+      await store.delete(EntityType.AUDIT_EVENT, events[1].id);
+
+      expect(await auditService.verifyTrail(prenup.id)).toMatchObject({
+        valid: false,
+        brokenAt: 2,
+        reason: 'Event is missing from the trail'
+      });
+    });
+
+    it('detects events removed from the end', async () => {
+      const events = await recordThree();
+      await store.delete(EntityType.AUDIT_EVENT, events[2].id);
+
+      expect(await auditService.verifyTrail(prenup.id)).toMatchObject({
+        valid: false,
+        brokenAt: 3,
+        reason: 'Events are missing from the end of the trail'
+      });
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { dataStore } from '../dataStore';
+import { InMemoryDataStore } from '../memoryStore';
+import { EntityType, toTtl } from '../dynamodb';
+import { authTokenService } from '../authTokenService';
+import { userService } from '../userService';
+import { sessionService } from '../sessionService';
+import { RefreshToken, User } from '../../types/entities';
+
+const store = dataStore as InMemoryDataStore;
+
+const refreshTokensOf = (user: User) => store.queryByCreator<RefreshToken>(EntityType.REFRESH_TOKEN, user.id);
+
+describe('refresh tokens', () => {
+  let user: User;
+
+  beforeEach(async () => {
+    store.clear();
+    user = await userService.createUser({
+      email: 'tokens@example.com',
+      password: 'Password123!',
+      firstName: 'Token',
+      lastName: 'User'
+    });
+  });
+
+  it('gives every issued and rotated token a time to live at its expiry', async () => {
+    const { refreshToken } = await authTokenService.issueTokens(user);
+    await authTokenService.refresh(refreshToken);
+
+    const tokens = await refreshTokensOf(user);
+    expect(tokens).toHaveLength(2);
+    tokens.forEach(token => expect(token.ttl).toBe(toTtl(token.expiresAt)));
+  });
+
+  it('rotates the refresh token on every refresh', async () => {
+    const issued = await authTokenService.issueTokens(user);
+    const first = await authTokenService.refresh(issued.refreshToken);
+    const second = await authTokenService.refresh(first.refreshToken);
+
+    expect(new Set([issued.refreshToken, first.refreshToken, second.refreshToken]).size).toBe(3);
+    expect(second.user.id).toBe(user.id);
+    expect(await sessionService.listForUser(user.id)).toHaveLength(1);
+  });
+
+  it('revokes the whole family when a rotated token is reused', async () => {
+    const issued = await authTokenService.issueTokens(user);
+    const rotated = await authTokenService.refresh(issued.refreshToken);
+
+    await expect(authTokenService.refresh(issued.refreshToken)).rejects.toThrow('Invalid refresh token');
+
+    // The token the legitimate client holds stops working too, and the session ends
+    await expect(authTokenService.refresh(rotated.refreshToken)).rejects.toThrow('Invalid refresh token');
+    expect(await sessionService.listForUser(user.id)).toEqual([]);
+    (await refreshTokensOf(user)).forEach(token => expect(token.revokedAt).toBeDefined());
+  });
+
+  it('leaves other sessions alone when a token is reused', async () => {
+    const stolen = await authTokenService.issueTokens(user);
+    const other = await authTokenService.issueTokens(user);
+    await authTokenService.refresh(stolen.refreshToken);
+
+    await expect(authTokenService.refresh(stolen.refreshToken)).rejects.toThrow('Invalid refresh token');
+
+    await expect(authTokenService.refresh(other.refreshToken)).resolves.toMatchObject({ user: { id: user.id } });
+  });
+
+  it('refuses expired tokens', async () => {
+    const { refreshToken } = await authTokenService.issueTokens(user);
+    const [stored] = await refreshTokensOf(user);
+    await store.update<RefreshToken>(EntityType.REFRESH_TOKEN, stored.id, { expiresAt: new Date(Date.now() - 1000).toISOString() }, false);
+
+    await expect(authTokenService.refresh(refreshToken)).rejects.toThrow('Refresh token expired');
+  });
+
+  it('refuses tokens of a signed-out session or a disabled account', async () => {
+    const signedOut = await authTokenService.issueTokens(user);
+    await authTokenService.revoke(signedOut.refreshToken);
+    await expect(authTokenService.refresh(signedOut.refreshToken)).rejects.toThrow('Invalid refresh token');
+
+    const { refreshToken } = await authTokenService.issueTokens(user);
+    await userService.updateUser(user.id, { disabled: true });
+    await expect(authTokenService.refresh(refreshToken)).rejects.toThrow('Invalid refresh token');
+  });
+
+  it('refuses unknown tokens', async () => {
+    await expect(authTokenService.refresh('not-a-token')).rejects.toThrow('Invalid refresh token');
+  });
+});
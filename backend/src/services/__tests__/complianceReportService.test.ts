@@ -0,0 +1,157 @@
+import { complianceReportService } from '../complianceReportService';
+import { ComplianceFacts } from '../complianceRules';
+import { EntityType } from '../dynamodb';
+import {
+  FinancialDisclosure,
+  NotarizationSource,
+  ParticipantRole,
+  ParticipantStatus,
+  Prenup,
+  PrenupParticipant,
+  PrenupStatus,
+  Signature,
+  SignatureStatus,
+  USState
+} from '../../types/entities';
+
+const NOW = new Date('2026-06-15T12:00:00.000Z');
+
+const entity = <T>(entityType: EntityType, id: string, fields: object): T => ({
+  id,
+  entityType,
+  version: 'V0',
+  createdAt: '2026-06-01T10:00:00.000Z',
+  updatedAt: '2026-06-01T10:00:00.000Z',
+  ...fields
+}) as T;
+
+const participant = (userId: string, role: ParticipantRole, fields: Partial<PrenupParticipant> = {}) =>
+  entity<PrenupParticipant>(EntityType.PRENUP_PARTICIPANT, `participant-${userId}`, {
+    prenupId: 'prenup',
+    role,
+    email: `${userId}@example.com`,
+    userId,
+    userName: userId,
+    invitedBy: 'alice',
+    status: ParticipantStatus.ACTIVE,
+    ...fields
+  });
+
+// A California prenup both parties signed, with Carol as Alice's counsel
+const facts = (prenup: Partial<Prenup> = {}): ComplianceFacts => ({
+  prenup: entity<Prenup>(EntityType.PRENUP, 'prenup', {
+    title: 'Ours <draft>',
+    state: USState.CALIFORNIA,
+    lawVersion: 'CA-2002',
+    status: PrenupStatus.PENDING_SIGNATURES,
+    revision: 4,
+    createdBy: 'alice',
+    partnerId: 'bob',
+    progress: {},
+    content: { propertyDivision: 'separate' },
+    ...prenup
+  }),
+  contentHash: 'current',
+  participants: [
+    participant('alice', ParticipantRole.PARTY_A),
+    participant('bob', ParticipantRole.PARTY_B),
+    participant('carol', ParticipantRole.COUNSEL, {
+      representing: 'alice',
+      acceptedAt: '2026-06-02T10:00:00.000Z',
+      approval: { approvedAt: '2026-06-03T10:00:00.000Z', prenupRevision: 3 }
+    })
+  ],
+  disclosures: ['alice', 'bob'].map(userId => entity<FinancialDisclosure>(EntityType.FINANCIAL_DISCLOSURE, `disclosure-${userId}`, {
+    prenupId: 'prenup',
+    userId,
+    assets: [{ type: 'BANK_ACCOUNT', description: 'Savings', value: 123456, ownership: 'INDIVIDUAL' }],
+    debts: [],
+    income: { salary: 0, bonus: 0, investments: 0, business: 0, rental: 0, other: 0 },
+    netWorth: 123456
+  })),
+  documents: [],
+  signatures: [
+    entity<Signature>(EntityType.SIGNATURE, 'signature-bob', {
+      prenupId: 'prenup',
+      userId: 'bob',
+      status: SignatureStatus.SIGNED,
+      signedAt: '2026-06-12T10:00:00.000Z',
+      contentHash: 'earlier'
+    })
+  ],
+  presentations: [],
+  now: NOW
+});
+
+describe('compliance report', () => {
+  it('lists each requirement of the pinned law with its status and evidence', () => {
+    const report = complianceReportService.buildReport(facts());
+
+    expect(report.jurisdiction).toMatchObject({ state: USState.CALIFORNIA, code: 'CA', lawVersion: 'CA-2002', uniformAct: 'UPAA' });
+    expect(report.prenup).toMatchObject({ id: 'prenup', revision: 4, status: PrenupStatus.PENDING_SIGNATURES });
+    expect(report.generatedAt).toBe(NOW.toISOString());
+    expect(report.status).toBe('fail');
+
+    const waiting = report.requirements.find(requirement => requirement.name === 'Seven-Day Waiting Period')!;
+    expect(waiting).toMatchObject({ category: 'timing', required: true, status: 'fail', citation: 'Cal. Fam. Code § 1615(c)(2)' });
+    expect(report.outstanding).toContain('Seven-Day Waiting Period');
+    expect(report.outstanding).toEqual(report.requirements
+      .filter(requirement => requirement.required && requirement.status !== 'pass')
+      .map(requirement => requirement.name));
+  });
+
+  it('reports a law version pinned before the current one', () => {
+    const report = complianceReportService.buildReport(facts({ lawVersion: 'CA-1986' }));
+
+    expect(report.jurisdiction.lawVersion).toBe('CA-1986');
+    expect(report.requirements.map(requirement => requirement.name)).not.toContain('Seven-Day Waiting Period');
+  });
+
+  it('keeps the timestamped records without disclosure amounts', () => {
+    const { records } = complianceReportService.buildReport(facts());
+
+    expect(records.disclosures).toEqual([
+      { party: 'Party A (alice)', submittedAt: '2026-06-01T10:00:00.000Z', updatedAt: '2026-06-01T10:00:00.000Z' },
+      { party: 'Party B (bob)', submittedAt: '2026-06-01T10:00:00.000Z', updatedAt: '2026-06-01T10:00:00.000Z' }
+    ]);
+    expect(records.counsel).toEqual([{
+      party: 'Party A (alice)',
+      counsel: 'carol',
+      acceptedAt: '2026-06-02T10:00:00.000Z',
+      approvedAt: '2026-06-03T10:00:00.000Z',
+      approvedRevision: 3
+    }]);
+    expect(records.signatures).toEqual([
+      { party: 'Party B (bob)', status: SignatureStatus.SIGNED, signedAt: '2026-06-12T10:00:00.000Z', current: false }
+    ]);
+    expect(JSON.stringify(records)).not.toContain('123456');
+  });
+
+  it('marks a notarization only a party vouched for', () => {
+    const notarization = { notaryName: 'Nora Notary', notarizedAt: '2026-06-14T10:00:00.000Z', recordedBy: 'alice' };
+
+    const selfAttested = complianceReportService.buildReport(facts({ notarization }));
+    const byCounsel = complianceReportService.buildReport(facts({
+      notarization: { ...notarization, source: NotarizationSource.COUNSEL }
+    }));
+
+    expect(selfAttested.records.notarization).toMatchObject({ source: NotarizationSource.SELF_ATTESTED, selfAttested: true });
+    expect(byCounsel.records.notarization).toMatchObject({ source: NotarizationSource.COUNSEL, selfAttested: false });
+    expect(complianceReportService.renderHtml(selfAttested)).toContain('(self-attested by a party)');
+  });
+
+  it('carries the special rules as warnings for counsel to confirm', () => {
+    const report = complianceReportService.buildReport(facts());
+
+    expect(report.warnings).toContain('Court will examine fairness at time of enforcement');
+  });
+
+  it('renders the report as escaped HTML', () => {
+    const html = complianceReportService.renderHtml(complianceReportService.buildReport(facts()));
+
+    expect(html).toContain('Ours &lt;draft&gt;');
+    expect(html).not.toContain('Ours <draft>');
+    expect(html).toContain('Seven-Day Waiting Period');
+    expect(html).toContain('Not satisfied');
+  });
+});
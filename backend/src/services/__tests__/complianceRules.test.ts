@@ -0,0 +1,271 @@
+import { ComplianceFacts, ComplianceRule, evaluateRule } from '../complianceRules';
+import { EntityType } from '../dynamodb';
+import { stateComplianceService } from '../stateCompliance';
+import { JURISDICTIONS } from '../../data/jurisdictions';
+import {
+  DocumentType,
+  FinancialDisclosure,
+  NotarizationSource,
+  ParticipantRole,
+  ParticipantStatus,
+  Presentation,
+  Prenup,
+  PrenupParticipant,
+  PrenupStatus,
+  Signature,
+  SignatureStatus,
+  USState
+} from '../../types/entities';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-06-15T12:00:00.000Z');
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * DAY_MS).toISOString();
+
+const entity = <T>(entityType: EntityType, id: string, fields: object): T => ({
+  id,
+  entityType,
+  version: 'V0',
+  createdAt: daysAgo(30),
+  updatedAt: daysAgo(30),
+  ...fields
+}) as T;
+
+const party = (userId: string, role: ParticipantRole) =>
+  entity<PrenupParticipant>(EntityType.PRENUP_PARTICIPANT, `participant-${userId}`, {
+    prenupId: 'prenup',
+    role,
+    email: `${userId}@example.com`,
+    userId,
+    userName: userId,
+    invitedBy: 'alice',
+    status: ParticipantStatus.ACTIVE
+  });
+
+const disclosure = (userId: string, fields: Partial<FinancialDisclosure> = {}) =>
+  entity<FinancialDisclosure>(EntityType.FINANCIAL_DISCLOSURE, `disclosure-${userId}`, {
+    prenupId: 'prenup',
+    userId,
+    assets: [{ type: 'BANK_ACCOUNT', description: 'Savings', value: 1000, ownership: 'INDIVIDUAL' }],
+    debts: [{ type: 'CREDIT_CARD', description: 'Card', amount: 100, creditor: 'Bank' }],
+    income: { salary: 50000, bonus: 0, investments: 0, business: 0, rental: 0, other: 0 },
+    netWorth: 900,
+    ...fields
+  });
+
+const presented = (userId: string, days: number, contentHash = 'current') =>
+  entity<Presentation>(EntityType.PRESENTATION, `presentation-${userId}-${days}`, {
+    prenupId: 'prenup',
+    userId,
+    contentHash,
+    prenupRevision: 1,
+    advisement: 'Seek independent counsel',
+    presentedAt: daysAgo(days)
+  });
+
+const signed = (userId: string, days: number, contentHash = 'current') =>
+  entity<Signature>(EntityType.SIGNATURE, `signature-${userId}`, {
+    prenupId: 'prenup',
+    userId,
+    status: SignatureStatus.SIGNED,
+    signedAt: daysAgo(days),
+    contentHash
+  });
+
+// A California prenup Alice created and Bob joined, with nothing else done yet
+const baseFacts = (overrides: Partial<ComplianceFacts> = {}): ComplianceFacts => ({
+  prenup: entity<Prenup>(EntityType.PRENUP, 'prenup', {
+    title: 'Ours',
+    state: USState.CALIFORNIA,
+    lawVersion: 'CA-2002',
+    status: PrenupStatus.DRAFT,
+    createdBy: 'alice',
+    partnerId: 'bob',
+    progress: {},
+    content: {}
+  }),
+  contentHash: 'current',
+  participants: [party('alice', ParticipantRole.PARTY_A), party('bob', ParticipantRole.PARTY_B)],
+  disclosures: [],
+  documents: [],
+  signatures: [],
+  presentations: [],
+  now: NOW,
+  ...overrides
+});
+
+const withPrenup = (fields: Partial<Prenup>) => {
+  const facts = baseFacts();
+  return { ...facts, prenup: { ...facts.prenup, ...fields } };
+};
+
+describe('compliance rules', () => {
+  it('needs both parties to have joined', () => {
+    expect(evaluateRule({ kind: 'parties-joined' }, baseFacts())).toEqual({
+      status: 'pass',
+      evidence: ['Both parties take part in the prenup']
+    });
+    expect(evaluateRule({ kind: 'parties-joined' }, baseFacts({ participants: [party('alice', ParticipantRole.PARTY_A)] })))
+      .toEqual({ status: 'fail', evidence: ['Party B has not joined'] });
+  });
+
+  it('accepts written terms or an uploaded agreement', () => {
+    expect(evaluateRule({ kind: 'written-agreement' }, baseFacts()).status).toBe('fail');
+    expect(evaluateRule({ kind: 'written-agreement' }, withPrenup({ content: { propertyDivision: 'separate' } })).status)
+      .toBe('pass');
+
+    const uploaded = evaluateRule({ kind: 'written-agreement' }, baseFacts({
+      documents: [entity(EntityType.DOCUMENT, 'doc', { type: DocumentType.PRENUP_FINAL, filename: 'final.pdf' })]
+    }));
+    expect(uploaded).toEqual({ status: 'pass', evidence: ['Agreement uploaded: final.pdf'] });
+  });
+
+  it('counts only signatures on the current text', () => {
+    const rule: ComplianceRule = { kind: 'signed-by-parties' };
+
+    expect(evaluateRule(rule, baseFacts({ signatures: [signed('alice', 1), signed('bob', 1)] })).status).toBe('pass');
+    expect(evaluateRule(rule, baseFacts({ signatures: [signed('alice', 1), signed('bob', 1, 'earlier')] }))).toEqual({
+      status: 'fail',
+      evidence: ['Party A (alice) signed on 2026-06-14', 'Party B (bob) signed an earlier version of the agreement']
+    });
+  });
+
+  describe('disclosures', () => {
+    const rule: ComplianceRule = { kind: 'disclosures-submitted', sections: ['assets', 'debts', 'income'] };
+
+    it('passes when both parties listed every section, without revealing amounts', () => {
+      const result = evaluateRule(rule, baseFacts({ disclosures: [disclosure('alice'), disclosure('bob')] }));
+
+      expect(result.status).toBe('pass');
+      expect(result.evidence[0]).toBe('Party A (alice) disclosed 1 asset, 1 debt and income');
+      expect(result.evidence.join(' ')).not.toContain('50000');
+    });
+
+    it('fails when a party has not disclosed and asks for review of an empty section', () => {
+      expect(evaluateRule(rule, baseFacts({ disclosures: [disclosure('alice')] })).status).toBe('fail');
+
+      const noDebts = evaluateRule(rule, baseFacts({ disclosures: [disclosure('alice'), disclosure('bob', { debts: [] })] }));
+      expect(noDebts.status).toBe('unknown');
+      expect(noDebts.evidence).toContain('Party B (bob) lists no debts; confirm there is nothing to disclose');
+    });
+  });
+
+  describe('waiting period', () => {
+    const rule: ComplianceRule = { kind: 'waiting-period', days: 7 };
+
+    it('runs from when each party received the text until they sign', () => {
+      const facts = baseFacts({
+        presentations: [presented('alice', 10), presented('bob', 10)],
+        signatures: [signed('alice', 2), signed('bob', 5)]
+      });
+
+      const result = evaluateRule(rule, facts);
+
+      expect(result.status).toBe('fail');
+      expect(result.evidence).toContain('Party A (alice) signed 8 days later, on 2026-06-13');
+      expect(result.evidence).toContain('Party B (bob) signed after only 5 days, on 2026-06-10');
+    });
+
+    it('counts down for parties who have not signed', () => {
+      const result = evaluateRule(rule, baseFacts({ presentations: [presented('alice', 8), presented('bob', 3)] }));
+
+      expect(result.status).toBe('fail');
+      expect(result.evidence).toContain('8 days have passed; Party A (alice) may sign');
+      expect(result.evidence).toContain('4 days remaining before Party B (bob) may sign');
+    });
+
+    it('ignores presentations of an earlier text', () => {
+      const result = evaluateRule(rule, baseFacts({ presentations: [presented('alice', 20, 'earlier'), presented('bob', 20)] }));
+
+      expect(result.evidence).toContain('Party A (alice) has not received the final agreement');
+    });
+  });
+
+  describe('notarization', () => {
+    const notarization = { notaryName: 'Nora Notary', notarizedAt: daysAgo(1), recordedBy: 'alice' };
+
+    it('passes when counsel or an uploaded copy confirms it', () => {
+      expect(evaluateRule({ kind: 'notarized' }, withPrenup({
+        notarization: { ...notarization, source: NotarizationSource.COUNSEL }
+      })).status).toBe('pass');
+
+      const withCopy = baseFacts({
+        documents: [entity(EntityType.DOCUMENT, 'doc', { type: DocumentType.NOTARIZED_AGREEMENT, filename: 'stamped.pdf' })]
+      });
+      expect(evaluateRule({ kind: 'notarized' }, withCopy)).toEqual({
+        status: 'pass',
+        evidence: ['Notarized copy uploaded: stamped.pdf']
+      });
+    });
+
+    it('leaves a party\'s own word for review and fails when nothing is recorded', () => {
+      const selfAttested = evaluateRule({ kind: 'notarized' }, withPrenup({
+        notarization: { ...notarization, source: NotarizationSource.SELF_ATTESTED }
+      }));
+
+      expect(selfAttested.status).toBe('unknown');
+      expect(evaluateRule({ kind: 'notarized' }, withPrenup({ notarization })).status).toBe('unknown');
+      expect(evaluateRule({ kind: 'notarized' }, baseFacts()).status).toBe('fail');
+    });
+  });
+
+  it('needs active counsel for each party', () => {
+    const counsel = {
+      ...party('carol', ParticipantRole.COUNSEL),
+      representing: 'alice',
+      approval: { approvedAt: daysAgo(2), prenupRevision: 3 }
+    };
+
+    const result = evaluateRule({ kind: 'independent-counsel' }, baseFacts({
+      participants: [...baseFacts().participants, counsel]
+    }));
+
+    expect(result).toEqual({
+      status: 'fail',
+      evidence: ['Party A (alice) is represented by carol, who approved on 2026-06-13', 'Party B (bob) has no counsel']
+    });
+  });
+
+  describe('combinators', () => {
+    const passing: ComplianceRule = { kind: 'parties-joined' };
+    const failing: ComplianceRule = { kind: 'notarized' };
+    const review: ComplianceRule = { kind: 'manual-review', question: 'Was it voluntary?' };
+
+    it('fails "all" on any failure and leaves it unknown on any review', () => {
+      expect(evaluateRule({ kind: 'all', rules: [passing, review, failing] }, baseFacts()).status).toBe('fail');
+      expect(evaluateRule({ kind: 'all', rules: [passing, review] }, baseFacts())).toEqual({
+        status: 'unknown',
+        evidence: ['Both parties take part in the prenup', 'Needs review: Was it voluntary?']
+      });
+    });
+
+    it('passes "any" on the first passing rule with its evidence only', () => {
+      expect(evaluateRule({ kind: 'any', rules: [failing, passing] }, baseFacts())).toEqual({
+        status: 'pass',
+        evidence: ['Both parties take part in the prenup']
+      });
+      expect(evaluateRule({ kind: 'any', rules: [failing, review] }, baseFacts()).status).toBe('unknown');
+      expect(evaluateRule({ kind: 'any', rules: [failing] }, baseFacts()).status).toBe('fail');
+    });
+  });
+
+  it('evaluates every requirement of every jurisdiction', () => {
+    for (const jurisdiction of Object.values(JURISDICTIONS)) {
+      for (const law of jurisdiction.versions) {
+        for (const requirement of law.requirements) {
+          const result = evaluateRule(requirement.rule, baseFacts());
+          expect(['pass', 'fail', 'unknown']).toContain(result.status);
+          expect(result.evidence.length).toBeGreaterThan(0);
+        }
+      }
+    }
+  });
+
+  it('fails a prenup on any failing required requirement', () => {
+    const evaluation = stateComplianceService.evaluate(baseFacts());
+
+    expect(evaluation).toMatchObject({ state: USState.CALIFORNIA, lawVersion: 'CA-2002', status: 'fail' });
+    expect(evaluation.requirements.map(requirement => requirement.name)).toContain('Seven-Day Waiting Period');
+    expect(evaluation.requirements.find(requirement => requirement.name === 'Seven-Day Waiting Period'))
+      .toMatchObject({ required: true, status: 'fail', citation: 'Cal. Fam. Code § 1615(c)(2)' });
+  });
+});
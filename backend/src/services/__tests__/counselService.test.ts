@@ -0,0 +1,148 @@
+import { dataStore } from '../dataStore';
+import { InMemoryDataStore } from '../memoryStore';
+import { EntityType } from '../dynamodb';
+import { counselService } from '../counselService';
+import { commentService } from '../commentService';
+import { participantService, PrenupAccessDeniedError, PrenupAction } from '../participantService';
+import { prenupService } from '../prenupService';
+import { userService } from '../userService';
+import { ParticipantRole, ParticipantStatus, Prenup, PrenupStatus, USState, User, UserRole } from '../../types/entities';
+
+const store = dataStore as InMemoryDataStore;
+
+const createUser = (name: string, role?: UserRole): Promise<User> =>
+  userService.createUser({
+    email: `${name}@example.com`,
+    password: 'Password123!',
+    firstName: name,
+    lastName: 'Tester',
+    role
+  });
+
+const setStatus = (prenup: Prenup, status: PrenupStatus) =>
+  store.update<Prenup>(EntityType.PRENUP, prenup.id, { status }, false);
+
+describe('counsel', () => {
+  let owner: User;
+  let partner: User;
+  let attorney: User;
+  let prenup: Prenup;
+
+  // Appoints the attorney as counsel of the owner
+  const appoint = async () => {
+    const { token } = await counselService.inviteCounsel(prenup.id, owner.id, attorney.email);
+    return await counselService.acceptCounselInvitation(token, attorney.id);
+  };
+
+  beforeEach(async () => {
+    store.clear();
+    owner = await createUser('owner');
+    partner = await createUser('partner');
+    attorney = await createUser('attorney', UserRole.ATTORNEY);
+
+    prenup = await prenupService.createPrenup({ title: 'Represented', state: USState.CALIFORNIA, createdBy: owner.id });
+    await store.create(participantService.partyEntity(prenup.id, partner, ParticipantRole.PARTY_B, owner.id));
+    prenup = await store.update<Prenup>(EntityType.PRENUP, prenup.id, { partnerId: partner.id }, false);
+  });
+
+  it('appoints an attorney who accepts the emailed invitation', async () => {
+    const counsel = await appoint();
+
+    expect(counsel).toMatchObject({
+      role: ParticipantRole.COUNSEL,
+      status: ParticipantStatus.ACTIVE,
+      userId: attorney.id,
+      representing: owner.id
+    });
+    expect(counsel.tokenHash).toBeUndefined();
+    const [ownerRepresentation, partnerRepresentation] = await counselService.getRepresentation(prenup);
+    expect(ownerRepresentation).toMatchObject({ partyId: owner.id, counsel: { id: counsel.id } });
+    expect(partnerRepresentation).toMatchObject({ partyId: partner.id, counsel: null });
+  });
+
+  it('reads only the client\'s disclosure and never signs or edits', async () => {
+    await appoint();
+
+    expect(await participantService.can(prenup.id, attorney.id, PrenupAction.READ_DISCLOSURE, owner.id)).toBe(true);
+    expect(await participantService.can(prenup.id, attorney.id, PrenupAction.READ_DISCLOSURE, partner.id)).toBe(false);
+    expect(await participantService.can(prenup.id, attorney.id, PrenupAction.COMMENT)).toBe(true);
+    expect(await participantService.can(prenup.id, attorney.id, PrenupAction.SIGN)).toBe(false);
+    expect(await participantService.can(prenup.id, attorney.id, PrenupAction.EDIT_CONTENT)).toBe(false);
+  });
+
+  it('only lets an attorney account with the invited address accept', async () => {
+    const { token } = await counselService.inviteCounsel(prenup.id, owner.id, attorney.email);
+    const plainUser = await createUser('plain');
+    const otherAttorney = await createUser('other-attorney', UserRole.ATTORNEY);
+
+    await expect(counselService.acceptCounselInvitation(token, plainUser.id))
+      .rejects.toThrow('Only attorney accounts can accept counsel invitations');
+    await expect(counselService.acceptCounselInvitation(token, otherAttorney.id))
+      .rejects.toThrow('Invitation was sent to a different email address');
+
+    await counselService.acceptCounselInvitation(token, attorney.id);
+    await expect(counselService.acceptCounselInvitation(token, attorney.id)).rejects.toThrow('Invalid or expired invitation');
+  });
+
+  it('keeps counsel independent: one per party, never a party, never both sides', async () => {
+    await appoint();
+
+    await expect(counselService.inviteCounsel(prenup.id, owner.id, 'someone@example.com'))
+      .rejects.toThrow('Counsel already appointed');
+    await expect(counselService.inviteCounsel(prenup.id, partner.id, attorney.email))
+      .rejects.toThrow('Counsel already represents the other party');
+    await expect(counselService.inviteCounsel(prenup.id, partner.id, owner.email))
+      .rejects.toThrow('Counsel must be independent of both parties');
+  });
+
+  it('approves only a prenup ready for review, and the approval ends with the appointment', async () => {
+    const counsel = await appoint();
+
+    await expect(counselService.approve(prenup.id, attorney.id)).rejects.toThrow('Prenup is not ready for review');
+    await setStatus(prenup, PrenupStatus.READY_FOR_REVIEW);
+    const approved = await counselService.approve(prenup.id, attorney.id, 'Fair to my client');
+    expect(approved.approval).toMatchObject({ note: 'Fair to my client' });
+
+    const removed = await counselService.removeCounsel(prenup.id, counsel.id, owner.id);
+    expect(removed.status).toBe(ParticipantStatus.REMOVED);
+    expect(removed.approval).toBeUndefined();
+    expect(await participantService.can(prenup.id, attorney.id, PrenupAction.READ_CONTENT)).toBe(false);
+  });
+
+  it('lets only the client or the counsel end an appointment', async () => {
+    const counsel = await appoint();
+
+    await expect(counselService.removeCounsel(prenup.id, counsel.id, partner.id))
+      .rejects.toThrow('Only the client or the counsel can end an appointment');
+    await counselService.removeCounsel(prenup.id, counsel.id, attorney.id);
+  });
+
+  it('refuses appointments once the prenup is closed', async () => {
+    await setStatus(prenup, PrenupStatus.EXECUTED);
+
+    await expect(counselService.inviteCounsel(prenup.id, owner.id, attorney.email)).rejects.toThrow('Prenup is closed');
+  });
+
+  describe('comments', () => {
+    it('marks comments by counsel with the client they speak for', async () => {
+      await appoint();
+
+      await commentService.addComment(prenup.id, owner.id, 'First draft is up');
+      await commentService.addComment(prenup.id, attorney.id, 'Please add the house');
+
+      const comments = await commentService.listComments(prenup.id);
+      expect(comments.map(comment => comment.body)).toEqual(['First draft is up', 'Please add the house']);
+      expect(comments[0].asCounselFor).toBeUndefined();
+      expect(comments[1]).toMatchObject({ authorId: attorney.id, asCounselFor: owner.id, authorName: 'attorney Tester' });
+    });
+
+    it('refuses comments from viewers and outsiders', async () => {
+      const viewer = await createUser('viewer');
+      await participantService.addParticipant(prenup.id, owner.id, viewer.email, ParticipantRole.VIEWER);
+      const outsider = await createUser('outsider');
+
+      await expect(commentService.addComment(prenup.id, viewer.id, 'Hi')).rejects.toBeInstanceOf(PrenupAccessDeniedError);
+      await expect(commentService.addComment(prenup.id, outsider.id, 'Hi')).rejects.toThrow('Prenup not found');
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import { dataStore } from '../dataStore';
+import { InMemoryDataStore } from '../memoryStore';
+import { EntityType } from '../dynamodb';
+import { loginThrottleService } from '../loginThrottleService';
+import { LoginThrottle } from '../../types/entities';
+
+const store = dataStore as InMemoryDataStore;
+
+const counters = async () =>
+  (await store.queryByEntityType<LoginThrottle>(EntityType.LOGIN_THROTTLE)).items
+    .map(record => [record.scope, record.failures]);
+
+describe('LoginThrottleService on the in-memory store', () => {
+  beforeEach(() => store.clear());
+
+  it('counts concurrent first failures instead of overwriting one with the other', async () => {
+    await Promise.all([
+      loginThrottleService.recordFailure({ email: 'someone@example.com', ip: '10.0.0.1' }),
+      loginThrottleService.recordFailure({ email: 'Someone@example.com', ip: '10.0.0.1' })
+    ]);
+
+    expect((await counters()).sort()).toEqual([['ACCOUNT', 2], ['IP', 2]]);
+  });
+
+  it('starts a counter per account and address', async () => {
+    await loginThrottleService.recordFailure({ email: 'someone@example.com', ip: '10.0.0.1' });
+    await loginThrottleService.recordFailure({ email: 'other@example.com', ip: '10.0.0.2' });
+
+    expect(await counters()).toHaveLength(4);
+    expect((await counters()).every(([, failures]) => failures === 1)).toBe(true);
+  });
+});
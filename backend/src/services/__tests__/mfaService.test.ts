@@ -0,0 +1,137 @@
+import { dataStore } from '../dataStore';
+import { InMemoryDataStore } from '../memoryStore';
+import { EntityType, LATEST_VERSION } from '../dynamodb';
+import { mfaService } from '../mfaService';
+import { userService } from '../userService';
+import { loginService } from '../loginService';
+import { generateTotpCode } from '../../utils/totp';
+import { User } from '../../types/entities';
+
+const store = dataStore as InMemoryDataStore;
+
+const MFA_FIELDS = ['mfaSecret', 'mfaPendingSecret', 'mfaRecoveryCodes', 'mfaLastUsedStep'];
+
+const createUser = () => userService.createUser({
+  email: 'mfa@example.com',
+  password: 'Password123!',
+  firstName: 'Mfa',
+  lastName: 'User'
+});
+
+// Enrolls the user and returns their recovery codes
+const enroll = async (user: User): Promise<string[]> => {
+  const { secret } = await mfaService.beginEnrollment(user.id);
+  return await mfaService.confirmEnrollment(user.id, generateTotpCode(secret));
+};
+
+// A code from the user's authenticator `steps` time steps from now; each
+// step is accepted only once
+const codeFor = async (userId: string, steps: number): Promise<string> =>
+  generateTotpCode((await userService.getUserById(userId))!.mfaSecret!, Date.now() + steps * 30 * 1000);
+
+const archivedVersions = async (userId: string) =>
+  (await store.getAllVersions<User>(EntityType.USER, userId)).filter(version => version.version !== LATEST_VERSION);
+
+describe('MFA state and version history', () => {
+  beforeEach(() => store.clear());
+
+  it('writes enrollment, recovery codes and disabling without new versions', async () => {
+    const user = await createUser();
+    await enroll(user);
+    const [recoveryCode] = await mfaService.regenerateRecoveryCodes(user.id, await codeFor(user.id, 1));
+    await mfaService.disable(user.id, recoveryCode);
+
+    expect(await archivedVersions(user.id)).toEqual([]);
+  });
+
+  it('leaves MFA fields out of versions archived by other updates', async () => {
+    const user = await createUser();
+    await enroll(user);
+
+    await userService.updateUser(user.id, { firstName: 'Renamed' });
+
+    const archived = await archivedVersions(user.id);
+    expect(archived).toHaveLength(1);
+    MFA_FIELDS.forEach(field => expect(archived[0]).not.toHaveProperty(field));
+    expect((await userService.getUserById(user.id))!.mfaSecret).toBeDefined();
+  });
+});
+
+describe('two-factor authentication', () => {
+  let user: User;
+
+  beforeEach(async () => {
+    store.clear();
+    user = await createUser();
+  });
+
+  it('enables MFA only once a code from the new secret is confirmed', async () => {
+    const { secret, otpauthUri } = await mfaService.beginEnrollment(user.id);
+    expect(otpauthUri).toContain(`secret=${secret}`);
+    expect((await userService.getUserById(user.id))!.mfaEnabled).toBeFalsy();
+
+    await expect(mfaService.confirmEnrollment(user.id, '000000')).rejects.toThrow('Invalid verification code');
+    const recoveryCodes = await mfaService.confirmEnrollment(user.id, generateTotpCode(secret));
+
+    expect(recoveryCodes).toHaveLength(10);
+    const enabled = (await userService.getUserById(user.id))!;
+    expect(mfaService.getStatus(enabled)).toMatchObject({ enabled: true, recoveryCodesRemaining: 10 });
+    expect(enabled.mfaSecret).toBe(secret);
+    expect(enabled.mfaPendingSecret).toBeUndefined();
+    // Only hashes of the recovery codes are kept
+    recoveryCodes.forEach(code => expect(enabled.mfaRecoveryCodes).not.toContain(code));
+  });
+
+  it('refuses confirmation before enrollment has started', async () => {
+    await expect(mfaService.confirmEnrollment(user.id, '123456')).rejects.toThrow('has not been started');
+  });
+
+  it('accepts each authenticator code only once', async () => {
+    await enroll(user);
+    const code = await codeFor(user.id, 1);
+
+    await mfaService.verifySecondFactor((await userService.getUserById(user.id))!, code);
+
+    await expect(mfaService.verifySecondFactor((await userService.getUserById(user.id))!, code))
+      .rejects.toThrow('Invalid verification code');
+  });
+
+  it('accepts each recovery code only once, in any case', async () => {
+    const [recoveryCode] = await enroll(user);
+
+    const verified = await mfaService.verifySecondFactor((await userService.getUserById(user.id))!, ` ${recoveryCode.toUpperCase()} `);
+    expect(mfaService.getStatus(verified).recoveryCodesRemaining).toBe(9);
+
+    await expect(mfaService.verifySecondFactor(verified, recoveryCode)).rejects.toThrow('Invalid verification code');
+  });
+
+  it('asks for a code after the password and signs in once it is given', async () => {
+    await enroll(user);
+
+    const challenge = await loginService.login(user.email, 'Password123!');
+    expect(challenge).toMatchObject({ mfaRequired: true });
+    const { mfaToken } = challenge as { mfaToken: string };
+
+    await expect(loginService.completeMfaLogin(mfaToken, '000000')).rejects.toThrow('Invalid verification code');
+    const result = await loginService.completeMfaLogin(mfaToken, await codeFor(user.id, 1));
+    expect(result).toMatchObject({ user: { id: user.id } });
+    expect(result).toHaveProperty('refreshToken');
+  });
+
+  it('refuses a challenge token that is not one', async () => {
+    await enroll(user);
+
+    await expect(mfaService.readChallenge('not-a-token')).rejects.toThrow('Invalid or expired challenge');
+  });
+
+  it('requires a code to turn MFA off', async () => {
+    await enroll(user);
+
+    await expect(mfaService.disable(user.id, '000000')).rejects.toThrow('Invalid verification code');
+    await mfaService.disable(user.id, await codeFor(user.id, 1));
+
+    const disabled = (await userService.getUserById(user.id))!;
+    expect(mfaService.getStatus(disabled)).toEqual({ enabled: false, enabledAt: undefined, recoveryCodesRemaining: 0 });
+    expect(disabled.mfaSecret).toBeUndefined();
+  });
+});
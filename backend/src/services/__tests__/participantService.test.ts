@@ -0,0 +1,152 @@
+import { dataStore } from '../dataStore';
+import { InMemoryDataStore } from '../memoryStore';
+import { EntityType } from '../dynamodb';
+import { participantService, PrenupAccessDeniedError, PrenupAction } from '../participantService';
+import { prenupService } from '../prenupService';
+import { userService } from '../userService';
+import { authorizePrenup } from '../../middleware/prenupAccess';
+import { AuthRequest } from '../../middleware/auth';
+import { ApiError } from '../../middleware/errorHandler';
+import { ParticipantRole, ParticipantStatus, Prenup, USState, User } from '../../types/entities';
+
+const store = dataStore as InMemoryDataStore;
+
+const createUser = (name: string): Promise<User> =>
+  userService.createUser({
+    email: `${name}@example.com`,
+    password: 'Password123!',
+    firstName: name,
+    lastName: 'Tester'
+  });
+
+describe('prenup permissions', () => {
+  let owner: User;
+  let partner: User;
+  let prenup: Prenup;
+
+  beforeEach(async () => {
+    store.clear();
+    owner = await createUser('owner');
+    partner = await createUser('partner');
+
+    prenup = await prenupService.createPrenup({ title: 'Ours', state: USState.CALIFORNIA, createdBy: owner.id });
+    await store.create(participantService.partyEntity(prenup.id, partner, ParticipantRole.PARTY_B, owner.id));
+    prenup = await store.update<Prenup>(EntityType.PRENUP, prenup.id, { partnerId: partner.id }, false);
+  });
+
+  it('lets both parties edit, sign and manage the prenup', async () => {
+    const actions = [
+      PrenupAction.READ_CONTENT,
+      PrenupAction.EDIT_CONTENT,
+      PrenupAction.SIGN,
+      PrenupAction.MANAGE_DOCUMENTS,
+      PrenupAction.MANAGE_PARTICIPANTS,
+      PrenupAction.READ_FINANCIAL_SUMMARY,
+      PrenupAction.EXPORT_AUDIT
+    ];
+
+    for (const user of [owner, partner]) {
+      for (const action of actions) {
+        expect(await participantService.can(prenup.id, user.id, action)).toBe(true);
+      }
+      expect(await participantService.can(prenup.id, user.id, PrenupAction.APPROVE)).toBe(false);
+    }
+  });
+
+  it('scopes disclosures: party A reads both, party B only their own', async () => {
+    expect(await participantService.can(prenup.id, owner.id, PrenupAction.READ_DISCLOSURE, owner.id)).toBe(true);
+    expect(await participantService.can(prenup.id, owner.id, PrenupAction.READ_DISCLOSURE, partner.id)).toBe(true);
+    expect(await participantService.can(prenup.id, partner.id, PrenupAction.READ_DISCLOSURE, partner.id)).toBe(true);
+    expect(await participantService.can(prenup.id, partner.id, PrenupAction.READ_DISCLOSURE, owner.id)).toBe(false);
+    expect(await participantService.can(prenup.id, owner.id, PrenupAction.READ_DISCLOSURE, 'someone-else')).toBe(false);
+  });
+
+  it('gives added viewers, witnesses and notaries read access only', async () => {
+    for (const role of [ParticipantRole.VIEWER, ParticipantRole.WITNESS, ParticipantRole.NOTARY]) {
+      const user = await createUser(role.toLowerCase());
+      await participantService.addParticipant(prenup.id, owner.id, user.email, role);
+
+      expect(await participantService.can(prenup.id, user.id, PrenupAction.READ_CONTENT)).toBe(true);
+      expect(await participantService.can(prenup.id, user.id, PrenupAction.EDIT_CONTENT)).toBe(false);
+      expect(await participantService.can(prenup.id, user.id, PrenupAction.SIGN)).toBe(false);
+      expect(await participantService.can(prenup.id, user.id, PrenupAction.READ_DISCLOSURE, owner.id)).toBe(false);
+      expect(await participantService.can(prenup.id, user.id, PrenupAction.COMMENT)).toBe(false);
+    }
+  });
+
+  it('reports the prenup as not found to outsiders and forbidden to participants', async () => {
+    const outsider = await createUser('outsider');
+    const viewer = await createUser('viewer');
+    await participantService.addParticipant(prenup.id, owner.id, viewer.email, ParticipantRole.VIEWER);
+
+    const outsiderError = await participantService.authorize(prenup.id, outsider.id, PrenupAction.READ_CONTENT).catch(error => error);
+    expect(outsiderError).toBeInstanceOf(PrenupAccessDeniedError);
+    expect(outsiderError).toMatchObject({ visible: false, message: 'Prenup not found' });
+
+    const viewerError = await participantService.authorize(prenup.id, viewer.id, PrenupAction.EDIT_CONTENT).catch(error => error);
+    expect(viewerError).toMatchObject({ visible: true, message: 'You do not have permission to edit this prenup' });
+
+    await expect(participantService.authorize('missing', owner.id, PrenupAction.READ_CONTENT)).rejects.toThrow('Prenup not found');
+  });
+
+  it('adds only notaries, witnesses and viewers with accounts, once each', async () => {
+    const viewer = await createUser('viewer');
+
+    await expect(participantService.addParticipant(prenup.id, owner.id, viewer.email, ParticipantRole.COUNSEL))
+      .rejects.toThrow('COUNSEL participants cannot be added directly');
+    await expect(participantService.addParticipant(prenup.id, owner.id, 'nobody@example.com', ParticipantRole.VIEWER))
+      .rejects.toThrow('No account found with this email');
+
+    await participantService.addParticipant(prenup.id, owner.id, viewer.email, ParticipantRole.VIEWER);
+    await expect(participantService.addParticipant(prenup.id, partner.id, viewer.email, ParticipantRole.WITNESS))
+      .rejects.toThrow('User already takes part in this prenup');
+    await expect(participantService.addParticipant(prenup.id, viewer.id, 'owner@example.com', ParticipantRole.VIEWER))
+      .rejects.toThrow('You do not have permission to manage participants of this prenup');
+  });
+
+  it('ends the access of a removed participant', async () => {
+    const viewer = await createUser('viewer');
+    const added = await participantService.addParticipant(prenup.id, owner.id, viewer.email, ParticipantRole.VIEWER);
+
+    const removed = await participantService.removeParticipant(prenup.id, added.id, partner.id);
+
+    expect(removed.status).toBe(ParticipantStatus.REMOVED);
+    expect(await participantService.can(prenup.id, viewer.id, PrenupAction.READ_CONTENT)).toBe(false);
+    await expect(participantService.removeParticipant(prenup.id, added.id, owner.id))
+      .rejects.toThrow('Participant has already been removed');
+  });
+
+  it('does not let parties be removed as participants', async () => {
+    const [partyB] = (await participantService.listParticipants(prenup.id))
+      .filter(participant => participant.role === ParticipantRole.PARTY_B);
+
+    await expect(participantService.removeParticipant(prenup.id, partyB.id, owner.id)).rejects.toThrow('Participant not found');
+  });
+
+  describe('authorizePrenup middleware', () => {
+    // Runs the middleware and resolves to what it passed to next()
+    const run = (action: PrenupAction, user: User, prenupId: string) => {
+      const req = { params: { id: prenupId }, body: {}, user } as unknown as AuthRequest;
+      return new Promise<{ req: AuthRequest; error?: ApiError }>(resolve =>
+        authorizePrenup(action)(req, {} as never, error => resolve({ req, error }))
+      );
+    };
+
+    it('leaves the access on the request', async () => {
+      const { req, error } = await run(PrenupAction.SIGN, partner, prenup.id);
+
+      expect(error).toBeUndefined();
+      expect(req.prenupAccess!.roles).toEqual([ParticipantRole.PARTY_B]);
+    });
+
+    it('answers 404 to outsiders and 403 to participants without the permission', async () => {
+      const outsider = await createUser('outsider');
+      const viewer = await createUser('viewer');
+      await participantService.addParticipant(prenup.id, owner.id, viewer.email, ParticipantRole.VIEWER);
+
+      expect((await run(PrenupAction.READ_CONTENT, outsider, prenup.id)).error).toMatchObject({ statusCode: 404 });
+      expect((await run(PrenupAction.SIGN, viewer, prenup.id)).error).toMatchObject({ statusCode: 403 });
+      expect((await run(PrenupAction.READ_CONTENT, viewer, '')).error).toMatchObject({ statusCode: 400 });
+    });
+  });
+});
@@ -0,0 +1,306 @@
+import { dataStore } from '../dataStore';
+import { InMemoryDataStore } from '../memoryStore';
+import { EntityType } from '../dynamodb';
+import { hashAgreement, presentationService } from '../presentationService';
+import { Precondition, TransitionNotAllowedError, prenupLifecycle } from '../prenupLifecycle';
+import { auditService, AuditActor } from '../auditService';
+import { evaluateRule } from '../complianceRules';
+import { stateComplianceService } from '../stateCompliance';
+import { userService } from '../userService';
+import {
+  AuditAction,
+  Document,
+  DocumentType,
+  FinancialDisclosure,
+  NotarizationSource,
+  Presentation,
+  Prenup,
+  PrenupStatus,
+  Signature,
+  SignatureStatus,
+  USState,
+  User,
+  createDocumentEntity,
+  createFinancialDisclosureEntity,
+  createPrenupEntity,
+  createPresentationEntity,
+  createSignatureEntity
+} from '../../types/entities';
+
+const store = dataStore as InMemoryDataStore;
+
+const notarization = { notaryName: 'N. Otary', notarizedAt: '2026-01-05T00:00:00.000Z' };
+
+// A prenup signed by both parties and waiting to be executed
+const signedPrenup = async (state: USState): Promise<Prenup> => {
+  const prenup = await store.create<Prenup>(createPrenupEntity({
+    title: 'Executed prenup',
+    state,
+    status: PrenupStatus.PENDING_SIGNATURES,
+    createdBy: 'party-a',
+    partnerId: 'party-b',
+    progress: {},
+    content: { property: 'separate' }
+  }));
+  for (const userId of ['party-a', 'party-b']) {
+    await store.create<Signature>(createSignatureEntity({
+      prenupId: prenup.id,
+      userId,
+      status: SignatureStatus.SIGNED,
+      signedAt: new Date().toISOString(),
+      contentHash: hashAgreement(prenup, []),
+      userEmail: `${userId}@example.com`
+    }));
+  }
+  return prenup;
+};
+
+const uploadNotarizedCopy = (prenup: Prenup): Promise<Document> =>
+  store.create<Document>(createDocumentEntity({
+    prenupId: prenup.id,
+    type: DocumentType.NOTARIZED_AGREEMENT,
+    filename: 'notarized.pdf',
+    path: '/uploads/notarized.pdf',
+    size: 1024,
+    mimeType: 'application/pdf',
+    uploadedBy: 'party-a'
+  }));
+
+const unmetForExecution = async (prenup: Prenup) => {
+  const transitions = await prenupLifecycle.getAvailableTransitions(prenup);
+  return transitions.find(transition => transition.to === PrenupStatus.EXECUTED)!.unmet.map(item => item.precondition);
+};
+
+const evaluateNotarized = async (prenupId: string) => {
+  const prenup = (await store.getById<Prenup>(EntityType.PRENUP, prenupId))!;
+  return evaluateRule({ kind: 'notarized' }, await stateComplianceService.loadFacts(prenup));
+};
+
+describe('notarization on execution', () => {
+  beforeEach(() => store.clear());
+
+  it('does not take a party\'s word for a required notarization', async () => {
+    const prenup = await signedPrenup(USState.LOUISIANA);
+
+    expect(await unmetForExecution(prenup)).toEqual([Precondition.NOTARIZED]);
+    await expect(prenupLifecycle.transition(prenup.id, PrenupStatus.EXECUTED, { userId: 'party-a' }, { notarization }))
+      .rejects.toBeInstanceOf(TransitionNotAllowedError);
+  });
+
+  it('accepts an uploaded notarized copy', async () => {
+    const prenup = await signedPrenup(USState.LOUISIANA);
+    const copy = await uploadNotarizedCopy(prenup);
+
+    expect(await unmetForExecution(prenup)).toEqual([]);
+    const executed = await prenupLifecycle.transition(prenup.id, PrenupStatus.EXECUTED, { userId: 'party-a' }, { notarization });
+
+    expect(executed.notarization).toMatchObject({ source: NotarizationSource.DOCUMENT, documentId: copy.id, recordedBy: 'party-a' });
+  });
+
+  it('accepts a notarization recorded by counsel and audits it', async () => {
+    const prenup = await signedPrenup(USState.LOUISIANA);
+
+    const recorded = await prenupLifecycle.recordNotarization(prenup.id, { userId: 'counsel' }, notarization, NotarizationSource.COUNSEL);
+
+    expect(recorded.notarization).toMatchObject({ ...notarization, source: NotarizationSource.COUNSEL, recordedBy: 'counsel' });
+    expect(await unmetForExecution(recorded)).toEqual([]);
+    const events = await auditService.listEvents(prenup.id);
+    expect(events.map(event => event.action)).toContain(AuditAction.NOTARIZATION_RECORDED);
+  });
+
+  it('keeps a verified notarization when a party sends their own details', async () => {
+    const prenup = await signedPrenup(USState.LOUISIANA);
+    const recorded = await prenupLifecycle.recordNotarization(prenup.id, { userId: 'admin' }, notarization, NotarizationSource.ADMIN);
+
+    const executed = await prenupLifecycle.transition(recorded.id, PrenupStatus.EXECUTED, { userId: 'party-a' }, {
+      notarization: { notaryName: 'Someone Else', notarizedAt: notarization.notarizedAt }
+    });
+
+    expect(executed.notarization).toMatchObject({ notaryName: 'N. Otary', source: NotarizationSource.ADMIN });
+  });
+
+  it('refuses to record a notarization before signing', async () => {
+    const prenup = await signedPrenup(USState.LOUISIANA);
+    await store.update<Prenup>(EntityType.PRENUP, prenup.id, { status: PrenupStatus.DRAFT });
+
+    await expect(prenupLifecycle.recordNotarization(prenup.id, { userId: 'counsel' }, notarization, NotarizationSource.COUNSEL))
+      .rejects.toThrow('out for signature');
+  });
+
+  it('reports a self-attested notarization as unconfirmed', async () => {
+    const prenup = await signedPrenup(USState.CALIFORNIA);
+    const executed = await prenupLifecycle.transition(prenup.id, PrenupStatus.EXECUTED, { userId: 'party-a' }, { notarization });
+
+    expect(executed.notarization!.source).toBe(NotarizationSource.SELF_ATTESTED);
+    const evaluation = await evaluateNotarized(prenup.id);
+    expect(evaluation.status).toBe('unknown');
+    expect(evaluation.evidence[0]).toContain('self-attested by a party');
+  });
+
+  it('reports a notarization confirmed by counsel as met', async () => {
+    const prenup = await signedPrenup(USState.CALIFORNIA);
+    await prenupLifecycle.recordNotarization(prenup.id, { userId: 'counsel' }, notarization, NotarizationSource.COUNSEL);
+
+    const evaluation = await evaluateNotarized(prenup.id);
+    expect(evaluation.status).toBe('pass');
+    expect(evaluation.evidence[0]).toContain('by counsel');
+  });
+});
+
+describe('transition preconditions', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  let partyA: User;
+  let partyB: User;
+  let actor: AuditActor;
+
+  const createUser = (name: string): Promise<User> =>
+    userService.createUser({ email: `${name}@example.com`, password: 'Password123!', firstName: name, lastName: 'Tester' });
+
+  // A California prenup, held to the 7-day waiting period
+  const prenupIn = (status: PrenupStatus, fields: Partial<Prenup> = {}): Promise<Prenup> =>
+    store.create<Prenup>(createPrenupEntity({
+      title: 'Lifecycle prenup',
+      state: USState.CALIFORNIA,
+      lawVersion: 'CA-2002',
+      status,
+      createdBy: partyA.id,
+      partnerId: partyB.id,
+      progress: {},
+      content: { property: 'separate' },
+      ...fields
+    }));
+
+  const disclose = (prenup: Prenup, user: User) =>
+    store.create<FinancialDisclosure>(createFinancialDisclosureEntity({
+      prenupId: prenup.id,
+      userId: user.id,
+      assets: [],
+      debts: [],
+      income: { salary: 0, bonus: 0, investments: 0, business: 0, rental: 0, other: 0 },
+      netWorth: 0
+    }));
+
+  const present = async (prenup: Prenup, user: User, daysAgo: number) =>
+    store.create<Presentation>(createPresentationEntity({
+      prenupId: prenup.id,
+      userId: user.id,
+      contentHash: await presentationService.getContentHash(prenup),
+      prenupRevision: 1,
+      advisement: 'Seek independent counsel',
+      presentedAt: new Date(Date.now() - daysAgo * DAY_MS).toISOString()
+    }));
+
+  const sign = async (prenup: Prenup, user: User, contentHash?: string) =>
+    store.create<Signature>(createSignatureEntity({
+      prenupId: prenup.id,
+      userId: user.id,
+      status: SignatureStatus.SIGNED,
+      signedAt: new Date().toISOString(),
+      contentHash: contentHash || await presentationService.getContentHash(prenup),
+      userEmail: user.email
+    }));
+
+  const unmetFor = async (prenup: Prenup, to: PrenupStatus) => {
+    const transitions = await prenupLifecycle.getAvailableTransitions(prenup);
+    return transitions.find(transition => transition.to === to)!.unmet;
+  };
+
+  beforeEach(async () => {
+    store.clear();
+    partyA = await createUser('party-a');
+    partyB = await createUser('party-b');
+    actor = { userId: partyA.id };
+  });
+
+  it('needs the partner to have joined before work starts', async () => {
+    const prenup = await prenupIn(PrenupStatus.DRAFT, { partnerId: undefined });
+
+    expect(await unmetFor(prenup, PrenupStatus.IN_PROGRESS)).toEqual([
+      { precondition: Precondition.PARTNER_JOINED, message: 'Partner has not joined the prenup' }
+    ]);
+    const error = await prenupLifecycle.transition(prenup.id, PrenupStatus.IN_PROGRESS, actor).catch(caught => caught);
+    expect(error).toBeInstanceOf(TransitionNotAllowedError);
+    expect(error.unmet.map((item: { precondition: Precondition }) => item.precondition)).toEqual([Precondition.PARTNER_JOINED]);
+  });
+
+  it('needs both disclosures before review', async () => {
+    const prenup = await prenupIn(PrenupStatus.IN_PROGRESS);
+    await disclose(prenup, partyA);
+
+    expect(await unmetFor(prenup, PrenupStatus.READY_FOR_REVIEW)).toEqual([
+      { precondition: Precondition.DISCLOSURES_SUBMITTED, message: 'One party has not submitted a financial disclosure' }
+    ]);
+
+    await disclose(prenup, partyB);
+    const moved = await prenupLifecycle.transition(prenup.id, PrenupStatus.READY_FOR_REVIEW, actor);
+    expect(moved.status).toBe(PrenupStatus.READY_FOR_REVIEW);
+  });
+
+  it('needs the waiting period to have run and both parties to use two-factor authentication before signing', async () => {
+    const prenup = await prenupIn(PrenupStatus.READY_FOR_REVIEW);
+    await disclose(prenup, partyA);
+    await disclose(prenup, partyB);
+    await present(prenup, partyA, 10);
+
+    expect(await unmetFor(prenup, PrenupStatus.PENDING_SIGNATURES)).toEqual([
+      { precondition: Precondition.WAITING_PERIOD_ELAPSED, message: 'One party has not received the final agreement' },
+      { precondition: Precondition.MFA_ENABLED, message: 'Neither party has enabled two-factor authentication' }
+    ]);
+
+    await present(prenup, partyB, 3);
+    for (const user of [partyA, partyB]) {
+      await userService.updateUser(user.id, { mfaEnabled: true });
+    }
+    expect(await unmetFor(prenup, PrenupStatus.PENDING_SIGNATURES)).toEqual([
+      { precondition: Precondition.WAITING_PERIOD_ELAPSED, message: '4 days remaining in the 7-day waiting period' }
+    ]);
+  });
+
+  it('opens signing once every precondition holds', async () => {
+    const prenup = await prenupIn(PrenupStatus.READY_FOR_REVIEW);
+    await disclose(prenup, partyA);
+    await disclose(prenup, partyB);
+    for (const user of [partyA, partyB]) {
+      await present(prenup, user, 8);
+      await userService.updateUser(user.id, { mfaEnabled: true });
+    }
+
+    const moved = await prenupLifecycle.transition(prenup.id, PrenupStatus.PENDING_SIGNATURES, actor);
+
+    expect(moved.status).toBe(PrenupStatus.PENDING_SIGNATURES);
+    expect(moved.statusHistory!.map(change => change.status)).toEqual([PrenupStatus.PENDING_SIGNATURES]);
+    const [event] = await auditService.listEvents(prenup.id);
+    expect(event).toMatchObject({
+      action: AuditAction.PRENUP_STATUS_CHANGED,
+      details: { from: PrenupStatus.READY_FOR_REVIEW, to: PrenupStatus.PENDING_SIGNATURES }
+    });
+  });
+
+  it('executes only with both signatures on the current text', async () => {
+    const prenup = await prenupIn(PrenupStatus.PENDING_SIGNATURES);
+    await sign(prenup, partyA);
+    await sign(prenup, partyB, 'an-earlier-text');
+
+    expect(await unmetFor(prenup, PrenupStatus.EXECUTED)).toEqual([
+      { precondition: Precondition.SIGNATURES_COLLECTED, message: '1 signature still required' }
+    ]);
+  });
+
+  it('voids the signatures when signing is reopened', async () => {
+    const prenup = await prenupIn(PrenupStatus.PENDING_SIGNATURES);
+    const signature = await sign(prenup, partyA);
+
+    await prenupLifecycle.transition(prenup.id, PrenupStatus.READY_FOR_REVIEW, actor);
+
+    expect((await store.getById<Signature>(EntityType.SIGNATURE, signature.id))!.status).toBe(SignatureStatus.EXPIRED);
+  });
+
+  it('refuses transitions the lifecycle does not define', async () => {
+    const draft = await prenupIn(PrenupStatus.DRAFT);
+    const executed = await prenupIn(PrenupStatus.EXECUTED);
+
+    await expect(prenupLifecycle.transition(draft.id, PrenupStatus.EXECUTED, actor))
+      .rejects.toThrow('Cannot move prenup from DRAFT to EXECUTED');
+    expect(await prenupLifecycle.getAvailableTransitions(executed)).toEqual([]);
+  });
+});
@@ -0,0 +1,266 @@
+import { dataStore } from '../dataStore';
+import { InMemoryDataStore } from '../memoryStore';
+import { EntityType, RevisionConflictError } from '../dynamodb';
+import { prenupService } from '../prenupService';
+import { financialService } from '../financialService';
+import { participantService, PrenupAccessDeniedError, PrenupAction } from '../participantService';
+import { userService } from '../userService';
+import { notificationService } from '../notificationService';
+import { EmailTemplate } from '../emailTemplates';
+import { auditService } from '../auditService';
+import { PrenupLockedError } from '../prenupLock';
+import { AuditAction, ParticipantRole, Prenup, PrenupStatus, USState, User } from '../../types/entities';
+
+const createUser = (name: string): Promise<User> =>
+  userService.createUser({
+    email: `${name}@example.com`,
+    password: 'Password123!',
+    firstName: name,
+    lastName: 'Tester'
+  });
+
+const income = { salary: 50000, bonus: 0, investments: 0, business: 0, rental: 0, other: 0 };
+
+describe('PrenupService and FinancialService on the in-memory store', () => {
+  let owner: User;
+  let stranger: User;
+
+  beforeEach(async () => {
+    (dataStore as InMemoryDataStore).clear();
+    owner = await createUser('owner');
+    stranger = await createUser('stranger');
+  });
+
+  it('runs against the in-memory store under test', () => {
+    expect(dataStore).toBeInstanceOf(InMemoryDataStore);
+  });
+
+  it('stores addresses in lower case and finds them in any case', async () => {
+    const user = await userService.createUser({
+      email: 'Mixed.Case@Example.com',
+      password: 'Password123!',
+      firstName: 'Mixed',
+      lastName: 'Tester'
+    });
+
+    expect(user.email).toBe('mixed.case@example.com');
+    expect((await userService.getUserByEmail('MIXED.CASE@example.com'))?.id).toBe(user.id);
+    await expect(userService.createUser({
+      email: 'mixed.case@EXAMPLE.com',
+      password: 'Password123!',
+      firstName: 'Other',
+      lastName: 'Tester'
+    })).rejects.toThrow('User already exists with this email');
+  });
+
+  describe('createPrenup', () => {
+    it('creates a draft with the creator as Party A', async () => {
+      const prenup = await prenupService.createPrenup({
+        title: 'Our prenup',
+        state: USState.CALIFORNIA,
+        createdBy: owner.id
+      });
+
+      expect(prenup.status).toBe(PrenupStatus.DRAFT);
+      expect(prenup.revision).toBe(1);
+      expect(prenup.lawVersion).toBe('CA-2002');
+      expect(await prenupService.getPrenupById(prenup.id)).toEqual(prenup);
+
+      const participants = await participantService.listParticipants(prenup.id);
+      expect(participants).toHaveLength(1);
+      expect(participants[0]).toMatchObject({ role: ParticipantRole.PARTY_A, userId: owner.id });
+    });
+
+    it('rejects an unknown creator', async () => {
+      await expect(prenupService.createPrenup({
+        title: 'Orphan',
+        state: USState.CALIFORNIA,
+        createdBy: 'missing'
+      })).rejects.toThrow('Creator not found');
+    });
+  });
+
+  describe('updatePrenup', () => {
+    it('archives the previous state and bumps the revision', async () => {
+      const prenup = await prenupService.createPrenup({ title: 'Before', state: USState.NEW_YORK, createdBy: owner.id });
+
+      const updated = await prenupService.updatePrenup(prenup.id, { title: 'After' }, { userId: owner.id }, 1);
+
+      expect(updated.title).toBe('After');
+      expect(updated.revision).toBe(2);
+      expect((await prenupService.getPrenupVersion(prenup.id, 'V1'))?.title).toBe('Before');
+
+      const events = await auditService.listEvents(prenup.id);
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ action: AuditAction.PRENUP_UPDATED, targetRevision: 2, actorId: owner.id });
+      expect((await auditService.verifyTrail(prenup.id)).valid).toBe(true);
+    });
+
+    it('rejects a stale revision and leaves the prenup unchanged', async () => {
+      const prenup = await prenupService.createPrenup({ title: 'Before', state: USState.NEW_YORK, createdBy: owner.id });
+      await prenupService.updatePrenup(prenup.id, { title: 'First' }, { userId: owner.id }, 1);
+
+      await expect(prenupService.updatePrenup(prenup.id, { title: 'Second' }, { userId: owner.id }, 1))
+        .rejects.toBeInstanceOf(RevisionConflictError);
+      expect((await prenupService.getPrenupById(prenup.id))?.title).toBe('First');
+      // Nor is the failed update audited
+      expect(await auditService.listEvents(prenup.id)).toHaveLength(1);
+    });
+  });
+
+  describe('invitePartner', () => {
+    beforeEach(() => notificationService.getCaptureTransport()!.clear());
+
+    it('adds a verified account straight away and emails it', async () => {
+      await dataStore.update<User>(EntityType.USER, stranger.id, { emailVerified: true }, false);
+      const prenup = await prenupService.createPrenup({ title: 'Together', state: USState.TEXAS, createdBy: owner.id });
+
+      const { invitation } = await prenupService.invitePartner(prenup.id, { userId: owner.id }, stranger.email);
+
+      expect(invitation.status).toBe('ACCEPTED');
+      expect((await prenupService.getPrenupById(prenup.id))?.partnerId).toBe(stranger.id);
+      const emails = notificationService.getCaptureTransport()!.list();
+      expect(emails).toHaveLength(1);
+      expect(emails[0]).toMatchObject({ template: EmailTemplate.PARTNER_ADDED, to: stranger.email });
+
+      const [event] = await auditService.listEvents(prenup.id);
+      expect(event).toMatchObject({ action: AuditAction.PARTNER_INVITED, targetId: invitation.id });
+    });
+
+    it('sends an unverified account an invitation to accept instead', async () => {
+      const prenup = await prenupService.createPrenup({ title: 'Together', state: USState.TEXAS, createdBy: owner.id });
+
+      const { invitation } = await prenupService.invitePartner(prenup.id, { userId: owner.id }, stranger.email);
+
+      expect(invitation.status).toBe('PENDING');
+      expect((await prenupService.getPrenupById(prenup.id))?.partnerId).toBeUndefined();
+    });
+
+    it('finds the account whatever the casing of the address', async () => {
+      await dataStore.update<User>(EntityType.USER, stranger.id, { emailVerified: true }, false);
+      const prenup = await prenupService.createPrenup({ title: 'Together', state: USState.TEXAS, createdBy: owner.id });
+
+      const { invitation } = await prenupService.invitePartner(prenup.id, { userId: owner.id }, ' Stranger@Example.COM');
+
+      expect(invitation).toMatchObject({ status: 'ACCEPTED', email: 'stranger@example.com', acceptedBy: stranger.id });
+    });
+
+    it('stores the invited address in lower case', async () => {
+      const prenup = await prenupService.createPrenup({ title: 'Together', state: USState.TEXAS, createdBy: owner.id });
+
+      const { invitation } = await prenupService.invitePartner(prenup.id, { userId: owner.id }, 'New.Partner@Example.com');
+
+      expect(invitation).toMatchObject({ status: 'PENDING', email: 'new.partner@example.com' });
+    });
+
+    it('joins the invited account through the link token', async () => {
+      const prenup = await prenupService.createPrenup({ title: 'Together', state: USState.TEXAS, createdBy: owner.id });
+      const { token } = await prenupService.invitePartner(prenup.id, { userId: owner.id }, stranger.email);
+
+      const joined = await prenupService.acceptPartnerInvitation(token, { userId: stranger.id });
+
+      expect(joined.partnerId).toBe(stranger.id);
+      expect((await prenupService.getPartnerInvitation(token))?.status).toBe('ACCEPTED');
+    });
+
+    it('reports a failed token lookup rather than an invalid link', async () => {
+      const prenup = await prenupService.createPrenup({ title: 'Together', state: USState.TEXAS, createdBy: owner.id });
+      const { token } = await prenupService.invitePartner(prenup.id, { userId: owner.id }, stranger.email);
+      const lookup = jest.spyOn(dataStore, 'queryByIndex')
+        .mockRejectedValueOnce(new Error('The table does not have the specified index: TokenIndex'));
+
+      try {
+        await expect(prenupService.acceptPartnerInvitation(token, { userId: stranger.id }))
+          .rejects.toThrow('The table does not have the specified index: TokenIndex');
+      } finally {
+        lookup.mockRestore();
+      }
+    });
+  });
+
+  describe('access checks', () => {
+    it('lets the creator edit and hides the prenup from non-participants', async () => {
+      const prenup = await prenupService.createPrenup({ title: 'Private', state: USState.TEXAS, createdBy: owner.id });
+
+      await expect(participantService.authorize(prenup.id, owner.id, PrenupAction.EDIT_CONTENT)).resolves.toBeDefined();
+
+      const denied = participantService.authorize(prenup.id, stranger.id, PrenupAction.READ_CONTENT);
+      await expect(denied).rejects.toBeInstanceOf(PrenupAccessDeniedError);
+      await expect(denied).rejects.toMatchObject({ visible: false, message: 'Prenup not found' });
+    });
+
+    it('refuses a disclosure from someone outside the prenup', async () => {
+      const prenup = await prenupService.createPrenup({ title: 'Private', state: USState.TEXAS, createdBy: owner.id });
+
+      await expect(financialService.createOrUpdateFinancialDisclosure({
+        prenupId: prenup.id,
+        userId: stranger.id,
+        assets: [],
+        debts: [],
+        income
+      })).rejects.toBeInstanceOf(PrenupAccessDeniedError);
+      expect(await financialService.getFinancialDisclosuresByPrenup(prenup.id)).toHaveLength(0);
+    });
+  });
+
+  describe('financial disclosures', () => {
+    it.each([PrenupStatus.PENDING_SIGNATURES, PrenupStatus.EXECUTED, PrenupStatus.CANCELLED])(
+      'refuses disclosures while the prenup is %s',
+      async status => {
+        const prenup = await prenupService.createPrenup({ title: 'Locked', state: USState.TEXAS, createdBy: owner.id });
+        await dataStore.update<Prenup>(EntityType.PRENUP, prenup.id, { status }, false);
+
+        await expect(financialService.createOrUpdateFinancialDisclosure({
+          prenupId: prenup.id,
+          userId: owner.id,
+          assets: [],
+          debts: [],
+          income
+        })).rejects.toBeInstanceOf(PrenupLockedError);
+        expect(await financialService.getFinancialDisclosuresByPrenup(prenup.id)).toHaveLength(0);
+      }
+    );
+
+    it('creates a disclosure, then requires the current revision to update it', async () => {
+      const prenup = await prenupService.createPrenup({ title: 'Money', state: USState.TEXAS, createdBy: owner.id });
+      const assets = [{ type: 'BANK_ACCOUNT' as const, description: 'Savings', value: 1000, ownership: 'INDIVIDUAL' as const }];
+
+      const created = await financialService.createOrUpdateFinancialDisclosure({
+        prenupId: prenup.id,
+        userId: owner.id,
+        assets,
+        debts: [],
+        income
+      });
+      expect(created.netWorth).toBe(1000);
+
+      await expect(financialService.createOrUpdateFinancialDisclosure({
+        prenupId: prenup.id,
+        userId: owner.id,
+        assets: [],
+        debts: [],
+        income
+      })).rejects.toThrow('Revision required to update disclosure');
+
+      const updated = await financialService.createOrUpdateFinancialDisclosure({
+        prenupId: prenup.id,
+        userId: owner.id,
+        assets: [],
+        debts: [],
+        income,
+        expectedRevision: created.revision
+      });
+      expect(updated.id).toBe(created.id);
+      expect(updated.netWorth).toBe(0);
+
+      await expect(financialService.createOrUpdateFinancialDisclosure({
+        prenupId: prenup.id,
+        userId: owner.id,
+        assets,
+        debts: [],
+        income,
+        expectedRevision: created.revision
+      })).rejects.toBeInstanceOf(RevisionConflictError);
+    });
+  });
+});
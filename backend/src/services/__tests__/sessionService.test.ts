@@ -0,0 +1,45 @@
+import { dataStore } from '../dataStore';
+import { InMemoryDataStore } from '../memoryStore';
+import { EntityType, toTtl } from '../dynamodb';
+import { sessionService } from '../sessionService';
+import { userService } from '../userService';
+import { Session, User } from '../../types/entities';
+
+const store = dataStore as InMemoryDataStore;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const inDays = (days: number) => new Date(Date.now() + days * DAY_MS).toISOString();
+
+describe('sessions', () => {
+  let user: User;
+
+  beforeEach(async () => {
+    store.clear();
+    user = await userService.createUser({
+      email: 'sessions@example.com',
+      password: 'Password123!',
+      firstName: 'Session',
+      lastName: 'User'
+    });
+  });
+
+  it('keeps the time to live at the session expiry as it is renewed', async () => {
+    const session = await sessionService.create(user, {}, inDays(1));
+    expect(session.ttl).toBe(toTtl(session.expiresAt));
+
+    const expiresAt = inDays(30);
+    await sessionService.renew(session, {}, expiresAt);
+
+    const renewed = await store.getById<Session>(EntityType.SESSION, session.id);
+    expect(renewed!.ttl).toBe(toTtl(expiresAt));
+  });
+
+  it('lists only sessions that have not expired or been revoked', async () => {
+    const live = await sessionService.create(user, {}, inDays(1));
+    await sessionService.create(user, {}, inDays(-1));
+    const revoked = await sessionService.create(user, {}, inDays(1));
+    await sessionService.revoke(user.id, revoked.id);
+
+    expect((await sessionService.listForUser(user.id)).map(session => session.id)).toEqual([live.id]);
+  });
+});
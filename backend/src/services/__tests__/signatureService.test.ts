@@ -0,0 +1,93 @@
+import { dataStore } from '../dataStore';
+import { InMemoryDataStore } from '../memoryStore';
+import { EntityType } from '../dynamodb';
+import { hashAgreement, presentationService } from '../presentationService';
+import { signatureService } from '../signatureService';
+import { complianceReportService } from '../complianceReportService';
+import { stateComplianceService } from '../stateCompliance';
+import {
+  Prenup,
+  PrenupStatus,
+  Signature,
+  SignatureStatus,
+  USState,
+  FinancialDisclosure,
+  createFinancialDisclosureEntity,
+  createPrenupEntity,
+  createSignatureEntity
+} from '../../types/entities';
+
+const store = dataStore as InMemoryDataStore;
+
+const sign = (prenup: Prenup, userId: string, contentHash?: string): Promise<Signature> =>
+  store.create<Signature>(createSignatureEntity({
+    prenupId: prenup.id,
+    userId,
+    status: SignatureStatus.SIGNED,
+    signedAt: new Date().toISOString(),
+    contentHash,
+    userEmail: `${userId}@example.com`
+  }));
+
+describe('signatures on the agreement text', () => {
+  let prenup: Prenup;
+
+  beforeEach(async () => {
+    store.clear();
+    prenup = await store.create<Prenup>(createPrenupEntity({
+      title: 'Signed prenup',
+      state: USState.CALIFORNIA,
+      status: PrenupStatus.PENDING_SIGNATURES,
+      createdBy: 'party-a',
+      partnerId: 'party-b',
+      progress: {},
+      content: { property: 'separate' }
+    }));
+  });
+
+  it('counts only signatures on the current text', async () => {
+    await sign(prenup, 'party-a', hashAgreement(prenup, []));
+    await sign(prenup, 'party-b', hashAgreement({ ...prenup, content: { property: 'community' } }, []));
+
+    expect(await signatureService.getSignedUserIds(prenup)).toEqual(new Set(['party-a']));
+  });
+
+  it('makes signatures stale when a disclosure changes', async () => {
+    await presentationService.recordPresentation(prenup, 'party-a', hashAgreement(prenup, []));
+    await sign(prenup, 'party-a', hashAgreement(prenup, []));
+    expect((await signatureService.getSignedUserIds(prenup)).has('party-a')).toBe(true);
+    expect((await presentationService.getStatus(prenup)).clocks[0].presentedAt).toBeDefined();
+
+    await store.create<FinancialDisclosure>(createFinancialDisclosureEntity({
+      prenupId: prenup.id,
+      userId: 'party-b',
+      assets: [],
+      debts: [],
+      income: { salary: 1, bonus: 0, investments: 0, business: 0, rental: 0, other: 0 },
+      netWorth: 0,
+      userEmail: 'party-b@example.com'
+    }));
+
+    expect((await signatureService.getSignedUserIds(prenup)).size).toBe(0);
+    // Party A has not received the agreement with the new disclosure yet
+    expect((await presentationService.getStatus(prenup)).clocks[0].presentedAt).toBeUndefined();
+  });
+
+  it('treats a signature recorded without a hash as stale', async () => {
+    await sign(prenup, 'party-a');
+
+    expect((await signatureService.getSignedUserIds(prenup)).size).toBe(0);
+  });
+
+  it('marks stale signatures in the compliance report', async () => {
+    await sign(prenup, 'party-a', hashAgreement(prenup, []));
+    await sign(prenup, 'party-b', 'earlier-text');
+    const current = await store.getById<Prenup>(EntityType.PRENUP, prenup.id);
+
+    const facts = await stateComplianceService.loadFacts(current!);
+    const report = complianceReportService.buildReport(facts);
+
+    expect(report.records.signatures.map(signature => signature.current)).toEqual([true, false]);
+    expect(complianceReportService.renderHtml(report)).toContain('SIGNED (earlier version)');
+  });
+});
@@ -0,0 +1,111 @@
+import { stateComplianceService } from '../stateCompliance';
+import { EntityType } from '../dynamodb';
+import { JURISDICTIONS } from '../../data/jurisdictions';
+import { Prenup, PrenupStatus, USState } from '../../types/entities';
+
+const prenupIn = (state: USState, fields: Partial<Prenup>): Prenup => ({
+  id: 'prenup',
+  entityType: EntityType.PRENUP,
+  version: 'V0',
+  createdAt: '2010-01-01T00:00:00.000Z',
+  updatedAt: '2010-01-01T00:00:00.000Z',
+  title: 'Ours',
+  state,
+  status: PrenupStatus.DRAFT,
+  createdBy: 'alice',
+  progress: {},
+  content: {},
+  ...fields
+});
+
+describe('state compliance', () => {
+  describe('state list', () => {
+    it('lists every jurisdiction by name with what the wizard shows', () => {
+      const states = stateComplianceService.getAllStates();
+      const names = states.map(state => state.displayName);
+
+      expect(names).toEqual([...names].sort((a, b) => a.localeCompare(b)));
+      states.forEach(state => {
+        expect(state).toEqual(expect.objectContaining({
+          state: expect.any(String),
+          code: expect.stringMatching(/^[A-Z]{2}$/),
+          lawVersion: expect.any(String),
+          summary: expect.any(String),
+          waitingPeriodText: expect.any(String),
+          attorneyReviewRecommended: expect.any(Boolean),
+          notarizationRequired: expect.any(Boolean)
+        }));
+        state.requirements.forEach(requirement =>
+          expect(['timing', 'disclosure', 'execution', 'fairness']).toContain(requirement.category)
+        );
+      });
+    });
+
+    it('serves the same facts as the requirements of a single state', () => {
+      const listed = stateComplianceService.getAllStates().find(state => state.state === USState.CALIFORNIA);
+
+      expect(listed).toEqual(stateComplianceService.getStateRequirements(USState.CALIFORNIA));
+      expect(listed).toMatchObject({ waitingPeriodText: '7 days', attorneyReviewRecommended: true });
+    });
+
+    it('adds the notarization step only where the state requires it', () => {
+      const steps = stateComplianceService.getRequiredSteps(USState.CALIFORNIA);
+
+      expect(steps).not.toContain('Notarization');
+      expect(steps[steps.length - 1]).toBe('Signatures');
+      expect(stateComplianceService.getRequiredSteps(USState.MINNESOTA).slice(-2)).toEqual(['Notarization', 'Signatures']);
+    });
+
+    it('recognises supported states only', () => {
+      expect(stateComplianceService.isSupportedState('CALIFORNIA')).toBe(true);
+      expect(stateComplianceService.isSupportedState('ATLANTIS')).toBe(false);
+      expect(stateComplianceService.isSupportedState('toString')).toBe(false);
+    });
+  });
+
+  describe('law versions', () => {
+    it('covers all 50 states and D.C. with dated, cited versions', () => {
+      const jurisdictions = Object.values(JURISDICTIONS);
+      const versions = jurisdictions.flatMap(jurisdiction => jurisdiction.versions);
+
+      expect(jurisdictions).toHaveLength(51);
+      expect(new Set(jurisdictions.map(jurisdiction => jurisdiction.code)).size).toBe(51);
+      expect(new Set(versions.map(version => version.version)).size).toBe(versions.length);
+      jurisdictions.forEach(jurisdiction => {
+        const dates = jurisdiction.versions.map(version => version.effectiveFrom);
+        expect(dates).toEqual([...dates].sort());
+        jurisdiction.versions.forEach(version => {
+          expect(version.effectiveFrom).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+          expect(version.citations.length).toBeGreaterThan(0);
+        });
+      });
+    });
+
+    it('picks the version in effect on a date', () => {
+      expect(stateComplianceService.getStateRequirements(USState.COLORADO, new Date('2014-06-30')).lawVersion).toBe('CO-1986');
+      expect(stateComplianceService.getStateRequirements(USState.COLORADO, new Date('2014-07-01')).lawVersion).toBe('CO-2014');
+      expect(stateComplianceService.getCurrentLawVersion(USState.COLORADO)).toBe('CO-2014');
+      expect(stateComplianceService.getLawVersions(USState.COLORADO).map(law => law.lawVersion)).toEqual(['CO-1986', 'CO-2014']);
+    });
+
+    it('holds a prenup to the version it was pinned to, not the current one', () => {
+      const pinned = prenupIn(USState.CALIFORNIA, { lawVersion: 'CA-1986' });
+
+      const law = stateComplianceService.getPrenupLaw(pinned);
+
+      expect(law.lawVersion).toBe('CA-1986');
+      expect(law.requirements.map(requirement => requirement.name)).not.toContain('Seven-Day Waiting Period');
+      expect(stateComplianceService.getWaitingPeriodDays(pinned)).toBe(0);
+      expect(stateComplianceService.getWaitingPeriodDays(prenupIn(USState.CALIFORNIA, { lawVersion: 'CA-2002' }))).toBe(7);
+    });
+
+    it('holds a prenup created before pinning to the law of its creation date', () => {
+      expect(stateComplianceService.getPrenupLaw(prenupIn(USState.COLORADO, {})).lawVersion).toBe('CO-1986');
+    });
+
+    it('refuses a version the state does not have', () => {
+      expect(() => stateComplianceService.getPrenupLaw(prenupIn(USState.COLORADO, { lawVersion: 'CA-2002' })))
+        .toThrow('Law version CA-2002 not found for Colorado');
+    });
+  });
+});
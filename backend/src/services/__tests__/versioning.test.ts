@@ -0,0 +1,113 @@
+import { dataStore } from '../dataStore';
+import { InMemoryDataStore } from '../memoryStore';
+import { EntityType, LATEST_VERSION, RevisionConflictError, createPartitionKey } from '../dynamodb';
+import { versionService } from '../versionService';
+import { Prenup, PrenupStatus, USState, createPrenupEntity } from '../../types/entities';
+
+const store = dataStore as InMemoryDataStore;
+
+const createPrenup = (title = 'V0 title'): Promise<Prenup> =>
+  store.create<Prenup>(createPrenupEntity({
+    title,
+    state: USState.CALIFORNIA,
+    status: PrenupStatus.DRAFT,
+    createdBy: 'user-1',
+    progress: {},
+    content: {}
+  }));
+
+// Applies `count` versioned updates one after the other, titled 'Title 1'..'Title n'
+const updateTimes = async (prenup: Prenup, count: number): Promise<Prenup> => {
+  let current = prenup;
+  for (let i = 1; i <= count; i++) {
+    current = await store.update<Prenup>(EntityType.PRENUP, prenup.id, { title: `Title ${i}` });
+  }
+  return current;
+};
+
+describe('versioning on the in-memory store', () => {
+  beforeEach(() => store.clear());
+
+  it('only ever moves the version counter up', async () => {
+    const prenup = await createPrenup();
+    const counters: number[] = [];
+
+    for (let i = 0; i < 5; i++) {
+      const updated = await store.update<Prenup>(EntityType.PRENUP, prenup.id, { title: `Title ${i}` });
+      counters.push(updated.versionCounter!);
+    }
+    expect(counters).toEqual([1, 2, 3, 4, 5]);
+
+    // An in-place update archives nothing and keeps the counter
+    const inPlace = await store.update<Prenup>(EntityType.PRENUP, prenup.id, { title: 'In place' }, false);
+    expect(inPlace.versionCounter).toBe(5);
+
+    // A failed update leaves it where it was
+    await expect(store.update<Prenup>(EntityType.PRENUP, prenup.id, { title: 'Stale' }, true, 1))
+      .rejects.toBeInstanceOf(RevisionConflictError);
+    const next = await store.update<Prenup>(EntityType.PRENUP, prenup.id, { title: 'Next' });
+    expect(next.versionCounter).toBe(6);
+  });
+
+  it('continues from the highest archive of items written before the counter', async () => {
+    const prenup = await createPrenup();
+    await updateTimes(prenup, 3);
+
+    // Simulate a legacy item: drop the counter from V0
+    const partition = (store as any).partitions.get(createPartitionKey(EntityType.PRENUP, prenup.id));
+    delete partition.get(LATEST_VERSION).versionCounter;
+
+    const updated = await store.update<Prenup>(EntityType.PRENUP, prenup.id, { title: 'After legacy' });
+    expect(updated.versionCounter).toBe(4);
+    expect(await store.getById<Prenup>(EntityType.PRENUP, prenup.id, 'V4')).toMatchObject({ title: 'Title 3' });
+  });
+
+  it('keeps every archived version after many updates', async () => {
+    const prenup = await createPrenup();
+    const latest = await updateTimes(prenup, 12);
+
+    expect(latest.title).toBe('Title 12');
+    const versions = await store.getAllVersions<Prenup>(EntityType.PRENUP, prenup.id);
+    expect(versions).toHaveLength(13);
+
+    // V1 holds the state before the first update, Vn the state before the nth
+    expect((await store.getById<Prenup>(EntityType.PRENUP, prenup.id, 'V1'))?.title).toBe('V0 title');
+    for (let n = 2; n <= 12; n++) {
+      const archived = await store.getById<Prenup>(EntityType.PRENUP, prenup.id, `V${n}`);
+      expect(archived?.title).toBe(`Title ${n - 1}`);
+    }
+  });
+
+  it('orders versions numerically past V9', async () => {
+    const prenup = await createPrenup();
+    await updateTimes(prenup, 12);
+
+    const history = await versionService.getVersionHistory(EntityType.PRENUP, prenup.id);
+    expect(history.map(summary => summary.version)).toEqual([
+      'V0', 'V12', 'V11', 'V10', 'V9', 'V8', 'V7', 'V6', 'V5', 'V4', 'V3', 'V2', 'V1'
+    ]);
+    expect(history[0].isCurrent).toBe(true);
+  });
+
+  it('lets only one of two concurrent updates archive a revision', async () => {
+    const prenup = await createPrenup();
+    const revision = prenup.revision!;
+
+    const results = await Promise.allSettled([
+      store.update<Prenup>(EntityType.PRENUP, prenup.id, { title: 'First' }, true, revision),
+      store.update<Prenup>(EntityType.PRENUP, prenup.id, { title: 'Second' }, true, revision)
+    ]);
+
+    const fulfilled = results.filter(result => result.status === 'fulfilled');
+    const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    expect(fulfilled).toHaveLength(1);
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason).toBeInstanceOf(RevisionConflictError);
+
+    // One archive, holding the state both updates started from
+    const versions = await store.getAllVersions<Prenup>(EntityType.PRENUP, prenup.id);
+    expect(versions.map(version => version.version).sort()).toEqual(['V0', 'V1']);
+    expect((await store.getById<Prenup>(EntityType.PRENUP, prenup.id, 'V1'))?.title).toBe('V0 title');
+    expect((await store.getById<Prenup>(EntityType.PRENUP, prenup.id))?.revision).toBe(revision + 1);
+  });
+});
@@ -0,0 +1,186 @@
+import { dataStore, WriteOperation } from './dataStore';
+import { EntityType, IndexName, RevisionConflictError, currentRevision } from './dynamodb';
+import { AccountToken, AccountTokenPurpose, User, createAccountTokenEntity } from '../types/entities';
+import { userService } from './userService';
+import { authTokenService } from './authTokenService';
+import { notificationService } from './notificationService';
+import { loginThrottleService } from './loginThrottleService';
+import { generateToken, hashToken } from '../utils/tokens';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long each kind of emailed link stays valid
+const TOKEN_TTL_HOURS: Record<AccountTokenPurpose, number> = {
+  [AccountTokenPurpose.PASSWORD_RESET]: 1,
+  [AccountTokenPurpose.EMAIL_VERIFICATION]: 48,
+  [AccountTokenPurpose.ACCOUNT_UNLOCK]: 1
+};
+
+const validFor = (purpose: AccountTokenPurpose) => {
+  const hours = TOKEN_TTL_HOURS[purpose];
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+};
+
+// Password reset, email verification and account unlock links
+export class AccountTokenService {
+
+  // Unknown addresses are ignored so the endpoint can't be used to find accounts
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await userService.getUserByEmail(email);
+    if (!user) {
+      logger.info(`Password reset requested for unknown email ${email}`);
+      return;
+    }
+
+    const token = await this.issue(user, AccountTokenPurpose.PASSWORD_RESET);
+    await notificationService.sendPasswordReset(user, token, validFor(AccountTokenPurpose.PASSWORD_RESET));
+  }
+
+  // Sets a new password and signs the user out everywhere. The link was
+  // emailed to the account, so using it also proves the address is theirs.
+  async resetPassword(token: string, password: string): Promise<void> {
+    const { user, operation } = await this.consume(token, AccountTokenPurpose.PASSWORD_RESET);
+
+    await this.commit([
+      operation,
+      {
+        kind: 'update',
+        entityType: EntityType.USER,
+        id: user.id,
+        updates: { password: await userService.hashPassword(password), ...this.verifiedUpdates(user) }
+      }
+    ]);
+    await authTokenService.revokeAllForUser(user.id);
+    await loginThrottleService.clear(user.email);
+    logger.info(`Password reset for user ${user.id}`);
+  }
+
+  async sendEmailVerification(user: User): Promise<void> {
+    if (user.emailVerified) {
+      throw new Error('Email already verified');
+    }
+
+    const token = await this.issue(user, AccountTokenPurpose.EMAIL_VERIFICATION);
+    await notificationService.sendEmailVerification(user, token, validFor(AccountTokenPurpose.EMAIL_VERIFICATION));
+  }
+
+  async verifyEmail(token: string): Promise<User> {
+    const { user, operation } = await this.consume(token, AccountTokenPurpose.EMAIL_VERIFICATION);
+
+    const [, updated] = await this.commit([
+      operation,
+      {
+        kind: 'update',
+        entityType: EntityType.USER,
+        id: user.id,
+        updates: this.verifiedUpdates(user)
+      }
+    ]);
+    logger.info(`Email verified for user ${user.id}`);
+
+    return updated as User;
+  }
+
+  // Emails an unlock link to an account locked after failed logins
+  async sendAccountUnlock(user: User): Promise<void> {
+    const token = await this.issue(user, AccountTokenPurpose.ACCOUNT_UNLOCK);
+    const minutes = config.loginThrottle.lockoutMinutes;
+    await notificationService.sendAccountUnlock(
+      user,
+      token,
+      validFor(AccountTokenPurpose.ACCOUNT_UNLOCK),
+      `${minutes} minute${minutes === 1 ? '' : 's'}`
+    );
+  }
+
+  // Sends a new unlock link, e.g. when the first one expired. Like password
+  // resets, unknown or unlocked accounts are silently ignored.
+  async requestAccountUnlock(email: string): Promise<void> {
+    const user = await userService.getUserByEmail(email);
+    if (!user || !(await loginThrottleService.isAccountLocked(email))) {
+      logger.info(`Account unlock requested for ${email}, which is not locked`);
+      return;
+    }
+
+    await this.sendAccountUnlock(user);
+  }
+
+  async unlockAccount(token: string): Promise<void> {
+    const { user, operation } = await this.consume(token, AccountTokenPurpose.ACCOUNT_UNLOCK);
+
+    await this.commit([operation]);
+    await loginThrottleService.clear(user.email);
+    logger.info(`Account unlocked for user ${user.id}`);
+  }
+
+  // Creates a token for the purpose and revokes any the user still holds,
+  // so only the most recent link works
+  private async issue(user: User, purpose: AccountTokenPurpose): Promise<string> {
+    const outstanding = await dataStore.queryByCreator<AccountToken>(EntityType.ACCOUNT_TOKEN, user.id);
+    const revokedAt = new Date().toISOString();
+    await Promise.all(outstanding
+      .filter(existing => existing.purpose === purpose && !existing.usedAt && !existing.revokedAt)
+      .map(existing => dataStore.update<AccountToken>(EntityType.ACCOUNT_TOKEN, existing.id, { revokedAt }, false)));
+
+    const token = generateToken();
+    await dataStore.create<AccountToken>(createAccountTokenEntity({
+      createdBy: user.id,
+      purpose,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + TOKEN_TTL_HOURS[purpose] * HOUR_MS).toISOString()
+    }));
+
+    return token;
+  }
+
+  // Checks the token and returns the write that marks it used, pinned so the
+  // token can only be used once
+  private async consume(token: string, purpose: AccountTokenPurpose): Promise<{ user: User; operation: WriteOperation }> {
+    const [stored] = await dataStore.queryByIndex<AccountToken>(
+      IndexName.TOKEN,
+      hashToken(token),
+      EntityType.ACCOUNT_TOKEN
+    );
+
+    if (!stored || stored.purpose !== purpose || stored.usedAt || stored.revokedAt ||
+        new Date(stored.expiresAt) < new Date()) {
+      throw new Error('Invalid or expired token');
+    }
+
+    const user = await userService.getUserById(stored.createdBy);
+    if (!user) {
+      throw new Error('Invalid or expired token');
+    }
+
+    return {
+      user,
+      operation: {
+        kind: 'update',
+        entityType: EntityType.ACCOUNT_TOKEN,
+        id: stored.id,
+        updates: { usedAt: new Date().toISOString() },
+        createNewVersion: false,
+        expectedRevision: currentRevision(stored)
+      }
+    };
+  }
+
+  private async commit(operations: WriteOperation[]) {
+    try {
+      return await dataStore.transactWrite(operations);
+    } catch (error) {
+      if (error instanceof RevisionConflictError) {
+        throw new Error('Invalid or expired token');
+      }
+      throw error;
+    }
+  }
+
+  private verifiedUpdates(user: User): Partial<User> {
+    return user.emailVerified ? {} : { emailVerified: true, emailVerifiedAt: new Date().toISOString() };
+  }
+}
+
+export const accountTokenService = new AccountTokenService();
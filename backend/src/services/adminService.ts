@@ -0,0 +1,289 @@
+import { dataStore, WriteOperation } from './dataStore';
+import { EntityType, currentRevision } from './dynamodb';
+import {
+  AuditAction,
+  InvitationStatus,
+  ParticipantRole,
+  ParticipantStatus,
+  PartnerInvitation,
+  Prenup,
+  PrenupParticipant,
+  PublicUser,
+  User,
+  UserRole
+} from '../types/entities';
+import { userService } from './userService';
+import { authTokenService } from './authTokenService';
+import { auditService, AuditActor, ACCOUNT_TRAIL_ID, revisionAfter } from './auditService';
+import { participantService } from './participantService';
+import { prenupService } from './prenupService';
+import { documentService } from './documentService';
+import { logger } from '../utils/logger';
+
+// What administrators see of a prenup: who takes part, where it stands and
+// how much it stores, but never its content or financial disclosures
+export interface PrenupOverview {
+  prenup: Pick<Prenup, 'id' | 'title' | 'state' | 'lawVersion' | 'status' | 'createdBy' | 'partnerId' |
+    'createdByEmail' | 'partnerEmail' | 'statusHistory' | 'createdAt' | 'updatedAt'>;
+  participants: Omit<PrenupParticipant, 'tokenHash'>[];
+  invitations: Omit<PartnerInvitation, 'tokenHash'>[];
+  documents: { id: string; type: string; filename: string; size: number; mimeType: string; createdAt: string }[];
+  storage: PrenupStorage;
+}
+
+export interface PrenupStorage {
+  prenupId: string;
+  title: string;
+  totalSize: number; // Bytes
+}
+
+// A prenup a user takes part in, with their roles in it
+export interface UserPrenup extends PrenupStorage {
+  roles: ParticipantRole[];
+}
+
+// The kind of invitation an administrator expired
+export type ExpiredInvitation =
+  | { kind: 'partner'; invitation: Omit<PartnerInvitation, 'tokenHash'> }
+  | { kind: 'counsel'; invitation: Omit<PrenupParticipant, 'tokenHash'> };
+
+const matchesSearch = (user: PublicUser, search: string) =>
+  [user.email, user.firstName, user.lastName, `${user.firstName} ${user.lastName}`]
+    .some(value => value.toLowerCase().includes(search));
+
+// Support operations for users with the ADMIN role
+export class AdminService {
+
+  // Users a page at a time, or every user matching the search. There is no
+  // index on names, so a search reads all users.
+  async listUsers(search?: string, limit?: number, lastKey?: any): Promise<{ users: PublicUser[], lastKey?: any }> {
+    if (!search) {
+      return await userService.getAllUsers(limit, lastKey);
+    }
+
+    const { users } = await userService.getAllUsers();
+    const needle = search.trim().toLowerCase();
+    return { users: users.filter(user => matchesSearch(user, needle)) };
+  }
+
+  // A user together with the prenups they take part in
+  async getUser(userId: string): Promise<{ user: PublicUser; prenups: UserPrenup[] } | null> {
+    const user = await userService.getUserById(userId);
+    if (!user) {
+      return null;
+    }
+
+    const participations = await participantService.listForUser(userId);
+    const prenupIds = [...new Set(participations.map(participant => participant.prenupId))];
+    const prenups = await Promise.all(prenupIds.map(async prenupId => {
+      const prenup = await prenupService.getPrenupById(prenupId);
+      return prenup && {
+        ...await this.getStorage(prenup),
+        roles: participations.filter(participant => participant.prenupId === prenupId).map(participant => participant.role)
+      };
+    }));
+
+    return {
+      user: userService.sanitizeUser(user),
+      prenups: prenups.filter((prenup): prenup is UserPrenup => !!prenup)
+    };
+  }
+
+  // Blocks sign-in and ends every session of the user
+  async disableUser(userId: string, actor: AuditActor): Promise<PublicUser> {
+    if (userId === actor.userId) {
+      throw new Error('You cannot disable your own account');
+    }
+
+    const user = await this.getExistingUser(userId);
+    if (user.disabled) {
+      throw new Error('Account is already disabled');
+    }
+
+    const disabled = await this.updateAccount(user, actor, AuditAction.ACCOUNT_DISABLED, {
+      disabled: true,
+      disabledAt: new Date().toISOString(),
+      disabledBy: actor.userId
+    });
+    await authTokenService.revokeAllForUser(user.id);
+
+    logger.info(`User ${user.id} disabled by admin ${actor.userId}`);
+    return userService.sanitizeUser(disabled);
+  }
+
+  async enableUser(userId: string, actor: AuditActor): Promise<PublicUser> {
+    const user = await this.getExistingUser(userId);
+    if (!user.disabled) {
+      throw new Error('Account is not disabled');
+    }
+
+    const enabled = await this.updateAccount(user, actor, AuditAction.ACCOUNT_ENABLED, {
+      disabled: undefined,
+      disabledAt: undefined,
+      disabledBy: undefined
+    });
+
+    logger.info(`User ${user.id} enabled by admin ${actor.userId}`);
+    return userService.sanitizeUser(enabled);
+  }
+
+  // Grants the attorney role or takes it back. Attorneys cannot pick the role
+  // at sign-up, so an administrator grants it once the account's email is
+  // verified and the attorney's standing has been checked.
+  async setRole(userId: string, role: UserRole, actor: AuditActor): Promise<PublicUser> {
+    if (userId === actor.userId) {
+      throw new Error('You cannot change your own role');
+    }
+    if (role !== UserRole.USER && role !== UserRole.ATTORNEY) {
+      throw new Error('Only the attorney role can be granted here');
+    }
+
+    const user = await this.getExistingUser(userId);
+    if (user.role === UserRole.ADMIN) {
+      throw new Error('Cannot change the role of an administrator');
+    }
+    if (user.role === role) {
+      throw new Error(`Account already has the ${role} role`);
+    }
+    if (role === UserRole.ATTORNEY && !user.emailVerified) {
+      throw new Error('Email must be verified before granting the attorney role');
+    }
+    if (role === UserRole.USER) {
+      const appointments = await participantService.listForUser(user.id);
+      if (appointments.some(participant => participant.role === ParticipantRole.COUNSEL)) {
+        throw new Error('Account is acting as counsel; it must withdraw first');
+      }
+    }
+
+    const updated = await this.updateAccount(user, actor, AuditAction.ACCOUNT_ROLE_CHANGED, { role }, {
+      from: user.role,
+      to: role
+    });
+
+    logger.info(`User ${user.id} given the ${role} role by admin ${actor.userId}`);
+    return userService.sanitizeUser(updated);
+  }
+
+  async getPrenupOverview(prenupId: string): Promise<PrenupOverview | null> {
+    const prenup = await prenupService.getPrenupById(prenupId);
+    if (!prenup) {
+      return null;
+    }
+
+    const [participants, invitations, documents] = await Promise.all([
+      participantService.listParticipants(prenupId),
+      prenupService.getInvitationsByPrenup(prenupId),
+      documentService.getDocumentsByPrenup(prenupId)
+    ]);
+    const {
+      id, title, state, lawVersion, status, createdBy, partnerId, createdByEmail, partnerEmail, statusHistory, createdAt, updatedAt
+    } = prenup;
+
+    return {
+      prenup: {
+        id, title, state, lawVersion, status, createdBy, partnerId, createdByEmail, partnerEmail, statusHistory, createdAt, updatedAt
+      },
+      participants: participants.map(({ tokenHash, ...participant }) => participant),
+      invitations: invitations.map(({ tokenHash, ...invitation }) => invitation),
+      documents: documents.map(({ id, type, filename, size, mimeType, createdAt }) =>
+        ({ id, type, filename, size, mimeType, createdAt })
+      ),
+      storage: await this.getStorage(prenup)
+    };
+  }
+
+  // Storage used by every prenup, largest first
+  async getStorageUsage(): Promise<{ prenups: PrenupStorage[]; totalSize: number }> {
+    const { items } = await dataStore.queryByEntityType<Prenup>(EntityType.PRENUP);
+    const prenups = (await Promise.all(items.map(prenup => this.getStorage(prenup))))
+      .sort((a, b) => b.totalSize - a.totalSize);
+
+    return { prenups, totalSize: prenups.reduce((total, prenup) => total + prenup.totalSize, 0) };
+  }
+
+  // Ends a pending partner or counsel invitation now, so its link stops
+  // working. The prenup creator can still resend a partner invitation.
+  async expireInvitation(invitationId: string, adminId: string): Promise<ExpiredInvitation> {
+    const now = new Date().toISOString();
+
+    const invitation = await dataStore.getById<PartnerInvitation>(EntityType.PARTNER_INVITATION, invitationId);
+    if (invitation) {
+      if (invitation.status !== InvitationStatus.PENDING) {
+        throw new Error('Invitation is not pending');
+      }
+
+      const { tokenHash, ...expired } = await dataStore.update<PartnerInvitation>(
+        EntityType.PARTNER_INVITATION,
+        invitation.id,
+        { status: InvitationStatus.EXPIRED, expiresAt: now },
+        false,
+        currentRevision(invitation)
+      );
+      logger.info(`Partner invitation ${invitation.id} expired by admin ${adminId}`);
+      return { kind: 'partner', invitation: expired };
+    }
+
+    const participant = await dataStore.getById<PrenupParticipant>(EntityType.PRENUP_PARTICIPANT, invitationId);
+    if (!participant || participant.status !== ParticipantStatus.INVITED) {
+      throw new Error('Invitation not found');
+    }
+    if (!participant.expiresAt || participant.expiresAt < now) {
+      throw new Error('Invitation is not pending');
+    }
+
+    const { tokenHash, ...expired } = await dataStore.update<PrenupParticipant>(
+      EntityType.PRENUP_PARTICIPANT,
+      participant.id,
+      { expiresAt: now },
+      false,
+      currentRevision(participant)
+    );
+    logger.info(`Counsel invitation ${participant.id} expired by admin ${adminId}`);
+    return { kind: 'counsel', invitation: expired };
+  }
+
+  private async getStorage(prenup: Prenup): Promise<PrenupStorage> {
+    return {
+      prenupId: prenup.id,
+      title: prenup.title,
+      totalSize: await documentService.getTotalFileSizeForPrenup(prenup.id)
+    };
+  }
+
+  // Writes an administrator's change to an account together with its event in
+  // the account trail
+  private async updateAccount(
+    user: User,
+    actor: AuditActor,
+    action: AuditAction,
+    updates: Partial<User>,
+    details?: Record<string, any>
+  ): Promise<User> {
+    const update: WriteOperation = {
+      kind: 'update',
+      entityType: EntityType.USER,
+      id: user.id,
+      updates,
+      createNewVersion: true,
+      expectedRevision: currentRevision(user)
+    };
+    const [updated] = await auditService.recordChange(ACCOUNT_TRAIL_ID, actor, {
+      action,
+      targetType: EntityType.USER,
+      targetId: user.id,
+      targetRevision: revisionAfter(update),
+      details
+    }, [update]);
+    return updated as User;
+  }
+
+  private async getExistingUser(userId: string): Promise<User> {
+    const user = await userService.getUserById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user;
+  }
+}
+
+export const adminService = new AdminService();
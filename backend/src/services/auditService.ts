@@ -0,0 +1,224 @@
+import crypto from 'crypto';
+import { dataStore, WriteOperation } from './dataStore';
+import { BaseEntity, EntityType, RevisionConflictError, currentRevision } from './dynamodb';
+import {
+  AuditAction,
+  AuditEvent,
+  AuditTrail,
+  createAuditEventEntity,
+  createAuditTrailEntity
+} from '../types/entities';
+import { logger } from '../utils/logger';
+import { canonicalJson } from '../utils/canonicalJson';
+
+// Who took an audited action and where the request came from
+export interface AuditActor {
+  userId: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// What an audited action did, and to which entity
+export interface AuditRecord {
+  action: AuditAction;
+  targetType: EntityType;
+  targetId: string;
+  targetRevision?: number;
+  details?: Record<string, any>;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  eventCount: number;
+  lastHash: string;
+  // Sequence of the first event that fails verification
+  brokenAt?: number;
+  reason?: string;
+}
+
+export interface AuditExport {
+  prenupId: string;
+  exportedAt: string;
+  events: AuditEvent[];
+  verification: ChainVerification;
+}
+
+// The revision an entity will have once `operation` writes it, for events
+// recorded in the same transaction. Updates must be pinned to a revision.
+export const revisionAfter = (operation: WriteOperation): number =>
+  operation.kind === 'create' ? 1 : operation.expectedRevision! + 1;
+
+// Administrators' actions on accounts belong to no prenup, so they are
+// chained in a trail of their own under this id
+export const ACCOUNT_TRAIL_ID = 'accounts';
+
+// What the first event of a trail links to
+const GENESIS_HASH = '0'.repeat(64);
+
+// Appends retried while other requests append to the same trail
+const MAX_APPEND_ATTEMPTS = 5;
+
+// Fields covered by an event's hash, in the order they are listed here
+const HASHED_FIELDS = [
+  'prenupId',
+  'sequence',
+  'action',
+  'actorId',
+  'ipAddress',
+  'userAgent',
+  'targetType',
+  'targetId',
+  'targetRevision',
+  'details',
+  'occurredAt',
+  'previousHash'
+] as const;
+
+type HashedEvent = Pick<AuditEvent, typeof HASHED_FIELDS[number]>;
+
+const hashEvent = (event: HashedEvent): string => {
+  const fields = HASHED_FIELDS.map(field => canonicalJson(event[field] ?? null));
+  return crypto.createHash('sha256').update(fields.join('\n')).digest('hex');
+};
+
+// Append-only, hash-chained record of who did what to a prenup. Events are
+// never updated or deleted; verification recomputes every hash and link.
+export class AuditService {
+
+  async record(prenupId: string, actor: AuditActor, record: AuditRecord): Promise<AuditEvent> {
+    const [event] = await this.recordChange(prenupId, actor, record, []);
+    return event as AuditEvent;
+  }
+
+  // Writes `operations` and appends their audit event in one transaction, so
+  // a change is never committed without its event or the other way round.
+  // Resolves to the written entities in order, followed by the event.
+  async recordChange(
+    prenupId: string,
+    actor: AuditActor,
+    record: AuditRecord,
+    operations: WriteOperation[]
+  ): Promise<BaseEntity[]> {
+    for (let attempt = 1; ; attempt++) {
+      const trail = await dataStore.getById<AuditTrail>(EntityType.AUDIT_TRAIL, prenupId);
+
+      const fields: HashedEvent = {
+        prenupId,
+        sequence: (trail?.lastSequence ?? 0) + 1,
+        action: record.action,
+        actorId: actor.userId,
+        ipAddress: actor.ipAddress,
+        userAgent: actor.userAgent,
+        targetType: record.targetType,
+        targetId: record.targetId,
+        targetRevision: record.targetRevision,
+        details: record.details,
+        occurredAt: new Date().toISOString(),
+        previousHash: trail?.lastHash ?? GENESIS_HASH
+      };
+      const hash = hashEvent(fields);
+      const head = { lastSequence: fields.sequence, lastHash: hash };
+
+      try {
+        const written = await dataStore.transactWrite([
+          ...operations,
+          { kind: 'create', entity: createAuditEventEntity({ ...fields, hash }) },
+          trail
+            ? {
+                kind: 'update',
+                entityType: EntityType.AUDIT_TRAIL,
+                id: prenupId,
+                updates: head,
+                createNewVersion: false,
+                expectedRevision: currentRevision(trail)
+              }
+            : { kind: 'create', entity: createAuditTrailEntity(prenupId, head) }
+        ]);
+
+        logger.info(`Audit event ${fields.sequence} (${record.action}) recorded for prenup ${prenupId} by ${actor.userId}`);
+        // Without the trail head
+        return written.slice(0, -1);
+      } catch (error) {
+        // Another request appended first; link to its event instead. A
+        // conflict on the change itself is the caller's to handle.
+        const lostRace = error instanceof RevisionConflictError
+          ? error.current.entityType === EntityType.AUDIT_TRAIL
+          : !trail;
+        if (!lostRace || attempt >= MAX_APPEND_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  // Oldest first
+  async listEvents(prenupId: string): Promise<AuditEvent[]> {
+    const events = await dataStore.queryByPrenupId<AuditEvent>(EntityType.AUDIT_EVENT, prenupId);
+    return events.sort((a, b) => a.sequence - b.sequence);
+  }
+
+  async verifyTrail(prenupId: string): Promise<ChainVerification> {
+    const [events, trail] = await Promise.all([
+      this.listEvents(prenupId),
+      dataStore.getById<AuditTrail>(EntityType.AUDIT_TRAIL, prenupId)
+    ]);
+    return this.verifyChain(events, trail);
+  }
+
+  async exportTrail(prenupId: string): Promise<AuditExport> {
+    const [events, trail] = await Promise.all([
+      this.listEvents(prenupId),
+      dataStore.getById<AuditTrail>(EntityType.AUDIT_TRAIL, prenupId)
+    ]);
+
+    return {
+      prenupId,
+      exportedAt: new Date().toISOString(),
+      events,
+      verification: this.verifyChain(events, trail)
+    };
+  }
+
+  // Every event must be numbered in order, link to the hash of the event
+  // before it and still match its own hash. The trail head catches events
+  // removed from the end.
+  private verifyChain(events: AuditEvent[], trail: AuditTrail | null): ChainVerification {
+    const broken = (sequence: number, reason: string): ChainVerification => ({
+      valid: false,
+      eventCount: events.length,
+      lastHash: trail?.lastHash ?? GENESIS_HASH,
+      brokenAt: sequence,
+      reason
+    });
+
+    let previousHash = GENESIS_HASH;
+    for (const [index, event] of events.entries()) {
+      const sequence = index + 1;
+      if (event.sequence !== sequence) {
+        return broken(sequence, 'Event is missing from the trail');
+      }
+      if (event.previousHash !== previousHash) {
+        return broken(sequence, 'Event does not link to the event before it');
+      }
+      if (hashEvent(event) !== event.hash) {
+        return broken(sequence, 'Event was modified after it was recorded');
+      }
+      previousHash = event.hash;
+    }
+
+    const lastSequence = trail?.lastSequence ?? 0;
+    if (lastSequence > events.length) {
+      return broken(events.length + 1, 'Events are missing from the end of the trail');
+    }
+    if (lastSequence < events.length) {
+      return broken(lastSequence + 1, 'Event was added outside the trail');
+    }
+    if ((trail?.lastHash ?? GENESIS_HASH) !== previousHash) {
+      return broken(lastSequence, 'Trail head does not match the last event');
+    }
+
+    return { valid: true, eventCount: events.length, lastHash: previousHash };
+  }
+}
+
+export const auditService = new AuditService();
@@ -0,0 +1,142 @@
+import { dataStore } from './dataStore';
+import { EntityType, IndexName, RevisionConflictError, currentRevision, toTtl } from './dynamodb';
+import { RefreshToken, User, createRefreshTokenEntity } from '../types/entities';
+import { userService } from './userService';
+import { sessionService, ClientInfo } from './sessionService';
+import { generateToken, hashToken } from '../utils/tokens';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// An access token and the refresh token that renews it
+export interface IssuedTokens {
+  token: string;
+  refreshToken: string;
+}
+
+export class AuthTokenService {
+
+  // Starts a session and its refresh token family, e.g. on login
+  async issueTokens(user: User, client: ClientInfo = {}): Promise<IssuedTokens> {
+    const expiresAt = this.refreshTokenExpiry();
+    const session = await sessionService.create(user, client, expiresAt);
+
+    const refreshToken = generateToken();
+    await dataStore.create<RefreshToken>(this.refreshTokenEntity(user.id, session.id, refreshToken, expiresAt));
+
+    return { token: userService.generateToken(user, session.id), refreshToken };
+  }
+
+  // Exchanges a refresh token for a new pair. Each refresh token works once;
+  // presenting one that was already used revokes its whole family, since
+  // either the client or an attacker is holding a stolen copy.
+  async refresh(refreshToken: string, client: ClientInfo = {}): Promise<{ user: User } & IssuedTokens> {
+    const stored = await this.findRefreshToken(refreshToken);
+    if (!stored || stored.revokedAt) {
+      throw new Error('Invalid refresh token');
+    }
+
+    if (stored.rotatedAt) {
+      await this.revokeFamily(stored);
+      logger.warn(`Refresh token reused; revoked family ${stored.familyId}`);
+      throw new Error('Invalid refresh token');
+    }
+
+    if (new Date(stored.expiresAt) < new Date()) {
+      throw new Error('Refresh token expired');
+    }
+
+    // A session signed out from another device, or of a disabled account,
+    // can't be refreshed
+    const session = await sessionService.getActive(stored.familyId, stored.createdBy);
+    const user = await userService.getUserById(stored.createdBy);
+    if (!session || !user || user.disabled) {
+      throw new Error('Invalid refresh token');
+    }
+
+    // Pinned to the revision read above, so two concurrent refreshes with
+    // the same token cannot both succeed
+    const nextToken = generateToken();
+    const expiresAt = this.refreshTokenExpiry();
+    try {
+      await dataStore.transactWrite([
+        {
+          kind: 'update',
+          entityType: EntityType.REFRESH_TOKEN,
+          id: stored.id,
+          updates: { rotatedAt: new Date().toISOString() },
+          createNewVersion: false,
+          expectedRevision: currentRevision(stored)
+        },
+        { kind: 'create', entity: this.refreshTokenEntity(user.id, stored.familyId, nextToken, expiresAt) }
+      ]);
+    } catch (error) {
+      if (error instanceof RevisionConflictError) {
+        throw new Error('Invalid refresh token');
+      }
+      throw error;
+    }
+
+    await sessionService.renew(session, client, expiresAt);
+
+    return { user, token: userService.generateToken(user, session.id), refreshToken: nextToken };
+  }
+
+  // Logs out the session the refresh token belongs to
+  async revoke(refreshToken: string): Promise<void> {
+    const stored = await this.findRefreshToken(refreshToken);
+    if (stored) {
+      await this.revokeFamily(stored);
+    }
+  }
+
+  // Signs the user out everywhere, e.g. after a password reset
+  async revokeAllForUser(userId: string): Promise<void> {
+    await this.revokeWhere(userId, () => true);
+    await sessionService.revokeAllForUser(userId);
+    logger.info(`Revoked all refresh tokens of user ${userId}`);
+  }
+
+  private async revokeFamily(token: RefreshToken): Promise<void> {
+    await this.revokeWhere(token.createdBy, member => member.familyId === token.familyId);
+    if (await sessionService.getActive(token.familyId, token.createdBy)) {
+      await sessionService.revoke(token.createdBy, token.familyId);
+    }
+    logger.info(`Revoked refresh token family ${token.familyId}`);
+  }
+
+  private async revokeWhere(userId: string, predicate: (token: RefreshToken) => boolean): Promise<void> {
+    const tokens = await dataStore.queryByCreator<RefreshToken>(EntityType.REFRESH_TOKEN, userId);
+    const revokedAt = new Date().toISOString();
+
+    await Promise.all(tokens
+      .filter(member => !member.revokedAt && predicate(member))
+      .map(member => dataStore.update<RefreshToken>(EntityType.REFRESH_TOKEN, member.id, { revokedAt }, false)));
+  }
+
+  private async findRefreshToken(refreshToken: string): Promise<RefreshToken | null> {
+    const [stored] = await dataStore.queryByIndex<RefreshToken>(
+      IndexName.TOKEN,
+      hashToken(refreshToken),
+      EntityType.REFRESH_TOKEN
+    );
+    return stored || null;
+  }
+
+  private refreshTokenExpiry(): string {
+    return new Date(Date.now() + config.refreshTokenTtlDays * DAY_MS).toISOString();
+  }
+
+  private refreshTokenEntity(userId: string, familyId: string, refreshToken: string, expiresAt: string) {
+    return createRefreshTokenEntity({
+      createdBy: userId,
+      familyId,
+      tokenHash: hashToken(refreshToken),
+      expiresAt,
+      ttl: toTtl(expiresAt)
+    });
+  }
+}
+
+export const authTokenService = new AuthTokenService();
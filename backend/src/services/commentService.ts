@@ -0,0 +1,39 @@
+import { dataStore } from './dataStore';
+import { EntityType } from './dynamodb';
+import { ParticipantRole, PrenupComment, createPrenupCommentEntity } from '../types/entities';
+import { participantService, PrenupAction } from './participantService';
+import { userService } from './userService';
+import { logger } from '../utils/logger';
+
+// Discussion on a prenup between the parties and their counsel
+export class CommentService {
+
+  // Oldest first, like a conversation
+  async listComments(prenupId: string): Promise<PrenupComment[]> {
+    const comments = await dataStore.queryByPrenupId<PrenupComment>(EntityType.PRENUP_COMMENT, prenupId);
+    return comments.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async addComment(prenupId: string, authorId: string, body: string): Promise<PrenupComment> {
+    const access = await participantService.authorize(prenupId, authorId, PrenupAction.COMMENT);
+    const counsel = access.as(ParticipantRole.COUNSEL);
+
+    const author = await userService.getUserById(authorId);
+    if (!author) {
+      throw new Error('User not found');
+    }
+
+    const comment = await dataStore.create<PrenupComment>(createPrenupCommentEntity({
+      prenupId,
+      authorId,
+      authorName: `${author.firstName} ${author.lastName}`,
+      ...(counsel && { asCounselFor: counsel.representing }),
+      body
+    }));
+
+    logger.info(`Comment ${comment.id} added to prenup ${prenupId} by ${authorId}`);
+    return comment;
+  }
+}
+
+export const commentService = new CommentService();
@@ -0,0 +1,326 @@
+import Handlebars from 'handlebars';
+import { ComplianceFacts, RuleStatus, isVerifiedNotarization, parties } from './complianceRules';
+import { stateComplianceService } from './stateCompliance';
+import { currentRevision } from './dynamodb';
+import { RequirementCategory, UniformAct } from '../data/jurisdictions';
+import {
+  NotarizationSource,
+  ParticipantRole,
+  ParticipantStatus,
+  Prenup,
+  PrenupStatus,
+  SignatureStatus,
+  StatusChange,
+  USState
+} from '../types/entities';
+
+export interface ReportRequirement {
+  name: string;
+  description: string;
+  category: RequirementCategory;
+  required: boolean;
+  citation?: string;
+  status: RuleStatus;
+  evidence: string[];
+}
+
+// Disclosure amounts stay out of the report; it only says who disclosed when
+export interface DisclosureRecord {
+  party: string;
+  submittedAt: string;
+  updatedAt: string;
+}
+
+export interface PresentationRecord {
+  party: string;
+  presentedAt: string;
+  contentHash: string;
+  current: boolean; // Whether it is the text as it stands
+}
+
+export interface CounselRecord {
+  party: string;
+  counsel: string;
+  acceptedAt?: string;
+  approvedAt?: string;
+  approvedRevision?: number;
+}
+
+export interface SignatureRecord {
+  party: string;
+  status: SignatureStatus;
+  signedAt?: string;
+  current: boolean; // Whether it was given on the text as it stands
+}
+
+export interface NotarizationRecord {
+  notaryName: string;
+  commissionNumber?: string;
+  notarizedAt: string;
+  source: NotarizationSource;
+  selfAttested: boolean; // Only a party's word, with nothing to check it against
+}
+
+// What counsel ask for when reviewing a prenup: each requirement of the law
+// the prenup is pinned to, whether the record satisfies it and the
+// timestamped records it was decided on
+export interface ComplianceReport {
+  prenup: {
+    id: string;
+    title: string;
+    status: PrenupStatus;
+    revision: number;
+    createdAt: string;
+  };
+  jurisdiction: {
+    state: USState;
+    displayName: string;
+    code: string;
+    lawVersion: string;
+    effectiveFrom: string;
+    uniformAct?: UniformAct;
+    citations: string[];
+  };
+  generatedAt: string;
+  status: RuleStatus;
+  requirements: ReportRequirement[];
+  // Required requirements that do not pass yet
+  outstanding: string[];
+  records: {
+    disclosures: DisclosureRecord[];
+    presentations: PresentationRecord[];
+    counsel: CounselRecord[];
+    signatures: SignatureRecord[];
+    notarization?: NotarizationRecord;
+    statusHistory: StatusChange[];
+  };
+  // The jurisdiction's special rules; the record cannot show they were
+  // observed, so each is left for counsel to confirm
+  warnings: string[];
+}
+
+const STATUS_LABELS: Record<RuleStatus, string> = {
+  pass: 'Satisfied',
+  fail: 'Not satisfied',
+  unknown: 'Needs review'
+};
+
+const template = Handlebars.compile(`<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>Compliance report: {{prenup.title}}</title>
+    <style>
+      body { font-family: Arial, sans-serif; color: #111827; line-height: 1.5; margin: 32px; }
+      h1 { font-size: 22px; margin-bottom: 4px; }
+      h2 { font-size: 16px; margin-top: 28px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+      table { width: 100%; border-collapse: collapse; font-size: 13px; }
+      th, td { text-align: left; vertical-align: top; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; }
+      .muted { color: #6b7280; font-size: 12px; }
+      .pass { color: #047857; font-weight: bold; }
+      .fail { color: #b91c1c; font-weight: bold; }
+      .unknown { color: #b45309; font-weight: bold; }
+      @media print { body { margin: 0; } }
+    </style>
+  </head>
+  <body>
+    <h1>Compliance report: {{prenup.title}}</h1>
+    <p class="muted">Generated {{generatedAt}} &middot; Prenup {{prenup.id}}, revision {{prenup.revision}}, status {{prenup.status}}</p>
+
+    <h2>Jurisdiction</h2>
+    <p>
+      {{jurisdiction.displayName}} ({{jurisdiction.code}}), law version {{jurisdiction.lawVersion}} in effect since {{jurisdiction.effectiveFrom}}{{#if jurisdiction.uniformAct}}, based on the {{jurisdiction.uniformAct}}{{/if}}.
+    </p>
+    <p class="muted">{{#each jurisdiction.citations}}{{this}}{{#unless @last}}; {{/unless}}{{/each}}</p>
+    <p>Overall: <span class="{{status}}">{{statusLabel}}</span></p>
+
+    <h2>Requirements</h2>
+    <table>
+      <tr><th>Requirement</th><th>Status</th><th>Evidence</th></tr>
+      {{#each requirements}}
+      <tr>
+        <td>
+          <strong>{{name}}</strong>{{#unless required}} (recommended){{/unless}}<br>
+          {{description}}
+          {{#if citation}}<div class="muted">{{citation}}</div>{{/if}}
+        </td>
+        <td class="{{status}}">{{statusLabel}}</td>
+        <td>{{#each evidence}}<div>{{this}}</div>{{/each}}</td>
+      </tr>
+      {{/each}}
+    </table>
+    {{#if outstanding.length}}
+    <p>Outstanding: {{#each outstanding}}{{this}}{{#unless @last}}, {{/unless}}{{/each}}</p>
+    {{/if}}
+
+    <h2>Financial disclosures</h2>
+    {{#if records.disclosures.length}}
+    <table>
+      <tr><th>Party</th><th>Submitted</th><th>Last updated</th></tr>
+      {{#each records.disclosures}}<tr><td>{{party}}</td><td>{{submittedAt}}</td><td>{{updatedAt}}</td></tr>{{/each}}
+    </table>
+    {{else}}<p class="muted">No disclosures submitted.</p>{{/if}}
+
+    <h2>Final agreement received</h2>
+    {{#if records.presentations.length}}
+    <table>
+      <tr><th>Party</th><th>Received</th><th>Text (SHA-256)</th></tr>
+      {{#each records.presentations}}<tr><td>{{party}}</td><td>{{presentedAt}}</td><td>{{contentHash}}{{#unless current}} (earlier version){{/unless}}</td></tr>{{/each}}
+    </table>
+    {{else}}<p class="muted">The final agreement has not been presented to either party.</p>{{/if}}
+
+    <h2>Counsel</h2>
+    {{#if records.counsel.length}}
+    <table>
+      <tr><th>Party</th><th>Counsel</th><th>Accepted</th><th>Approved</th></tr>
+      {{#each records.counsel}}<tr><td>{{party}}</td><td>{{counsel}}</td><td>{{acceptedAt}}</td><td>{{#if approvedAt}}{{approvedAt}} (revision {{approvedRevision}}){{/if}}</td></tr>{{/each}}
+    </table>
+    {{else}}<p class="muted">No counsel appointed.</p>{{/if}}
+
+    <h2>Signatures</h2>
+    {{#if records.signatures.length}}
+    <table>
+      <tr><th>Party</th><th>Status</th><th>Signed</th></tr>
+      {{#each records.signatures}}<tr><td>{{party}}</td><td>{{status}}{{#unless current}} (earlier version){{/unless}}</td><td>{{signedAt}}</td></tr>{{/each}}
+    </table>
+    {{else}}<p class="muted">No signatures collected.</p>{{/if}}
+
+    <h2>Notarization</h2>
+    {{#if records.notarization}}
+    <p>Notarized by {{records.notarization.notaryName}}{{#if records.notarization.commissionNumber}} (commission {{records.notarization.commissionNumber}}){{/if}} on {{records.notarization.notarizedAt}}{{#if records.notarization.selfAttested}} (self-attested by a party){{/if}}.</p>
+    {{else}}<p class="muted">No notarization recorded.</p>{{/if}}
+
+    <h2>Status history</h2>
+    <table>
+      <tr><th>Status</th><th>Changed</th></tr>
+      {{#each records.statusHistory}}<tr><td>{{status}}</td><td>{{changedAt}}</td></tr>{{/each}}
+    </table>
+
+    <h2>Special rules to confirm</h2>
+    <ul>
+      {{#each warnings}}<li>{{this}}</li>{{/each}}
+    </ul>
+
+    <p class="muted">Let's Do Prenup prepares documents and does not give legal advice. This report reflects the record on the date it was generated.</p>
+  </body>
+</html>`);
+
+export class ComplianceReportService {
+
+  async generateReport(prenup: Prenup): Promise<ComplianceReport> {
+    return this.buildReport(await stateComplianceService.loadFacts(prenup));
+  }
+
+  buildReport(facts: ComplianceFacts): ComplianceReport {
+    const { prenup } = facts;
+    const law = stateComplianceService.getPrenupLaw(prenup);
+    const evaluation = stateComplianceService.evaluate(facts);
+
+    const requirements = law.requirements.map((requirement, index) => ({
+      name: requirement.name,
+      description: requirement.description,
+      category: requirement.category,
+      required: requirement.required,
+      citation: requirement.citation,
+      status: evaluation.requirements[index].status,
+      evidence: evaluation.requirements[index].evidence
+    }));
+
+    return {
+      prenup: {
+        id: prenup.id,
+        title: prenup.title,
+        status: prenup.status,
+        revision: currentRevision(prenup),
+        createdAt: prenup.createdAt
+      },
+      jurisdiction: {
+        state: law.state,
+        displayName: law.displayName,
+        code: law.code,
+        lawVersion: law.lawVersion,
+        effectiveFrom: law.effectiveFrom,
+        uniformAct: law.uniformAct,
+        citations: law.citations
+      },
+      generatedAt: evaluation.evaluatedAt,
+      status: evaluation.status,
+      requirements,
+      outstanding: requirements
+        .filter(requirement => requirement.required && requirement.status !== 'pass')
+        .map(requirement => requirement.name),
+      records: this.buildRecords(facts),
+      warnings: law.specialRules
+    };
+  }
+
+  renderHtml(report: ComplianceReport): string {
+    return template({
+      ...report,
+      statusLabel: STATUS_LABELS[report.status],
+      requirements: report.requirements.map(requirement => ({
+        ...requirement,
+        statusLabel: STATUS_LABELS[requirement.status]
+      }))
+    });
+  }
+
+  private buildRecords(facts: ComplianceFacts): ComplianceReport['records'] {
+    const partyList = parties(facts);
+    const partyLabel = (userId?: string) =>
+      partyList.find(party => party.userId && party.userId === userId)?.label || 'Former participant';
+
+    const disclosures = facts.disclosures
+      .map(disclosure => ({
+        party: partyLabel(disclosure.userId),
+        submittedAt: disclosure.createdAt,
+        updatedAt: disclosure.updatedAt
+      }))
+      .sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+
+    const presentations = facts.presentations.map(presentation => ({
+      party: partyLabel(presentation.userId),
+      presentedAt: presentation.presentedAt,
+      contentHash: presentation.contentHash,
+      current: presentation.contentHash === facts.contentHash
+    }));
+
+    const counsel = facts.participants
+      .filter(participant => participant.role === ParticipantRole.COUNSEL && participant.status === ParticipantStatus.ACTIVE)
+      .map(participant => ({
+        party: partyLabel(participant.representing),
+        counsel: participant.userName || participant.email,
+        acceptedAt: participant.acceptedAt,
+        approvedAt: participant.approval?.approvedAt,
+        approvedRevision: participant.approval?.prenupRevision
+      }));
+
+    const signatures = facts.signatures
+      .map(signature => ({
+        party: partyLabel(signature.userId),
+        status: signature.status,
+        signedAt: signature.signedAt,
+        current: signature.contentHash === facts.contentHash
+      }))
+      .sort((a, b) => (a.signedAt || '').localeCompare(b.signedAt || ''));
+
+    const { notarization } = facts.prenup;
+
+    return {
+      disclosures,
+      presentations,
+      counsel,
+      signatures,
+      notarization: notarization && {
+        notaryName: notarization.notaryName,
+        commissionNumber: notarization.commissionNumber,
+        notarizedAt: notarization.notarizedAt,
+        source: notarization.source || NotarizationSource.SELF_ATTESTED,
+        selfAttested: !isVerifiedNotarization(notarization)
+      },
+      statusHistory: facts.prenup.statusHistory || []
+    };
+  }
+}
+
+export const complianceReportService = new ComplianceReportService();
@@ -0,0 +1,272 @@
+import {
+  Document,
+  DocumentType,
+  FinancialDisclosure,
+  Notarization,
+  NotarizationSource,
+  ParticipantRole,
+  ParticipantStatus,
+  Presentation,
+  Prenup,
+  PrenupParticipant,
+  Signature,
+  SignatureStatus
+} from '../types/entities';
+
+// Machine-evaluable form of a state requirement. Rules are plain data so
+// they can live next to the requirement text; `evaluateRule` gives them
+// meaning.
+export type ComplianceRule =
+  // Every rule must pass; fails if any fails, unknown if any is unknown
+  | { kind: 'all'; rules: ComplianceRule[] }
+  // At least one rule must pass
+  | { kind: 'any'; rules: ComplianceRule[] }
+  // Both parties take part in the prenup
+  | { kind: 'parties-joined' }
+  // The terms are written down: questionnaire content or an uploaded agreement
+  | { kind: 'written-agreement' }
+  // Both parties have signed
+  | { kind: 'signed-by-parties' }
+  // Both parties have submitted a financial disclosure listing these sections
+  | { kind: 'disclosures-submitted'; sections: DisclosureSection[] }
+  // Each party had the final text for at least `days` before signing it
+  | { kind: 'waiting-period'; days: number }
+  // A notarization or acknowledgment was recorded
+  | { kind: 'notarized' }
+  // Each party is represented by active counsel
+  | { kind: 'independent-counsel' }
+  // Cannot be decided from the record; a person has to judge it
+  | { kind: 'manual-review'; question: string };
+
+export type DisclosureSection = 'assets' | 'debts' | 'income';
+
+export type RuleStatus = 'pass' | 'fail' | 'unknown';
+
+export interface RuleEvaluation {
+  status: RuleStatus;
+  evidence: string[];
+}
+
+// Everything the rules look at, loaded once per evaluation
+export interface ComplianceFacts {
+  prenup: Prenup;
+  contentHash: string; // Hash of the current agreement text and disclosures
+  participants: PrenupParticipant[];
+  disclosures: FinancialDisclosure[];
+  documents: Document[];
+  signatures: Signature[];
+  presentations: Presentation[]; // Oldest first
+  now: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PARTY_LABELS: Partial<Record<ParticipantRole, string>> = {
+  [ParticipantRole.PARTY_A]: 'Party A',
+  [ParticipantRole.PARTY_B]: 'Party B'
+};
+
+const pass = (...evidence: string[]): RuleEvaluation => ({ status: 'pass', evidence });
+const fail = (...evidence: string[]): RuleEvaluation => ({ status: 'fail', evidence });
+const unknown = (...evidence: string[]): RuleEvaluation => ({ status: 'unknown', evidence });
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const formatDate = (iso: string) => iso.slice(0, 10);
+
+const activeParticipants = (facts: ComplianceFacts, role: ParticipantRole) =>
+  facts.participants.filter(participant => participant.role === role && participant.status === ParticipantStatus.ACTIVE);
+
+// Both parties, whether or not they have joined yet
+export const parties = (facts: ComplianceFacts) =>
+  [ParticipantRole.PARTY_A, ParticipantRole.PARTY_B].map(role => {
+    const participant = activeParticipants(facts, role)[0];
+    const label = participant?.userName ? `${PARTY_LABELS[role]} (${participant.userName})` : PARTY_LABELS[role]!;
+    return { role, userId: participant?.userId, label };
+  });
+
+// Signed, oldest first; only a signature on the current text counts
+const signedSignatures = (facts: ComplianceFacts, current = true) =>
+  facts.signatures
+    .filter(signature => signature.status === SignatureStatus.SIGNED && signature.signedAt)
+    .filter(signature => (signature.contentHash === facts.contentHash) === current)
+    .sort((a, b) => a.signedAt!.localeCompare(b.signedAt!));
+
+// Fails if any rule fails, otherwise unknown if any is unknown
+const combineAll = (results: RuleEvaluation[]): RuleEvaluation => {
+  const evidence = results.flatMap(result => result.evidence);
+  if (results.some(result => result.status === 'fail')) return fail(...evidence);
+  if (results.some(result => result.status === 'unknown')) return unknown(...evidence);
+  return pass(...evidence);
+};
+
+const combineAny = (results: RuleEvaluation[]): RuleEvaluation => {
+  const passed = results.find(result => result.status === 'pass');
+  if (passed) return passed;
+  const evidence = results.flatMap(result => result.evidence);
+  return results.some(result => result.status === 'unknown') ? unknown(...evidence) : fail(...evidence);
+};
+
+const evaluatePartiesJoined = (facts: ComplianceFacts): RuleEvaluation => {
+  const missing = parties(facts).filter(party => !party.userId);
+  return missing.length === 0
+    ? pass('Both parties take part in the prenup')
+    : fail(`${missing.map(party => party.label).join(' and ')} ${missing.length === 1 ? 'has' : 'have'} not joined`);
+};
+
+const evaluateWrittenAgreement = (facts: ComplianceFacts): RuleEvaluation => {
+  const agreements = facts.documents.filter(document =>
+    document.type === DocumentType.PRENUP_FINAL || document.type === DocumentType.PRENUP_DRAFT
+  );
+  if (agreements.length > 0) {
+    return pass(`Agreement uploaded: ${agreements.map(document => document.filename).join(', ')}`);
+  }
+  if (Object.keys(facts.prenup.content || {}).length > 0) {
+    return pass('Agreement terms are recorded in the prenup');
+  }
+  return fail('No agreement terms recorded and no agreement document uploaded');
+};
+
+const evaluateSignedByParties = (facts: ComplianceFacts): RuleEvaluation => {
+  const signatures = signedSignatures(facts);
+  const stale = signedSignatures(facts, false);
+  const results = parties(facts).map(party => {
+    const signature = party.userId && signatures.find(candidate => candidate.userId === party.userId);
+    if (signature) {
+      return pass(`${party.label} signed on ${formatDate(signature.signedAt!)}`);
+    }
+    return party.userId && stale.some(candidate => candidate.userId === party.userId)
+      ? fail(`${party.label} signed an earlier version of the agreement`)
+      : fail(`${party.label} has not signed`);
+  });
+  return combineAll(results);
+};
+
+const evaluateDisclosures = (facts: ComplianceFacts, sections: DisclosureSection[]): RuleEvaluation => {
+  const results = parties(facts).map(party => {
+    const disclosure = party.userId && facts.disclosures.find(candidate => candidate.userId === party.userId);
+    if (!disclosure) {
+      return fail(`${party.label} has not submitted a financial disclosure`);
+    }
+
+    const incomeTotal = Object.values(disclosure.income || {})
+      .reduce<number>((sum, value) => sum + (typeof value === 'number' ? value : 0), 0);
+    const listed = {
+      assets: disclosure.assets.length > 0,
+      debts: disclosure.debts.length > 0,
+      income: incomeTotal > 0
+    };
+    // Counts only; amounts stay with those allowed to read the disclosure
+    const summary = `${party.label} disclosed ${plural(disclosure.assets.length, 'asset')}, ` +
+      `${plural(disclosure.debts.length, 'debt')} and ${listed.income ? 'income' : 'no income'}`;
+
+    // Nothing listed may be the truth, so it is left for review rather than failed
+    const empty = sections.filter(section => !listed[section]);
+    return empty.length === 0
+      ? pass(summary)
+      : unknown(summary, `${party.label} lists no ${empty.join(' or ')}; confirm there is nothing to disclose`);
+  });
+  return combineAll(results);
+};
+
+// Each party's period runs from when they first received the text they
+// signed, or the current text until they sign
+const evaluateWaitingPeriod = (facts: ComplianceFacts, days: number): RuleEvaluation => {
+  const signatures = signedSignatures(facts);
+  const results = parties(facts).map(party => {
+    const signature = party.userId && signatures.find(candidate => candidate.userId === party.userId);
+    const contentHash = (signature && signature.contentHash) || facts.contentHash;
+    const presentation = party.userId && facts.presentations.find(candidate =>
+      candidate.userId === party.userId && candidate.contentHash === contentHash
+    );
+    if (!presentation) {
+      return fail(signature
+        ? `${party.label} signed with no record of receiving the final agreement`
+        : `${party.label} has not received the final agreement`);
+    }
+
+    const received = `${party.label} received the final agreement on ${formatDate(presentation.presentedAt)}`;
+    const presentedAt = new Date(presentation.presentedAt).getTime();
+    const end = signature ? new Date(signature.signedAt!).getTime() : facts.now.getTime();
+    const elapsedDays = Math.floor((end - presentedAt) / DAY_MS);
+
+    if (elapsedDays >= days) {
+      return pass(received, signature
+        ? `${party.label} signed ${plural(elapsedDays, 'day')} later, on ${formatDate(signature.signedAt!)}`
+        : `${plural(elapsedDays, 'day')} ${elapsedDays === 1 ? 'has' : 'have'} passed; ${party.label} may sign`);
+    }
+    const remaining = Math.ceil((presentedAt + days * DAY_MS - end) / DAY_MS);
+    return fail(received, signature
+      ? `${party.label} signed after only ${plural(elapsedDays, 'day')}, on ${formatDate(signature.signedAt!)}`
+      : `${plural(remaining, 'day')} remaining before ${party.label} may sign`);
+  });
+  return combineAll(results);
+};
+
+// A recorded notarization only counts when it rests on more than a party's word
+export const isVerifiedNotarization = (notarization?: Notarization): boolean =>
+  !!notarization?.source && notarization.source !== NotarizationSource.SELF_ATTESTED;
+
+const NOTARIZATION_SOURCES: Record<NotarizationSource, string> = {
+  [NotarizationSource.DOCUMENT]: 'with the notarized copy',
+  [NotarizationSource.COUNSEL]: 'by counsel',
+  [NotarizationSource.ADMIN]: 'by an administrator',
+  [NotarizationSource.SELF_ATTESTED]: 'self-attested by a party'
+};
+
+const evaluateNotarized = (facts: ComplianceFacts): RuleEvaluation => {
+  const { notarization } = facts.prenup;
+  const copies = facts.documents
+    .filter(document => document.type === DocumentType.NOTARIZED_AGREEMENT)
+    .map(document => `Notarized copy uploaded: ${document.filename}`);
+  const recorded = notarization && `Notarized by ${notarization.notaryName} on ${formatDate(notarization.notarizedAt)}, ` +
+    `recorded ${NOTARIZATION_SOURCES[notarization.source || NotarizationSource.SELF_ATTESTED]}`;
+
+  if (isVerifiedNotarization(notarization) || copies.length > 0) {
+    return pass(...(recorded ? [recorded] : []), ...copies);
+  }
+  if (recorded) {
+    return unknown(recorded, 'No notarized copy uploaded and not confirmed by counsel');
+  }
+  return fail('No notarization or acknowledgment has been recorded');
+};
+
+const evaluateIndependentCounsel = (facts: ComplianceFacts): RuleEvaluation => {
+  const counsel = activeParticipants(facts, ParticipantRole.COUNSEL);
+  const results = parties(facts).map(party => {
+    const appointed = party.userId && counsel.find(candidate => candidate.representing === party.userId);
+    if (!appointed) {
+      return fail(`${party.label} has no counsel`);
+    }
+    const name = appointed.userName || appointed.email;
+    return pass(appointed.approval
+      ? `${party.label} is represented by ${name}, who approved on ${formatDate(appointed.approval.approvedAt)}`
+      : `${party.label} is represented by ${name}`);
+  });
+  return combineAll(results);
+};
+
+export const evaluateRule = (rule: ComplianceRule, facts: ComplianceFacts): RuleEvaluation => {
+  switch (rule.kind) {
+    case 'all':
+      return combineAll(rule.rules.map(child => evaluateRule(child, facts)));
+    case 'any':
+      return combineAny(rule.rules.map(child => evaluateRule(child, facts)));
+    case 'parties-joined':
+      return evaluatePartiesJoined(facts);
+    case 'written-agreement':
+      return evaluateWrittenAgreement(facts);
+    case 'signed-by-parties':
+      return evaluateSignedByParties(facts);
+    case 'disclosures-submitted':
+      return evaluateDisclosures(facts, rule.sections);
+    case 'waiting-period':
+      return evaluateWaitingPeriod(facts, rule.days);
+    case 'notarized':
+      return evaluateNotarized(facts);
+    case 'independent-counsel':
+      return evaluateIndependentCounsel(facts);
+    case 'manual-review':
+      return unknown(`Needs review: ${rule.question}`);
+  }
+};
@@ -0,0 +1,264 @@
+import { dataStore } from './dataStore';
+import { EntityType, IndexName, currentRevision } from './dynamodb';
+import {
+  ParticipantRole,
+  ParticipantStatus,
+  Prenup,
+  PrenupParticipant,
+  PrenupStatus,
+  UserRole,
+  createPrenupParticipantEntity
+} from '../types/entities';
+import { prenupService } from './prenupService';
+import { participantService, PrenupAction } from './participantService';
+import { userService } from './userService';
+import { notificationService } from './notificationService';
+import { logger } from '../utils/logger';
+import { generateToken, hashToken } from '../utils/tokens';
+
+// Days before a counsel invitation expires
+const COUNSEL_INVITATION_TTL_DAYS = 7;
+
+// Statuses in which counsel can no longer be appointed or approve
+const CLOSED_STATUSES = [PrenupStatus.EXECUTED, PrenupStatus.CANCELLED];
+
+// A counsel invitation together with the plaintext token of its link
+export interface IssuedCounselInvitation {
+  participant: PrenupParticipant;
+  token: string;
+}
+
+// Whether a party is independently represented and whether their counsel
+// approved the agreement
+export interface PartyRepresentation {
+  partyId: string;
+  counsel: PrenupParticipant | null;
+  approval: PrenupParticipant['approval'] | null;
+}
+
+const PARTIES = [ParticipantRole.PARTY_A, ParticipantRole.PARTY_B];
+
+const isOpen = (participant: PrenupParticipant) =>
+  participant.status === ParticipantStatus.ACTIVE ||
+  (participant.status === ParticipantStatus.INVITED && !!participant.expiresAt && new Date(participant.expiresAt) > new Date());
+
+// Independent counsel appointed by each party. Counsel read their client's
+// side of the prenup, comment and approve; they never sign.
+export class CounselService {
+
+  async inviteCounsel(prenupId: string, clientId: string, email: string): Promise<IssuedCounselInvitation> {
+    await participantService.authorize(prenupId, clientId, PrenupAction.MANAGE_PARTICIPANTS);
+    const prenup = await this.getOpenPrenup(prenupId);
+
+    const client = await userService.getUserById(clientId);
+    if (!client) {
+      throw new Error('User not found');
+    }
+
+    const parties = await this.listParties(prenupId);
+    if (parties.some(party => party.email.toLowerCase() === email.toLowerCase())) {
+      throw new Error('Counsel must be independent of both parties');
+    }
+
+    const participants = (await this.listCounsel(prenupId)).filter(isOpen);
+    if (participants.some(participant => participant.representing === clientId)) {
+      throw new Error('Counsel already appointed; remove them before inviting someone else');
+    }
+    if (participants.some(participant => participant.email.toLowerCase() === email.toLowerCase())) {
+      throw new Error('Counsel already represents the other party');
+    }
+
+    const token = generateToken();
+    const participant = await dataStore.create<PrenupParticipant>(createPrenupParticipantEntity({
+      prenupId,
+      role: ParticipantRole.COUNSEL,
+      email,
+      representing: clientId,
+      invitedBy: clientId,
+      status: ParticipantStatus.INVITED,
+      tokenHash: hashToken(token),
+      expiresAt: this.invitationExpiry().toISOString()
+    }));
+
+    logger.info(`Counsel invited for user ${clientId} on prenup ${prenupId}`);
+    await notificationService.sendCounselInvitation(participant, token, prenup, client);
+
+    return { participant, token };
+  }
+
+  // A counsel invitation that can still be accepted
+  async getCounselInvitation(token: string): Promise<PrenupParticipant | null> {
+    const [participant] = await dataStore.queryByIndex<PrenupParticipant>(
+      IndexName.TOKEN,
+      hashToken(token),
+      EntityType.PRENUP_PARTICIPANT
+    );
+
+    return participant && participant.status === ParticipantStatus.INVITED && isOpen(participant)
+      ? participant
+      : null;
+  }
+
+  async acceptCounselInvitation(token: string, userId: string): Promise<PrenupParticipant> {
+    const participant = await this.getCounselInvitation(token);
+    if (!participant) {
+      throw new Error('Invalid or expired invitation');
+    }
+
+    const user = await userService.getUserById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (user.role !== UserRole.ATTORNEY) {
+      throw new Error('Only attorney accounts can accept counsel invitations');
+    }
+    if (user.email.toLowerCase() !== participant.email.toLowerCase()) {
+      throw new Error('Invitation was sent to a different email address');
+    }
+
+    const prenup = await this.getOpenPrenup(participant.prenupId);
+    const access = await participantService.getAccess(prenup.id, userId);
+    if (PARTIES.some(role => access?.as(role))) {
+      throw new Error('Counsel must be independent of both parties');
+    }
+    if (access?.as(ParticipantRole.COUNSEL)) {
+      throw new Error('Counsel already represents the other party');
+    }
+
+    // Pinned to the revision read so the invitation can only be accepted once
+    const accepted = await dataStore.update<PrenupParticipant>(
+      EntityType.PRENUP_PARTICIPANT,
+      participant.id,
+      {
+        status: ParticipantStatus.ACTIVE,
+        userId,
+        userName: `${user.firstName} ${user.lastName}`,
+        acceptedAt: new Date().toISOString(),
+        tokenHash: undefined,
+        expiresAt: undefined
+      },
+      false,
+      currentRevision(participant)
+    );
+
+    logger.info(`Counsel ${userId} accepted appointment ${participant.id} on prenup ${prenup.id}`);
+    await notificationService.counselAccepted(prenup, accepted);
+
+    return accepted;
+  }
+
+  // Ends an appointment. The client may dismiss their counsel and counsel
+  // may withdraw; an approval given by the counsel goes with it.
+  async removeCounsel(prenupId: string, participantId: string, userId: string): Promise<PrenupParticipant> {
+    const participant = await dataStore.getById<PrenupParticipant>(EntityType.PRENUP_PARTICIPANT, participantId);
+    if (!participant || participant.prenupId !== prenupId || participant.role !== ParticipantRole.COUNSEL) {
+      throw new Error('Counsel not found');
+    }
+
+    if (participant.representing !== userId && participant.userId !== userId) {
+      throw new Error('Only the client or the counsel can end an appointment');
+    }
+
+    if (participant.status === ParticipantStatus.REMOVED) {
+      throw new Error('Counsel has already been removed');
+    }
+
+    const removed = await dataStore.update<PrenupParticipant>(
+      EntityType.PRENUP_PARTICIPANT,
+      participant.id,
+      {
+        status: ParticipantStatus.REMOVED,
+        removedAt: new Date().toISOString(),
+        tokenHash: undefined,
+        approval: undefined
+      },
+      false,
+      currentRevision(participant)
+    );
+
+    logger.info(`Counsel appointment ${participant.id} on prenup ${prenupId} ended by ${userId}`);
+    return removed;
+  }
+
+  // Every appointment on the prenup, newest first
+  async listCounsel(prenupId: string): Promise<PrenupParticipant[]> {
+    const participants = await dataStore.queryByPrenupId<PrenupParticipant>(EntityType.PRENUP_PARTICIPANT, prenupId);
+    return participants
+      .filter(participant => participant.role === ParticipantRole.COUNSEL)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  // Representation of each party, used to evidence independent counsel
+  async getRepresentation(prenup: Prenup): Promise<PartyRepresentation[]> {
+    const active = (await this.listCounsel(prenup.id))
+      .filter(participant => participant.status === ParticipantStatus.ACTIVE);
+
+    return (await this.listParties(prenup.id)).map(party => {
+      const partyId = party.userId!;
+      const counsel = active.find(participant => participant.representing === partyId) || null;
+      return { partyId, counsel, approval: counsel?.approval || null };
+    });
+  }
+
+  // Records that counsel approved the agreement as it stands for review
+  async approve(prenupId: string, counselUserId: string, note?: string): Promise<PrenupParticipant> {
+    const access = await participantService.authorize(prenupId, counselUserId, PrenupAction.APPROVE);
+    const participant = access.as(ParticipantRole.COUNSEL)!;
+
+    const prenup = await this.getOpenPrenup(prenupId);
+    if (prenup.status !== PrenupStatus.READY_FOR_REVIEW) {
+      throw new Error('Prenup is not ready for review');
+    }
+
+    const approved = await dataStore.update<PrenupParticipant>(
+      EntityType.PRENUP_PARTICIPANT,
+      participant.id,
+      {
+        approval: {
+          approvedAt: new Date().toISOString(),
+          prenupRevision: currentRevision(prenup),
+          ...(note && { note })
+        }
+      },
+      false,
+      currentRevision(participant)
+    );
+
+    logger.info(`Counsel ${counselUserId} approved prenup ${prenupId} for ${participant.representing}`);
+    await notificationService.counselApproved(prenup, approved);
+
+    return approved;
+  }
+
+  // The party whose side of the prenup the user may see as counsel
+  async getClientOf(prenupId: string, userId: string): Promise<string | null> {
+    const access = await participantService.getAccess(prenupId, userId);
+    return access?.as(ParticipantRole.COUNSEL)?.representing || null;
+  }
+
+  // Active party records in the order the parties joined
+  private async listParties(prenupId: string): Promise<PrenupParticipant[]> {
+    return (await participantService.listParticipants(prenupId)).filter(participant =>
+      PARTIES.includes(participant.role) && participant.status === ParticipantStatus.ACTIVE
+    );
+  }
+
+  private async getOpenPrenup(prenupId: string): Promise<Prenup> {
+    const prenup = await prenupService.getPrenupById(prenupId);
+    if (!prenup) {
+      throw new Error('Prenup not found');
+    }
+    if (CLOSED_STATUSES.includes(prenup.status)) {
+      throw new Error('Prenup is closed');
+    }
+    return prenup;
+  }
+
+  private invitationExpiry(): Date {
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + COUNSEL_INVITATION_TTL_DAYS);
+    return expiresAt;
+  }
+}
+
+export const counselService = new CounselService();
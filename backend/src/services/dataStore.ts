@@ -0,0 +1,77 @@
+import { config } from '../utils/config';
+import { BaseEntity, EntityType, IndexName, DynamoDBService } from './dynamodb';
+import { InMemoryDataStore } from './memoryStore';
+
+// One write within a transaction. Updates follow the same rules as
+// DataStore.update; creates fail if the entity already exists.
+export type WriteOperation =
+  | {
+      kind: 'create';
+      entity: Omit<BaseEntity, 'createdAt' | 'updatedAt' | 'version'> & Record<string, any>;
+    }
+  | {
+      kind: 'update';
+      entityType: EntityType;
+      id: string;
+      updates: Record<string, any>;
+      createNewVersion?: boolean;
+      expectedRevision?: number;
+    };
+
+// Storage operations used by the services. Every implementation must keep the
+// single-table versioning semantics: V0 is the latest state of an entity and
+// V1, V2, ... are archived states. Every write bumps the entity's revision;
+// an update given an expectedRevision fails with RevisionConflictError when
+// the stored revision differs.
+export interface DataStore {
+  create<T extends BaseEntity>(entity: Omit<T, 'createdAt' | 'updatedAt' | 'version'>): Promise<T>;
+
+  getById<T extends BaseEntity>(entityType: EntityType, id: string, version?: string): Promise<T | null>;
+
+  update<T extends BaseEntity>(
+    entityType: EntityType,
+    id: string,
+    updates: Partial<Omit<T, 'id' | 'createdAt' | 'entityType'>>,
+    createNewVersion?: boolean,
+    expectedRevision?: number
+  ): Promise<T>;
+
+  delete(entityType: EntityType, id: string): Promise<void>;
+
+  queryByEntityType<T extends BaseEntity>(
+    entityType: EntityType,
+    limit?: number,
+    lastKey?: any
+  ): Promise<{ items: T[], lastKey?: any }>;
+
+  queryByIndex<T extends BaseEntity>(indexName: IndexName, value: string, entityType: EntityType): Promise<T[]>;
+
+  queryByEmail<T extends BaseEntity>(entityType: EntityType, email: string): Promise<T[]>;
+
+  queryByCreator<T extends BaseEntity>(entityType: EntityType, createdBy: string): Promise<T[]>;
+
+  queryByPartner<T extends BaseEntity>(entityType: EntityType, partnerId: string): Promise<T[]>;
+
+  queryByPrenupId<T extends BaseEntity>(entityType: EntityType, prenupId: string): Promise<T[]>;
+
+  // Latest and archived versions of an entity
+  getAllVersions<T extends BaseEntity>(entityType: EntityType, id: string): Promise<T[]>;
+
+  // Applies all operations or none of them. Resolves to the written entities
+  // in operation order.
+  transactWrite(operations: WriteOperation[]): Promise<BaseEntity[]>;
+}
+
+export const createDataStore = (driver: string = config.dataStore.driver): DataStore => {
+  switch (driver) {
+    case 'memory':
+      return new InMemoryDataStore();
+    case 'dynamodb':
+      return new DynamoDBService();
+    default:
+      throw new Error(`Unknown data store driver: ${driver}`);
+  }
+};
+
+// Singleton instance
+export const dataStore = createDataStore();
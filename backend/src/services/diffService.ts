@@ -0,0 +1,129 @@
+import { BaseEntity, EntityType } from './dynamodb';
+import { FieldChange, VersionDiff } from '../types/entities';
+import { versionService } from './versionService';
+
+// Fields compared for each versioned entity type; metadata such as updatedAt is ignored
+const DIFFED_FIELDS: Partial<Record<EntityType, string[]>> = {
+  [EntityType.PRENUP]: ['title', 'content'],
+  [EntityType.FINANCIAL_DISCLOSURE]: ['assets', 'debts', 'income', 'netWorth']
+};
+
+type Changes = Pick<VersionDiff, 'added' | 'removed' | 'changed'>;
+
+export class DiffService {
+
+  // Diff two stored versions of an entity, returns null if either version does not exist
+  async diffVersions(entityType: EntityType, id: string, from: string, to: string): Promise<VersionDiff | null> {
+    const [fromEntity, toEntity] = await Promise.all([
+      versionService.getVersion<BaseEntity>(entityType, id, from),
+      versionService.getVersion<BaseEntity>(entityType, id, to)
+    ]);
+
+    if (!fromEntity || !toEntity) {
+      return null;
+    }
+
+    return {
+      from,
+      to,
+      ...this.diffEntities(entityType, fromEntity, toEntity)
+    };
+  }
+
+  diffEntities(entityType: EntityType, fromEntity: Record<string, any>, toEntity: Record<string, any>): Changes {
+    const changes: Changes = { added: [], removed: [], changed: [] };
+    const fields = DIFFED_FIELDS[entityType] || [];
+
+    fields.forEach(field => this.diffValues(field, fromEntity[field], toEntity[field], changes));
+
+    return changes;
+  }
+
+  private diffValues(path: string, oldValue: any, newValue: any, changes: Changes): void {
+    if (this.isEqual(oldValue, newValue)) {
+      return;
+    }
+
+    if (oldValue === undefined) {
+      changes.added.push({ path, newValue });
+    } else if (newValue === undefined) {
+      changes.removed.push({ path, oldValue });
+    } else if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+      this.diffArrays(path, oldValue, newValue, changes);
+    } else if (this.isObject(oldValue) && this.isObject(newValue)) {
+      const keys = new Set([...Object.keys(oldValue), ...Object.keys(newValue)]);
+      keys.forEach(key => this.diffValues(`${path}.${key}`, oldValue[key], newValue[key], changes));
+    } else {
+      changes.changed.push({ path, oldValue, newValue });
+    }
+  }
+
+  // Aligns array items on their longest common subsequence so that inserting or
+  // removing one asset does not report every following asset as changed.
+  // Unmatched items between two aligned items are paired up as edits.
+  private diffArrays(path: string, oldItems: any[], newItems: any[], changes: Changes): void {
+    const matches = this.longestCommonSubsequence(oldItems, newItems);
+    let oldIndex = 0;
+    let newIndex = 0;
+
+    [...matches, [oldItems.length, newItems.length]].forEach(([oldMatch, newMatch]) => {
+      while (oldIndex < oldMatch && newIndex < newMatch) {
+        this.diffValues(`${path}[${newIndex}]`, oldItems[oldIndex++], newItems[newIndex++], changes);
+      }
+      while (oldIndex < oldMatch) {
+        changes.removed.push({ path: `${path}[${oldIndex}]`, oldValue: oldItems[oldIndex++] });
+      }
+      while (newIndex < newMatch) {
+        changes.added.push({ path: `${path}[${newIndex}]`, newValue: newItems[newIndex++] });
+      }
+      oldIndex = oldMatch + 1;
+      newIndex = newMatch + 1;
+    });
+  }
+
+  // Index pairs [oldIndex, newIndex] of equal items, in order
+  private longestCommonSubsequence(oldItems: any[], newItems: any[]): Array<[number, number]> {
+    const lengths: number[][] = Array.from({ length: oldItems.length + 1 }, () => new Array(newItems.length + 1).fill(0));
+
+    for (let i = oldItems.length - 1; i >= 0; i--) {
+      for (let j = newItems.length - 1; j >= 0; j--) {
+        lengths[i][j] = this.isEqual(oldItems[i], newItems[j])
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const matches: Array<[number, number]> = [];
+    let i = 0;
+    let j = 0;
+    while (i < oldItems.length && j < newItems.length) {
+      if (this.isEqual(oldItems[i], newItems[j])) {
+        matches.push([i++, j++]);
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+
+    return matches;
+  }
+
+  private isObject(value: any): value is Record<string, any> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  private isEqual(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return a.length === b.length && a.every((item, index) => this.isEqual(item, b[index]));
+    }
+    if (this.isObject(a) && this.isObject(b)) {
+      const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+      return Array.from(keys).every(key => this.isEqual(a[key], b[key]));
+    }
+    return false;
+  }
+}
+
+export const diffService = new DiffService();
@@ -1,10 +1,12 @@
-import { dynamodbService, EntityType } from './dynamodb';
+import { dataStore } from './dataStore';
+import { EntityType } from './dynamodb';
 import { 
   Document,
   DocumentType,
   createDocumentEntity
 } from '../types/entities';
 import { prenupService } from './prenupService';
+import { participantService, PrenupAction } from './participantService';
 import { logger } from '../utils/logger';
 import fs from 'fs';
 import path from 'path';
@@ -20,11 +22,7 @@ export class DocumentService {
     mimeType: string;
     uploadedBy: string;
   }): Promise<Document> {
-    // Verify user has access to prenup
-    const hasAccess = await prenupService.userHasAccessToPrenup(data.prenupId, data.uploadedBy);
-    if (!hasAccess) {
-      throw new Error('Access denied to prenup');
-    }
+    await participantService.authorize(data.prenupId, data.uploadedBy, PrenupAction.MANAGE_DOCUMENTS);
 
     const documentEntity = createDocumentEntity({
       prenupId: data.prenupId,
@@ -36,23 +34,20 @@ export class DocumentService {
       uploadedBy: data.uploadedBy
     });
 
-    const document = await dynamodbService.create<Document>(documentEntity);
+    const document = await dataStore.create<Document>(documentEntity);
     logger.info(`Document created: ${document.filename} for prenup ${data.prenupId}`);
     
     return document;
   }
 
   async getDocumentById(id: string): Promise<Document | null> {
-    return await dynamodbService.getById<Document>(EntityType.DOCUMENT, id);
+    return await dataStore.getById<Document>(EntityType.DOCUMENT, id);
   }
 
   async getDocumentsByPrenup(prenupId: string): Promise<Document[]> {
     try {
-      // Get all documents and filter by prenup
-      const result = await dynamodbService.queryByEntityType<Document>(EntityType.DOCUMENT);
-      
-      const documents = result.items.filter(d => d.prenupId === prenupId);
-      
+      const documents = await dataStore.queryByPrenupId<Document>(EntityType.DOCUMENT, prenupId);
+
       return documents.sort((a, b) => 
         new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
       );
@@ -62,17 +57,14 @@ export class DocumentService {
     }
   }
 
-  async deleteDocument(id: string, userId: string): Promise<void> {
+  // Resolves to the deleted document
+  async deleteDocument(id: string, userId: string): Promise<Document> {
     const document = await this.getDocumentById(id);
     if (!document) {
       throw new Error('Document not found');
     }
 
-    // Verify user has access to the prenup
-    const hasAccess = await prenupService.userHasAccessToPrenup(document.prenupId, userId);
-    if (!hasAccess) {
-      throw new Error('Access denied');
-    }
+    await participantService.authorize(document.prenupId, userId, PrenupAction.MANAGE_DOCUMENTS);
 
     // Delete file from filesystem if it exists
     try {
@@ -86,21 +78,13 @@ export class DocumentService {
     }
 
     // Delete database record
-    await dynamodbService.delete(EntityType.DOCUMENT, id);
+    await dataStore.delete(EntityType.DOCUMENT, id);
     logger.info(`Deleted document: ${id}`);
+    return document;
   }
 
   async updateDocument(id: string, updates: Partial<Document>): Promise<Document> {
-    return await dynamodbService.update<Document>(EntityType.DOCUMENT, id, updates, false);
-  }
-
-  async userCanAccessDocument(documentId: string, userId: string): Promise<boolean> {
-    const document = await this.getDocumentById(documentId);
-    if (!document) {
-      return false;
-    }
-
-    return await prenupService.userHasAccessToPrenup(document.prenupId, userId);
+    return await dataStore.update<Document>(EntityType.DOCUMENT, id, updates, false);
   }
 
   // Helper method to get document with prenup info
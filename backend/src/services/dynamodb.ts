@@ -6,12 +6,15 @@ import {
   UpdateCommand, 
   DeleteCommand, 
   QueryCommand,
-  ScanCommand,
+  QueryCommandInput,
   BatchWriteCommand,
-  BatchGetCommand 
+  BatchGetCommand,
+  TransactWriteCommand,
+  TransactWriteCommandInput
 } from '@aws-sdk/lib-dynamodb';
 import { config } from '../utils/config';
 import { logger } from '../utils/logger';
+import { DataStore, WriteOperation } from './dataStore';
 
 // DynamoDB Client Configuration
 const dynamoDBClient = new DynamoDBClient({
@@ -25,7 +28,10 @@ const dynamoDBClient = new DynamoDBClient({
   })
 });
 
-const docClient = DynamoDBDocumentClient.from(dynamoDBClient);
+// Attributes set to undefined are dropped, which is how updates clear a field
+const docClient = DynamoDBDocumentClient.from(dynamoDBClient, {
+  marshallOptions: { removeUndefinedValues: true }
+});
 
 // Entity Types
 export enum EntityType {
@@ -34,7 +40,16 @@ export enum EntityType {
   FINANCIAL_DISCLOSURE = 'FINANCIAL_DISCLOSURE',
   DOCUMENT = 'DOCUMENT',
   SIGNATURE = 'SIGNATURE',
-  PARTNER_INVITATION = 'PARTNER_INVITATION'
+  PARTNER_INVITATION = 'PARTNER_INVITATION',
+  REFRESH_TOKEN = 'REFRESH_TOKEN',
+  ACCOUNT_TOKEN = 'ACCOUNT_TOKEN',
+  LOGIN_THROTTLE = 'LOGIN_THROTTLE',
+  SESSION = 'SESSION',
+  PRENUP_PARTICIPANT = 'PRENUP_PARTICIPANT',
+  PRENUP_COMMENT = 'PRENUP_COMMENT',
+  AUDIT_EVENT = 'AUDIT_EVENT',
+  AUDIT_TRAIL = 'AUDIT_TRAIL',
+  PRESENTATION = 'PRESENTATION'
 }
 
 // Base interfaces for all entities
@@ -44,6 +59,18 @@ export interface BaseEntity {
   updatedAt: string;
   version: string; // V0, V1, V2, etc.
   entityType: EntityType;
+  updatedBy?: string; // User ID that produced this version
+  versionCounter?: number; // Highest archived version number, kept on the V0 item
+  revision?: number; // Incremented on every write, used for optimistic concurrency
+}
+
+// Thrown when an update was made against a revision that is no longer current.
+// Carries the latest state so callers can show it to the user.
+export class RevisionConflictError extends Error {
+  constructor(public readonly current: BaseEntity) {
+    super(`Revision conflict on ${createPartitionKey(current.entityType, current.id)}`);
+    this.name = 'RevisionConflictError';
+  }
 }
 
 // Version Management Utilities
@@ -61,8 +88,75 @@ export const parseVersionNumber = (versionKey: string): number => {
   return parseInt(versionKey.substring(1));
 };
 
-// DynamoDB Service Class
-export class DynamoDBService {
+export const isVersionKey = (value: string): boolean => /^V\d+$/.test(value);
+
+// Items written before revisions existed are treated as revision 0
+export const currentRevision = (entity: BaseEntity): number => entity.revision ?? 0;
+
+// Highest archived version number of a partition. Items written before the
+// counter existed are counted from their archived versions instead.
+export const resolveVersionCounter = (current: BaseEntity, versions: BaseEntity[]): number => {
+  if (typeof current.versionCounter === 'number') {
+    return current.versionCounter;
+  }
+  return versions.reduce((max, entity) => Math.max(max, parseVersionNumber(entity.version)), 0);
+};
+
+// Attribute DynamoDB's time to live deletes items by, in epoch seconds.
+// Enabled on the table by scripts/setupTables.ts.
+export const TTL_ATTRIBUTE = 'ttl';
+
+export const toTtl = (timestamp: string): number => Math.floor(new Date(timestamp).getTime() / 1000);
+
+// Fields kept on the latest version only. Secrets are left out of archived
+// versions, so version history never holds them.
+export const UNARCHIVED_FIELDS: Partial<Record<EntityType, string[]>> = {
+  [EntityType.USER]: ['mfaSecret', 'mfaPendingSecret', 'mfaRecoveryCodes', 'mfaLastUsedStep']
+};
+
+// The copy of an entity archived under `version`
+export const archivedVersion = <T extends BaseEntity>(entity: T, version: string): T => {
+  const archived: Record<string, any> = { ...entity, version };
+  (UNARCHIVED_FIELDS[entity.entityType] || []).forEach(field => delete archived[field]);
+  return archived as T;
+};
+
+// Attempts at a transaction before giving up on concurrent updates
+const MAX_TRANSACTION_ATTEMPTS = 3;
+
+type TransactItem = NonNullable<TransactWriteCommandInput['TransactItems']>[number];
+
+// A write operation resolved into the items it puts and the entity it produces
+interface PreparedWrite {
+  operation: WriteOperation;
+  entity: BaseEntity;
+  items: TransactItem[];
+}
+
+// Global Secondary Indexes (created by scripts/setupTables.ts)
+export enum IndexName {
+  ENTITY_TYPE = 'EntityTypeIndex',
+  EMAIL = 'EmailIndex',
+  CREATED_BY = 'CreatedByIndex',
+  PARTNER = 'PartnerIndex',
+  PRENUP = 'PrenupIndex',
+  TOKEN = 'TokenIndex',
+  USER = 'UserIndex'
+}
+
+// Hash key attribute of each index, and whether the index uses SK as its range key
+export const INDEX_KEYS: Record<IndexName, { attribute: string; hasSortKey: boolean }> = {
+  [IndexName.ENTITY_TYPE]: { attribute: 'entityType', hasSortKey: true },
+  [IndexName.EMAIL]: { attribute: 'email', hasSortKey: false },
+  [IndexName.CREATED_BY]: { attribute: 'createdBy', hasSortKey: true },
+  [IndexName.PARTNER]: { attribute: 'partnerId', hasSortKey: true },
+  [IndexName.TOKEN]: { attribute: 'tokenHash', hasSortKey: true },
+  [IndexName.PRENUP]: { attribute: 'prenupId', hasSortKey: true },
+  [IndexName.USER]: { attribute: 'userId', hasSortKey: true }
+};
+
+// DynamoDB implementation of the DataStore
+export class DynamoDBService implements DataStore {
   private tableName: string;
 
   constructor() {
@@ -77,7 +171,8 @@ export class DynamoDBService {
       ...entity,
       createdAt: now,
       updatedAt: now,
-      version: LATEST_VERSION
+      version: LATEST_VERSION,
+      revision: 1
     } as T;
 
     const pk = createPartitionKey(entity.entityType, entity.id);
@@ -133,43 +228,27 @@ export class DynamoDBService {
     entityType: EntityType,
     id: string,
     updates: Partial<Omit<T, 'id' | 'createdAt' | 'entityType'>>,
-    createNewVersion: boolean = true
+    createNewVersion: boolean = true,
+    expectedRevision?: number
   ): Promise<T> {
     const pk = createPartitionKey(entityType, id);
     
-    // Get current version
-    const current = await this.getById<T>(entityType, id);
-    if (!current) {
-      throw new Error(`Entity ${pk} not found`);
-    }
-
-    const now = new Date().toISOString();
-    
     if (createNewVersion) {
-      // Archive current version
-      const nextVersion = this.getNextVersionKey(current.version);
-      await this.archiveVersion(pk, current);
-      
-      // Create new latest version
-      const updatedEntity: T = {
-        ...current,
-        ...updates,
-        updatedAt: now,
-        version: LATEST_VERSION
-      } as T;
-
-      await docClient.send(new PutCommand({
-        TableName: this.tableName,
-        Item: {
-          PK: pk,
-          SK: LATEST_VERSION,
-          ...updatedEntity
-        }
-      }));
-
-      logger.info(`Updated entity with new version: ${pk}#${LATEST_VERSION}`);
-      return updatedEntity;
+      // The archive and the new latest version are written together
+      const [updated] = await this.transactWrite([
+        { kind: 'update', entityType, id, updates, createNewVersion: true, expectedRevision }
+      ]);
+      return updated as T;
     } else {
+      // Get current version
+      const current = await this.getById<T>(entityType, id);
+      if (!current) {
+        throw new Error(`Entity ${pk} not found`);
+      }
+      if (expectedRevision !== undefined && currentRevision(current) !== expectedRevision) {
+        throw new RevisionConflictError(current);
+      }
+
       // Update in place (for non-versioned updates like metadata)
       const updateExpression = this.buildUpdateExpression(updates);
       const params = {
@@ -178,12 +257,28 @@ export class DynamoDBService {
         UpdateExpression: updateExpression.expression,
         ExpressionAttributeNames: updateExpression.names,
         ExpressionAttributeValues: updateExpression.values,
+        ...(expectedRevision !== undefined && {
+          ConditionExpression: expectedRevision === 0
+            ? 'attribute_not_exists(#revision)'
+            : '#revision = :expectedRevision',
+          ExpressionAttributeValues: {
+            ...updateExpression.values,
+            ...(expectedRevision !== 0 && { ':expectedRevision': expectedRevision })
+          }
+        }),
         ReturnValues: 'ALL_NEW' as const
       };
 
-      const result = await docClient.send(new UpdateCommand(params));
-      const { PK, SK, ...entity } = result.Attributes!;
-      return entity as T;
+      try {
+        const result = await docClient.send(new UpdateCommand(params));
+        const { PK, SK, ...entity } = result.Attributes!;
+        return entity as T;
+      } catch (error: any) {
+        if (error.name === 'ConditionalCheckFailedException') {
+          throw await this.revisionConflict(entityType, id);
+        }
+        throw error;
+      }
     }
   }
 
@@ -191,13 +286,13 @@ export class DynamoDBService {
     const pk = createPartitionKey(entityType, id);
     
     // Get all versions of the entity
-    const versions = await this.getAllVersions(pk);
+    const versions = await this.getAllVersions(entityType, id);
     
-    // Delete all versions
+    // Delete all versions - the version field of each item is its sort key
     const deletePromises = versions.map(version => 
       docClient.send(new DeleteCommand({
         TableName: this.tableName,
-        Key: { PK: pk, SK: version.SK }
+        Key: { PK: pk, SK: version.version }
       }))
     );
 
@@ -210,9 +305,10 @@ export class DynamoDBService {
     limit?: number,
     lastKey?: any
   ): Promise<{ items: T[], lastKey?: any }> {
-    const params = {
+    const params: QueryCommandInput = {
       TableName: this.tableName,
-      FilterExpression: '#entityType = :entityType AND #sk = :version',
+      IndexName: IndexName.ENTITY_TYPE,
+      KeyConditionExpression: '#entityType = :entityType AND #sk = :version',
       ExpressionAttributeNames: {
         '#entityType': 'entityType',
         '#sk': 'SK'
@@ -226,114 +322,309 @@ export class DynamoDBService {
     };
 
     try {
-      const result = await docClient.send(new ScanCommand(params));
-      const items = (result.Items || []).map(item => {
-        const { PK, SK, ...entity } = item;
-        return entity as T;
-      });
+      // With an explicit limit the caller pages through results itself
+      if (limit) {
+        const result = await docClient.send(new QueryCommand(params));
+        return {
+          items: (result.Items || []).map(item => this.toEntity<T>(item)),
+          lastKey: result.LastEvaluatedKey
+        };
+      }
 
-      return {
-        items,
-        lastKey: result.LastEvaluatedKey
-      };
+      const items = await this.queryAllPages(params);
+      return { items: items.map(item => this.toEntity<T>(item)) };
     } catch (error) {
       logger.error(`Error querying by entity type ${entityType}:`, error);
       throw error;
     }
   }
 
-  async queryRelatedEntities<T extends BaseEntity>(
-    parentType: EntityType,
-    parentId: string,
-    relatedType: EntityType
+  // Typed index lookups - all return latest versions only
+
+  async queryByEmail<T extends BaseEntity>(entityType: EntityType, email: string): Promise<T[]> {
+    return this.queryByIndex<T>(IndexName.EMAIL, email, entityType);
+  }
+
+  async queryByCreator<T extends BaseEntity>(entityType: EntityType, createdBy: string): Promise<T[]> {
+    return this.queryByIndex<T>(IndexName.CREATED_BY, createdBy, entityType);
+  }
+
+  async queryByPartner<T extends BaseEntity>(entityType: EntityType, partnerId: string): Promise<T[]> {
+    return this.queryByIndex<T>(IndexName.PARTNER, partnerId, entityType);
+  }
+
+  async queryByPrenupId<T extends BaseEntity>(entityType: EntityType, prenupId: string): Promise<T[]> {
+    return this.queryByIndex<T>(IndexName.PRENUP, prenupId, entityType);
+  }
+
+  async queryByIndex<T extends BaseEntity>(
+    indexName: IndexName,
+    value: string,
+    entityType: EntityType
   ): Promise<T[]> {
-    // For related entities, we can use a GSI or scan with filters
-    // This is a simplified approach - in production you'd want GSI
-    const params = {
+    const { attribute, hasSortKey } = INDEX_KEYS[indexName];
+
+    // Indexes keyed on SK can select the latest version in the key condition;
+    // the others have to filter archived versions out
+    const params: QueryCommandInput = {
       TableName: this.tableName,
-      FilterExpression: '#entityType = :relatedType AND #sk = :version AND contains(#data, :parentId)',
+      IndexName: indexName,
+      KeyConditionExpression: hasSortKey ? '#key = :value AND #sk = :version' : '#key = :value',
+      FilterExpression: hasSortKey ? '#entityType = :entityType' : '#entityType = :entityType AND #sk = :version',
       ExpressionAttributeNames: {
-        '#entityType': 'entityType',
+        '#key': attribute,
         '#sk': 'SK',
-        '#data': 'data' // Assuming we store related IDs in a 'data' field
+        '#entityType': 'entityType'
       },
       ExpressionAttributeValues: {
-        ':relatedType': relatedType,
+        ':value': value,
         ':version': LATEST_VERSION,
-        ':parentId': parentId
+        ':entityType': entityType
       }
     };
 
-    const result = await docClient.send(new ScanCommand(params));
-    return (result.Items || []).map(item => {
-      const { PK, SK, ...entity } = item;
-      return entity as T;
-    });
+    try {
+      const items = await this.queryAllPages(params);
+      return items.map(item => this.toEntity<T>(item));
+    } catch (error) {
+      logger.error(`Error querying ${indexName} for ${entityType} ${value}:`, error);
+      throw error;
+    }
   }
 
-  // Version Management Helper Methods
-  
-  private async archiveVersion<T extends BaseEntity>(pk: string, entity: T): Promise<void> {
-    const nextVersionKey = this.getNextVersionKey(entity.version);
-    await docClient.send(new PutCommand({
-      TableName: this.tableName,
-      Item: {
-        PK: pk,
-        SK: nextVersionKey,
-        ...entity,
-        version: nextVersionKey
-      }
-    }));
-    logger.info(`Archived version: ${pk}#${nextVersionKey}`);
+  async getAllVersions<T extends BaseEntity>(entityType: EntityType, id: string): Promise<T[]> {
+    const pk = createPartitionKey(entityType, id);
+
+    try {
+      const items = await this.queryAllPages({
+        TableName: this.tableName,
+        KeyConditionExpression: 'PK = :pk',
+        ExpressionAttributeValues: {
+          ':pk': pk
+        }
+      });
+      return items.map(item => this.toEntity<T>(item));
+    } catch (error) {
+      logger.error(`Error getting versions of entity ${pk}:`, error);
+      throw error;
+    }
   }
 
-  private getNextVersionKey(currentVersion: string): string {
-    if (currentVersion === LATEST_VERSION) {
-      return 'V1';
+  async transactWrite(operations: WriteOperation[]): Promise<BaseEntity[]> {
+    for (let attempt = 1; ; attempt++) {
+      const prepared = await Promise.all(operations.map(operation => this.prepareWrite(operation)));
+
+      try {
+        await docClient.send(new TransactWriteCommand({
+          TransactItems: prepared.flatMap(write => write.items)
+        }));
+        logger.info(`Committed transaction: ${prepared.map(write => this.describe(write.entity)).join(', ')}`);
+        return prepared.map(write => write.entity);
+      } catch (error: any) {
+        if (error.name !== 'TransactionCanceledException') {
+          throw error;
+        }
+
+        // A caller holding a revision has lost the race; anyone else retries
+        const failed = this.failedWrite(prepared, error.CancellationReasons);
+        if (failed?.operation.kind === 'update' && failed.operation.expectedRevision !== undefined) {
+          throw await this.revisionConflict(failed.operation.entityType, failed.operation.id);
+        }
+        if (attempt >= MAX_TRANSACTION_ATTEMPTS) {
+          throw error;
+        }
+        logger.warn(`Transaction cancelled by a concurrent write, retrying (attempt ${attempt})`);
+      }
     }
-    const versionNum = parseVersionNumber(currentVersion);
-    return createVersionKey(versionNum + 1);
   }
 
-  private async getAllVersions(pk: string): Promise<any[]> {
-    const params = {
-      TableName: this.tableName,
-      KeyConditionExpression: 'PK = :pk',
-      ExpressionAttributeValues: {
-        ':pk': pk
+  // Version Management Helper Methods
+
+  // Resolves an operation into conditional puts. Updates read the current
+  // state first; every put is conditioned on that state being unchanged, and
+  // archives on their version slot being free, so concurrent writers can
+  // never overwrite each other's changes or history.
+  private async prepareWrite(operation: WriteOperation): Promise<PreparedWrite> {
+    const now = new Date().toISOString();
+
+    if (operation.kind === 'create') {
+      const entity = {
+        ...operation.entity,
+        createdAt: now,
+        updatedAt: now,
+        version: LATEST_VERSION,
+        revision: 1
+      } as BaseEntity;
+
+      return {
+        operation,
+        entity,
+        items: [{
+          Put: {
+            TableName: this.tableName,
+            Item: { PK: createPartitionKey(entity.entityType, entity.id), SK: LATEST_VERSION, ...entity },
+            ConditionExpression: 'attribute_not_exists(PK)'
+          }
+        }]
+      };
+    }
+
+    const { entityType, id, updates, createNewVersion = true, expectedRevision } = operation;
+    const pk = createPartitionKey(entityType, id);
+
+    // Get current version
+    const current = await this.getById(entityType, id);
+    if (!current) {
+      throw new Error(`Entity ${pk} not found`);
+    }
+    if (expectedRevision !== undefined && currentRevision(current) !== expectedRevision) {
+      throw new RevisionConflictError(current);
+    }
+
+    const items: TransactItem[] = [];
+    let versionCounter = current.versionCounter;
+
+    if (createNewVersion) {
+      // Only items written before the counter existed need their archives listed
+      const archived = typeof current.versionCounter === 'number' ? [] : await this.getAllVersions(entityType, id);
+      const counter = resolveVersionCounter(current, archived);
+      const archiveKey = createVersionKey(counter + 1);
+      versionCounter = counter + 1;
+
+      // Archive current version
+      items.push({
+        Put: {
+          TableName: this.tableName,
+          Item: { PK: pk, SK: archiveKey, ...archivedVersion(current, archiveKey) },
+          ConditionExpression: 'attribute_not_exists(PK)'
+        }
+      });
+    }
+
+    const entity = {
+      ...current,
+      ...updates,
+      updatedAt: now,
+      version: LATEST_VERSION,
+      ...(versionCounter !== undefined && { versionCounter }),
+      revision: currentRevision(current) + 1
+    } as BaseEntity;
+
+    items.push({
+      Put: {
+        TableName: this.tableName,
+        Item: { PK: pk, SK: LATEST_VERSION, ...entity },
+        ...this.unchangedSinceRead(current)
       }
+    });
+
+    return { operation, entity, items };
+  }
+
+  // The prepared write whose item failed its condition, if any
+  private failedWrite(prepared: PreparedWrite[], reasons?: { Code?: string }[]): PreparedWrite | undefined {
+    if (!reasons) return undefined;
+
+    let offset = 0;
+    return prepared.find(write => {
+      const codes = reasons.slice(offset, offset + write.items.length).map(reason => reason.Code);
+      offset += write.items.length;
+      return codes.includes('ConditionalCheckFailed');
+    });
+  }
+
+  private describe(entity: BaseEntity): string {
+    return `${createPartitionKey(entity.entityType, entity.id)}#${LATEST_VERSION}`;
+  }
+
+  // Condition that V0 still carries the counter and revision it was read with
+  private unchangedSinceRead(current: BaseEntity) {
+    const conditions: string[] = [];
+    const values: Record<string, any> = {};
+
+    if (typeof current.versionCounter === 'number') {
+      conditions.push('#counter = :counter');
+      values[':counter'] = current.versionCounter;
+    } else {
+      conditions.push('attribute_not_exists(#counter)');
+    }
+
+    if (typeof current.revision === 'number') {
+      conditions.push('#revision = :revision');
+      values[':revision'] = current.revision;
+    } else {
+      conditions.push('attribute_not_exists(#revision)');
+    }
+
+    return {
+      ConditionExpression: conditions.join(' AND '),
+      ExpressionAttributeNames: { '#counter': 'versionCounter', '#revision': 'revision' },
+      ...(Object.keys(values).length > 0 && { ExpressionAttributeValues: values })
     };
+  }
+
+  private async revisionConflict(entityType: EntityType, id: string): Promise<Error> {
+    const latest = await this.getById(entityType, id);
+    return latest ? new RevisionConflictError(latest) : new Error(`Entity ${createPartitionKey(entityType, id)} not found`);
+  }
+
+  // Follows LastEvaluatedKey until the query is exhausted
+  private async queryAllPages(params: QueryCommandInput): Promise<Record<string, any>[]> {
+    const items: Record<string, any>[] = [];
+    let lastKey: Record<string, any> | undefined;
 
-    const result = await docClient.send(new QueryCommand(params));
-    return result.Items || [];
+    do {
+      const result = await docClient.send(new QueryCommand({
+        ...params,
+        ...(lastKey && { ExclusiveStartKey: lastKey })
+      }));
+      items.push(...(result.Items || []));
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+
+    return items;
+  }
+
+  // Remove DynamoDB keys from an item
+  private toEntity<T extends BaseEntity>(item: Record<string, any>): T {
+    const { PK, SK, ...entity } = item;
+    return entity as T;
   }
 
   private buildUpdateExpression(updates: Record<string, any>) {
     const names: Record<string, string> = {};
     const values: Record<string, any> = {};
     const expressions: string[] = [];
+    const removals: string[] = [];
 
     Object.entries(updates).forEach(([key, value], index) => {
       const nameKey = `#attr${index}`;
       const valueKey = `:val${index}`;
       
       names[nameKey] = key;
+      // Undefined clears the attribute
+      if (value === undefined) {
+        removals.push(nameKey);
+        return;
+      }
       values[valueKey] = value;
       expressions.push(`${nameKey} = ${valueKey}`);
     });
 
-    // Always update the updatedAt timestamp
+    // Always update the updatedAt timestamp and bump the revision
     names['#updatedAt'] = 'updatedAt';
     values[':updatedAt'] = new Date().toISOString();
     expressions.push('#updatedAt = :updatedAt');
 
+    names['#revision'] = 'revision';
+    values[':zero'] = 0;
+    values[':one'] = 1;
+    expressions.push('#revision = if_not_exists(#revision, :zero) + :one');
+
     return {
-      expression: `SET ${expressions.join(', ')}`,
+      expression: `SET ${expressions.join(', ')}${removals.length > 0 ? ` REMOVE ${removals.join(', ')}` : ''}`,
       names,
       values
     };
   }
 }
-
-// Singleton instance
-export const dynamodbService = new DynamoDBService();
\ No newline at end of file
@@ -0,0 +1,179 @@
+import Handlebars from 'handlebars';
+import { EmailMessage } from './emailTransport';
+
+export enum EmailTemplate {
+  INVITATION = 'INVITATION',
+  INVITATION_ACCEPTED = 'INVITATION_ACCEPTED',
+  PARTNER_ADDED = 'PARTNER_ADDED',
+  DISCLOSURE_SUBMITTED = 'DISCLOSURE_SUBMITTED',
+  READY_FOR_REVIEW = 'READY_FOR_REVIEW',
+  SIGNATURE_REQUESTED = 'SIGNATURE_REQUESTED',
+  EXECUTED = 'EXECUTED',
+  PASSWORD_RESET = 'PASSWORD_RESET',
+  EMAIL_VERIFICATION = 'EMAIL_VERIFICATION',
+  ACCOUNT_UNLOCK = 'ACCOUNT_UNLOCK',
+  COUNSEL_INVITATION = 'COUNSEL_INVITATION',
+  COUNSEL_ACCEPTED = 'COUNSEL_ACCEPTED',
+  COUNSEL_APPROVED = 'COUNSEL_APPROVED'
+}
+
+interface TemplateSource {
+  subject: string;
+  // Paragraphs of the body; the HTML version wraps them in the layout below
+  body: string[];
+  action?: { label: string; url: string };
+}
+
+const TEMPLATES: Record<EmailTemplate, TemplateSource> = {
+  [EmailTemplate.INVITATION]: {
+    subject: '{{inviterName}} invited you to a prenup on Let\'s Do Prenup',
+    body: [
+      'Hi,',
+      '{{inviterName}} has invited you to work on "{{prenupTitle}}" together on Let\'s Do Prenup.',
+      'The invitation was sent to {{email}} and expires on {{expiresOn}}.'
+    ],
+    action: { label: 'View invitation', url: '{{link}}' }
+  },
+  [EmailTemplate.INVITATION_ACCEPTED]: {
+    subject: '{{partnerName}} joined "{{prenupTitle}}"',
+    body: [
+      'Hi {{recipientName}},',
+      '{{partnerName}} accepted your invitation and can now work on "{{prenupTitle}}" with you.'
+    ],
+    action: { label: 'Open prenup', url: '{{link}}' }
+  },
+  [EmailTemplate.PARTNER_ADDED]: {
+    subject: '{{inviterName}} added you to "{{prenupTitle}}"',
+    body: [
+      'Hi {{recipientName}},',
+      '{{inviterName}} added you as their partner on "{{prenupTitle}}" on Let\'s Do Prenup. You can start working on it together now.'
+    ],
+    action: { label: 'Open prenup', url: '{{link}}' }
+  },
+  [EmailTemplate.DISCLOSURE_SUBMITTED]: {
+    subject: '{{submitterName}} submitted a financial disclosure',
+    body: [
+      'Hi {{recipientName}},',
+      '{{submitterName}} submitted their financial disclosure for "{{prenupTitle}}".'
+    ],
+    action: { label: 'Review disclosure', url: '{{link}}' }
+  },
+  [EmailTemplate.READY_FOR_REVIEW]: {
+    subject: '"{{prenupTitle}}" is ready for review',
+    body: [
+      'Hi {{recipientName}},',
+      '"{{prenupTitle}}" is ready for review. Read the agreement carefully and discuss any changes with your partner.'
+    ],
+    action: { label: 'Review agreement', url: '{{link}}' }
+  },
+  [EmailTemplate.SIGNATURE_REQUESTED]: {
+    subject: 'Your signature is requested on "{{prenupTitle}}"',
+    body: [
+      'Hi {{recipientName}},',
+      '"{{prenupTitle}}" is ready to be signed. Both of you need to sign before it can be executed.'
+    ],
+    action: { label: 'Sign agreement', url: '{{link}}' }
+  },
+  [EmailTemplate.EXECUTED]: {
+    subject: '"{{prenupTitle}}" has been executed',
+    body: [
+      'Hi {{recipientName}},',
+      '"{{prenupTitle}}" has been signed by both parties and is now executed. Keep a copy for your records.'
+    ],
+    action: { label: 'View agreement', url: '{{link}}' }
+  },
+  [EmailTemplate.PASSWORD_RESET]: {
+    subject: 'Reset your Let\'s Do Prenup password',
+    body: [
+      'Hi {{recipientName}},',
+      'We received a request to reset your password. The link below works once and expires in {{validFor}}.',
+      'If you did not ask to reset your password, you can ignore this email.'
+    ],
+    action: { label: 'Reset password', url: '{{link}}' }
+  },
+  [EmailTemplate.EMAIL_VERIFICATION]: {
+    subject: 'Confirm your email address',
+    body: [
+      'Hi {{recipientName}},',
+      'Please confirm that {{email}} is your email address. The link expires in {{validFor}}.'
+    ],
+    action: { label: 'Confirm email', url: '{{link}}' }
+  },
+  [EmailTemplate.ACCOUNT_UNLOCK]: {
+    subject: 'Your Let\'s Do Prenup account was locked',
+    body: [
+      'Hi {{recipientName}},',
+      'We locked your account for {{lockedFor}} after too many failed sign-in attempts.',
+      'If it was you, you can unlock it now with the link below. It works once and expires in {{validFor}}.',
+      'If it was not you, someone may be guessing your password. Consider resetting it.'
+    ],
+    action: { label: 'Unlock account', url: '{{link}}' }
+  },
+  [EmailTemplate.COUNSEL_INVITATION]: {
+    subject: '{{clientName}} asked you to act as their counsel',
+    body: [
+      'Hi,',
+      '{{clientName}} asked you to review "{{prenupTitle}}" on Let\'s Do Prenup as their independent counsel.',
+      'Accept with an attorney account registered to {{email}}. The invitation expires on {{expiresOn}}.'
+    ],
+    action: { label: 'View invitation', url: '{{link}}' }
+  },
+  [EmailTemplate.COUNSEL_ACCEPTED]: {
+    subject: '{{counselName}} is now your counsel on "{{prenupTitle}}"',
+    body: [
+      'Hi {{recipientName}},',
+      '{{counselName}} accepted your invitation and can now review "{{prenupTitle}}" and your financial disclosure.'
+    ],
+    action: { label: 'Open prenup', url: '{{link}}' }
+  },
+  [EmailTemplate.COUNSEL_APPROVED]: {
+    subject: '{{counselName}} approved "{{prenupTitle}}"',
+    body: [
+      'Hi {{recipientName}},',
+      'Your counsel {{counselName}} approved "{{prenupTitle}}" as it stands for review.'
+    ],
+    action: { label: 'Open prenup', url: '{{link}}' }
+  }
+};
+
+const layout = Handlebars.compile(`<!DOCTYPE html>
+<html>
+  <body style="font-family: Arial, sans-serif; color: #111827; line-height: 1.5;">
+    {{#each paragraphs}}<p>{{this}}</p>
+    {{/each}}
+    {{#if action}}<p><a href="{{action.url}}" style="display: inline-block; padding: 10px 16px; background: #2563eb; color: #ffffff; border-radius: 6px; text-decoration: none;">{{action.label}}</a></p>{{/if}}
+    <p style="color: #6b7280; font-size: 12px;">Let's Do Prenup</p>
+  </body>
+</html>`);
+
+// Text parts are rendered without HTML escaping
+const compileText = (source: string) => Handlebars.compile(source, { noEscape: true });
+
+const compiled = Object.fromEntries(
+  Object.entries(TEMPLATES).map(([name, source]) => [name, {
+    subject: compileText(source.subject),
+    body: source.body.map(compileText),
+    action: source.action && { label: source.action.label, url: compileText(source.action.url) }
+  }])
+) as Record<EmailTemplate, {
+  subject: HandlebarsTemplateDelegate;
+  body: HandlebarsTemplateDelegate[];
+  action?: { label: string; url: HandlebarsTemplateDelegate };
+}>;
+
+export const renderEmail = (
+  template: EmailTemplate,
+  to: string,
+  data: Record<string, string>
+): EmailMessage => {
+  const { subject, body, action } = compiled[template];
+  const paragraphs = body.map(paragraph => paragraph(data));
+  const renderedAction = action && { label: action.label, url: action.url(data) };
+
+  return {
+    to,
+    subject: subject(data),
+    text: [...paragraphs, ...(renderedAction ? [`${renderedAction.label}: ${renderedAction.url}`] : [])].join('\n\n'),
+    html: layout({ paragraphs, action: renderedAction })
+  };
+};
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface CapturedEmail extends EmailMessage {
+  id: string;
+  from: string;
+  template: string;
+  sentAt: string;
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage & { template: string }): Promise<void>;
+}
+
+// Delivers mail through the SMTP server in config.email
+export class SmtpTransport implements EmailTransport {
+  private transporter: Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      host: config.email.host,
+      port: config.email.port,
+      secure: config.email.port === 465,
+      auth: config.email.user ? { user: config.email.user, pass: config.email.password } : undefined
+    });
+  }
+
+  async send(message: EmailMessage & { template: string }): Promise<void> {
+    await this.transporter.sendMail({
+      from: config.email.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html
+    });
+  }
+}
+
+// Keeps mail in memory instead of sending it, for development and tests.
+// With config.email.captureDir set, each message is also written to disk.
+export class CaptureTransport implements EmailTransport {
+  private messages: CapturedEmail[] = [];
+  private sequence = 0;
+
+  constructor(private readonly directory: string = config.email.captureDir) {}
+
+  async send(message: EmailMessage & { template: string }): Promise<void> {
+    const captured: CapturedEmail = {
+      ...message,
+      id: `${Date.now()}-${++this.sequence}`,
+      from: config.email.from,
+      sentAt: new Date().toISOString()
+    };
+    this.messages.push(captured);
+
+    if (this.directory) {
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      await fs.promises.writeFile(
+        path.join(this.directory, `${captured.id}.json`),
+        JSON.stringify(captured, null, 2)
+      );
+    }
+    logger.info(`Captured email "${message.subject}" to ${message.to}`);
+  }
+
+  // Newest first
+  list(): CapturedEmail[] {
+    return [...this.messages].reverse();
+  }
+
+  clear(): void {
+    this.messages = [];
+  }
+}
+
+export const createEmailTransport = (driver: string = config.email.transport): EmailTransport => {
+  switch (driver) {
+    case 'smtp':
+      return new SmtpTransport();
+    case 'capture':
+      return new CaptureTransport();
+    default:
+      throw new Error(`Unknown email transport: ${driver}`);
+  }
+};
@@ -1,13 +1,19 @@
-import { dynamodbService, EntityType } from './dynamodb';
+import { dataStore } from './dataStore';
+import { EntityType } from './dynamodb';
 import { 
   FinancialDisclosure,
   Asset,
   Debt,
   Income,
+  VersionSummary,
   createFinancialDisclosureEntity
 } from '../types/entities';
 import { userService } from './userService';
 import { prenupService } from './prenupService';
+import { assertEditable } from './prenupLock';
+import { participantService, PrenupAction } from './participantService';
+import { versionService } from './versionService';
+import { notificationService } from './notificationService';
 import { logger } from '../utils/logger';
 
 export class FinancialService {
@@ -18,12 +24,10 @@ export class FinancialService {
     assets: Asset[];
     debts: Debt[];
     income: Income;
+    expectedRevision?: number;
   }): Promise<FinancialDisclosure> {
-    // Verify user has access to prenup
-    const hasAccess = await prenupService.userHasAccessToPrenup(data.prenupId, data.userId);
-    if (!hasAccess) {
-      throw new Error('Access denied to prenup');
-    }
+    const { prenup } = await participantService.authorize(data.prenupId, data.userId, PrenupAction.EDIT_CONTENT);
+    assertEditable(prenup);
 
     // Get user info for denormalization
     const user = await userService.getUserById(data.userId);
@@ -42,8 +46,12 @@ export class FinancialService {
     let disclosure: FinancialDisclosure;
 
     if (existingDisclosure) {
+      if (data.expectedRevision === undefined) {
+        throw new Error('Revision required to update disclosure');
+      }
+
       // Update existing disclosure
-      disclosure = await dynamodbService.update<FinancialDisclosure>(
+      disclosure = await dataStore.update<FinancialDisclosure>(
         EntityType.FINANCIAL_DISCLOSURE,
         existingDisclosure.id,
         {
@@ -51,9 +59,11 @@ export class FinancialService {
           debts: data.debts,
           income: data.income,
           netWorth,
-          userEmail: user.email
+          userEmail: user.email,
+          updatedBy: data.userId
         },
-        true // Create new version
+        true, // Create new version
+        data.expectedRevision
       );
     } else {
       // Create new disclosure
@@ -67,7 +77,13 @@ export class FinancialService {
         userEmail: user.email
       });
 
-      disclosure = await dynamodbService.create<FinancialDisclosure>(disclosureEntity);
+      disclosure = await dataStore.create<FinancialDisclosure>({ ...disclosureEntity, updatedBy: data.userId });
+
+      // The other party hears about the first submission, not every edit
+      const prenup = await prenupService.getPrenupById(data.prenupId);
+      if (prenup) {
+        await notificationService.disclosureSubmitted(prenup, data.userId);
+      }
     }
 
     logger.info(`Financial disclosure saved for user ${data.userId} on prenup ${data.prenupId}`);
@@ -75,18 +91,18 @@ export class FinancialService {
   }
 
   async getFinancialDisclosureById(id: string): Promise<FinancialDisclosure | null> {
-    return await dynamodbService.getById<FinancialDisclosure>(EntityType.FINANCIAL_DISCLOSURE, id);
+    return await dataStore.getById<FinancialDisclosure>(EntityType.FINANCIAL_DISCLOSURE, id);
   }
 
   async getFinancialDisclosureByPrenupAndUser(prenupId: string, userId: string): Promise<FinancialDisclosure | null> {
     try {
-      // Get all financial disclosures and filter
-      const result = await dynamodbService.queryByEntityType<FinancialDisclosure>(EntityType.FINANCIAL_DISCLOSURE);
-      
-      const disclosure = result.items.find(d => 
-        d.prenupId === prenupId && d.userId === userId
+      const disclosures = await dataStore.queryByPrenupId<FinancialDisclosure>(
+        EntityType.FINANCIAL_DISCLOSURE,
+        prenupId
       );
 
+      const disclosure = disclosures.find(d => d.userId === userId);
+
       return disclosure || null;
     } catch (error) {
       logger.error(`Error finding financial disclosure for prenup ${prenupId} user ${userId}:`, error);
@@ -96,11 +112,11 @@ export class FinancialService {
 
   async getFinancialDisclosuresByPrenup(prenupId: string): Promise<FinancialDisclosure[]> {
     try {
-      // Get all financial disclosures and filter by prenup
-      const result = await dynamodbService.queryByEntityType<FinancialDisclosure>(EntityType.FINANCIAL_DISCLOSURE);
-      
-      const disclosures = result.items.filter(d => d.prenupId === prenupId);
-      
+      const disclosures = await dataStore.queryByPrenupId<FinancialDisclosure>(
+        EntityType.FINANCIAL_DISCLOSURE,
+        prenupId
+      );
+
       return disclosures.sort((a, b) => 
         new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
       );
@@ -111,7 +127,7 @@ export class FinancialService {
   }
 
   async deleteFinancialDisclosure(id: string): Promise<void> {
-    await dynamodbService.delete(EntityType.FINANCIAL_DISCLOSURE, id);
+    await dataStore.delete(EntityType.FINANCIAL_DISCLOSURE, id);
     logger.info(`Deleted financial disclosure: ${id}`);
   }
 
@@ -230,16 +246,12 @@ export class FinancialService {
   }
 
   // Get all versions of a financial disclosure (for audit trail)
-  async getFinancialDisclosureVersions(disclosureId: string): Promise<FinancialDisclosure[]> {
-    try {
-      // This would use DynamoDB query to get all versions
-      // For now, returning just the current version as placeholder
-      const current = await this.getFinancialDisclosureById(disclosureId);
-      return current ? [current] : [];
-    } catch (error) {
-      logger.error(`Error getting versions for disclosure ${disclosureId}:`, error);
-      return [];
-    }
+  async getFinancialDisclosureVersions(disclosureId: string): Promise<VersionSummary[]> {
+    return await versionService.getVersionHistory(EntityType.FINANCIAL_DISCLOSURE, disclosureId);
+  }
+
+  async getFinancialDisclosureVersion(disclosureId: string, version: string): Promise<FinancialDisclosure | null> {
+    return await versionService.getVersion<FinancialDisclosure>(EntityType.FINANCIAL_DISCLOSURE, disclosureId, version);
   }
 }
 
@@ -0,0 +1,79 @@
+import { User } from '../types/entities';
+import { userService } from './userService';
+import { authTokenService, IssuedTokens } from './authTokenService';
+import { accountTokenService } from './accountTokenService';
+import { mfaService } from './mfaService';
+import { loginThrottleService, LoginAttempt } from './loginThrottleService';
+import { ClientInfo } from './sessionService';
+
+// Either a signed-in user, or a challenge to answer with a second factor
+export type LoginResult =
+  | { mfaRequired: true; mfaToken: string }
+  | ({ user: User } & IssuedTokens);
+
+// The login flow shared by the Express routes and the Lambda handler. Both
+// steps are throttled: they throw LoginThrottledError while earlier failures
+// for the account or IP address ask the client to wait.
+export class LoginService {
+
+  async login(email: string, password: string, client: ClientInfo = {}): Promise<LoginResult> {
+    const attempt = { email, ip: client.ip };
+    await loginThrottleService.check(attempt);
+
+    // Unknown emails count as failures too, so they can't be told apart
+    const user = await userService.getUserByEmail(email);
+    if (!user || !(await userService.verifyPassword(user, password))) {
+      await this.fail(attempt, user);
+      throw new Error('Invalid email or password');
+    }
+    this.assertEnabled(user);
+
+    // With MFA on, the password only earns a challenge to answer with a code
+    if (user.mfaEnabled) {
+      return { mfaRequired: true, mfaToken: mfaService.createChallengeToken(user) };
+    }
+
+    return await this.succeed(user, client);
+  }
+
+  // Second step: an authenticator or recovery code for the challenge
+  async completeMfaLogin(mfaToken: string, code: string, client: ClientInfo = {}): Promise<LoginResult> {
+    const user = await mfaService.readChallenge(mfaToken);
+    const attempt = { email: user.email, ip: client.ip };
+    await loginThrottleService.check(attempt);
+    this.assertEnabled(user);
+
+    try {
+      return await this.succeed(await mfaService.verifySecondFactor(user, code), client);
+    } catch (error: any) {
+      if (error.message === 'Invalid verification code') {
+        await this.fail(attempt, user);
+      }
+      throw error;
+    }
+  }
+
+  private async succeed(user: User, client: ClientInfo): Promise<LoginResult> {
+    await loginThrottleService.recordSuccess(user.email);
+    const tokens = await authTokenService.issueTokens(user, client);
+    return { user, ...tokens };
+  }
+
+  // Checked only once the password is right, so it doesn't reveal accounts
+  private assertEnabled(user: User): void {
+    if (user.disabled) {
+      throw new Error('Account disabled');
+    }
+  }
+
+  // Counts the failure and, when it locks an existing account, emails its
+  // owner an unlock link
+  private async fail(attempt: LoginAttempt, user: User | null): Promise<void> {
+    const locked = await loginThrottleService.recordFailure(attempt);
+    if (locked && user) {
+      await accountTokenService.sendAccountUnlock(user);
+    }
+  }
+}
+
+export const loginService = new LoginService();
@@ -0,0 +1,194 @@
+import { dataStore } from './dataStore';
+import { EntityType, RevisionConflictError, currentRevision } from './dynamodb';
+import { LoginThrottle, LoginThrottleScope, createLoginThrottleEntity } from '../types/entities';
+import { normalizeEmail } from './userService';
+import { hashToken } from '../utils/tokens';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+
+const MINUTE_MS = 60 * 1000;
+
+// Attempts to record a failure before giving up on concurrent writers
+const MAX_WRITE_ATTEMPTS = 3;
+
+const lockedMessage = (scope?: LoginThrottleScope) => {
+  switch (scope) {
+    case LoginThrottleScope.ACCOUNT:
+      return 'Too many failed login attempts. This account is temporarily locked; check your email for an unlock link or try again later.';
+    case LoginThrottleScope.IP:
+      return 'Too many failed login attempts from your network. Try again later.';
+    default:
+      return null;
+  }
+};
+
+// Thrown when a login is attempted before the wait imposed by earlier
+// failures is over. Carries how long the client should wait and, during a
+// lockout, whether the account or the IP address is locked.
+export class LoginThrottledError extends Error {
+  constructor(
+    public readonly retryAfterSeconds: number,
+    public readonly lockedScope?: LoginThrottleScope
+  ) {
+    super(lockedMessage(lockedScope) ||
+      `Too many failed login attempts. Try again in ${retryAfterSeconds} second${retryAfterSeconds === 1 ? '' : 's'}.`);
+    this.name = 'LoginThrottledError';
+  }
+}
+
+// A login attempt: the email it was made for and the address it came from
+export interface LoginAttempt {
+  email: string;
+  ip?: string;
+}
+
+const throttleId = (scope: LoginThrottleScope, key: string) => `${scope}-${hashToken(key)}`;
+
+// Failed login counters per account and per IP address, with progressive
+// delays and temporary lockout
+export class LoginThrottleService {
+
+  // Throws LoginThrottledError while either counter asks the client to wait
+  async check(attempt: LoginAttempt): Promise<void> {
+    const now = Date.now();
+    let waitMs = 0;
+    let lockedScope: LoginThrottleScope | undefined;
+
+    for (const [scope, key] of this.subjects(attempt)) {
+      const record = await dataStore.getById<LoginThrottle>(EntityType.LOGIN_THROTTLE, throttleId(scope, key));
+      if (!record) continue;
+
+      if (this.isLocked(record, now)) {
+        waitMs = Math.max(waitMs, new Date(record.lockedUntil!).getTime() - now);
+        // An account lock has the more useful message, with the unlock email
+        lockedScope = lockedScope || scope;
+      } else if (!this.isStale(record, now)) {
+        waitMs = Math.max(waitMs, new Date(record.lastFailureAt).getTime() + this.delayMs(scope, record.failures) - now);
+      }
+    }
+
+    if (waitMs > 0) {
+      throw new LoginThrottledError(Math.ceil(waitMs / 1000), lockedScope);
+    }
+  }
+
+  // Counts a failed attempt. Resolves to true when it locked the account.
+  async recordFailure(attempt: LoginAttempt): Promise<boolean> {
+    let accountLocked = false;
+
+    for (const [scope, key] of this.subjects(attempt)) {
+      const record = await this.increment(scope, key);
+      if (record.lockedUntil && record.failures === this.policy(scope).lockoutAfter) {
+        logger.warn(`Login locked for ${scope.toLowerCase()} ${record.id} until ${record.lockedUntil}`);
+        accountLocked = accountLocked || scope === LoginThrottleScope.ACCOUNT;
+      }
+    }
+
+    return accountLocked;
+  }
+
+  // A successful login clears the account's counter. The IP counter is left
+  // alone so one working password doesn't reset guesses at other accounts.
+  async recordSuccess(email: string): Promise<void> {
+    await this.clear(email);
+  }
+
+  async isAccountLocked(email: string): Promise<boolean> {
+    const record = await dataStore.getById<LoginThrottle>(
+      EntityType.LOGIN_THROTTLE,
+      throttleId(LoginThrottleScope.ACCOUNT, normalizeEmail(email))
+    );
+    return !!record && this.isLocked(record, Date.now());
+  }
+
+  // Lifts the lock and failure count of an account
+  async clear(email: string): Promise<void> {
+    const id = throttleId(LoginThrottleScope.ACCOUNT, normalizeEmail(email));
+    const record = await dataStore.getById<LoginThrottle>(EntityType.LOGIN_THROTTLE, id);
+    if (record) {
+      await dataStore.delete(EntityType.LOGIN_THROTTLE, id);
+    }
+  }
+
+  private subjects(attempt: LoginAttempt): [LoginThrottleScope, string][] {
+    const subjects: [LoginThrottleScope, string][] = [[LoginThrottleScope.ACCOUNT, normalizeEmail(attempt.email)]];
+    if (attempt.ip) {
+      subjects.push([LoginThrottleScope.IP, attempt.ip]);
+    }
+    return subjects;
+  }
+
+  // Adds one failure, starting over when the previous ones expired. Writes
+  // are pinned to the revision read, or to the counter not existing yet, and
+  // retried if another attempt won.
+  private async increment(scope: LoginThrottleScope, key: string): Promise<LoginThrottle> {
+    const id = throttleId(scope, key);
+
+    for (let attempt = 1; ; attempt++) {
+      const now = Date.now();
+      const existing = await dataStore.getById<LoginThrottle>(EntityType.LOGIN_THROTTLE, id);
+      const startOver = !existing || this.isStale(existing, now) || this.lockExpired(existing, now);
+      const failures = startOver ? 1 : existing!.failures + 1;
+      const updates = {
+        failures,
+        lastFailureAt: new Date(now).toISOString(),
+        lockedUntil: failures >= this.policy(scope).lockoutAfter
+          ? new Date(now + config.loginThrottle.lockoutMinutes * MINUTE_MS).toISOString()
+          : undefined
+      };
+
+      if (!existing) {
+        try {
+          // A transactional create fails if the counter exists by now
+          const [created] = await dataStore.transactWrite([
+            { kind: 'create', entity: createLoginThrottleEntity(id, { scope, ...updates }) }
+          ]);
+          return created as LoginThrottle;
+        } catch (error) {
+          // Another attempt created it first; add to its count instead
+          if (attempt >= MAX_WRITE_ATTEMPTS) {
+            throw error;
+          }
+          continue;
+        }
+      }
+
+      try {
+        return await dataStore.update<LoginThrottle>(
+          EntityType.LOGIN_THROTTLE, id, updates, false, currentRevision(existing)
+        );
+      } catch (error) {
+        if (!(error instanceof RevisionConflictError) || attempt >= MAX_WRITE_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private policy(scope: LoginThrottleScope) {
+    return scope === LoginThrottleScope.ACCOUNT ? config.loginThrottle.account : config.loginThrottle.ip;
+  }
+
+  // Wait after the given number of failures: none for the free attempts,
+  // then 1, 2, 4... seconds up to the maximum
+  private delayMs(scope: LoginThrottleScope, failures: number): number {
+    const extra = failures - this.policy(scope).freeAttempts;
+    if (extra <= 0) return 0;
+    return Math.min(2 ** (extra - 1), config.loginThrottle.maxDelaySeconds) * 1000;
+  }
+
+  private isLocked(record: LoginThrottle, now: number): boolean {
+    return !!record.lockedUntil && new Date(record.lockedUntil).getTime() > now;
+  }
+
+  private lockExpired(record: LoginThrottle, now: number): boolean {
+    return !!record.lockedUntil && !this.isLocked(record, now);
+  }
+
+  private isStale(record: LoginThrottle, now: number): boolean {
+    return !record.lockedUntil &&
+      new Date(record.lastFailureAt).getTime() + config.loginThrottle.failureWindowMinutes * MINUTE_MS < now;
+  }
+}
+
+export const loginThrottleService = new LoginThrottleService();
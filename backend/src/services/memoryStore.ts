@@ -0,0 +1,242 @@
+import {
+  BaseEntity,
+  EntityType,
+  IndexName,
+  INDEX_KEYS,
+  LATEST_VERSION,
+  createPartitionKey,
+  RevisionConflictError,
+  createVersionKey,
+  currentRevision,
+  resolveVersionCounter,
+  archivedVersion
+} from './dynamodb';
+import { DataStore, WriteOperation } from './dataStore';
+import { logger } from '../utils/logger';
+
+type StoredItem = Record<string, any>;
+
+// In-memory implementation of the DataStore for tests and local development.
+// Items are kept in the same PK/SK layout as the DynamoDB table and are copied
+// on the way in and out, so callers can never mutate stored state.
+export class InMemoryDataStore implements DataStore {
+  // PK -> SK -> item
+  private partitions = new Map<string, Map<string, StoredItem>>();
+
+  async create<T extends BaseEntity>(entity: Omit<T, 'createdAt' | 'updatedAt' | 'version'>): Promise<T> {
+    const now = new Date().toISOString();
+    const entityWithMeta: T = {
+      ...entity,
+      createdAt: now,
+      updatedAt: now,
+      version: LATEST_VERSION,
+      revision: 1
+    } as T;
+
+    const pk = createPartitionKey(entity.entityType, entity.id);
+    this.putItem(pk, LATEST_VERSION, entityWithMeta);
+    logger.info(`Created entity: ${pk}#${LATEST_VERSION}`);
+
+    return this.clone(entityWithMeta);
+  }
+
+  async getById<T extends BaseEntity>(
+    entityType: EntityType,
+    id: string,
+    version: string = LATEST_VERSION
+  ): Promise<T | null> {
+    const item = this.partitions.get(createPartitionKey(entityType, id))?.get(version);
+    return item ? this.toEntity<T>(item) : null;
+  }
+
+  async update<T extends BaseEntity>(
+    entityType: EntityType,
+    id: string,
+    updates: Partial<Omit<T, 'id' | 'createdAt' | 'entityType'>>,
+    createNewVersion: boolean = true,
+    expectedRevision?: number
+  ): Promise<T> {
+    const [updated] = await this.transactWrite([
+      { kind: 'update', entityType, id, updates, createNewVersion, expectedRevision }
+    ]);
+    return updated as T;
+  }
+
+  async delete(entityType: EntityType, id: string): Promise<void> {
+    const pk = createPartitionKey(entityType, id);
+    this.partitions.delete(pk);
+    logger.info(`Deleted all versions of entity: ${pk}`);
+  }
+
+  async queryByEntityType<T extends BaseEntity>(
+    entityType: EntityType,
+    limit?: number,
+    lastKey?: any
+  ): Promise<{ items: T[], lastKey?: any }> {
+    const matching = this.latestItems()
+      .filter(item => item.entityType === entityType)
+      .sort((a, b) => a.PK.localeCompare(b.PK));
+
+    if (!limit) {
+      return { items: matching.map(item => this.toEntity<T>(item)) };
+    }
+
+    // Mirror DynamoDB paging: lastKey is the table and index key of the last
+    // item returned
+    const start = lastKey ? matching.findIndex(item => item.PK === lastKey.PK) + 1 : 0;
+    const page = matching.slice(start, start + limit);
+    const hasMore = start + limit < matching.length;
+
+    return {
+      items: page.map(item => this.toEntity<T>(item)),
+      lastKey: hasMore ? { PK: page[page.length - 1].PK, SK: LATEST_VERSION, entityType } : undefined
+    };
+  }
+
+  async queryByIndex<T extends BaseEntity>(
+    indexName: IndexName,
+    value: string,
+    entityType: EntityType
+  ): Promise<T[]> {
+    const { attribute } = INDEX_KEYS[indexName];
+
+    return this.latestItems()
+      .filter(item => item.entityType === entityType && item[attribute] === value)
+      .map(item => this.toEntity<T>(item));
+  }
+
+  async queryByEmail<T extends BaseEntity>(entityType: EntityType, email: string): Promise<T[]> {
+    return this.queryByIndex<T>(IndexName.EMAIL, email, entityType);
+  }
+
+  async queryByCreator<T extends BaseEntity>(entityType: EntityType, createdBy: string): Promise<T[]> {
+    return this.queryByIndex<T>(IndexName.CREATED_BY, createdBy, entityType);
+  }
+
+  async queryByPartner<T extends BaseEntity>(entityType: EntityType, partnerId: string): Promise<T[]> {
+    return this.queryByIndex<T>(IndexName.PARTNER, partnerId, entityType);
+  }
+
+  async queryByPrenupId<T extends BaseEntity>(entityType: EntityType, prenupId: string): Promise<T[]> {
+    return this.queryByIndex<T>(IndexName.PRENUP, prenupId, entityType);
+  }
+
+  async getAllVersions<T extends BaseEntity>(entityType: EntityType, id: string): Promise<T[]> {
+    const partition = this.partitions.get(createPartitionKey(entityType, id));
+    if (!partition) return [];
+
+    // Same order as a DynamoDB query on the sort key
+    return Array.from(partition.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([, item]) => this.toEntity<T>(item));
+  }
+
+  // Every operation is checked before anything is written, so a failed
+  // condition leaves the store untouched
+  async transactWrite(operations: WriteOperation[]): Promise<BaseEntity[]> {
+    const writes = operations.map(operation => this.prepareWrite(operation));
+
+    const keys = writes.flatMap(write => write.items.map(item => `${item.pk}#${item.sk}`));
+    if (new Set(keys).size !== keys.length) {
+      throw new Error('Transaction writes the same item more than once');
+    }
+
+    writes.forEach(write => write.items.forEach(item => this.putItem(item.pk, item.sk, item.entity)));
+    return writes.map(write => this.clone(write.entity));
+  }
+
+  // Remove every stored item, e.g. between tests
+  clear(): void {
+    this.partitions.clear();
+  }
+
+  private prepareWrite(operation: WriteOperation): {
+    entity: BaseEntity;
+    items: { pk: string; sk: string; entity: Record<string, any> }[];
+  } {
+    const now = new Date().toISOString();
+
+    if (operation.kind === 'create') {
+      const pk = createPartitionKey(operation.entity.entityType, operation.entity.id);
+      if (this.partitions.get(pk)?.has(LATEST_VERSION)) {
+        throw new Error(`Entity ${pk} already exists`);
+      }
+
+      const entity = {
+        ...operation.entity,
+        createdAt: now,
+        updatedAt: now,
+        version: LATEST_VERSION,
+        revision: 1
+      } as BaseEntity;
+      return { entity, items: [{ pk, sk: LATEST_VERSION, entity }] };
+    }
+
+    const { entityType, id, updates, createNewVersion = true, expectedRevision } = operation;
+    const pk = createPartitionKey(entityType, id);
+
+    // Get current version
+    const stored = this.partitions.get(pk)?.get(LATEST_VERSION);
+    if (!stored) {
+      throw new Error(`Entity ${pk} not found`);
+    }
+    const current = this.toEntity<BaseEntity>(stored);
+    if (expectedRevision !== undefined && currentRevision(current) !== expectedRevision) {
+      throw new RevisionConflictError(current);
+    }
+
+    const items: { pk: string; sk: string; entity: Record<string, any> }[] = [];
+    let versionCounter = current.versionCounter;
+
+    if (createNewVersion) {
+      // Archive current version under the next number of the partition counter
+      const partition = this.partitions.get(pk)!;
+      const archived = typeof current.versionCounter === 'number'
+        ? []
+        : Array.from(partition.values()).map(item => this.toEntity<BaseEntity>(item));
+      const counter = resolveVersionCounter(current, archived);
+      const archiveKey = createVersionKey(counter + 1);
+
+      if (partition.has(archiveKey)) {
+        throw new Error(`Version ${pk}#${archiveKey} already exists`);
+      }
+      items.push({ pk, sk: archiveKey, entity: archivedVersion(current, archiveKey) });
+      versionCounter = counter + 1;
+    }
+
+    const entity = {
+      ...current,
+      ...updates,
+      updatedAt: now,
+      version: LATEST_VERSION,
+      ...(versionCounter !== undefined && { versionCounter }),
+      revision: currentRevision(current) + 1
+    } as BaseEntity;
+    items.push({ pk, sk: LATEST_VERSION, entity });
+
+    return { entity, items };
+  }
+
+  private putItem(pk: string, sk: string, entity: Record<string, any>): void {
+    if (!this.partitions.has(pk)) {
+      this.partitions.set(pk, new Map());
+    }
+    this.partitions.get(pk)!.set(sk, { PK: pk, SK: sk, ...this.clone(entity) });
+  }
+
+  private latestItems(): StoredItem[] {
+    return Array.from(this.partitions.values())
+      .map(partition => partition.get(LATEST_VERSION))
+      .filter((item): item is StoredItem => !!item);
+  }
+
+  // Items are stored as JSON, just like the document client marshalls them
+  private clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  private toEntity<T extends BaseEntity>(item: StoredItem): T {
+    const { PK, SK, ...entity } = this.clone(item);
+    return entity as T;
+  }
+}
@@ -0,0 +1,189 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { dataStore } from './dataStore';
+import { EntityType, RevisionConflictError, currentRevision } from './dynamodb';
+import { User } from '../types/entities';
+import { userService } from './userService';
+import { hashToken } from '../utils/tokens';
+import { generateTotpSecret, totpProvisioningUri, verifyTotpCode } from '../utils/totp';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+
+const RECOVERY_CODE_COUNT = 10;
+const MFA_CHALLENGE_PURPOSE = 'mfa-challenge';
+
+export interface MfaStatus {
+  enabled: boolean;
+  enabledAt?: string;
+  recoveryCodesRemaining: number;
+}
+
+// Recovery codes look like "3f9a-c21e-77b0"
+const generateRecoveryCodes = (): string[] =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+    crypto.randomBytes(6).toString('hex').match(/.{4}/g)!.join('-'));
+
+const normalizeRecoveryCode = (code: string) => code.trim().toLowerCase();
+
+// TOTP two-factor authentication: enrollment, verification and the
+// challenge token that bridges the two steps of a login. MFA state is
+// written in place, never as a new version, so no archived version of the
+// user keeps a secret or recovery code.
+export class MfaService {
+
+  getStatus(user: User): MfaStatus {
+    return {
+      enabled: !!user.mfaEnabled,
+      enabledAt: user.mfaEnabledAt,
+      recoveryCodesRemaining: user.mfaRecoveryCodes?.length || 0
+    };
+  }
+
+  // Generates a secret that only takes effect once a code from it is confirmed
+  async beginEnrollment(userId: string): Promise<{ secret: string; otpauthUri: string }> {
+    const user = await this.getUser(userId);
+    if (user.mfaEnabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await dataStore.update<User>(EntityType.USER, user.id, { mfaPendingSecret: secret }, false);
+
+    return { secret, otpauthUri: totpProvisioningUri(secret, user.email, config.mfa.issuer) };
+  }
+
+  // Enables MFA and returns the recovery codes; they are only shown this once
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const user = await this.getUser(userId);
+    if (user.mfaEnabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+    if (!user.mfaPendingSecret) {
+      throw new Error('Two-factor enrollment has not been started');
+    }
+
+    const step = verifyTotpCode(user.mfaPendingSecret, code);
+    if (step === null) {
+      throw new Error('Invalid verification code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await dataStore.update<User>(EntityType.USER, user.id, {
+      mfaEnabled: true,
+      mfaEnabledAt: new Date().toISOString(),
+      mfaSecret: user.mfaPendingSecret,
+      mfaPendingSecret: undefined,
+      mfaRecoveryCodes: recoveryCodes.map(recoveryCode => hashToken(recoveryCode)),
+      mfaLastUsedStep: step
+    }, false, currentRevision(user));
+    logger.info(`Two-factor authentication enabled for user ${user.id}`);
+
+    return recoveryCodes;
+  }
+
+  async disable(userId: string, code: string): Promise<void> {
+    const user = await this.getUser(userId);
+    if (!user.mfaEnabled) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    const verified = await this.verifySecondFactor(user, code);
+    await dataStore.update<User>(EntityType.USER, verified.id, {
+      mfaEnabled: false,
+      mfaEnabledAt: undefined,
+      mfaSecret: undefined,
+      mfaRecoveryCodes: undefined,
+      mfaLastUsedStep: undefined
+    }, false, currentRevision(verified));
+    logger.info(`Two-factor authentication disabled for user ${user.id}`);
+  }
+
+  // Replaces all recovery codes, e.g. after some were used up
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    const user = await this.getUser(userId);
+    if (!user.mfaEnabled) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    const verified = await this.verifySecondFactor(user, code);
+    const recoveryCodes = generateRecoveryCodes();
+    await dataStore.update<User>(EntityType.USER, verified.id, {
+      mfaRecoveryCodes: recoveryCodes.map(recoveryCode => hashToken(recoveryCode))
+    }, false, currentRevision(verified));
+
+    return recoveryCodes;
+  }
+
+  // Accepts an authenticator code or an unused recovery code. Accepted codes
+  // are recorded (pinned to the revision read) so neither works twice.
+  async verifySecondFactor(user: User, code: string): Promise<User> {
+    const step = user.mfaSecret ? verifyTotpCode(user.mfaSecret, code) : null;
+    if (step !== null) {
+      if (user.mfaLastUsedStep !== undefined && step <= user.mfaLastUsedStep) {
+        throw new Error('Invalid verification code');
+      }
+      return await this.recordUse(user, { mfaLastUsedStep: step });
+    }
+
+    const recoveryHash = hashToken(normalizeRecoveryCode(code));
+    if (user.mfaRecoveryCodes?.includes(recoveryHash)) {
+      logger.info(`Recovery code used by user ${user.id}`);
+      return await this.recordUse(user, {
+        mfaRecoveryCodes: user.mfaRecoveryCodes.filter(hash => hash !== recoveryHash)
+      });
+    }
+
+    throw new Error('Invalid verification code');
+  }
+
+  // Short-lived token proving the password step of a login succeeded
+  createChallengeToken(user: User): string {
+    return jwt.sign(
+      { id: user.id, purpose: MFA_CHALLENGE_PURPOSE },
+      config.jwtSecret,
+      { expiresIn: config.mfa.challengeExpiresIn as jwt.SignOptions['expiresIn'] }
+    );
+  }
+
+  // The user a challenge token was issued to, who still has to give a code
+  async readChallenge(challengeToken: string): Promise<User> {
+    let userId: string;
+    try {
+      const decoded = jwt.verify(challengeToken, config.jwtSecret) as { id: string; purpose?: string };
+      if (decoded.purpose !== MFA_CHALLENGE_PURPOSE) {
+        throw new Error('Wrong token purpose');
+      }
+      userId = decoded.id;
+    } catch (error) {
+      throw new Error('Invalid or expired challenge');
+    }
+
+    const user = await userService.getUserById(userId);
+    if (!user || !user.mfaEnabled) {
+      throw new Error('Invalid or expired challenge');
+    }
+
+    return user;
+  }
+
+  private async recordUse(user: User, updates: Partial<User>): Promise<User> {
+    try {
+      return await dataStore.update<User>(EntityType.USER, user.id, updates, false, currentRevision(user));
+    } catch (error) {
+      if (error instanceof RevisionConflictError) {
+        throw new Error('Invalid verification code');
+      }
+      throw error;
+    }
+  }
+
+  private async getUser(userId: string): Promise<User> {
+    const user = await userService.getUserById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user;
+  }
+}
+
+export const mfaService = new MfaService();
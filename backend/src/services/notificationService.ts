@@ -0,0 +1,178 @@
+import { PartnerInvitation, Prenup, PrenupParticipant, PrenupStatus, User } from '../types/entities';
+import { CaptureTransport, EmailTransport, createEmailTransport } from './emailTransport';
+import { EmailTemplate, renderEmail } from './emailTemplates';
+import { userService } from './userService';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+
+// Emails sent when a prenup enters these statuses
+const STATUS_TEMPLATES: Partial<Record<PrenupStatus, EmailTemplate>> = {
+  [PrenupStatus.READY_FOR_REVIEW]: EmailTemplate.READY_FOR_REVIEW,
+  [PrenupStatus.PENDING_SIGNATURES]: EmailTemplate.SIGNATURE_REQUESTED,
+  [PrenupStatus.EXECUTED]: EmailTemplate.EXECUTED
+};
+
+const fullName = (user: Pick<User, 'firstName' | 'lastName'>) => `${user.firstName} ${user.lastName}`;
+
+const prenupLink = (prenupId: string) => `${config.frontend.url}/prenups/${prenupId}`;
+
+// Sends the emails that keep both parties informed. Delivery is best effort:
+// a failed email is logged and never fails the change that triggered it.
+export class NotificationService {
+  constructor(private readonly transport: EmailTransport = createEmailTransport()) {}
+
+  async sendInvitation(invitation: PartnerInvitation, token: string, prenup: Prenup): Promise<void> {
+    const inviter = await userService.getUserById(invitation.invitedBy);
+
+    await this.deliver(EmailTemplate.INVITATION, invitation.email, {
+      inviterName: inviter ? fullName(inviter) : 'Your partner',
+      prenupTitle: prenup.title,
+      email: invitation.email,
+      expiresOn: new Date(invitation.expiresAt).toDateString(),
+      link: `${config.frontend.url}/invite/${token}`
+    });
+  }
+
+  async invitationAccepted(prenup: Prenup, partnerId: string): Promise<void> {
+    const [creator, partner] = await Promise.all([
+      userService.getUserById(prenup.createdBy),
+      userService.getUserById(partnerId)
+    ]);
+    if (!creator || !partner) return;
+
+    await this.deliver(EmailTemplate.INVITATION_ACCEPTED, creator.email, {
+      recipientName: creator.firstName,
+      partnerName: fullName(partner),
+      prenupTitle: prenup.title,
+      link: prenupLink(prenup.id)
+    });
+  }
+
+  // Tells an existing account that it was added to a prenup without an
+  // invitation to accept
+  async partnerAdded(prenup: Prenup, partner: User, inviter: User): Promise<void> {
+    await this.deliver(EmailTemplate.PARTNER_ADDED, partner.email, {
+      recipientName: partner.firstName,
+      inviterName: fullName(inviter),
+      prenupTitle: prenup.title,
+      link: prenupLink(prenup.id)
+    });
+  }
+
+  // Tells the other party that a disclosure is available to review
+  async disclosureSubmitted(prenup: Prenup, submittedBy: string): Promise<void> {
+    const recipientId = prenup.createdBy === submittedBy ? prenup.partnerId : prenup.createdBy;
+    if (!recipientId) return;
+
+    const [recipient, submitter] = await Promise.all([
+      userService.getUserById(recipientId),
+      userService.getUserById(submittedBy)
+    ]);
+    if (!recipient || !submitter) return;
+
+    await this.deliver(EmailTemplate.DISCLOSURE_SUBMITTED, recipient.email, {
+      recipientName: recipient.firstName,
+      submitterName: fullName(submitter),
+      prenupTitle: prenup.title,
+      link: prenupLink(prenup.id)
+    });
+  }
+
+  // Tells both parties about status changes that need their attention
+  async statusChanged(prenup: Prenup): Promise<void> {
+    const template = STATUS_TEMPLATES[prenup.status];
+    if (!template) return;
+
+    const parties = await Promise.all(
+      [prenup.createdBy, prenup.partnerId]
+        .filter((userId): userId is string => !!userId)
+        .map(userId => userService.getUserById(userId))
+    );
+
+    await Promise.all(parties
+      .filter((user): user is User => !!user)
+      .map(user => this.deliver(template, user.email, {
+        recipientName: user.firstName,
+        prenupTitle: prenup.title,
+        link: prenupLink(prenup.id)
+      })));
+  }
+
+  async sendPasswordReset(user: User, token: string, validFor: string): Promise<void> {
+    await this.deliver(EmailTemplate.PASSWORD_RESET, user.email, {
+      recipientName: user.firstName,
+      validFor,
+      link: `${config.frontend.url}/reset-password?token=${token}`
+    });
+  }
+
+  async sendEmailVerification(user: User, token: string, validFor: string): Promise<void> {
+    await this.deliver(EmailTemplate.EMAIL_VERIFICATION, user.email, {
+      recipientName: user.firstName,
+      email: user.email,
+      validFor,
+      link: `${config.frontend.url}/verify-email?token=${token}`
+    });
+  }
+
+  async sendAccountUnlock(user: User, token: string, validFor: string, lockedFor: string): Promise<void> {
+    await this.deliver(EmailTemplate.ACCOUNT_UNLOCK, user.email, {
+      recipientName: user.firstName,
+      validFor,
+      lockedFor,
+      link: `${config.frontend.url}/unlock-account?token=${token}`
+    });
+  }
+
+  async sendCounselInvitation(
+    participant: PrenupParticipant,
+    token: string,
+    prenup: Prenup,
+    client: User
+  ): Promise<void> {
+    await this.deliver(EmailTemplate.COUNSEL_INVITATION, participant.email, {
+      clientName: fullName(client),
+      prenupTitle: prenup.title,
+      email: participant.email,
+      expiresOn: new Date(participant.expiresAt!).toDateString(),
+      link: `${config.frontend.url}/counsel-invite/${token}`
+    });
+  }
+
+  // Tells a party that their counsel joined or approved the agreement
+  async counselAccepted(prenup: Prenup, participant: PrenupParticipant): Promise<void> {
+    await this.notifyClient(EmailTemplate.COUNSEL_ACCEPTED, prenup, participant);
+  }
+
+  async counselApproved(prenup: Prenup, participant: PrenupParticipant): Promise<void> {
+    await this.notifyClient(EmailTemplate.COUNSEL_APPROVED, prenup, participant);
+  }
+
+  // The capture transport, when mail is being captured rather than sent
+  getCaptureTransport(): CaptureTransport | null {
+    return this.transport instanceof CaptureTransport ? this.transport : null;
+  }
+
+  private async notifyClient(template: EmailTemplate, prenup: Prenup, participant: PrenupParticipant): Promise<void> {
+    const client = await userService.getUserById(participant.representing!);
+    if (!client) return;
+
+    await this.deliver(template, client.email, {
+      recipientName: client.firstName,
+      counselName: participant.userName || participant.email,
+      prenupTitle: prenup.title,
+      link: prenupLink(prenup.id)
+    });
+  }
+
+  private async deliver(template: EmailTemplate, to: string, data: Record<string, string>): Promise<void> {
+    try {
+      await this.transport.send({ ...renderEmail(template, to, data), template });
+      logger.info(`Sent ${template} email to ${to}`);
+    } catch (error) {
+      logger.error(`Failed to send ${template} email to ${to}:`, error);
+    }
+  }
+}
+
+export const notificationService = new NotificationService();
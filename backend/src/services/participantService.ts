@@ -0,0 +1,253 @@
+import { dataStore } from './dataStore';
+import { EntityType, IndexName, currentRevision } from './dynamodb';
+import {
+  ParticipantRole,
+  ParticipantStatus,
+  Prenup,
+  PrenupParticipant,
+  User,
+  createPrenupParticipantEntity
+} from '../types/entities';
+import { userService } from './userService';
+import { logger } from '../utils/logger';
+
+// Things a participant can do with a prenup
+export enum PrenupAction {
+  READ_CONTENT = 'read-content',
+  EDIT_CONTENT = 'edit-content',
+  READ_DISCLOSURE = 'read-disclosure-of',
+  READ_FINANCIAL_SUMMARY = 'read-financial-summary',
+  SIGN = 'sign',
+  MANAGE_DOCUMENTS = 'manage-documents',
+  MANAGE_PARTICIPANTS = 'manage-participants',
+  COMMENT = 'comment',
+  APPROVE = 'approve',
+  RECORD_NOTARIZATION = 'record-notarization',
+  EXPORT_AUDIT = 'export-audit'
+}
+
+const PARTIES = [ParticipantRole.PARTY_A, ParticipantRole.PARTY_B];
+const EVERYONE = Object.values(ParticipantRole);
+
+// Roles that may take each action
+const PERMISSIONS: Record<PrenupAction, ParticipantRole[]> = {
+  [PrenupAction.READ_CONTENT]: EVERYONE,
+  [PrenupAction.EDIT_CONTENT]: PARTIES,
+  [PrenupAction.READ_DISCLOSURE]: [...PARTIES, ParticipantRole.COUNSEL],
+  [PrenupAction.READ_FINANCIAL_SUMMARY]: PARTIES,
+  [PrenupAction.SIGN]: PARTIES,
+  [PrenupAction.MANAGE_DOCUMENTS]: PARTIES,
+  [PrenupAction.MANAGE_PARTICIPANTS]: PARTIES,
+  [PrenupAction.COMMENT]: [...PARTIES, ParticipantRole.COUNSEL],
+  [PrenupAction.APPROVE]: [ParticipantRole.COUNSEL],
+  [PrenupAction.RECORD_NOTARIZATION]: [ParticipantRole.COUNSEL],
+  [PrenupAction.EXPORT_AUDIT]: [...PARTIES, ParticipantRole.COUNSEL]
+};
+
+// Whose financial disclosure a role may read: the participant's own, the
+// other party's, or the client's for counsel
+type DisclosureScope = 'own' | 'other-party' | 'client';
+
+const DISCLOSURE_SCOPES: Partial<Record<ParticipantRole, DisclosureScope[]>> = {
+  [ParticipantRole.PARTY_A]: ['own', 'other-party'],
+  [ParticipantRole.PARTY_B]: ['own'],
+  [ParticipantRole.COUNSEL]: ['client']
+};
+
+const ACTION_DESCRIPTIONS: Record<PrenupAction, string> = {
+  [PrenupAction.READ_CONTENT]: 'view this prenup',
+  [PrenupAction.EDIT_CONTENT]: 'edit this prenup',
+  [PrenupAction.READ_DISCLOSURE]: 'view this financial disclosure',
+  [PrenupAction.READ_FINANCIAL_SUMMARY]: 'view the financial summary',
+  [PrenupAction.SIGN]: 'sign this prenup',
+  [PrenupAction.MANAGE_DOCUMENTS]: 'manage documents of this prenup',
+  [PrenupAction.MANAGE_PARTICIPANTS]: 'manage participants of this prenup',
+  [PrenupAction.COMMENT]: 'comment on this prenup',
+  [PrenupAction.APPROVE]: 'approve this prenup',
+  [PrenupAction.RECORD_NOTARIZATION]: 'record the notarization of this prenup',
+  [PrenupAction.EXPORT_AUDIT]: 'export the audit trail of this prenup'
+};
+
+// Roles that parties add directly, as opposed to parties and counsel who
+// join through invitations
+export const ADDABLE_ROLES = [ParticipantRole.NOTARY, ParticipantRole.WITNESS, ParticipantRole.VIEWER];
+
+// Thrown when a user may not take an action on a prenup. `visible` tells
+// whether the user takes part in the prenup at all; when they don't, the
+// prenup is reported as not found rather than revealed.
+export class PrenupAccessDeniedError extends Error {
+  constructor(
+    public readonly action: PrenupAction,
+    public readonly visible: boolean
+  ) {
+    super(visible ? `You do not have permission to ${ACTION_DESCRIPTIONS[action]}` : 'Prenup not found');
+    this.name = 'PrenupAccessDeniedError';
+  }
+}
+
+// A user's standing in a prenup: the roles they actively hold in it
+export class PrenupAccess {
+  constructor(
+    public readonly prenup: Prenup,
+    public readonly userId: string,
+    public readonly participations: PrenupParticipant[]
+  ) {}
+
+  get roles(): ParticipantRole[] {
+    return this.participations.map(participant => participant.role);
+  }
+
+  get isParticipant(): boolean {
+    return this.participations.length > 0;
+  }
+
+  // The user's participation in the given role, if they hold it
+  as(role: ParticipantRole): PrenupParticipant | undefined {
+    return this.participations.find(participant => participant.role === role);
+  }
+
+  // For READ_DISCLOSURE, `subjectId` is the owner of the disclosure
+  can(action: PrenupAction, subjectId?: string): boolean {
+    return this.participations.some(participant => {
+      if (!PERMISSIONS[action].includes(participant.role)) return false;
+      if (action !== PrenupAction.READ_DISCLOSURE || !subjectId) return true;
+
+      return (DISCLOSURE_SCOPES[participant.role] || []).some(scope => {
+        switch (scope) {
+          case 'own':
+            return subjectId === this.userId;
+          case 'other-party':
+            return subjectId !== this.userId &&
+              (subjectId === this.prenup.createdBy || subjectId === this.prenup.partnerId);
+          case 'client':
+            return subjectId === participant.representing;
+        }
+      });
+    });
+  }
+}
+
+// Who takes part in each prenup, and the permission checks built on that
+export class ParticipantService {
+
+  // Record of a party, written together with the prenup change that makes
+  // them one
+  partyEntity(prenupId: string, user: User, role: ParticipantRole, addedBy: string) {
+    return createPrenupParticipantEntity({
+      prenupId,
+      role,
+      email: user.email,
+      userId: user.id,
+      userName: `${user.firstName} ${user.lastName}`,
+      invitedBy: addedBy,
+      status: ParticipantStatus.ACTIVE,
+      acceptedAt: new Date().toISOString()
+    });
+  }
+
+  // Every participation on the prenup, oldest first
+  async listParticipants(prenupId: string): Promise<PrenupParticipant[]> {
+    const participants = await dataStore.queryByPrenupId<PrenupParticipant>(EntityType.PRENUP_PARTICIPANT, prenupId);
+    return participants.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  // Active participations of a user across all prenups
+  async listForUser(userId: string): Promise<PrenupParticipant[]> {
+    const participants = await dataStore.queryByIndex<PrenupParticipant>(
+      IndexName.USER,
+      userId,
+      EntityType.PRENUP_PARTICIPANT
+    );
+    return participants.filter(participant => participant.status === ParticipantStatus.ACTIVE);
+  }
+
+  async getAccess(prenupId: string, userId: string): Promise<PrenupAccess | null> {
+    const prenup = await dataStore.getById<Prenup>(EntityType.PRENUP, prenupId);
+    if (!prenup) {
+      return null;
+    }
+
+    const participations = (await this.listParticipants(prenupId)).filter(participant =>
+      participant.userId === userId && participant.status === ParticipantStatus.ACTIVE
+    );
+    return new PrenupAccess(prenup, userId, participations);
+  }
+
+  // Resolves to the user's access when they may take the action, otherwise
+  // throws PrenupAccessDeniedError
+  async authorize(prenupId: string, userId: string, action: PrenupAction, subjectId?: string): Promise<PrenupAccess> {
+    const access = await this.getAccess(prenupId, userId);
+    if (!access || !access.can(action, subjectId)) {
+      throw new PrenupAccessDeniedError(action, !!access?.isParticipant);
+    }
+    return access;
+  }
+
+  async can(prenupId: string, userId: string, action: PrenupAction, subjectId?: string): Promise<boolean> {
+    const access = await this.getAccess(prenupId, userId);
+    return !!access && access.can(action, subjectId);
+  }
+
+  // Adds a notary, witness or viewer by the email of their account
+  async addParticipant(prenupId: string, addedBy: string, email: string, role: ParticipantRole): Promise<PrenupParticipant> {
+    if (!ADDABLE_ROLES.includes(role)) {
+      throw new Error(`${role} participants cannot be added directly`);
+    }
+
+    await this.authorize(prenupId, addedBy, PrenupAction.MANAGE_PARTICIPANTS);
+
+    const user = await userService.getUserByEmail(email);
+    if (!user) {
+      throw new Error('No account found with this email');
+    }
+
+    const existing = (await this.listParticipants(prenupId)).filter(participant =>
+      participant.userId === user.id && participant.status === ParticipantStatus.ACTIVE
+    );
+    if (existing.length > 0) {
+      throw new Error('User already takes part in this prenup');
+    }
+
+    const participant = await dataStore.create<PrenupParticipant>(createPrenupParticipantEntity({
+      prenupId,
+      role,
+      email: user.email,
+      userId: user.id,
+      userName: `${user.firstName} ${user.lastName}`,
+      invitedBy: addedBy,
+      status: ParticipantStatus.ACTIVE,
+      acceptedAt: new Date().toISOString()
+    }));
+
+    logger.info(`Added ${role} ${user.id} to prenup ${prenupId}`);
+    return participant;
+  }
+
+  // Removes a notary, witness or viewer. Parties leave and counsel are
+  // dismissed through their own flows.
+  async removeParticipant(prenupId: string, participantId: string, removedBy: string): Promise<PrenupParticipant> {
+    await this.authorize(prenupId, removedBy, PrenupAction.MANAGE_PARTICIPANTS);
+
+    const participant = await dataStore.getById<PrenupParticipant>(EntityType.PRENUP_PARTICIPANT, participantId);
+    if (!participant || participant.prenupId !== prenupId || !ADDABLE_ROLES.includes(participant.role)) {
+      throw new Error('Participant not found');
+    }
+
+    if (participant.status === ParticipantStatus.REMOVED) {
+      throw new Error('Participant has already been removed');
+    }
+
+    const removed = await dataStore.update<PrenupParticipant>(
+      EntityType.PRENUP_PARTICIPANT,
+      participant.id,
+      { status: ParticipantStatus.REMOVED, removedAt: new Date().toISOString() },
+      false,
+      currentRevision(participant)
+    );
+
+    logger.info(`Removed ${participant.role} ${participant.userId} from prenup ${prenupId}`);
+    return removed;
+  }
+}
+
+export const participantService = new ParticipantService();
@@ -0,0 +1,297 @@
+import { WriteOperation } from './dataStore';
+import { EntityType, currentRevision } from './dynamodb';
+import {
+  AuditAction,
+  Document,
+  DocumentType,
+  Notarization,
+  NotarizationSource,
+  Prenup,
+  PrenupStatus,
+  SignatureStatus
+} from '../types/entities';
+import { stateComplianceService } from './stateCompliance';
+import { isVerifiedNotarization } from './complianceRules';
+import { prenupService } from './prenupService';
+import { financialService } from './financialService';
+import { documentService } from './documentService';
+import { signatureService } from './signatureService';
+import { presentationService } from './presentationService';
+import { userService } from './userService';
+import { notificationService } from './notificationService';
+import { auditService, AuditActor, revisionAfter } from './auditService';
+import { logger } from '../utils/logger';
+
+export enum Precondition {
+  PARTNER_JOINED = 'PARTNER_JOINED',
+  DISCLOSURES_SUBMITTED = 'DISCLOSURES_SUBMITTED',
+  WAITING_PERIOD_ELAPSED = 'WAITING_PERIOD_ELAPSED',
+  MFA_ENABLED = 'MFA_ENABLED',
+  SIGNATURES_COLLECTED = 'SIGNATURES_COLLECTED',
+  NOTARIZED = 'NOTARIZED'
+}
+
+export interface UnmetPrecondition {
+  precondition: Precondition;
+  message: string;
+}
+
+export interface AvailableTransition {
+  to: PrenupStatus;
+  allowed: boolean;
+  unmet: UnmetPrecondition[];
+}
+
+export type NotarizationDetails = Pick<Notarization, 'notaryName' | 'commissionNumber' | 'notarizedAt'>;
+
+// Details supplied with a transition, e.g. the notarization on execution.
+// A party's own notarization details are kept as self-attested unless the
+// notarized copy is on file.
+export interface TransitionInput {
+  notarization?: NotarizationDetails;
+}
+
+// Who besides the notarized copy can vouch for a notarization
+export type NotarizationRecorder = NotarizationSource.COUNSEL | NotarizationSource.ADMIN;
+
+// Thrown when a transition is not defined for the current status, or its
+// preconditions are not met
+export class TransitionNotAllowedError extends Error {
+  constructor(
+    public readonly from: PrenupStatus,
+    public readonly to: PrenupStatus,
+    public readonly unmet: UnmetPrecondition[] = []
+  ) {
+    super(unmet.length > 0
+      ? `Cannot move prenup from ${from} to ${to}: preconditions not met`
+      : `Cannot move prenup from ${from} to ${to}`);
+    this.name = 'TransitionNotAllowedError';
+  }
+}
+
+// Allowed transitions and the preconditions each one requires. Moving back
+// (e.g. reopening a draft under review) needs no preconditions.
+const TRANSITIONS: Record<PrenupStatus, Partial<Record<PrenupStatus, Precondition[]>>> = {
+  [PrenupStatus.DRAFT]: {
+    [PrenupStatus.IN_PROGRESS]: [Precondition.PARTNER_JOINED],
+    [PrenupStatus.CANCELLED]: []
+  },
+  [PrenupStatus.IN_PROGRESS]: {
+    [PrenupStatus.READY_FOR_REVIEW]: [Precondition.PARTNER_JOINED, Precondition.DISCLOSURES_SUBMITTED],
+    [PrenupStatus.CANCELLED]: []
+  },
+  [PrenupStatus.READY_FOR_REVIEW]: {
+    [PrenupStatus.IN_PROGRESS]: [],
+    [PrenupStatus.PENDING_SIGNATURES]: [
+      Precondition.PARTNER_JOINED,
+      Precondition.DISCLOSURES_SUBMITTED,
+      Precondition.WAITING_PERIOD_ELAPSED,
+      Precondition.MFA_ENABLED
+    ],
+    [PrenupStatus.CANCELLED]: []
+  },
+  [PrenupStatus.PENDING_SIGNATURES]: {
+    [PrenupStatus.READY_FOR_REVIEW]: [],
+    [PrenupStatus.EXECUTED]: [Precondition.SIGNATURES_COLLECTED, Precondition.NOTARIZED],
+    [PrenupStatus.CANCELLED]: []
+  },
+  [PrenupStatus.EXECUTED]: {},
+  [PrenupStatus.CANCELLED]: {}
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class PrenupLifecycle {
+
+  // Every transition out of the prenup's current status, with its unmet preconditions
+  async getAvailableTransitions(prenup: Prenup): Promise<AvailableTransition[]> {
+    const targets = Object.entries(TRANSITIONS[prenup.status] || {}) as [PrenupStatus, Precondition[]][];
+
+    return await Promise.all(targets.map(async ([to, preconditions]) => {
+      const unmet = await this.checkPreconditions(prenup, preconditions);
+      return { to, allowed: unmet.length === 0, unmet };
+    }));
+  }
+
+  async transition(prenupId: string, to: PrenupStatus, actor: AuditActor, input: TransitionInput = {}): Promise<Prenup> {
+    const { userId } = actor;
+    const prenup = await prenupService.getPrenupById(prenupId);
+    if (!prenup) {
+      throw new Error('Prenup not found');
+    }
+
+    const preconditions = TRANSITIONS[prenup.status]?.[to];
+    if (!preconditions) {
+      throw new TransitionNotAllowedError(prenup.status, to);
+    }
+
+    const unmet = await this.checkPreconditions(prenup, preconditions);
+    if (unmet.length > 0) {
+      throw new TransitionNotAllowedError(prenup.status, to, unmet);
+    }
+
+    const now = new Date().toISOString();
+    const updates: Partial<Prenup> = {
+      status: to,
+      statusHistory: [...(prenup.statusHistory || []), { status: to, changedAt: now, changedBy: userId }]
+    };
+    if (to === PrenupStatus.EXECUTED && input.notarization && !isVerifiedNotarization(prenup.notarization)) {
+      const copy = await this.findNotarizedCopy(prenupId);
+      updates.notarization = {
+        ...input.notarization,
+        recordedBy: userId,
+        ...(copy
+          ? { source: NotarizationSource.DOCUMENT, documentId: copy.id }
+          : { source: NotarizationSource.SELF_ATTESTED })
+      };
+    }
+
+    // Signatures only stand for the agreement as it was when they were
+    // collected, so leaving signing for anything but execution voids them
+    const voidedSignatures: WriteOperation[] = [];
+    if (prenup.status === PrenupStatus.PENDING_SIGNATURES && to !== PrenupStatus.EXECUTED) {
+      const signatures = await signatureService.getSignaturesByPrenup(prenupId);
+      signatures
+        .filter(signature => signature.status === SignatureStatus.SIGNED)
+        .forEach(signature => voidedSignatures.push({
+          kind: 'update',
+          entityType: EntityType.SIGNATURE,
+          id: signature.id,
+          updates: { status: SignatureStatus.EXPIRED },
+          createNewVersion: false
+        }));
+    }
+
+    // Pinned to the revision the preconditions were checked against
+    const update: WriteOperation = {
+      kind: 'update',
+      entityType: EntityType.PRENUP,
+      id: prenupId,
+      updates: { ...updates, updatedBy: userId },
+      createNewVersion: true,
+      expectedRevision: currentRevision(prenup)
+    };
+    const written = await auditService.recordChange(prenupId, actor, {
+      action: AuditAction.PRENUP_STATUS_CHANGED,
+      targetType: EntityType.PRENUP,
+      targetId: prenupId,
+      targetRevision: revisionAfter(update),
+      details: { from: prenup.status, to }
+    }, [update, ...voidedSignatures]);
+    logger.info(`Prenup ${prenupId} moved from ${prenup.status} to ${to} by user ${userId}`);
+    await notificationService.statusChanged(written[0] as Prenup);
+
+    return written[0] as Prenup;
+  }
+
+  // Counsel or an administrator records the notarization of an agreement
+  // being signed or already executed
+  async recordNotarization(
+    prenupId: string,
+    actor: AuditActor,
+    details: NotarizationDetails,
+    source: NotarizationRecorder
+  ): Promise<Prenup> {
+    const prenup = await prenupService.getPrenupById(prenupId);
+    if (!prenup) {
+      throw new Error('Prenup not found');
+    }
+    if (prenup.status !== PrenupStatus.PENDING_SIGNATURES && prenup.status !== PrenupStatus.EXECUTED) {
+      throw new Error('A notarization can only be recorded once the prenup is out for signature');
+    }
+
+    const update: WriteOperation = {
+      kind: 'update',
+      entityType: EntityType.PRENUP,
+      id: prenupId,
+      updates: { notarization: { ...details, recordedBy: actor.userId, source }, updatedBy: actor.userId },
+      createNewVersion: true,
+      expectedRevision: currentRevision(prenup)
+    };
+    const [written] = await auditService.recordChange(prenupId, actor, {
+      action: AuditAction.NOTARIZATION_RECORDED,
+      targetType: EntityType.PRENUP,
+      targetId: prenupId,
+      targetRevision: revisionAfter(update),
+      details: { source, notaryName: details.notaryName, notarizedAt: details.notarizedAt }
+    }, [update]);
+    logger.info(`Notarization of prenup ${prenupId} recorded by ${source.toLowerCase()} ${actor.userId}`);
+
+    return written as Prenup;
+  }
+
+  // The most recently uploaded notarized copy of the agreement, if any
+  private async findNotarizedCopy(prenupId: string): Promise<Document | undefined> {
+    const copies = await documentService.getDocumentsByType(prenupId, DocumentType.NOTARIZED_AGREEMENT);
+    return copies.sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+  }
+
+  private async checkPreconditions(prenup: Prenup, preconditions: Precondition[]): Promise<UnmetPrecondition[]> {
+    const results = await Promise.all(
+      preconditions.map(precondition => this.checkPrecondition(prenup, precondition))
+    );
+    return results.filter((result): result is UnmetPrecondition => result !== null);
+  }
+
+  private async checkPrecondition(prenup: Prenup, precondition: Precondition): Promise<UnmetPrecondition | null> {
+    const unmet = (message: string) => ({ precondition, message });
+
+    switch (precondition) {
+      case Precondition.PARTNER_JOINED:
+        return prenup.partnerId ? null : unmet('Partner has not joined the prenup');
+
+      case Precondition.DISCLOSURES_SUBMITTED: {
+        const disclosures = await financialService.getFinancialDisclosuresByPrenup(prenup.id);
+        const submitted = new Set(disclosures.map(disclosure => disclosure.userId));
+        const missing = [prenup.createdBy, prenup.partnerId].filter(userId => !userId || !submitted.has(userId));
+        return missing.length === 0
+          ? null
+          : unmet(`${missing.length === 2 ? 'Neither party has' : 'One party has not'} submitted a financial disclosure`);
+      }
+
+      // Each party's period runs from when they received the current text
+      case Precondition.WAITING_PERIOD_ELAPSED: {
+        const { waitingPeriodDays, clocks } = await presentationService.getStatus(prenup);
+        const waiting = clocks.filter(clock => !clock.elapsed);
+        if (waiting.length === 0) return null;
+
+        const notReceived = waiting.filter(clock => !clock.availableAt).length;
+        if (notReceived > 0) {
+          return unmet(`${notReceived === 2 ? 'Neither party has' : 'One party has not'} received the final agreement`);
+        }
+
+        const lastAvailable = Math.max(...waiting.map(clock => new Date(clock.availableAt!).getTime()));
+        const remaining = Math.ceil((lastAvailable - Date.now()) / DAY_MS);
+        return unmet(`${remaining} day${remaining === 1 ? '' : 's'} remaining in the ${waitingPeriodDays}-day waiting period`);
+      }
+
+      // Signing is only offered to accounts protected by a second factor
+      case Precondition.MFA_ENABLED: {
+        const parties = await Promise.all(
+          [prenup.createdBy, prenup.partnerId].map(userId => userId ? userService.getUserById(userId) : null)
+        );
+        const missing = parties.filter(user => !user?.mfaEnabled).length;
+        return missing === 0
+          ? null
+          : unmet(`${missing === 2 ? 'Neither party has' : 'One party has not'} enabled two-factor authentication`);
+      }
+
+      case Precondition.SIGNATURES_COLLECTED: {
+        const signed = await signatureService.getSignedUserIds(prenup);
+        const missing = [prenup.createdBy, prenup.partnerId].filter(userId => !userId || !signed.has(userId));
+        return missing.length === 0
+          ? null
+          : unmet(`${missing.length} signature${missing.length === 1 ? '' : 's'} still required`);
+      }
+
+      case Precondition.NOTARIZED: {
+        const { notarizationRequired, displayName } = stateComplianceService.getPrenupLaw(prenup);
+        if (!notarizationRequired || isVerifiedNotarization(prenup.notarization)) return null;
+        if (await this.findNotarizedCopy(prenup.id)) return null;
+        return unmet(`${displayName} requires the agreement to be notarized: upload the notarized copy or have counsel record the notarization`);
+      }
+    }
+  }
+}
+
+export const prenupLifecycle = new PrenupLifecycle();
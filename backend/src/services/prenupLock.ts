@@ -0,0 +1,24 @@
+import { Prenup, PrenupStatus } from '../types/entities';
+
+// Signatures are collected on the agreement and disclosures as they stand, so
+// both are locked from then on. Moving back to review voids the signatures
+// and unlocks them.
+const LOCKED_MESSAGES: Partial<Record<PrenupStatus, string>> = {
+  [PrenupStatus.PENDING_SIGNATURES]: 'signatures are collected; move it back to review first',
+  [PrenupStatus.EXECUTED]: 'it has been executed',
+  [PrenupStatus.CANCELLED]: 'it has been cancelled'
+};
+
+// Thrown when the prenup's content or disclosures change in a locked status
+export class PrenupLockedError extends Error {
+  constructor(public readonly status: PrenupStatus) {
+    super(`Cannot modify the prenup while ${LOCKED_MESSAGES[status]}`);
+    this.name = 'PrenupLockedError';
+  }
+}
+
+export const assertEditable = (prenup: Prenup): void => {
+  if (LOCKED_MESSAGES[prenup.status]) {
+    throw new PrenupLockedError(prenup.status);
+  }
+};
@@ -1,4 +1,5 @@
-import { dynamodbService, EntityType } from './dynamodb';
+import { dataStore, WriteOperation } from './dataStore';
+import { BaseEntity, EntityType, IndexName, currentRevision } from './dynamodb';
 import { 
   Prenup, 
   PrenupStatus, 
@@ -6,11 +7,29 @@ import {
   createPrenupEntity,
   PartnerInvitation,
   InvitationStatus,
+  AuditAction,
+  ParticipantRole,
+  VersionSummary,
   createPartnerInvitationEntity
 } from '../types/entities';
-import { userService } from './userService';
+import { normalizeEmail, userService } from './userService';
+import { notificationService } from './notificationService';
+import { versionService } from './versionService';
+import { participantService } from './participantService';
+import { stateComplianceService } from './stateCompliance';
+import { auditService, AuditActor, AuditRecord, revisionAfter } from './auditService';
 import { logger } from '../utils/logger';
-import crypto from 'crypto';
+import { generateToken, hashToken } from '../utils/tokens';
+
+// Days before a partner invitation expires
+const INVITATION_TTL_DAYS = 7;
+
+// An invitation together with the plaintext token of its link. The token is
+// only available here; the stored invitation keeps its hash.
+export interface IssuedInvitation {
+  invitation: PartnerInvitation;
+  token: string;
+}
 
 export class PrenupService {
 
@@ -28,6 +47,7 @@ export class PrenupService {
     const prenupEntity = createPrenupEntity({
       title: prenupData.title,
       state: prenupData.state,
+      lawVersion: stateComplianceService.getCurrentLawVersion(prenupData.state),
       status: PrenupStatus.DRAFT,
       createdBy: prenupData.createdBy,
       progress: {
@@ -36,38 +56,81 @@ export class PrenupService {
         totalSteps: 8 // Default step count, can be state-specific
       },
       content: {},
+      statusHistory: [{
+        status: PrenupStatus.DRAFT,
+        changedAt: new Date().toISOString(),
+        changedBy: prenupData.createdBy
+      }],
       createdByEmail: creator.email // Denormalized for easier queries
     });
 
-    const prenup = await dynamodbService.create<Prenup>(prenupEntity);
+    // The creator takes part as the first party
+    const [created] = await dataStore.transactWrite([
+      { kind: 'create', entity: { ...prenupEntity, updatedBy: prenupData.createdBy } },
+      {
+        kind: 'create',
+        entity: participantService.partyEntity(prenupEntity.id, creator, ParticipantRole.PARTY_A, prenupData.createdBy)
+      }
+    ]);
+    const prenup = created as Prenup;
     logger.info(`Created prenup: ${prenup.title} by user ${prenup.createdBy}`);
     
     return prenup;
   }
 
   async getPrenupById(id: string): Promise<Prenup | null> {
-    return await dynamodbService.getById<Prenup>(EntityType.PRENUP, id);
+    return await dataStore.getById<Prenup>(EntityType.PRENUP, id);
+  }
+
+  // Audited in the same transaction as the update
+  async updatePrenup(
+    id: string,
+    updates: Partial<Omit<Prenup, keyof import('../services/dynamodb').BaseEntity>>,
+    actor: AuditActor,
+    expectedRevision: number
+  ): Promise<Prenup> {
+    const update: WriteOperation = {
+      kind: 'update',
+      entityType: EntityType.PRENUP,
+      id,
+      updates: { ...updates, updatedBy: actor.userId },
+      createNewVersion: true,
+      expectedRevision
+    };
+
+    const [prenup] = await auditService.recordChange(id, actor, {
+      action: AuditAction.PRENUP_UPDATED,
+      targetType: EntityType.PRENUP,
+      targetId: id,
+      targetRevision: revisionAfter(update),
+      details: { fields: Object.keys(updates) }
+    }, [update]);
+    return prenup as Prenup;
+  }
+
+  async getPrenupVersions(id: string): Promise<VersionSummary[]> {
+    return await versionService.getVersionHistory(EntityType.PRENUP, id);
   }
 
-  async updatePrenup(id: string, updates: Partial<Omit<Prenup, keyof import('../services/dynamodb').BaseEntity>>): Promise<Prenup> {
-    return await dynamodbService.update<Prenup>(EntityType.PRENUP, id, updates, true);
+  async getPrenupVersion(id: string, version: string): Promise<Prenup | null> {
+    return await versionService.getVersion<Prenup>(EntityType.PRENUP, id, version);
   }
 
   async deletePrenup(id: string): Promise<void> {
-    await dynamodbService.delete(EntityType.PRENUP, id);
+    await dataStore.delete(EntityType.PRENUP, id);
     logger.info(`Deleted prenup: ${id}`);
   }
 
   async getPrenupsByUser(userId: string): Promise<Prenup[]> {
     try {
-      // Get all prenups and filter by user access
-      const result = await dynamodbService.queryByEntityType<Prenup>(EntityType.PRENUP);
-      
-      const userPrenups = result.items.filter(prenup => 
-        prenup.createdBy === userId || prenup.partnerId === userId
-      );
+      // Prenups the user takes part in, in any role
+      const participations = await participantService.listForUser(userId);
+      const prenups = await Promise.all(participations.map(participant => this.getPrenupById(participant.prenupId)));
+
+      const userPrenups = new Map<string, Prenup>();
+      prenups.forEach(prenup => prenup && userPrenups.set(prenup.id, prenup));
 
-      return userPrenups.sort((a, b) => 
+      return Array.from(userPrenups.values()).sort((a, b) => 
         new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
       );
     } catch (error) {
@@ -76,7 +139,14 @@ export class PrenupService {
     }
   }
 
-  async addPartnerToPrenup(prenupId: string, partnerId: string): Promise<Prenup> {
+  async addPartnerToPrenup(prenupId: string, partnerId: string, addedBy: string = partnerId): Promise<Prenup> {
+    const [prenup] = await dataStore.transactWrite(await this.addPartnerOperations(prenupId, partnerId, addedBy));
+    return prenup as Prenup;
+  }
+
+  // Checks that the partner can join and returns the writes adding them, the
+  // prenup first, for use alongside other writes in a transaction
+  private async addPartnerOperations(prenupId: string, partnerId: string, addedBy: string): Promise<WriteOperation[]> {
     const prenup = await this.getPrenupById(prenupId);
     if (!prenup) {
       throw new Error('Prenup not found');
@@ -92,13 +162,29 @@ export class PrenupService {
       throw new Error('Partner not found');
     }
 
-    return await this.updatePrenup(prenupId, {
-      partnerId,
-      partnerEmail: partner.email
-    });
+    // Pinned to the revision checked above so two partners can't both join
+    return [
+      {
+        kind: 'update',
+        entityType: EntityType.PRENUP,
+        id: prenupId,
+        updates: { partnerId, partnerEmail: partner.email, updatedBy: addedBy },
+        createNewVersion: true,
+        expectedRevision: currentRevision(prenup)
+      },
+      { kind: 'create', entity: participantService.partyEntity(prenupId, partner, ParticipantRole.PARTY_B, addedBy) }
+    ];
   }
 
-  async invitePartner(prenupId: string, invitedBy: string, email: string): Promise<PartnerInvitation> {
+  async invitePartner(
+    prenupId: string,
+    actor: AuditActor,
+    invitedEmail: string,
+    options: { allowAnyEmail?: boolean } = {}
+  ): Promise<IssuedInvitation> {
+    const invitedBy = actor.userId;
+    const email = normalizeEmail(invitedEmail);
+
     // Check if prenup exists and user has access
     const prenup = await this.getPrenupById(prenupId);
     if (!prenup) {
@@ -113,78 +199,92 @@ export class PrenupService {
       throw new Error('Prenup already has a partner');
     }
 
-    // Check if partner is already a user
+    // Get inviter info for denormalization
+    const inviter = await userService.getUserById(invitedBy);
+    if (!inviter) {
+      throw new Error('Inviter not found');
+    }
+
+    const token = generateToken();
+    const expiresAt = this.invitationExpiry();
+
+    // A verified account is added straight away. Anyone can register an
+    // unverified address, so those get an invitation to accept like new users.
     const existingUser = await userService.getUserByEmail(email);
-    if (existingUser) {
-      // Directly add as partner
-      const updatedPrenup = await this.addPartnerToPrenup(prenupId, existingUser.id);
-      // Return a mock invitation to indicate success
-      return {
-        id: 'direct-assignment',
+    if (existingUser?.emailVerified) {
+      // Directly add as partner, recording the invitation as already accepted
+      const acceptedInvitation = createPartnerInvitationEntity({
         email,
         prenupId,
         invitedBy,
-        token: '',
+        tokenHash: hashToken(token),
         status: InvitationStatus.ACCEPTED,
-        expiresAt: new Date().toISOString(),
-        entityType: EntityType.PARTNER_INVITATION,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        version: 'V0'
-      };
-    }
-
-    // Create invitation for new user
-    const token = crypto.randomBytes(32).toString('hex');
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7); // 7 days expiry
-
-    // Get inviter info for denormalization
-    const inviter = await userService.getUserById(invitedBy);
-    if (!inviter) {
-      throw new Error('Inviter not found');
+        expiresAt: expiresAt.toISOString(),
+        invitedByEmail: inviter.email,
+        acceptedBy: existingUser.id,
+        acceptedAt: new Date().toISOString()
+      });
+
+      const [invitation] = await auditService.recordChange(prenupId, actor, this.invitedRecord(acceptedInvitation), [
+        { kind: 'create', entity: acceptedInvitation },
+        ...await this.addPartnerOperations(prenupId, existingUser.id, invitedBy)
+      ]);
+      logger.info(`Added existing user ${existingUser.id} as partner on prenup ${prenupId}`);
+      await notificationService.partnerAdded(prenup, existingUser, inviter);
+
+      return { invitation: invitation as PartnerInvitation, token };
     }
 
+    // Create invitation for new or unverified user
     const invitationEntity = createPartnerInvitationEntity({
       email,
       prenupId,
       invitedBy,
-      token,
+      tokenHash: hashToken(token),
       status: InvitationStatus.PENDING,
       expiresAt: expiresAt.toISOString(),
+      ...(options.allowAnyEmail && { allowAnyEmail: true }),
       invitedByEmail: inviter.email
     });
 
-    const invitation = await dynamodbService.create<PartnerInvitation>(invitationEntity);
+    const [created] = await auditService.recordChange(prenupId, actor, this.invitedRecord(invitationEntity), [
+      { kind: 'create', entity: invitationEntity }
+    ]);
+    const invitation = created as PartnerInvitation;
     logger.info(`Created partner invitation for ${email} on prenup ${prenupId}`);
+    await notificationService.sendInvitation(invitation, token, prenup);
     
-    return invitation;
+    return { invitation, token };
   }
 
+  // Store errors, e.g. a TokenIndex that is missing or still being built,
+  // are thrown rather than reported as an invalid link
   async getPartnerInvitation(token: string): Promise<PartnerInvitation | null> {
-    try {
-      // Scan for invitation by token - in production you'd use a GSI
-      const result = await dynamodbService.queryByEntityType<PartnerInvitation>(EntityType.PARTNER_INVITATION);
-      const invitation = result.items.find(inv => inv.token === token);
-      
-      if (!invitation) {
-        return null;
-      }
+    const [invitation] = await dataStore.queryByIndex<PartnerInvitation>(
+      IndexName.TOKEN,
+      hashToken(token),
+      EntityType.PARTNER_INVITATION
+    );
+    
+    if (!invitation) {
+      return null;
+    }
 
-      // Check if invitation is expired
-      if (new Date(invitation.expiresAt) < new Date()) {
+    // Check if invitation is expired
+    if (new Date(invitation.expiresAt) < new Date()) {
+      if (invitation.status === InvitationStatus.PENDING) {
         await this.updatePartnerInvitation(invitation.id, { status: InvitationStatus.EXPIRED });
-        return null;
       }
-
-      return invitation;
-    } catch (error) {
-      logger.error(`Error finding invitation by token:`, error);
       return null;
     }
+
+    return invitation;
   }
 
-  async acceptPartnerInvitation(token: string, acceptingUserId: string): Promise<Prenup> {
+  // The actor is the accepting user; their address and browser are kept with
+  // the invitation as well as in the audit trail
+  async acceptPartnerInvitation(token: string, actor: AuditActor): Promise<Prenup> {
+    const acceptingUserId = actor.userId;
     const invitation = await this.getPartnerInvitation(token);
     if (!invitation) {
       throw new Error('Invalid or expired invitation');
@@ -194,29 +294,161 @@ export class PrenupService {
       throw new Error('Invitation has already been processed');
     }
 
-    // Add partner to prenup
-    const updatedPrenup = await this.addPartnerToPrenup(invitation.prenupId, acceptingUserId);
+    if (invitation.invitedBy === acceptingUserId) {
+      throw new Error('Cannot accept your own invitation');
+    }
 
-    // Update invitation status
-    await this.updatePartnerInvitation(invitation.id, {
-      status: InvitationStatus.ACCEPTED
-    });
+    // Only the invited address may accept unless the creator allowed any
+    const acceptingUser = await userService.getUserById(acceptingUserId);
+    if (!acceptingUser) {
+      throw new Error('User not found');
+    }
+    if (!invitation.allowAnyEmail && acceptingUser.email.toLowerCase() !== invitation.email.toLowerCase()) {
+      throw new Error('Invitation was sent to a different email address');
+    }
+
+    // Add partner to prenup and mark the invitation accepted together. The
+    // invitation is pinned to its revision so it can only be accepted once.
+    const addPartner = await this.addPartnerOperations(invitation.prenupId, acceptingUserId, acceptingUserId);
+    const [updatedPrenup] = await auditService.recordChange(invitation.prenupId, actor, {
+      action: AuditAction.INVITATION_ACCEPTED,
+      targetType: EntityType.PRENUP,
+      targetId: invitation.prenupId,
+      targetRevision: revisionAfter(addPartner[0])
+    }, [
+      ...addPartner,
+      {
+        kind: 'update',
+        entityType: EntityType.PARTNER_INVITATION,
+        id: invitation.id,
+        updates: {
+          status: InvitationStatus.ACCEPTED,
+          acceptedBy: acceptingUserId,
+          acceptedAt: new Date().toISOString(),
+          acceptedFromIp: actor.ipAddress,
+          acceptedUserAgent: actor.userAgent
+        },
+        createNewVersion: false,
+        expectedRevision: currentRevision(invitation)
+      }
+    ]);
 
     logger.info(`Partner invitation accepted: ${invitation.id}`);
-    return updatedPrenup;
+    await notificationService.invitationAccepted(updatedPrenup as Prenup, acceptingUserId);
+
+    return updatedPrenup as Prenup;
   }
 
-  private async updatePartnerInvitation(id: string, updates: Partial<PartnerInvitation>): Promise<PartnerInvitation> {
-    return await dynamodbService.update<PartnerInvitation>(EntityType.PARTNER_INVITATION, id, updates, false);
+  async getInvitationsByPrenup(prenupId: string): Promise<PartnerInvitation[]> {
+    const invitations = await dataStore.queryByPrenupId<PartnerInvitation>(EntityType.PARTNER_INVITATION, prenupId);
+    return invitations.sort((a, b) => 
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+  }
+
+  // Issues a new token and expiry; the previous link stops working
+  async resendPartnerInvitation(prenupId: string, invitationId: string, actor: AuditActor): Promise<IssuedInvitation> {
+    const { prenup, invitation } = await this.getManagedInvitation(prenupId, invitationId, actor.userId);
+
+    if (prenup.partnerId) {
+      throw new Error('Prenup already has a partner');
+    }
+
+    if (invitation.status !== InvitationStatus.PENDING && invitation.status !== InvitationStatus.EXPIRED) {
+      throw new Error('Invitation has already been processed');
+    }
+
+    const token = generateToken();
+    const [written] = await this.updateManagedInvitation(prenupId, invitation, actor, AuditAction.INVITATION_RESENT, {
+      tokenHash: hashToken(token),
+      status: InvitationStatus.PENDING,
+      expiresAt: this.invitationExpiry().toISOString()
+    });
+    const updated = written as PartnerInvitation;
+
+    logger.info(`Partner invitation resent: ${invitation.id}`);
+    await notificationService.sendInvitation(updated, token, prenup);
+
+    return { invitation: updated, token };
   }
 
-  async userHasAccessToPrenup(prenupId: string, userId: string): Promise<boolean> {
+  async revokePartnerInvitation(prenupId: string, invitationId: string, actor: AuditActor): Promise<PartnerInvitation> {
+    const { invitation } = await this.getManagedInvitation(prenupId, invitationId, actor.userId);
+
+    if (invitation.status !== InvitationStatus.PENDING && invitation.status !== InvitationStatus.EXPIRED) {
+      throw new Error('Invitation has already been processed');
+    }
+
+    const [updated] = await this.updateManagedInvitation(prenupId, invitation, actor, AuditAction.INVITATION_REVOKED, {
+      status: InvitationStatus.CANCELLED
+    });
+
+    logger.info(`Partner invitation revoked: ${invitation.id}`);
+    return updated as PartnerInvitation;
+  }
+
+  // Pinned to the invitation's revision and audited in the same transaction
+  private updateManagedInvitation(
+    prenupId: string,
+    invitation: PartnerInvitation,
+    actor: AuditActor,
+    action: AuditAction,
+    updates: Partial<PartnerInvitation>
+  ): Promise<BaseEntity[]> {
+    const update: WriteOperation = {
+      kind: 'update',
+      entityType: EntityType.PARTNER_INVITATION,
+      id: invitation.id,
+      updates,
+      createNewVersion: false,
+      expectedRevision: currentRevision(invitation)
+    };
+
+    return auditService.recordChange(prenupId, actor, {
+      action,
+      targetType: EntityType.PARTNER_INVITATION,
+      targetId: invitation.id,
+      targetRevision: revisionAfter(update)
+    }, [update]);
+  }
+
+  private invitedRecord(invitation: ReturnType<typeof createPartnerInvitationEntity>): AuditRecord {
+    return {
+      action: AuditAction.PARTNER_INVITED,
+      targetType: EntityType.PARTNER_INVITATION,
+      targetId: invitation.id,
+      targetRevision: revisionAfter({ kind: 'create', entity: invitation }),
+      details: { email: invitation.email, status: invitation.status }
+    };
+  }
+
+  // Invitation of a prenup that the user created and may therefore manage
+  private async getManagedInvitation(prenupId: string, invitationId: string, userId: string) {
     const prenup = await this.getPrenupById(prenupId);
     if (!prenup) {
-      return false;
+      throw new Error('Prenup not found');
+    }
+
+    if (prenup.createdBy !== userId) {
+      throw new Error('Only prenup creator can manage invitations');
     }
 
-    return prenup.createdBy === userId || prenup.partnerId === userId;
+    const invitation = await dataStore.getById<PartnerInvitation>(EntityType.PARTNER_INVITATION, invitationId);
+    if (!invitation || invitation.prenupId !== prenupId) {
+      throw new Error('Invitation not found');
+    }
+
+    return { prenup, invitation };
+  }
+
+  private invitationExpiry(): Date {
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + INVITATION_TTL_DAYS);
+    return expiresAt;
+  }
+
+  private async updatePartnerInvitation(id: string, updates: Partial<PartnerInvitation>): Promise<PartnerInvitation> {
+    return await dataStore.update<PartnerInvitation>(EntityType.PARTNER_INVITATION, id, updates, false);
   }
 
   // Get prenup with creator and partner info populated
@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import { dataStore } from './dataStore';
+import { EntityType, currentRevision } from './dynamodb';
+import { stateComplianceService } from './stateCompliance';
+import { FinancialDisclosure, Presentation, Prenup, PrenupStatus, createPresentationEntity } from '../types/entities';
+import { canonicalJson } from '../utils/canonicalJson';
+import { logger } from '../utils/logger';
+
+// Shown with the final text and stored with each presentation
+export const COUNSEL_ADVISEMENT =
+  'You are advised to seek independent legal counsel before signing this agreement. ' +
+  'Take the time you need to read the final text and to consult a lawyer of your choosing.';
+
+// The agreement is only presented once it is up for review or signing
+const PRESENTABLE_STATUSES = [PrenupStatus.READY_FOR_REVIEW, PrenupStatus.PENDING_SIGNATURES];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SHA-256 of what each party is presented: the agreement text and both
+// financial disclosures. Changing either restarts the waiting periods and
+// makes earlier signatures stale. The same terms and disclosures hash the
+// same whatever order they were saved in.
+export const hashAgreement = (prenup: Prenup, disclosures: FinancialDisclosure[]): string =>
+  crypto.createHash('sha256').update(canonicalJson({
+    content: prenup.content || {},
+    disclosures: disclosures
+      .filter(disclosure => disclosure.prenupId === prenup.id)
+      .map(({ userId, assets, debts, income }) => ({ userId, assets, debts, income }))
+      .sort((a, b) => a.userId.localeCompare(b.userId))
+  })).digest('hex');
+
+// Where a party's waiting period stands for the current text
+export interface WaitingClock {
+  userId?: string; // Unset while the partner has not joined
+  presentedAt?: string;
+  availableAt?: string; // When the party may sign
+  elapsed: boolean;
+}
+
+export interface PresentationStatus {
+  contentHash: string;
+  waitingPeriodDays: number;
+  advisement: string;
+  // Party A first, then Party B
+  clocks: WaitingClock[];
+}
+
+// Thrown when a party acknowledges a text that has since been edited
+export class ContentChangedError extends Error {
+  constructor(public readonly contentHash: string) {
+    super('The agreement changed since it was opened');
+    this.name = 'ContentChangedError';
+  }
+}
+
+export class WaitingPeriodNotElapsedError extends Error {
+  constructor(public readonly clock: WaitingClock, waitingPeriodDays: number) {
+    super(clock.availableAt
+      ? `The ${waitingPeriodDays}-day waiting period ends at ${clock.availableAt}`
+      : 'Acknowledge receipt of the final agreement first; the waiting period runs from then');
+    this.name = 'WaitingPeriodNotElapsedError';
+  }
+}
+
+// When each party first received each version of the agreement, and the
+// waiting clocks that run from it
+export class PresentationService {
+
+  // Hash of the agreement and disclosures as they stand
+  async getContentHash(prenup: Prenup): Promise<string> {
+    const disclosures = await dataStore.queryByPrenupId<FinancialDisclosure>(EntityType.FINANCIAL_DISCLOSURE, prenup.id);
+    return hashAgreement(prenup, disclosures);
+  }
+
+  // Oldest first
+  async getPresentationsByPrenup(prenupId: string): Promise<Presentation[]> {
+    const presentations = await dataStore.queryByPrenupId<Presentation>(EntityType.PRESENTATION, prenupId);
+    return presentations.sort((a, b) => a.presentedAt.localeCompare(b.presentedAt));
+  }
+
+  // Records that the party received the current text. Only the first receipt
+  // of a version counts, so acknowledging it again returns that one.
+  async recordPresentation(
+    prenup: Prenup,
+    userId: string,
+    contentHash: string
+  ): Promise<{ presentation: Presentation; created: boolean }> {
+    if (!PRESENTABLE_STATUSES.includes(prenup.status)) {
+      throw new Error('The agreement is presented once it is ready for review');
+    }
+
+    const current = await this.getContentHash(prenup);
+    if (contentHash !== current) {
+      throw new ContentChangedError(current);
+    }
+
+    const presentations = await this.getPresentationsByPrenup(prenup.id);
+    const existing = presentations.find(presentation =>
+      presentation.userId === userId && presentation.contentHash === contentHash
+    );
+    if (existing) {
+      return { presentation: existing, created: false };
+    }
+
+    const presentation = await dataStore.create<Presentation>(createPresentationEntity({
+      prenupId: prenup.id,
+      userId,
+      contentHash,
+      prenupRevision: currentRevision(prenup),
+      advisement: COUNSEL_ADVISEMENT,
+      presentedAt: new Date().toISOString()
+    }));
+
+    logger.info(`Agreement ${contentHash.slice(0, 12)} presented to user ${userId} on prenup ${prenup.id}`);
+    return { presentation, created: true };
+  }
+
+  async getStatus(prenup: Prenup, now: Date = new Date()): Promise<PresentationStatus> {
+    const waitingPeriodDays = stateComplianceService.getWaitingPeriodDays(prenup);
+    const [presentations, contentHash] = await Promise.all([
+      this.getPresentationsByPrenup(prenup.id),
+      this.getContentHash(prenup)
+    ]);
+
+    return {
+      contentHash,
+      waitingPeriodDays,
+      advisement: COUNSEL_ADVISEMENT,
+      clocks: [prenup.createdBy, prenup.partnerId].map(userId =>
+        this.getClock(userId, presentations, contentHash, waitingPeriodDays, now)
+      )
+    };
+  }
+
+  // Throws unless the party's waiting period for the current text has run.
+  // Resolves to the hash of that text.
+  async assertMaySign(prenup: Prenup, userId: string): Promise<string> {
+    const { contentHash, waitingPeriodDays, clocks } = await this.getStatus(prenup);
+    const clock = clocks.find(candidate => candidate.userId === userId);
+    if (!clock || !clock.elapsed) {
+      throw new WaitingPeriodNotElapsedError(clock || { userId, elapsed: false }, waitingPeriodDays);
+    }
+    return contentHash;
+  }
+
+  private getClock(
+    userId: string | undefined,
+    presentations: Presentation[],
+    contentHash: string,
+    waitingPeriodDays: number,
+    now: Date
+  ): WaitingClock {
+    const presentation = userId && presentations.find(candidate =>
+      candidate.userId === userId && candidate.contentHash === contentHash
+    );
+    if (!presentation) {
+      return { userId, elapsed: !!userId && waitingPeriodDays === 0 };
+    }
+
+    const availableAt = new Date(new Date(presentation.presentedAt).getTime() + waitingPeriodDays * DAY_MS);
+    return {
+      userId,
+      presentedAt: presentation.presentedAt,
+      availableAt: availableAt.toISOString(),
+      elapsed: availableAt <= now
+    };
+  }
+}
+
+export const presentationService = new PresentationService();
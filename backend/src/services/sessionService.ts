@@ -0,0 +1,125 @@
+import { dataStore } from './dataStore';
+import { EntityType, toTtl } from './dynamodb';
+import { Session, User, createSessionEntity } from '../types/entities';
+import { logger } from '../utils/logger';
+
+// How stale lastSeenAt may get before a request refreshes it
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+
+// Where a request came from
+export interface ClientInfo {
+  ip?: string;
+  userAgent?: string;
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux']
+];
+
+// A readable device name such as "Firefox on Windows"
+const describeDevice = (userAgent?: string): string => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || userAgent.slice(0, 60);
+};
+
+// Signed-in devices of a user, so they can be listed and signed out remotely
+export class SessionService {
+
+  async create(user: User, client: ClientInfo, expiresAt: string): Promise<Session> {
+    const session = await dataStore.create<Session>(createSessionEntity({
+      createdBy: user.id,
+      device: describeDevice(client.userAgent),
+      ipAddress: client.ip,
+      userAgent: client.userAgent,
+      lastSeenAt: new Date().toISOString(),
+      expiresAt,
+      ttl: toTtl(expiresAt)
+    }));
+    logger.info(`Session ${session.id} started for user ${user.id}`);
+
+    return session;
+  }
+
+  // The session if it belongs to the user and is neither revoked nor expired
+  async getActive(sessionId: string, userId: string): Promise<Session | null> {
+    const session = await dataStore.getById<Session>(EntityType.SESSION, sessionId);
+    return session && session.createdBy === userId && this.isActive(session) ? session : null;
+  }
+
+  // Active sessions, most recently used first. Time to live deletes expired
+  // sessions only some time after they expire, so they are filtered here too.
+  async listForUser(userId: string): Promise<Session[]> {
+    const sessions = await dataStore.queryByCreator<Session>(EntityType.SESSION, userId);
+    return sessions
+      .filter(session => this.isActive(session))
+      .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+  }
+
+  // Records activity on a request. Writes at most every few minutes.
+  async touch(session: Session, client: ClientInfo = {}): Promise<void> {
+    if (Date.now() - new Date(session.lastSeenAt).getTime() < LAST_SEEN_RESOLUTION_MS) {
+      return;
+    }
+    await dataStore.update<Session>(EntityType.SESSION, session.id, {
+      lastSeenAt: new Date().toISOString(),
+      ...(client.ip && { ipAddress: client.ip })
+    }, false);
+  }
+
+  // Records a token refresh, which also extends the session
+  async renew(session: Session, client: ClientInfo, expiresAt: string): Promise<void> {
+    await dataStore.update<Session>(EntityType.SESSION, session.id, {
+      lastSeenAt: new Date().toISOString(),
+      expiresAt,
+      ttl: toTtl(expiresAt),
+      ...(client.ip && { ipAddress: client.ip }),
+      ...(client.userAgent && { userAgent: client.userAgent, device: describeDevice(client.userAgent) })
+    }, false);
+  }
+
+  // Signs a device out: its access token stops working at once and its
+  // refresh token can no longer be used
+  async revoke(userId: string, sessionId: string): Promise<void> {
+    const session = await this.getActive(sessionId, userId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    await dataStore.update<Session>(EntityType.SESSION, session.id, { revokedAt: new Date().toISOString() }, false);
+    logger.info(`Session ${session.id} of user ${userId} revoked`);
+  }
+
+  // Signs out every device of the user except, optionally, one
+  async revokeAllForUser(userId: string, exceptSessionId?: string): Promise<number> {
+    const sessions = (await this.listForUser(userId)).filter(session => session.id !== exceptSessionId);
+    const revokedAt = new Date().toISOString();
+
+    await Promise.all(sessions.map(session =>
+      dataStore.update<Session>(EntityType.SESSION, session.id, { revokedAt }, false)));
+    logger.info(`Revoked ${sessions.length} sessions of user ${userId}`);
+
+    return sessions.length;
+  }
+
+  private isActive(session: Session): boolean {
+    return !session.revokedAt && new Date(session.expiresAt) > new Date();
+  }
+}
+
+export const sessionService = new SessionService();
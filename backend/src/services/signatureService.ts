@@ -0,0 +1,71 @@
+import { dataStore } from './dataStore';
+import { EntityType } from './dynamodb';
+import {
+  Prenup,
+  PrenupStatus,
+  Signature,
+  SignatureStatus,
+  createSignatureEntity
+} from '../types/entities';
+import { participantService, PrenupAction } from './participantService';
+import { userService } from './userService';
+import { presentationService } from './presentationService';
+import { logger } from '../utils/logger';
+
+export class SignatureService {
+
+  async getSignaturesByPrenup(prenupId: string): Promise<Signature[]> {
+    return await dataStore.queryByPrenupId<Signature>(EntityType.SIGNATURE, prenupId);
+  }
+
+  async signPrenup(prenupId: string, userId: string, ipAddress?: string): Promise<Signature> {
+    const { prenup } = await participantService.authorize(prenupId, userId, PrenupAction.SIGN);
+
+    if (prenup.status !== PrenupStatus.PENDING_SIGNATURES) {
+      throw new Error('Prenup is not ready for signatures');
+    }
+
+    const signed = await this.getSignedUserIds(prenup);
+    if (signed.has(userId)) {
+      throw new Error('Prenup already signed by user');
+    }
+
+    // A signature stands for the text whose waiting period ran
+    const contentHash = await presentationService.assertMaySign(prenup, userId);
+
+    const user = await userService.getUserById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const signature = await dataStore.create<Signature>(createSignatureEntity({
+      prenupId,
+      userId,
+      status: SignatureStatus.SIGNED,
+      signedAt: new Date().toISOString(),
+      ipAddress,
+      contentHash,
+      userEmail: user.email
+    }));
+
+    logger.info(`Prenup ${prenupId} signed by user ${userId}`);
+    return signature;
+  }
+
+  // Users whose signature stands for the agreement and disclosures as they
+  // are now. A signature on anything else, or one recorded without a hash,
+  // is stale.
+  async getSignedUserIds(prenup: Prenup): Promise<Set<string>> {
+    const [contentHash, signatures] = await Promise.all([
+      presentationService.getContentHash(prenup),
+      this.getSignaturesByPrenup(prenup.id)
+    ]);
+    return new Set(
+      signatures
+        .filter(signature => signature.status === SignatureStatus.SIGNED && signature.contentHash === contentHash)
+        .map(signature => signature.userId)
+    );
+  }
+}
+
+export const signatureService = new SignatureService();
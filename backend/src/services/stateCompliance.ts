@@ -1,280 +1,140 @@
-export type USState = 'CALIFORNIA' | 'WASHINGTON' | 'NEW_YORK' | 'WASHINGTON_DC' | 'VIRGINIA';
+import { ComplianceFacts, RuleEvaluation, RuleStatus, evaluateRule } from './complianceRules';
+import { participantService } from './participantService';
+import { financialService } from './financialService';
+import { documentService } from './documentService';
+import { signatureService } from './signatureService';
+import { presentationService, hashAgreement } from './presentationService';
+import { JURISDICTIONS, JurisdictionLaw, LawVersion } from '../data/jurisdictions';
+import { Prenup, USState } from '../types/entities';
 
-export interface StateRequirement {
+export interface RequirementEvaluation extends RuleEvaluation {
   name: string;
-  description: string;
   required: boolean;
-  waitingPeriod?: number; // in days
+  citation?: string;
 }
 
-export interface StateCompliance {
+// Where a prenup stands against its state's requirements, under the law
+// version it is pinned to. `status` is pass when every required
+// requirement passes, fail when any fails.
+export interface ComplianceEvaluation {
   state: USState;
-  displayName: string;
-  totalSteps: number;
-  requirements: StateRequirement[];
-  disclosureRequirements: string[];
-  notarizationRequired: boolean;
-  witnessRequired: boolean;
-  specialRules: string[];
+  lawVersion: string;
+  effectiveFrom: string;
+  status: RuleStatus;
+  evaluatedAt: string;
+  requirements: RequirementEvaluation[];
+}
+
+// One version of a jurisdiction's law, as served to clients
+export interface StateCompliance extends Omit<JurisdictionLaw, 'versions'>, Omit<LawVersion, 'version'> {
+  lawVersion: string;
 }
 
 export class StateComplianceService {
-  private stateCompliances: Record<USState, StateCompliance> = {
-    CALIFORNIA: {
-      state: 'CALIFORNIA',
-      displayName: 'California',
-      totalSteps: 8,
-      requirements: [
-        {
-          name: 'Written Agreement',
-          description: 'Agreement must be in writing and signed by both parties',
-          required: true
-        },
-        {
-          name: 'Voluntary Execution',
-          description: 'Both parties must enter the agreement voluntarily',
-          required: true
-        },
-        {
-          name: 'Full Disclosure',
-          description: 'Complete disclosure of assets, debts, and income',
-          required: true
-        },
-        {
-          name: 'Seven-Day Waiting Period',
-          description: 'At least 7 days must pass between final agreement and marriage',
-          required: true,
-          waitingPeriod: 7
-        },
-        {
-          name: 'Independent Legal Representation',
-          description: 'Recommended but not required',
-          required: false
-        }
-      ],
-      disclosureRequirements: [
-        'All assets owned individually',
-        'All debts and obligations',
-        'Annual income and income sources',
-        'Any expected inheritances or gifts'
-      ],
-      notarizationRequired: false,
-      witnessRequired: false,
-      specialRules: [
-        'Agreements executed less than 7 days before marriage are voidable',
-        'Court will examine fairness at time of enforcement',
-        'Waiver of spousal support may be scrutinized more closely'
-      ]
-    },
-    WASHINGTON: {
-      state: 'WASHINGTON',
-      displayName: 'Washington',
-      totalSteps: 7,
-      requirements: [
-        {
-          name: 'Written Agreement',
-          description: 'Agreement must be in writing and signed by both parties',
-          required: true
-        },
-        {
-          name: 'Voluntary Execution',
-          description: 'Both parties must enter the agreement voluntarily',
-          required: true
-        },
-        {
-          name: 'Full Financial Disclosure',
-          description: 'Complete and accurate disclosure of all assets and debts',
-          required: true
-        },
-        {
-          name: 'Fair and Reasonable',
-          description: 'Agreement must be fair and reasonable when made',
-          required: true
-        }
-      ],
-      disclosureRequirements: [
-        'Complete list of assets with fair market values',
-        'All debts and liabilities',
-        'Income information',
-        'Any business interests'
-      ],
-      notarizationRequired: false,
-      witnessRequired: false,
-      specialRules: [
-        'Community property state - agreement affects property rights',
-        'Courts will not enforce unconscionable agreements',
-        'Full disclosure is strictly required'
-      ]
-    },
-    NEW_YORK: {
-      state: 'NEW_YORK',
-      displayName: 'New York',
-      totalSteps: 8,
-      requirements: [
-        {
-          name: 'Written Agreement',
-          description: 'Agreement must be in writing',
-          required: true
-        },
-        {
-          name: 'Acknowledgment or Notarization',
-          description: 'Agreement must be notarized or acknowledged',
-          required: true
-        },
-        {
-          name: 'Fair and Reasonable',
-          description: 'Agreement must be fair and reasonable when made and enforced',
-          required: true
-        },
-        {
-          name: 'Full Disclosure',
-          description: 'Fair disclosure of assets and financial obligations',
-          required: true
-        },
-        {
-          name: 'Independent Legal Representation',
-          description: 'Highly recommended for validity',
-          required: false
-        }
-      ],
-      disclosureRequirements: [
-        'Assets and property owned',
-        'Income and earning capacity',
-        'Debts and financial obligations',
-        'Any expected inheritances'
-      ],
-      notarizationRequired: true,
-      witnessRequired: false,
-      specialRules: [
-        'Agreement must be notarized or properly acknowledged',
-        'Courts examine fairness at both execution and enforcement',
-        'Cannot completely waive maintenance without meeting strict requirements'
-      ]
-    },
-    WASHINGTON_DC: {
-      state: 'WASHINGTON_DC',
-      displayName: 'Washington D.C.',
-      totalSteps: 7,
-      requirements: [
-        {
-          name: 'Written Agreement',
-          description: 'Agreement must be in writing and signed by both parties',
-          required: true
-        },
-        {
-          name: 'Voluntary Execution',
-          description: 'Both parties must enter the agreement voluntarily',
-          required: true
-        },
-        {
-          name: 'UPAA Compliance',
-          description: 'Must comply with Uniform Premarital Agreement Act',
-          required: true
-        },
-        {
-          name: 'Financial Disclosure',
-          description: 'Adequate disclosure of assets and obligations',
-          required: true
-        }
-      ],
-      disclosureRequirements: [
-        'Assets and property',
-        'Debts and financial obligations',
-        'Income sources'
-      ],
-      notarizationRequired: false,
-      witnessRequired: false,
-      specialRules: [
-        'Follows Uniform Premarital Agreement Act',
-        'Agreement unconscionable if lacking disclosure',
-        'Cannot adversely affect child support'
-      ]
-    },
-    VIRGINIA: {
-      state: 'VIRGINIA',
-      displayName: 'Virginia',
-      totalSteps: 7,
-      requirements: [
-        {
-          name: 'Written Agreement',
-          description: 'Agreement must be in writing and signed by both parties',
-          required: true
-        },
-        {
-          name: 'Voluntary Execution',
-          description: 'Both parties must enter the agreement voluntarily without duress',
-          required: true
-        },
-        {
-          name: 'Full and Fair Disclosure',
-          description: 'Complete disclosure of assets, debts, and income',
-          required: true
-        },
-        {
-          name: 'Conscionable Agreement',
-          description: 'Agreement must not be unconscionable',
-          required: true
-        }
-      ],
-      disclosureRequirements: [
-        'All assets and their values',
-        'All debts and liabilities',
-        'Income and earning capacity',
-        'Any expected inheritances or gifts'
-      ],
-      notarizationRequired: false,
-      witnessRequired: false,
-      specialRules: [
-        'Emphasizes voluntariness and full disclosure',
-        'Court will examine unconscionability',
-        'Cannot adversely affect child support obligations'
-      ]
-    }
-  };
 
-  getStateRequirements(state: USState): StateCompliance {
-    return this.stateCompliances[state];
+  // The law in effect on the given date, today by default
+  getStateRequirements(state: USState, on: Date = new Date()): StateCompliance {
+    return this.toCompliance(JURISDICTIONS[state], this.versionInEffect(state, on));
   }
 
+  // Current law of every jurisdiction, by name
   getAllStates(): StateCompliance[] {
-    return Object.values(this.stateCompliances);
+    return this.getSupportedStates()
+      .map(state => this.getStateRequirements(state))
+      .sort((a, b) => a.displayName.localeCompare(b.displayName));
   }
 
-  validateStateCompliance(state: USState, agreementData: any): { valid: boolean; violations: string[] } {
-    const compliance = this.getStateRequirements(state);
-    const violations: string[] = [];
+  getSupportedStates(): USState[] {
+    return Object.keys(JURISDICTIONS) as USState[];
+  }
+
+  isSupportedState(state: string): state is USState {
+    return Object.prototype.hasOwnProperty.call(JURISDICTIONS, state);
+  }
+
+  // Every version of a jurisdiction's law, oldest first
+  getLawVersions(state: USState): StateCompliance[] {
+    const jurisdiction = JURISDICTIONS[state];
+    return jurisdiction.versions.map(version => this.toCompliance(jurisdiction, version));
+  }
+
+  // The version a prenup created now is pinned to
+  getCurrentLawVersion(state: USState): string {
+    return this.versionInEffect(state, new Date()).version;
+  }
+
+  // The law a prenup is held to. Prenups created before pinning are held to
+  // the version in effect when they were created.
+  getPrenupLaw(prenup: Prenup): StateCompliance {
+    const jurisdiction = JURISDICTIONS[prenup.state];
+    if (!prenup.lawVersion) {
+      return this.toCompliance(jurisdiction, this.versionInEffect(prenup.state, new Date(prenup.createdAt)));
+    }
+
+    const version = jurisdiction.versions.find(candidate => candidate.version === prenup.lawVersion);
+    if (!version) {
+      throw new Error(`Law version ${prenup.lawVersion} not found for ${jurisdiction.displayName}`);
+    }
+    return this.toCompliance(jurisdiction, version);
+  }
 
-    // Check required elements
-    compliance.requirements.forEach(req => {
-      if (req.required) {
-        // Add specific validation logic based on requirement
-        switch (req.name) {
-          case 'Seven-Day Waiting Period':
-            if (state === 'CALIFORNIA' && agreementData.executionDate && agreementData.marriageDate) {
-              const daysDiff = Math.floor(
-                (new Date(agreementData.marriageDate).getTime() - new Date(agreementData.executionDate).getTime()) 
-                / (1000 * 60 * 60 * 24)
-              );
-              if (daysDiff < 7) {
-                violations.push('California requires at least 7 days between agreement execution and marriage');
-              }
-            }
-            break;
-          case 'Acknowledgment or Notarization':
-            if (state === 'NEW_YORK' && !agreementData.notarized) {
-              violations.push('New York requires the agreement to be notarized or acknowledged');
-            }
-            break;
-        }
-      }
-    });
+  // Evaluates every requirement of the prenup's state, required or not
+  evaluate(facts: ComplianceFacts): ComplianceEvaluation {
+    const law = this.getPrenupLaw(facts.prenup);
+    const requirements = law.requirements.map(requirement => ({
+      name: requirement.name,
+      required: requirement.required,
+      citation: requirement.citation,
+      ...evaluateRule(requirement.rule, facts)
+    }));
+
+    const required = requirements.filter(requirement => requirement.required);
+    const status: RuleStatus = required.some(requirement => requirement.status === 'fail')
+      ? 'fail'
+      : required.some(requirement => requirement.status === 'unknown') ? 'unknown' : 'pass';
+
+    return {
+      state: law.state,
+      lawVersion: law.lawVersion,
+      effectiveFrom: law.effectiveFrom,
+      status,
+      evaluatedAt: facts.now.toISOString(),
+      requirements
+    };
+  }
+
+  async evaluatePrenup(prenup: Prenup): Promise<ComplianceEvaluation> {
+    return this.evaluate(await this.loadFacts(prenup));
+  }
+
+  async loadFacts(prenup: Prenup): Promise<ComplianceFacts> {
+    const [participants, disclosures, documents, signatures, presentations] = await Promise.all([
+      participantService.listParticipants(prenup.id),
+      financialService.getFinancialDisclosuresByPrenup(prenup.id),
+      documentService.getDocumentsByPrenup(prenup.id),
+      signatureService.getSignaturesByPrenup(prenup.id),
+      presentationService.getPresentationsByPrenup(prenup.id)
+    ]);
 
     return {
-      valid: violations.length === 0,
-      violations
+      prenup,
+      contentHash: hashAgreement(prenup, disclosures),
+      participants,
+      disclosures,
+      documents,
+      signatures,
+      presentations,
+      now: new Date()
     };
   }
 
+  // Longest waiting period among the requirements of the prenup's law, in
+  // days. Each party's clock runs from when they received the final text.
+  getWaitingPeriodDays(prenup: Prenup): number {
+    const { requirements } = this.getPrenupLaw(prenup);
+    return Math.max(0, ...requirements.map(requirement => requirement.waitingPeriod || 0));
+  }
+
   getRequiredSteps(state: USState): string[] {
     const compliance = this.getStateRequirements(state);
     const steps = [
@@ -294,4 +154,18 @@ export class StateComplianceService {
 
     return steps;
   }
-}
\ No newline at end of file
+
+  private versionInEffect(state: USState, on: Date): LawVersion {
+    const day = on.toISOString().slice(0, 10);
+    const { versions } = JURISDICTIONS[state];
+    return [...versions].reverse().find(version => version.effectiveFrom <= day) || versions[0];
+  }
+
+  private toCompliance(jurisdiction: JurisdictionLaw, version: LawVersion): StateCompliance {
+    const { versions, ...identity } = jurisdiction;
+    const { version: lawVersion, ...law } = version;
+    return { ...identity, ...law, lawVersion };
+  }
+}
+
+export const stateComplianceService = new StateComplianceService();
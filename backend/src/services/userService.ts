@@ -1,10 +1,15 @@
-import { dynamodbService, EntityType } from './dynamodb';
-import { User, UserRole, createUserEntity } from '../types/entities';
+import { dataStore } from './dataStore';
+import { EntityType } from './dynamodb';
+import { PRIVATE_USER_FIELDS, PublicUser, User, UserRole, createUserEntity } from '../types/entities';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { config } from '../utils/config';
 import { logger } from '../utils/logger';
 
+// Addresses are stored and looked up in lower case, so the same mailbox
+// can't hold two accounts and any casing finds it
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
 export class UserService {
   
   async createUser(userData: {
@@ -21,33 +26,37 @@ export class UserService {
     }
 
     // Hash password
-    const hashedPassword = await bcrypt.hash(userData.password, 12);
+    const hashedPassword = await this.hashPassword(userData.password);
 
     // Create user entity
     const userEntity = createUserEntity({
-      email: userData.email,
+      email: normalizeEmail(userData.email),
       password: hashedPassword,
       firstName: userData.firstName,
       lastName: userData.lastName,
-      role: userData.role || UserRole.USER
+      role: userData.role || UserRole.USER,
+      emailVerified: false
     });
 
-    const user = await dynamodbService.create<User>(userEntity);
+    const user = await dataStore.create<User>(userEntity);
     logger.info(`Created user: ${user.email}`);
     
     return user;
   }
 
   async getUserById(id: string): Promise<User | null> {
-    return await dynamodbService.getById<User>(EntityType.USER, id);
+    return await dataStore.getById<User>(EntityType.USER, id);
   }
 
   async getUserByEmail(email: string): Promise<User | null> {
     try {
-      // Use a scan to find user by email - in production you'd use a GSI
-      const result = await dynamodbService.queryByEntityType<User>(EntityType.USER);
-      const user = result.items.find(u => u.email === email);
-      return user || null;
+      const normalized = normalizeEmail(email);
+      let users = await dataStore.queryByEmail<User>(EntityType.USER, normalized);
+      // Accounts created before addresses were normalized keep their casing
+      if (users.length === 0 && normalized !== email) {
+        users = await dataStore.queryByEmail<User>(EntityType.USER, email);
+      }
+      return users[0] || null;
     } catch (error) {
       logger.error(`Error finding user by email ${email}:`, error);
       return null;
@@ -57,22 +66,27 @@ export class UserService {
   async updateUser(id: string, updates: Partial<Omit<User, keyof import('../services/dynamodb').BaseEntity>>): Promise<User> {
     // If password is being updated, hash it
     if (updates.password) {
-      updates.password = await bcrypt.hash(updates.password, 12);
+      updates.password = await this.hashPassword(updates.password);
     }
 
-    return await dynamodbService.update<User>(EntityType.USER, id, updates, true);
+    return await dataStore.update<User>(EntityType.USER, id, updates, true);
   }
 
   async deleteUser(id: string): Promise<void> {
-    await dynamodbService.delete(EntityType.USER, id);
+    await dataStore.delete(EntityType.USER, id);
     logger.info(`Deleted user: ${id}`);
   }
 
+  async hashPassword(password: string): Promise<string> {
+    return await bcrypt.hash(password, 12);
+  }
+
   async verifyPassword(user: User, password: string): Promise<boolean> {
     return await bcrypt.compare(password, user.password);
   }
 
-  generateToken(user: User): string {
+  // Access token for a session; the session id is its `jti`
+  generateToken(user: User, sessionId: string): string {
     const secret = config.jwtSecret;
     if (!secret) {
       throw new Error('JWT secret not configured');
@@ -80,30 +94,34 @@ export class UserService {
     
     return jwt.sign(
       { id: user.id, email: user.email },
-      secret
+      secret,
+      { expiresIn: config.jwtExpiresIn as jwt.SignOptions['expiresIn'], jwtid: sessionId }
     );
   }
 
-  verifyToken(token: string): { id: string; email: string } | null {
+  verifyToken(token: string): { id: string; email: string; jti?: string } | null {
     try {
       const secret = config.jwtSecret;
       if (!secret) {
         throw new Error('JWT secret not configured');
       }
       
-      return jwt.verify(token, secret) as { id: string; email: string };
+      // Tokens issued for a single purpose (e.g. an MFA challenge) don't grant access
+      const decoded = jwt.verify(token, secret) as { id: string; email: string; jti?: string; purpose?: string };
+      return decoded.purpose ? null : decoded;
     } catch (error) {
       return null;
     }
   }
 
-  sanitizeUser(user: User): Omit<User, 'password'> {
-    const { password, ...sanitizedUser } = user;
+  sanitizeUser(user: User): PublicUser {
+    const sanitizedUser = { ...user };
+    PRIVATE_USER_FIELDS.forEach(field => delete sanitizedUser[field]);
     return sanitizedUser;
   }
 
-  async getAllUsers(limit?: number, lastKey?: any): Promise<{ users: Omit<User, 'password'>[], lastKey?: any }> {
-    const result = await dynamodbService.queryByEntityType<User>(EntityType.USER, limit, lastKey);
+  async getAllUsers(limit?: number, lastKey?: any): Promise<{ users: PublicUser[], lastKey?: any }> {
+    const result = await dataStore.queryByEntityType<User>(EntityType.USER, limit, lastKey);
     return {
       users: result.items.map(user => this.sanitizeUser(user)),
       lastKey: result.lastKey
@@ -0,0 +1,44 @@
+import { dataStore } from './dataStore';
+import { BaseEntity, EntityType, LATEST_VERSION, isVersionKey, parseVersionNumber } from './dynamodb';
+import { VersionSummary } from '../types/entities';
+import { userService } from './userService';
+
+export class VersionService {
+
+  // Version metadata for an entity, current version first and then newest archive first
+  async getVersionHistory(entityType: EntityType, id: string): Promise<VersionSummary[]> {
+    const versions = await this.getSortedVersions(entityType, id);
+
+    // Resolve each distinct editor once
+    const editorIds = Array.from(new Set(versions.map(v => v.updatedBy).filter((userId): userId is string => !!userId)));
+    const editors = await Promise.all(editorIds.map(userId => userService.getUserById(userId)));
+    const editorEmails = new Map(editorIds.map((userId, index) => [userId, editors[index]?.email]));
+
+    return versions.map(entity => ({
+      version: entity.version,
+      isCurrent: entity.version === LATEST_VERSION,
+      updatedAt: entity.updatedAt,
+      updatedBy: entity.updatedBy,
+      updatedByEmail: entity.updatedBy ? editorEmails.get(entity.updatedBy) : undefined
+    }));
+  }
+
+  async getVersion<T extends BaseEntity>(entityType: EntityType, id: string, version: string): Promise<T | null> {
+    if (!isVersionKey(version)) {
+      return null;
+    }
+    return await dataStore.getById<T>(entityType, id, version);
+  }
+
+  private async getSortedVersions<T extends BaseEntity>(entityType: EntityType, id: string): Promise<T[]> {
+    const versions = await dataStore.getAllVersions<T>(entityType, id);
+
+    return versions.sort((a, b) => {
+      if (a.version === LATEST_VERSION) return -1;
+      if (b.version === LATEST_VERSION) return 1;
+      return parseVersionNumber(b.version) - parseVersionNumber(a.version);
+    });
+  }
+}
+
+export const versionService = new VersionService();
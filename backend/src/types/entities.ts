@@ -3,7 +3,8 @@ import { BaseEntity, EntityType } from '../services/dynamodb';
 // User Types and Interfaces
 export enum UserRole {
   USER = 'USER',
-  ADMIN = 'ADMIN'
+  ADMIN = 'ADMIN',
+  ATTORNEY = 'ATTORNEY' // Can be appointed as a party's counsel
 }
 
 export interface User extends BaseEntity {
@@ -12,15 +13,86 @@ export interface User extends BaseEntity {
   firstName: string;
   lastName: string;
   role: UserRole;
+  emailVerified?: boolean; // Missing on accounts created before verification existed
+  emailVerifiedAt?: string;
+  // Two-factor authentication (TOTP)
+  mfaEnabled?: boolean;
+  mfaEnabledAt?: string;
+  mfaSecret?: string; // Base32 TOTP secret
+  mfaPendingSecret?: string; // Secret awaiting its first code during enrollment
+  mfaRecoveryCodes?: string[]; // SHA-256 hashes of unused recovery codes
+  mfaLastUsedStep?: number; // Time step of the last accepted code, so codes can't be replayed
+  // Set while an administrator has disabled the account
+  disabled?: boolean;
+  disabledAt?: string;
+  disabledBy?: string;
 }
 
+// Fields that never leave the server
+export const PRIVATE_USER_FIELDS = [
+  'password',
+  'mfaSecret',
+  'mfaPendingSecret',
+  'mfaRecoveryCodes',
+  'mfaLastUsedStep'
+] as const;
+
+export type PublicUser = Omit<User, typeof PRIVATE_USER_FIELDS[number]>;
+
 // Prenup Types and Interfaces
+// Every jurisdiction with a law file in data/jurisdictions
 export enum USState {
+  ALABAMA = 'ALABAMA',
+  ALASKA = 'ALASKA',
+  ARIZONA = 'ARIZONA',
+  ARKANSAS = 'ARKANSAS',
   CALIFORNIA = 'CALIFORNIA',
-  WASHINGTON = 'WASHINGTON',
+  COLORADO = 'COLORADO',
+  CONNECTICUT = 'CONNECTICUT',
+  DELAWARE = 'DELAWARE',
+  FLORIDA = 'FLORIDA',
+  GEORGIA = 'GEORGIA',
+  HAWAII = 'HAWAII',
+  IDAHO = 'IDAHO',
+  ILLINOIS = 'ILLINOIS',
+  INDIANA = 'INDIANA',
+  IOWA = 'IOWA',
+  KANSAS = 'KANSAS',
+  KENTUCKY = 'KENTUCKY',
+  LOUISIANA = 'LOUISIANA',
+  MAINE = 'MAINE',
+  MARYLAND = 'MARYLAND',
+  MASSACHUSETTS = 'MASSACHUSETTS',
+  MICHIGAN = 'MICHIGAN',
+  MINNESOTA = 'MINNESOTA',
+  MISSISSIPPI = 'MISSISSIPPI',
+  MISSOURI = 'MISSOURI',
+  MONTANA = 'MONTANA',
+  NEBRASKA = 'NEBRASKA',
+  NEVADA = 'NEVADA',
+  NEW_HAMPSHIRE = 'NEW_HAMPSHIRE',
+  NEW_JERSEY = 'NEW_JERSEY',
+  NEW_MEXICO = 'NEW_MEXICO',
   NEW_YORK = 'NEW_YORK',
+  NORTH_CAROLINA = 'NORTH_CAROLINA',
+  NORTH_DAKOTA = 'NORTH_DAKOTA',
+  OHIO = 'OHIO',
+  OKLAHOMA = 'OKLAHOMA',
+  OREGON = 'OREGON',
+  PENNSYLVANIA = 'PENNSYLVANIA',
+  RHODE_ISLAND = 'RHODE_ISLAND',
+  SOUTH_CAROLINA = 'SOUTH_CAROLINA',
+  SOUTH_DAKOTA = 'SOUTH_DAKOTA',
+  TENNESSEE = 'TENNESSEE',
+  TEXAS = 'TEXAS',
+  UTAH = 'UTAH',
+  VERMONT = 'VERMONT',
+  VIRGINIA = 'VIRGINIA',
+  WASHINGTON = 'WASHINGTON',
   WASHINGTON_DC = 'WASHINGTON_DC',
-  VIRGINIA = 'VIRGINIA'
+  WEST_VIRGINIA = 'WEST_VIRGINIA',
+  WISCONSIN = 'WISCONSIN',
+  WYOMING = 'WYOMING'
 }
 
 export enum PrenupStatus {
@@ -32,14 +104,44 @@ export enum PrenupStatus {
   CANCELLED = 'CANCELLED'
 }
 
+export interface StatusChange {
+  status: PrenupStatus;
+  changedAt: string;
+  changedBy: string;
+}
+
+// What a recorded notarization rests on. Only a party's own word is
+// self-attested; the rest can be checked.
+export enum NotarizationSource {
+  DOCUMENT = 'DOCUMENT', // A notarized copy of the agreement was uploaded
+  COUNSEL = 'COUNSEL',
+  ADMIN = 'ADMIN',
+  SELF_ATTESTED = 'SELF_ATTESTED'
+}
+
+export interface Notarization {
+  notaryName: string;
+  commissionNumber?: string;
+  notarizedAt: string;
+  recordedBy: string;
+  // Absent on notarizations recorded before sources were tracked, which
+  // count as self-attested
+  source?: NotarizationSource;
+  documentId?: string; // The notarized copy, when source is DOCUMENT
+}
+
 export interface Prenup extends BaseEntity {
   title: string;
   state: USState;
+  // Version of the state's law the prenup is held to, fixed at creation
+  lawVersion?: string;
   status: PrenupStatus;
   createdBy: string;
   partnerId?: string;
   progress: Record<string, any>;
   content: Record<string, any>;
+  statusHistory?: StatusChange[]; // Oldest first, written by PrenupLifecycle
+  notarization?: Notarization; // Recorded on execution where the state requires it
   // Computed fields for easy querying
   createdByEmail?: string;
   partnerEmail?: string;
@@ -88,7 +190,8 @@ export enum DocumentType {
   PRENUP_DRAFT = 'PRENUP_DRAFT',
   PRENUP_FINAL = 'PRENUP_FINAL',
   FINANCIAL_STATEMENT = 'FINANCIAL_STATEMENT',
-  SUPPORTING_DOCUMENT = 'SUPPORTING_DOCUMENT'
+  SUPPORTING_DOCUMENT = 'SUPPORTING_DOCUMENT',
+  NOTARIZED_AGREEMENT = 'NOTARIZED_AGREEMENT'
 }
 
 export interface Document extends BaseEntity {
@@ -116,9 +219,22 @@ export interface Signature extends BaseEntity {
   status: SignatureStatus;
   signedAt?: string;
   ipAddress?: string;
+  contentHash?: string; // Hash of the agreement text that was signed
   userEmail?: string; // Denormalized
 }
 
+// The first time a party received a version of the agreement to sign,
+// together with the advice to seek independent counsel. Waiting periods run
+// from here, per party and per version of the text.
+export interface Presentation extends BaseEntity {
+  prenupId: string;
+  userId: string;
+  contentHash: string; // SHA-256 of the prenup content presented
+  prenupRevision: number;
+  advisement: string; // Counsel advisement shown with the text
+  presentedAt: string;
+}
+
 // Partner Invitation Types
 export enum InvitationStatus {
   PENDING = 'PENDING',
@@ -131,10 +247,206 @@ export interface PartnerInvitation extends BaseEntity {
   email: string;
   prenupId: string;
   invitedBy: string;
-  token: string;
+  tokenHash: string; // SHA-256 of the token in the invitation link
   status: InvitationStatus;
   expiresAt: string;
+  allowAnyEmail?: boolean; // Creator override: any account may accept, not just `email`
   invitedByEmail?: string; // Denormalized
+  // Recorded on acceptance
+  acceptedBy?: string;
+  acceptedAt?: string;
+  acceptedFromIp?: string;
+  acceptedUserAgent?: string;
+}
+
+// Prenup Participant Types
+// Everyone who takes part in a prenup and in which role. What each role may
+// do is decided by the permission matrix in participantService.
+export enum ParticipantRole {
+  PARTY_A = 'PARTY_A', // The party who created the prenup
+  PARTY_B = 'PARTY_B', // The partner who joined it
+  COUNSEL = 'COUNSEL', // Independent attorney of one party
+  NOTARY = 'NOTARY',
+  WITNESS = 'WITNESS',
+  VIEWER = 'VIEWER'
+}
+
+export enum ParticipantStatus {
+  INVITED = 'INVITED',
+  ACTIVE = 'ACTIVE',
+  REMOVED = 'REMOVED'
+}
+
+export interface CounselApproval {
+  approvedAt: string;
+  prenupRevision: number; // Revision of the prenup that was approved
+  note?: string;
+}
+
+export interface PrenupParticipant extends BaseEntity {
+  prenupId: string;
+  role: ParticipantRole;
+  email: string; // Invited address
+  userId?: string; // Set once the invitation is accepted
+  representing?: string; // User ID of the party counsel acts for
+  invitedBy: string;
+  status: ParticipantStatus;
+  tokenHash?: string; // SHA-256 of the invitation token, while invited
+  expiresAt?: string; // Invitation expiry
+  acceptedAt?: string;
+  removedAt?: string;
+  approval?: CounselApproval; // Cleared when the counsel is removed
+  userName?: string; // Denormalized once the user takes part
+}
+
+// Comment Types
+export interface PrenupComment extends BaseEntity {
+  prenupId: string;
+  authorId: string;
+  authorName: string; // Denormalized
+  asCounselFor?: string; // Party ID when the author commented as counsel
+  body: string;
+}
+
+// Refresh Token Types
+// Refresh tokens rotate on every use. All tokens descended from one login
+// share a family, so a reused token can revoke the whole chain.
+export interface RefreshToken extends BaseEntity {
+  createdBy: string; // The user the token was issued to
+  familyId: string;
+  tokenHash: string; // SHA-256 of the token handed to the client
+  expiresAt: string;
+  ttl: number; // expiresAt in epoch seconds; DynamoDB deletes the token some time after
+  rotatedAt?: string; // Set once the token has been exchanged for a new one
+  revokedAt?: string;
+}
+
+// Session Types
+// A signed-in device. Its id is the `jti` of the access tokens issued to it
+// and the family id of its refresh tokens.
+export interface Session extends BaseEntity {
+  createdBy: string; // The signed-in user
+  device: string; // e.g. "Chrome on macOS", derived from the user agent
+  ipAddress?: string;
+  userAgent?: string;
+  lastSeenAt: string;
+  expiresAt: string; // When its latest refresh token expires
+  ttl: number; // expiresAt in epoch seconds; DynamoDB deletes the session some time after
+  revokedAt?: string;
+}
+
+// Account Token Types
+// Single-use tokens emailed to a user to prove they control their address
+export enum AccountTokenPurpose {
+  PASSWORD_RESET = 'PASSWORD_RESET',
+  EMAIL_VERIFICATION = 'EMAIL_VERIFICATION',
+  ACCOUNT_UNLOCK = 'ACCOUNT_UNLOCK'
+}
+
+export interface AccountToken extends BaseEntity {
+  createdBy: string; // The user the token was issued to
+  purpose: AccountTokenPurpose;
+  tokenHash: string; // SHA-256 of the emailed token
+  expiresAt: string;
+  usedAt?: string;
+  revokedAt?: string; // Superseded by a newer token for the same purpose
+}
+
+// Login Throttle Types
+// Failed login attempts against one account or from one IP address. The id is
+// derived from the scope and a hash of the email or address.
+export enum LoginThrottleScope {
+  ACCOUNT = 'ACCOUNT',
+  IP = 'IP'
+}
+
+export interface LoginThrottle extends BaseEntity {
+  scope: LoginThrottleScope;
+  failures: number; // Failed attempts since the counter last reset
+  lastFailureAt: string;
+  lockedUntil?: string;
+}
+
+// Audit Types
+export enum AuditAction {
+  PRENUP_CREATED = 'PRENUP_CREATED',
+  PRENUP_UPDATED = 'PRENUP_UPDATED',
+  PRENUP_STATUS_CHANGED = 'PRENUP_STATUS_CHANGED',
+  PRENUP_SIGNED = 'PRENUP_SIGNED',
+  PARTNER_INVITED = 'PARTNER_INVITED',
+  INVITATION_RESENT = 'INVITATION_RESENT',
+  INVITATION_REVOKED = 'INVITATION_REVOKED',
+  INVITATION_ACCEPTED = 'INVITATION_ACCEPTED',
+  INVITATION_EXPIRED = 'INVITATION_EXPIRED',
+  COUNSEL_INVITED = 'COUNSEL_INVITED',
+  COUNSEL_ACCEPTED = 'COUNSEL_ACCEPTED',
+  COUNSEL_REMOVED = 'COUNSEL_REMOVED',
+  COUNSEL_APPROVED = 'COUNSEL_APPROVED',
+  COMMENT_ADDED = 'COMMENT_ADDED',
+  PARTICIPANT_ADDED = 'PARTICIPANT_ADDED',
+  PARTICIPANT_REMOVED = 'PARTICIPANT_REMOVED',
+  DISCLOSURE_SAVED = 'DISCLOSURE_SAVED',
+  DISCLOSURE_VIEWED = 'DISCLOSURE_VIEWED',
+  FINANCIAL_SUMMARY_VIEWED = 'FINANCIAL_SUMMARY_VIEWED',
+  DOCUMENT_UPLOADED = 'DOCUMENT_UPLOADED',
+  DOCUMENT_DOWNLOADED = 'DOCUMENT_DOWNLOADED',
+  DOCUMENT_DELETED = 'DOCUMENT_DELETED',
+  AUDIT_EXPORTED = 'AUDIT_EXPORTED',
+  COMPLIANCE_REPORT_EXPORTED = 'COMPLIANCE_REPORT_EXPORTED',
+  AGREEMENT_PRESENTED = 'AGREEMENT_PRESENTED',
+  NOTARIZATION_RECORDED = 'NOTARIZATION_RECORDED',
+  ACCOUNT_DISABLED = 'ACCOUNT_DISABLED',
+  ACCOUNT_ENABLED = 'ACCOUNT_ENABLED',
+  ACCOUNT_ROLE_CHANGED = 'ACCOUNT_ROLE_CHANGED'
+}
+
+// One entry in the append-only audit trail of a prenup. Each event carries
+// the hash of the event before it, so editing or removing an event breaks
+// every hash after it.
+export interface AuditEvent extends BaseEntity {
+  prenupId: string; // ACCOUNT_TRAIL_ID for administrators' actions on accounts
+  sequence: number; // 1 for the first event of the prenup
+  action: AuditAction;
+  actorId: string;
+  ipAddress?: string;
+  userAgent?: string;
+  targetType: EntityType;
+  targetId: string;
+  targetRevision?: number; // Revision of the target the action wrote or read
+  details?: Record<string, any>;
+  occurredAt: string;
+  previousHash: string;
+  hash: string; // SHA-256 of the fields above
+}
+
+// Head of a prenup's audit trail, keyed by the prenup id. Appending an event
+// moves the head, so concurrent appends cannot both link to the same event.
+export interface AuditTrail extends BaseEntity {
+  lastSequence: number;
+  lastHash: string;
+}
+
+// Version History Types
+export interface VersionSummary {
+  version: string; // V0 is the current version
+  isCurrent: boolean;
+  updatedAt: string;
+  updatedBy?: string;
+  updatedByEmail?: string;
+}
+
+export interface FieldChange {
+  path: string; // e.g. "content.terms.alimony" or "assets[2].value"
+  oldValue?: any;
+  newValue?: any;
+}
+
+export interface VersionDiff {
+  from: string;
+  to: string;
+  added: FieldChange[];
+  removed: FieldChange[];
+  changed: FieldChange[];
 }
 
 // API Response Types
@@ -181,8 +493,63 @@ export const createSignatureEntity = (signatureData: Omit<Signature, keyof BaseE
   entityType: EntityType.SIGNATURE
 });
 
+export const createPresentationEntity = (presentationData: Omit<Presentation, keyof BaseEntity>): Omit<Presentation, 'createdAt' | 'updatedAt' | 'version'> => ({
+  ...presentationData,
+  id: generateEntityId(),
+  entityType: EntityType.PRESENTATION
+});
+
 export const createPartnerInvitationEntity = (invitationData: Omit<PartnerInvitation, keyof BaseEntity>): Omit<PartnerInvitation, 'createdAt' | 'updatedAt' | 'version'> => ({
   ...invitationData,
   id: generateEntityId(),
   entityType: EntityType.PARTNER_INVITATION
-});
\ No newline at end of file
+});
+
+export const createPrenupParticipantEntity = (participantData: Omit<PrenupParticipant, keyof BaseEntity>): Omit<PrenupParticipant, 'createdAt' | 'updatedAt' | 'version'> => ({
+  ...participantData,
+  id: generateEntityId(),
+  entityType: EntityType.PRENUP_PARTICIPANT
+});
+
+export const createPrenupCommentEntity = (commentData: Omit<PrenupComment, keyof BaseEntity>): Omit<PrenupComment, 'createdAt' | 'updatedAt' | 'version'> => ({
+  ...commentData,
+  id: generateEntityId(),
+  entityType: EntityType.PRENUP_COMMENT
+});
+
+export const createAccountTokenEntity = (tokenData: Omit<AccountToken, keyof BaseEntity>): Omit<AccountToken, 'createdAt' | 'updatedAt' | 'version'> => ({
+  ...tokenData,
+  id: generateEntityId(),
+  entityType: EntityType.ACCOUNT_TOKEN
+});
+
+export const createSessionEntity = (sessionData: Omit<Session, keyof BaseEntity>): Omit<Session, 'createdAt' | 'updatedAt' | 'version'> => ({
+  ...sessionData,
+  id: generateEntityId(),
+  entityType: EntityType.SESSION
+});
+
+export const createRefreshTokenEntity = (tokenData: Omit<RefreshToken, keyof BaseEntity>): Omit<RefreshToken, 'createdAt' | 'updatedAt' | 'version'> => ({
+  ...tokenData,
+  id: generateEntityId(),
+  entityType: EntityType.REFRESH_TOKEN
+});
+// Throttle records have predictable ids so they can be read without an index
+export const createLoginThrottleEntity = (id: string, throttleData: Omit<LoginThrottle, keyof BaseEntity>): Omit<LoginThrottle, 'createdAt' | 'updatedAt' | 'version'> => ({
+  ...throttleData,
+  id,
+  entityType: EntityType.LOGIN_THROTTLE
+});
+
+export const createAuditEventEntity = (eventData: Omit<AuditEvent, keyof BaseEntity>): Omit<AuditEvent, 'createdAt' | 'updatedAt' | 'version'> => ({
+  ...eventData,
+  id: generateEntityId(),
+  entityType: EntityType.AUDIT_EVENT
+});
+
+// A prenup has one trail, stored under the prenup's id
+export const createAuditTrailEntity = (prenupId: string, trailData: Omit<AuditTrail, keyof BaseEntity>): Omit<AuditTrail, 'createdAt' | 'updatedAt' | 'version'> => ({
+  ...trailData,
+  id: prenupId,
+  entityType: EntityType.AUDIT_TRAIL
+});
@@ -0,0 +1,49 @@
+const ENV_KEYS = ['NODE_ENV', 'EMAIL_TRANSPORT', 'EMAIL_HOST'] as const;
+
+// Loads a fresh copy of the config with the given environment
+const loadConfig = (env: Partial<Record<typeof ENV_KEYS[number], string>>) => {
+  ENV_KEYS.forEach(key => {
+    if (env[key] === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = env[key];
+    }
+  });
+
+  let loaded: typeof import('../config').config | undefined;
+  jest.isolateModules(() => {
+    loaded = require('../config').config;
+  });
+  return loaded!;
+};
+
+describe('email transport config', () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('captures mail when NODE_ENV is unset, as in development', () => {
+    const config = loadConfig({});
+    expect(config.nodeEnv).toBe('development');
+    expect(config.email.transport).toBe('capture');
+  });
+
+  it('captures mail on a deployed dev stage', () => {
+    expect(loadConfig({ NODE_ENV: 'dev' }).email.transport).toBe('capture');
+  });
+
+  it('sends through SMTP when a host is set', () => {
+    expect(loadConfig({ NODE_ENV: 'production', EMAIL_HOST: 'smtp.example.com' }).email.transport).toBe('smtp');
+  });
+
+  it('refuses to start in production without a transport', () => {
+    expect(() => loadConfig({ NODE_ENV: 'production' })).toThrow('EMAIL_HOST must be set in production');
+    expect(() => loadConfig({ NODE_ENV: 'prod' })).toThrow();
+  });
+
+  it('lets production capture mail when chosen explicitly', () => {
+    expect(loadConfig({ NODE_ENV: 'production', EMAIL_TRANSPORT: 'capture' }).email.transport).toBe('capture');
+  });
+});
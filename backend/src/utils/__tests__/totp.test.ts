@@ -0,0 +1,47 @@
+import { generateTotpCode, generateTotpSecret, totpProvisioningUri, verifyTotpCode } from '../totp';
+
+// The SHA-1 seed of the RFC 6238 test vectors, "12345678901234567890", in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const STEP_MS = 30 * 1000;
+
+describe('TOTP', () => {
+  it('matches the RFC 6238 test vectors', () => {
+    // The RFC lists 8 digits; authenticator apps show the last 6
+    expect(generateTotpCode(RFC_SECRET, 59 * 1000)).toBe('287082');
+    expect(generateTotpCode(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+    expect(generateTotpCode(RFC_SECRET, 1234567890 * 1000)).toBe('005924');
+  });
+
+  it('accepts a code one step either side of the current one', () => {
+    const secret = generateTotpSecret();
+    const now = Date.now();
+
+    expect(verifyTotpCode(secret, generateTotpCode(secret, now - STEP_MS), now)).not.toBeNull();
+    expect(verifyTotpCode(secret, generateTotpCode(secret, now + STEP_MS), now)).not.toBeNull();
+    expect(verifyTotpCode(secret, generateTotpCode(secret, now - 2 * STEP_MS), now)).toBeNull();
+    expect(verifyTotpCode(secret, generateTotpCode(secret, now + 2 * STEP_MS), now)).toBeNull();
+  });
+
+  it('returns the time step the code was for', () => {
+    const now = 1111111109 * 1000;
+
+    expect(verifyTotpCode(RFC_SECRET, '081804', now)).toBe(Math.floor(1111111109 / 30));
+  });
+
+  it('ignores spaces and rejects malformed codes', () => {
+    const now = 59 * 1000;
+
+    expect(verifyTotpCode(RFC_SECRET, '287 082', now)).not.toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, '28708', now)).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, 'abcdef', now)).toBeNull();
+  });
+
+  it('builds a provisioning URI authenticator apps can read', () => {
+    const uri = totpProvisioningUri(RFC_SECRET, 'alice@example.com', 'Prenup App');
+
+    expect(uri).toBe(
+      'otpauth://totp/Prenup%20App%3Aalice%40example.com' +
+      `?secret=${RFC_SECRET}&issuer=Prenup%20App&algorithm=SHA1&digits=6&period=30`
+    );
+  });
+});
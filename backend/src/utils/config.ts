@@ -2,11 +2,56 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+const nodeEnv = process.env.NODE_ENV || 'development';
+
+// Stages that send real mail to real users
+const PRODUCTION_ENVS = ['production', 'prod'];
+
+// Without an SMTP host mail is captured rather than sent. In production that
+// would silently drop every email, so it stops the server from starting;
+// anywhere else (local, test, dev and staging stages) capture is the default.
+const emailTransport = (): string => {
+  if (process.env.EMAIL_TRANSPORT) return process.env.EMAIL_TRANSPORT;
+  if (process.env.EMAIL_HOST) return 'smtp';
+  if (PRODUCTION_ENVS.includes(nodeEnv)) {
+    throw new Error('EMAIL_HOST must be set in production, or EMAIL_TRANSPORT=capture chosen explicitly');
+  }
+  return 'capture';
+};
+
 export const config = {
   port: parseInt(process.env.PORT || '3001'),
   jwtSecret: process.env.JWT_SECRET || 'your-super-secret-jwt-key',
-  jwtExpiresIn: process.env.JWT_EXPIRES_IN || '7d',
-  nodeEnv: process.env.NODE_ENV || 'development',
+  // Lifetime of access tokens; clients renew them with a refresh token
+  jwtExpiresIn: process.env.JWT_EXPIRES_IN || '15m',
+  refreshTokenTtlDays: parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30'),
+  mfa: {
+    issuer: process.env.MFA_ISSUER || "Let's Do Prenup",
+    // Time allowed between the password step and the code step of a login
+    challengeExpiresIn: process.env.MFA_CHALLENGE_EXPIRES_IN || '5m'
+  },
+  loginThrottle: {
+    // Failed logins are counted per account and per IP address. Past the free
+    // attempts each further failure doubles the wait before the next try, up
+    // to maxDelaySeconds; at lockoutAfter the account or address is locked.
+    account: {
+      freeAttempts: parseInt(process.env.LOGIN_ACCOUNT_FREE_ATTEMPTS || '3'),
+      lockoutAfter: parseInt(process.env.LOGIN_ACCOUNT_LOCKOUT_AFTER || '10')
+    },
+    ip: {
+      freeAttempts: parseInt(process.env.LOGIN_IP_FREE_ATTEMPTS || '10'),
+      lockoutAfter: parseInt(process.env.LOGIN_IP_LOCKOUT_AFTER || '50')
+    },
+    maxDelaySeconds: 60,
+    lockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15'),
+    // Failures older than this no longer count
+    failureWindowMinutes: 15
+  },
+  nodeEnv,
+  dataStore: {
+    // 'dynamodb' or 'memory'; tests run against the in-memory store by default
+    driver: process.env.DATA_STORE || (process.env.NODE_ENV === 'test' ? 'memory' : 'dynamodb')
+  },
   dynamodb: {
     region: process.env.AWS_REGION || 'us-east-1',
     endpoint: process.env.DYNAMODB_ENDPOINT || (process.env.NODE_ENV === 'development' ? 'http://localhost:8000' : undefined),
@@ -21,6 +66,11 @@ export const config = {
     environment: process.env.DOCUSIGN_ENVIRONMENT || 'demo'
   },
   email: {
+    // 'smtp' or 'capture'
+    transport: emailTransport(),
+    from: process.env.EMAIL_FROM || "Let's Do Prenup <no-reply@letsdoprenup.com>",
+    // Captured messages are also written here as JSON files when set
+    captureDir: process.env.EMAIL_CAPTURE_DIR || '',
     host: process.env.EMAIL_HOST || '',
     port: parseInt(process.env.EMAIL_PORT || '587'),
     user: process.env.EMAIL_USER || '',
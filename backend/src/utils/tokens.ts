@@ -0,0 +1,9 @@
+import crypto from 'crypto';
+
+// Opaque secrets handed to users (invitation links and the like). Only the
+// hash is ever stored, so a leaked table does not leak usable tokens.
+
+export const generateToken = (): string => crypto.randomBytes(32).toString('hex');
+
+export const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
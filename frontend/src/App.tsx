@@ -4,6 +4,7 @@ import { QueryClient, QueryClientProvider } from 'react-query';
 import { Toaster } from 'react-hot-toast';
 
 import { AuthProvider, useAuth } from './hooks/useAuth';
+import { useRedirectParam } from './hooks/useRedirectParam';
 import Layout from './components/Layout';
 import HomePage from './pages/HomePage';
 import LoginPage from './pages/LoginPage';
@@ -12,6 +13,16 @@ import DashboardPage from './pages/DashboardPage';
 import CreatePrenupPage from './pages/CreatePrenupPage';
 import PrenupWizardPage from './pages/PrenupWizardPage';
 import PrenupDetailPage from './pages/PrenupDetailPage';
+import InvitePage from './pages/InvitePage';
+import CounselInvitePage from './pages/CounselInvitePage';
+import ForgotPasswordPage from './pages/ForgotPasswordPage';
+import ResetPasswordPage from './pages/ResetPasswordPage';
+import VerifyEmailPage from './pages/VerifyEmailPage';
+import UnlockAccountPage from './pages/UnlockAccountPage';
+import SecurityPage from './pages/SecurityPage';
+import AdminPage from './pages/AdminPage';
+import AdminUserPage from './pages/AdminUserPage';
+import AdminPrenupPage from './pages/AdminPrenupPage';
 import LoadingSpinner from './components/LoadingSpinner';
 
 import './styles/globals.css';
@@ -39,15 +50,26 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
   return <>{children}</>;
 }
 
+function AdminRoute({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+
+  return (
+    <ProtectedRoute>
+      {user?.role === 'ADMIN' ? children : <Navigate to="/dashboard" replace />}
+    </ProtectedRoute>
+  );
+}
+
 function PublicRoute({ children }: { children: React.ReactNode }) {
   const { isAuthenticated, isLoading } = useAuth();
+  const { redirectTo } = useRedirectParam();
 
   if (isLoading) {
     return <LoadingSpinner />;
   }
 
   if (isAuthenticated) {
-    return <Navigate to="/dashboard" replace />;
+    return <Navigate to={redirectTo || '/dashboard'} replace />;
   }
 
   return <>{children}</>;
@@ -74,6 +96,19 @@ function AppRoutes() {
             </PublicRoute>
           }
         />
+        <Route
+          path="forgot-password"
+          element={
+            <PublicRoute>
+              <ForgotPasswordPage />
+            </PublicRoute>
+          }
+        />
+        <Route path="reset-password" element={<ResetPasswordPage />} />
+        <Route path="verify-email" element={<VerifyEmailPage />} />
+        <Route path="unlock-account" element={<UnlockAccountPage />} />
+        <Route path="invite/:token" element={<InvitePage />} />
+        <Route path="counsel-invite/:token" element={<CounselInvitePage />} />
         <Route
           path="dashboard"
           element={
@@ -106,6 +141,38 @@ function AppRoutes() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="security"
+          element={
+            <ProtectedRoute>
+              <SecurityPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="admin"
+          element={
+            <AdminRoute>
+              <AdminPage />
+            </AdminRoute>
+          }
+        />
+        <Route
+          path="admin/users/:id"
+          element={
+            <AdminRoute>
+              <AdminUserPage />
+            </AdminRoute>
+          }
+        />
+        <Route
+          path="admin/prenups/:id"
+          element={
+            <AdminRoute>
+              <AdminPrenupPage />
+            </AdminRoute>
+          }
+        />
       </Route>
     </Routes>
   );
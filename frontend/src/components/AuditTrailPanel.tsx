@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { AuditExport } from '../types';
+
+interface AuditTrailPanelProps {
+  prenupId: string;
+  fetchTrail: () => Promise<AuditExport>;
+}
+
+// Saves the audit trail as a JSON file and shows whether its hash chain is intact
+const AuditTrailPanel: React.FC<AuditTrailPanelProps> = ({ prenupId, fetchTrail }) => {
+  const [isWorking, setIsWorking] = useState(false);
+  const [verification, setVerification] = useState<AuditExport['verification'] | null>(null);
+
+  const handleExport = async () => {
+    setIsWorking(true);
+    try {
+      const trail = await fetchTrail();
+      setVerification(trail.verification);
+
+      const blob = new Blob([JSON.stringify(trail, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `prenup-${prenupId}-audit.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to export audit trail');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Audit Trail</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Every change, view and signature, linked so that tampering can be detected.
+          </p>
+        </div>
+        <button onClick={handleExport} disabled={isWorking} className="btn btn-outline">
+          Export
+        </button>
+      </div>
+
+      {verification && (
+        verification.valid ? (
+          <p className="text-sm text-green-700 mt-4">
+            {verification.eventCount} events, chain verified. Last hash: <code className="break-all">{verification.lastHash}</code>
+          </p>
+        ) : (
+          <p className="text-sm text-red-700 mt-4">
+            Chain broken at event {verification.brokenAt}: {verification.reason}
+          </p>
+        )
+      )}
+    </div>
+  );
+};
+
+export default AuditTrailPanel;
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from 'react-query';
+import { formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
+import { apiService } from '../services/api';
+import { Prenup, PrenupComment } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+
+interface CommentsPanelProps {
+  prenup: Prenup;
+  canComment: boolean;
+}
+
+// Discussion between the parties and their counsel
+const CommentsPanel: React.FC<CommentsPanelProps> = ({ prenup, canComment }) => {
+  const queryClient = useQueryClient();
+  const [body, setBody] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const { data: comments, isLoading } = useQuery(['prenup-comments', prenup.id], async () => {
+    const response = await apiService.getComments(prenup.id);
+    return (response.data as any)?.comments as PrenupComment[];
+  });
+
+  const partyName = (partyId: string) => {
+    const party = partyId === prenup.createdBy ? prenup.creator : prenup.partner;
+    return party ? `${party.firstName} ${party.lastName}` : 'a party';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsWorking(true);
+    try {
+      await apiService.addComment(prenup.id, body);
+      setBody('');
+      queryClient.invalidateQueries(['prenup-comments', prenup.id]);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to add comment');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Comments</h3>
+
+      {isLoading ? (
+        <LoadingSpinner />
+      ) : !comments || comments.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">No comments yet.</p>
+      ) : (
+        <ul className="space-y-4 mb-6">
+          {comments.map((comment) => (
+            <li key={comment.id}>
+              <p className="text-sm">
+                <span className="font-medium text-gray-900">{comment.authorName}</span>
+                {comment.asCounselFor && (
+                  <span className="text-gray-500"> • counsel for {partyName(comment.asCounselFor)}</span>
+                )}
+                <span className="text-gray-400"> • {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}</span>
+              </p>
+              <p className="text-sm text-gray-700 whitespace-pre-line mt-1">{comment.body}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canComment && (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <textarea
+            className="input"
+            rows={3}
+            placeholder="Add a comment"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+          />
+          <button type="submit" disabled={isWorking || !body.trim()} className="btn btn-primary">
+            Comment
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default CommentsPanel;
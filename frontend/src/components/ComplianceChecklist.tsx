@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { useQuery } from 'react-query';
+import { CheckCircleIcon, DocumentTextIcon, QuestionMarkCircleIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { apiService } from '../services/api';
+import { ComplianceEvaluation, Prenup, RuleStatus } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+
+interface ComplianceChecklistProps {
+  prenup: Prenup;
+}
+
+const STATUS_ICONS: Record<RuleStatus, React.ReactNode> = {
+  pass: <CheckCircleIcon className="h-5 w-5 text-green-600" />,
+  fail: <XCircleIcon className="h-5 w-5 text-red-600" />,
+  unknown: <QuestionMarkCircleIcon className="h-5 w-5 text-yellow-600" />,
+};
+
+const SUMMARIES: Record<RuleStatus, string> = {
+  pass: 'Every required element is met.',
+  fail: 'Some required elements are not met yet.',
+  unknown: 'Some required elements need a person to review them.',
+};
+
+// Each of the state's requirements, checked against the prenup's record
+const ComplianceChecklist: React.FC<ComplianceChecklistProps> = ({ prenup }) => {
+  const { data: compliance, isLoading } = useQuery(
+    ['prenup-compliance', prenup.id, prenup.revision, prenup.status],
+    async () => {
+      const response = await apiService.getCompliance(prenup.id);
+      return (response.data as any)?.compliance as ComplianceEvaluation;
+    }
+  );
+  const [openingReport, setOpeningReport] = useState(false);
+
+  const openReport = async () => {
+    // Opened before the request so popup blockers allow it
+    const reportWindow = window.open('', '_blank');
+    setOpeningReport(true);
+    try {
+      const report = await apiService.getComplianceReportHtml(prenup.id);
+      const url = URL.createObjectURL(report);
+      if (reportWindow) {
+        reportWindow.location.href = url;
+      }
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (error: any) {
+      reportWindow?.close();
+      toast.error(error.message || 'Failed to generate the compliance report');
+    } finally {
+      setOpeningReport(false);
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-lg font-semibold text-gray-900">State Requirements</h3>
+        <button
+          type="button"
+          onClick={openReport}
+          disabled={openingReport}
+          className="btn btn-outline text-sm"
+        >
+          <DocumentTextIcon className="h-4 w-4 mr-1" />
+          Compliance report
+        </button>
+      </div>
+
+      {isLoading || !compliance ? (
+        <LoadingSpinner />
+      ) : (
+        <>
+          <p className="text-sm text-gray-600">{SUMMARIES[compliance.status]}</p>
+          <p className="text-xs text-gray-500 mb-4">
+            Checked against law version {compliance.lawVersion}, in effect from {compliance.effectiveFrom}
+          </p>
+          <ul className="divide-y divide-gray-200">
+            {compliance.requirements.map((requirement) => (
+              <li key={requirement.name} className="py-3 flex items-start space-x-3">
+                <span className="mt-0.5">{STATUS_ICONS[requirement.status]}</span>
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {requirement.name}
+                    {!requirement.required && <span className="text-gray-500 font-normal"> (recommended)</span>}
+                  </p>
+                  {requirement.citation && <p className="text-xs text-gray-500">{requirement.citation}</p>}
+                  <ul className="mt-1 space-y-0.5">
+                    {requirement.evidence.map((line) => (
+                      <li key={line} className="text-xs text-gray-600">{line}</li>
+                    ))}
+                  </ul>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ComplianceChecklist;
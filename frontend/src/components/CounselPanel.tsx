@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from 'react-query';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { CheckBadgeIcon } from '@heroicons/react/24/outline';
+import { apiService } from '../services/api';
+import { CounselAppointment, Prenup } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+
+interface CounselPanelProps {
+  prenup: Prenup;
+  userId?: string;
+}
+
+const isOpen = (appointment: CounselAppointment) =>
+  appointment.status === 'ACTIVE' ||
+  (appointment.status === 'INVITED' && !!appointment.expiresAt && new Date(appointment.expiresAt) > new Date());
+
+// Independent counsel of each party. Parties appoint and dismiss their own
+// counsel; counsel approve the agreement or withdraw.
+const CounselPanel: React.FC<CounselPanelProps> = ({ prenup, userId }) => {
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState('');
+  const [note, setNote] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const { data: appointments, isLoading } = useQuery(['prenup-counsel', prenup.id], async () => {
+    const response = await apiService.getCounsel(prenup.id);
+    return (response.data as any)?.counsel as CounselAppointment[];
+  });
+
+  const run = async (action: () => Promise<any>, success: string) => {
+    setIsWorking(true);
+    try {
+      const response = await action();
+      toast.success(response.message || success);
+      queryClient.invalidateQueries(['prenup-counsel', prenup.id]);
+      queryClient.invalidateQueries(['prenup-participants', prenup.id]);
+      return true;
+    } catch (error: any) {
+      toast.error(error.message || 'Something went wrong');
+      return false;
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await run(() => apiService.inviteCounsel(prenup.id, email), 'Counsel invited')) {
+      setEmail('');
+    }
+  };
+
+  const handleApprove = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await run(() => apiService.approveAsCounsel(prenup.id, note || undefined), 'Agreement approved')) {
+      setNote('');
+    }
+  };
+
+  const parties = [
+    { id: prenup.createdBy, user: prenup.creator },
+    ...(prenup.partnerId ? [{ id: prenup.partnerId, user: prenup.partner }] : []),
+  ];
+  const open = appointments?.filter(isOpen) || [];
+  const myAppointment = open.find((appointment) => appointment.status === 'ACTIVE' && appointment.userId === userId);
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">Independent Counsel</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Each party may appoint their own attorney to review the agreement and their disclosure.
+      </p>
+
+      {isLoading ? (
+        <LoadingSpinner />
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {parties.map((party) => {
+            const appointment = open.find((item) => item.representing === party.id);
+            const isMine = party.id === userId;
+            const partyName = party.user ? `${party.user.firstName} ${party.user.lastName}` : 'Party';
+
+            return (
+              <li key={party.id} className="py-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {partyName}
+                      {isMine && ' (you)'}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {!appointment
+                        ? 'Not represented'
+                        : appointment.status === 'INVITED'
+                          ? `Invited ${appointment.email} • Expires ${format(new Date(appointment.expiresAt!), 'MMM d, yyyy')}`
+                          : `Counsel: ${appointment.userName || appointment.email}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    {appointment?.approval && (
+                      <span className="inline-flex items-center text-xs font-medium text-green-700">
+                        <CheckBadgeIcon className="h-4 w-4 mr-1" />
+                        Approved {format(new Date(appointment.approval.approvedAt), 'MMM d, yyyy')}
+                      </span>
+                    )}
+                    {appointment && (isMine || appointment.id === myAppointment?.id) && (
+                      <button
+                        onClick={() => run(() => apiService.removeCounsel(prenup.id, appointment.id), 'Counsel removed')}
+                        disabled={isWorking}
+                        className="text-sm font-medium text-red-600 hover:text-red-500"
+                      >
+                        {isMine ? 'Remove' : 'Withdraw'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {appointment?.approval?.note && (
+                  <p className="text-sm text-gray-600 italic">“{appointment.approval.note}”</p>
+                )}
+                {isMine && !appointment && (
+                  <form onSubmit={handleInvite} className="flex space-x-3">
+                    <input
+                      type="email"
+                      required
+                      className="input flex-1"
+                      placeholder="Your attorney's email address"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                    />
+                    <button type="submit" disabled={isWorking || !email} className="btn btn-primary">
+                      Invite
+                    </button>
+                  </form>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {myAppointment && prenup.status === 'READY_FOR_REVIEW' && (
+        <form onSubmit={handleApprove} className="mt-4 border-t border-gray-200 pt-4 space-y-3">
+          <textarea
+            className="input"
+            rows={2}
+            placeholder="Note to your client (optional)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <button type="submit" disabled={isWorking} className="btn btn-primary">
+            {myAppointment.approval ? 'Approve again' : 'Approve agreement'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default CounselPanel;
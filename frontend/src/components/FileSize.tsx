@@ -0,0 +1,17 @@
+import React from 'react';
+
+const UNITS = ['B', 'KB', 'MB', 'GB'];
+
+// A byte count in the largest unit that keeps it above one
+const FileSize: React.FC<{ bytes: number }> = ({ bytes }) => {
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < UNITS.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+
+  return <>{unit === 0 ? size : size.toFixed(1)} {UNITS[unit]}</>;
+};
+
+export default FileSize;
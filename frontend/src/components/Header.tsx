@@ -7,7 +7,9 @@ import {
   ChevronDownIcon,
   DocumentTextIcon,
   HomeIcon,
-  ArrowRightOnRectangleIcon
+  ArrowRightOnRectangleIcon,
+  ShieldCheckIcon,
+  WrenchScrewdriverIcon
 } from '@heroicons/react/24/outline';
 import { useAuth } from '../hooks/useAuth';
 import clsx from 'clsx';
@@ -107,6 +109,36 @@ const Header: React.FC = () => {
                           </Link>
                         )}
                       </Menu.Item>
+                      <Menu.Item>
+                        {({ active }) => (
+                          <Link
+                            to="/security"
+                            className={clsx(
+                              active ? 'bg-gray-100' : '',
+                              'flex items-center px-4 py-2 text-sm text-gray-700'
+                            )}
+                          >
+                            <ShieldCheckIcon className="mr-3 h-4 w-4" />
+                            Security
+                          </Link>
+                        )}
+                      </Menu.Item>
+                      {user.role === 'ADMIN' && (
+                        <Menu.Item>
+                          {({ active }) => (
+                            <Link
+                              to="/admin"
+                              className={clsx(
+                                active ? 'bg-gray-100' : '',
+                                'flex items-center px-4 py-2 text-sm text-gray-700'
+                              )}
+                            >
+                              <WrenchScrewdriverIcon className="mr-3 h-4 w-4" />
+                              Admin
+                            </Link>
+                          )}
+                        </Menu.Item>
+                      )}
                       <Menu.Item>
                         {({ active }) => (
                           <button
@@ -174,6 +206,19 @@ const Header: React.FC = () => {
                             </Link>
                           )}
                         </Menu.Item>
+                        <Menu.Item>
+                          {({ active }) => (
+                            <Link
+                              to="/security"
+                              className={clsx(
+                                active ? 'bg-gray-100' : '',
+                                'block px-4 py-2 text-sm text-gray-700'
+                              )}
+                            >
+                              Security
+                            </Link>
+                          )}
+                        </Menu.Item>
                         <Menu.Item>
                           {({ active }) => (
                             <button
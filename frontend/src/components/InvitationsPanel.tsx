@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from 'react-query';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { apiService } from '../services/api';
+import { PartnerInvitation, Prenup } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+
+interface InvitationsPanelProps {
+  prenup: Prenup;
+}
+
+const statusStyles: Record<PartnerInvitation['status'], string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  ACCEPTED: 'bg-green-100 text-green-800',
+  EXPIRED: 'bg-gray-100 text-gray-700',
+  CANCELLED: 'bg-red-100 text-red-800',
+};
+
+// Partner invitations of a prenup, for its creator
+const InvitationsPanel: React.FC<InvitationsPanelProps> = ({ prenup }) => {
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState('');
+  const [allowAnyEmail, setAllowAnyEmail] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const { data: invitations, isLoading } = useQuery(['prenup-invitations', prenup.id], async () => {
+    const response = await apiService.getPrenupInvitations(prenup.id);
+    return (response.data as any)?.invitations as PartnerInvitation[];
+  });
+
+  const run = async (action: () => Promise<any>, success: string) => {
+    setIsWorking(true);
+    try {
+      const response = await action();
+      toast.success(response.message || success);
+      queryClient.invalidateQueries(['prenup-invitations', prenup.id]);
+      queryClient.invalidateQueries(['prenup', prenup.id]);
+      return true;
+    } catch (error: any) {
+      toast.error(error.message || 'Something went wrong');
+      return false;
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await run(() => apiService.invitePartner(prenup.id, email, allowAnyEmail), 'Invitation sent')) {
+      setEmail('');
+      setAllowAnyEmail(false);
+    }
+  };
+
+  const canManage = (invitation: PartnerInvitation) =>
+    !prenup.partnerId && (invitation.status === 'PENDING' || invitation.status === 'EXPIRED');
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Partner Invitations</h3>
+
+      {!prenup.partnerId && (
+        <form onSubmit={handleInvite} className="mb-6 space-y-2">
+          <div className="flex space-x-3">
+            <input
+              type="email"
+              required
+              className="input flex-1"
+              placeholder="Partner's email address"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+            <button type="submit" disabled={isWorking || !email} className="btn btn-primary">
+              Invite
+            </button>
+          </div>
+          <label className="flex items-center text-sm text-gray-600">
+            <input
+              type="checkbox"
+              className="h-4 w-4 text-primary-600 border-gray-300 rounded mr-2"
+              checked={allowAnyEmail}
+              onChange={(e) => setAllowAnyEmail(e.target.checked)}
+            />
+            Let my partner accept with a different email address
+          </label>
+        </form>
+      )}
+
+      {isLoading ? (
+        <LoadingSpinner />
+      ) : !invitations || invitations.length === 0 ? (
+        <p className="text-sm text-gray-500">No invitations sent yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {invitations.map((invitation) => (
+            <li key={invitation.id} className="py-3 flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{invitation.email}</p>
+                <p className="text-xs text-gray-500">
+                  Sent {format(new Date(invitation.createdAt), 'MMM d, yyyy')} •{' '}
+                  {invitation.acceptedAt
+                    ? `Accepted ${format(new Date(invitation.acceptedAt), 'MMM d, yyyy')}`
+                    : `Expires ${format(new Date(invitation.expiresAt), 'MMM d, yyyy')}`}
+                  {invitation.allowAnyEmail && ' • Any email'}
+                </p>
+              </div>
+              <div className="flex items-center space-x-3">
+                <span className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[invitation.status]}`}>
+                  {invitation.status.toLowerCase()}
+                </span>
+                {canManage(invitation) && (
+                  <>
+                    <button
+                      onClick={() => run(() => apiService.resendInvitation(prenup.id, invitation.id), 'Invitation resent')}
+                      disabled={isWorking}
+                      className="text-sm font-medium text-primary-600 hover:text-primary-500"
+                    >
+                      Resend
+                    </button>
+                    <button
+                      onClick={() => run(() => apiService.revokeInvitation(prenup.id, invitation.id), 'Invitation revoked')}
+                      disabled={isWorking}
+                      className="text-sm font-medium text-red-600 hover:text-red-500"
+                    >
+                      Revoke
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default InvitationsPanel;
@@ -2,11 +2,13 @@ import React from 'react';
 import { Outlet } from 'react-router-dom';
 import Header from './Header';
 import Footer from './Footer';
+import VerifyEmailBanner from './VerifyEmailBanner';
 
 const Layout: React.FC = () => {
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col">
       <Header />
+      <VerifyEmailBanner />
       <main className="flex-1">
         <Outlet />
       </main>
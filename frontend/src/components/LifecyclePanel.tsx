@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from 'react-query';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { apiService } from '../services/api';
+import { AvailableTransition, Prenup, Signature } from '../types';
+import { usePresentations } from '../hooks/usePresentations';
+import LoadingSpinner from './LoadingSpinner';
+
+interface LifecyclePanelProps {
+  prenup: Prenup;
+  userId?: string;
+  // Counsel see the status and signatures but cannot act on them
+  readOnly?: boolean;
+  // Counsel vouch for the notarization the parties cannot attest themselves
+  canRecordNotarization?: boolean;
+}
+
+const formatStatus = (status: string) =>
+  status.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, (l) => l.toUpperCase());
+
+const LifecyclePanel: React.FC<LifecyclePanelProps> = ({
+  prenup,
+  userId,
+  readOnly = false,
+  canRecordNotarization = false,
+}) => {
+  const queryClient = useQueryClient();
+  const [isWorking, setIsWorking] = useState(false);
+  const [notarization, setNotarization] = useState({ notaryName: '', commissionNumber: '', notarizedAt: '' });
+
+  const { data: transitions, isLoading } = useQuery(['prenup-transitions', prenup.id, prenup.status], async () => {
+    const response = await apiService.getPrenupTransitions(prenup.id);
+    return (response.data as any)?.transitions as AvailableTransition[];
+  });
+
+  const { data: signatures } = useQuery(
+    ['prenup-signatures', prenup.id, prenup.status],
+    async () => {
+      const response = await apiService.getSignatures(prenup.id);
+      return (response.data as any)?.signatures as Signature[];
+    },
+    { enabled: prenup.status === 'PENDING_SIGNATURES' }
+  );
+
+  const { data: presentations } = usePresentations(prenup);
+
+  const refresh = () => {
+    queryClient.invalidateQueries(['prenup', prenup.id]);
+    queryClient.invalidateQueries(['prenup-transitions', prenup.id]);
+    queryClient.invalidateQueries(['prenup-signatures', prenup.id]);
+    queryClient.invalidateQueries(['prenup-presentations', prenup.id]);
+  };
+
+  // Execution waits on a notarization that can be checked: the parties upload
+  // the notarized copy, or counsel record the notary's details
+  const needsNotarization = (transition: AvailableTransition) =>
+    transition.unmet.some((item) => item.precondition === 'NOTARIZED');
+  const notarizationComplete = !!notarization.notaryName && !!notarization.notarizedAt;
+
+  const handleTransition = async (transition: AvailableTransition) => {
+    setIsWorking(true);
+    try {
+      await apiService.transitionPrenup(prenup.id, transition.to);
+      toast.success(`Prenup moved to ${formatStatus(transition.to)}`);
+      refresh();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update status');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleUploadNotarizedCopy = async (file: File) => {
+    setIsWorking(true);
+    try {
+      await apiService.uploadDocument(prenup.id, file, 'NOTARIZED_AGREEMENT');
+      toast.success('Notarized copy uploaded');
+      refresh();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to upload the notarized copy');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRecordNotarization = async () => {
+    setIsWorking(true);
+    try {
+      await apiService.recordNotarization(prenup.id, {
+        notaryName: notarization.notaryName,
+        commissionNumber: notarization.commissionNumber || undefined,
+        notarizedAt: new Date(notarization.notarizedAt).toISOString(),
+      });
+      toast.success('Notarization recorded');
+      refresh();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to record the notarization');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSign = async () => {
+    setIsWorking(true);
+    try {
+      await apiService.signPrenup(prenup.id);
+      toast.success('Prenup signed');
+      refresh();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to sign prenup');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Only a signature on the text as it stands counts
+  const currentSignatures = signatures?.filter(
+    (signature) => signature.status === 'SIGNED' && signature.contentHash === presentations?.contentHash
+  );
+  const hasSigned = currentSignatures?.some((signature) => signature.userId === userId);
+  // The server refuses a signature until the signer's waiting period has run
+  const ownClock = presentations?.clocks.find((clock) => clock.userId && clock.userId === userId);
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">Status: {formatStatus(prenup.status)}</h3>
+      <p className="text-sm text-gray-600 mb-4">Move the agreement forward once each step's requirements are met.</p>
+
+      {isLoading ? (
+        <LoadingSpinner />
+      ) : !transitions || transitions.length === 0 ? (
+        <p className="text-sm text-gray-500">No further status changes are possible.</p>
+      ) : (
+        <ul className="space-y-4">
+          {transitions.map((transition) => {
+            const canSubmit = transition.allowed;
+
+            return (
+              <li key={transition.to} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    {transition.allowed ? (
+                      <CheckCircleIcon className="h-5 w-5 text-green-600 mr-2" />
+                    ) : (
+                      <ExclamationTriangleIcon className="h-5 w-5 text-yellow-500 mr-2" />
+                    )}
+                    <span className="font-medium text-gray-900">{formatStatus(transition.to)}</span>
+                  </div>
+                  {!readOnly && (
+                    <button
+                      onClick={() => handleTransition(transition)}
+                      disabled={!canSubmit || isWorking}
+                      className={`btn btn-primary ${!canSubmit || isWorking ? 'opacity-50 cursor-not-allowed' : ''}`}
+                    >
+                      Move to {formatStatus(transition.to)}
+                    </button>
+                  )}
+                </div>
+
+                {transition.unmet.length > 0 && (
+                  <ul className="mt-2 ml-7 list-disc text-sm text-gray-600">
+                    {transition.unmet.map((item) => (
+                      <li key={item.precondition}>{item.message}</li>
+                    ))}
+                  </ul>
+                )}
+
+                {!readOnly && needsNotarization(transition) && (
+                  <label className="mt-4 ml-7 block text-sm text-gray-700">
+                    Upload the notarized copy
+                    <input
+                      type="file"
+                      className="mt-1 block"
+                      disabled={isWorking}
+                      onChange={(e) => e.target.files?.[0] && handleUploadNotarizedCopy(e.target.files[0])}
+                    />
+                  </label>
+                )}
+
+                {canRecordNotarization && needsNotarization(transition) && (
+                  <div className="mt-4 ml-7 grid grid-cols-1 md:grid-cols-4 gap-3">
+                    <input
+                      className="input"
+                      placeholder="Notary name"
+                      value={notarization.notaryName}
+                      onChange={(e) => setNotarization((prev) => ({ ...prev, notaryName: e.target.value }))}
+                    />
+                    <input
+                      className="input"
+                      placeholder="Commission number"
+                      value={notarization.commissionNumber}
+                      onChange={(e) => setNotarization((prev) => ({ ...prev, commissionNumber: e.target.value }))}
+                    />
+                    <input
+                      className="input"
+                      type="date"
+                      value={notarization.notarizedAt}
+                      onChange={(e) => setNotarization((prev) => ({ ...prev, notarizedAt: e.target.value }))}
+                    />
+                    <button
+                      onClick={handleRecordNotarization}
+                      disabled={!notarizationComplete || isWorking}
+                      className={`btn btn-primary ${!notarizationComplete || isWorking ? 'opacity-50 cursor-not-allowed' : ''}`}
+                    >
+                      Record notarization
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {prenup.status === 'PENDING_SIGNATURES' && (
+        <div className="mt-6 flex items-center justify-between border-t border-gray-200 pt-4">
+          <p className="text-sm text-gray-600">
+            {currentSignatures?.length || 0} of 2 signatures collected
+          </p>
+          {readOnly ? (
+            <span className="text-sm text-gray-500">Only the parties can sign</span>
+          ) : hasSigned ? (
+            <span className="text-sm font-medium text-green-600">You have signed</span>
+          ) : ownClock && !ownClock.elapsed ? (
+            <span className="text-sm text-gray-500">
+              {ownClock.availableAt
+                ? `You can sign from ${format(new Date(ownClock.availableAt), 'MMM d, yyyy h:mm a')}`
+                : 'Acknowledge receipt of the final agreement before signing'}
+            </span>
+          ) : (
+            <button onClick={handleSign} disabled={isWorking} className="btn btn-primary">
+              Sign Agreement
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LifecyclePanel;
@@ -0,0 +1,115 @@
+import React, { Fragment } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { Prenup } from '../types';
+
+interface MergeConflictDialogProps {
+  open: boolean;
+  mine: Partial<Prenup>;
+  theirs?: Prenup;
+  onKeepMine: () => void;
+  onUseTheirs: () => void;
+}
+
+interface ConflictingField {
+  label: string;
+  mine: any;
+  theirs: any;
+}
+
+const formatValue = (value: any): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+};
+
+const differs = (a: any, b: any) => JSON.stringify(a) !== JSON.stringify(b);
+
+// Fields of the unsaved edit that disagree with the latest saved prenup
+const conflictingFields = (mine: Partial<Prenup>, theirs: Prenup): ConflictingField[] => {
+  const fields: ConflictingField[] = [];
+
+  if (mine.title !== undefined && differs(mine.title, theirs.title)) {
+    fields.push({ label: 'Title', mine: mine.title, theirs: theirs.title });
+  }
+
+  Object.entries(mine.content || {}).forEach(([key, value]) => {
+    if (differs(value, theirs.content?.[key])) {
+      fields.push({ label: key, mine: value, theirs: theirs.content?.[key] });
+    }
+  });
+
+  return fields;
+};
+
+const MergeConflictDialog: React.FC<MergeConflictDialogProps> = ({ open, mine, theirs, onKeepMine, onUseTheirs }) => {
+  const fields = theirs ? conflictingFields(mine, theirs) : [];
+
+  return (
+    <Transition appear show={open} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={() => undefined}>
+        <div className="fixed inset-0 bg-black/30" />
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <Dialog.Panel className="w-full max-w-2xl rounded-xl bg-white p-6 shadow-xl">
+              <div className="flex items-start mb-4">
+                <ExclamationTriangleIcon className="h-6 w-6 text-yellow-500 mr-3 flex-shrink-0" />
+                <div>
+                  <Dialog.Title className="text-lg font-semibold text-gray-900">
+                    This prenup was changed while you were editing
+                  </Dialog.Title>
+                  <p className="text-sm text-gray-600 mt-1">
+                    Your changes were not saved. Choose which version to keep.
+                  </p>
+                </div>
+              </div>
+
+              {fields.length > 0 ? (
+                <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left font-medium text-gray-700">Field</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-700">Your version</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-700">Saved version</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {fields.map((field) => (
+                        <tr key={field.label}>
+                          <td className="px-4 py-2 font-medium text-gray-900 align-top">{field.label}</td>
+                          <td className="px-4 py-2 font-mono whitespace-pre-wrap text-green-700 align-top">
+                            {formatValue(field.mine)}
+                          </td>
+                          <td className="px-4 py-2 font-mono whitespace-pre-wrap text-red-700 align-top">
+                            {formatValue(field.theirs)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-600">
+                  The other edit did not touch the fields you changed, so keeping your changes is safe.
+                </p>
+              )}
+
+              <div className="flex justify-end space-x-3 mt-6">
+                <button onClick={onUseTheirs} className="btn btn-outline">
+                  Use saved version
+                </button>
+                <button onClick={onKeepMine} className="btn btn-primary">
+                  Keep my changes
+                </button>
+              </div>
+            </Dialog.Panel>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+};
+
+export default MergeConflictDialog;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { useQueryClient } from 'react-query';
+import toast from 'react-hot-toast';
+import { apiService } from '../services/api';
+import { ParticipantRole, Prenup, PrenupParticipant } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+
+interface ParticipantsPanelProps {
+  prenup: Prenup;
+  participants?: PrenupParticipant[];
+  userId?: string;
+  canManage: boolean;
+}
+
+const roleLabels: Record<ParticipantRole, string> = {
+  PARTY_A: 'Party',
+  PARTY_B: 'Party',
+  COUNSEL: 'Counsel',
+  NOTARY: 'Notary',
+  WITNESS: 'Witness',
+  VIEWER: 'Viewer',
+};
+
+// Roles the parties add directly; partners and counsel join by invitation
+const addableRoles: ParticipantRole[] = ['NOTARY', 'WITNESS', 'VIEWER'];
+
+// Everyone taking part in a prenup. Parties add and remove notaries,
+// witnesses and viewers, who can read the prenup but not change it.
+const ParticipantsPanel: React.FC<ParticipantsPanelProps> = ({ prenup, participants, userId, canManage }) => {
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<ParticipantRole>('VIEWER');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const run = async (action: () => Promise<any>, success: string) => {
+    setIsWorking(true);
+    try {
+      const response = await action();
+      toast.success(response.message || success);
+      queryClient.invalidateQueries(['prenup-participants', prenup.id]);
+      return true;
+    } catch (error: any) {
+      toast.error(error.message || 'Something went wrong');
+      return false;
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await run(() => apiService.addParticipant(prenup.id, email, role), 'Participant added')) {
+      setEmail('');
+    }
+  };
+
+  const active = participants?.filter((participant) => participant.status === 'ACTIVE') || [];
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Participants</h3>
+
+      {!participants ? (
+        <LoadingSpinner />
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {active.map((participant) => (
+            <li key={participant.id} className="py-3 flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {participant.userName || participant.email}
+                  {participant.userId === userId && ' (you)'}
+                </p>
+                <p className="text-xs text-gray-500">{roleLabels[participant.role]}</p>
+              </div>
+              {canManage && addableRoles.includes(participant.role) && (
+                <button
+                  onClick={() => run(() => apiService.removeParticipant(prenup.id, participant.id), 'Participant removed')}
+                  disabled={isWorking}
+                  className="text-sm font-medium text-red-600 hover:text-red-500"
+                >
+                  Remove
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canManage && (
+        <form onSubmit={handleAdd} className="mt-4 flex space-x-3">
+          <input
+            type="email"
+            required
+            className="input flex-1"
+            placeholder="Email of their account"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+          <select
+            className="input w-36"
+            value={role}
+            onChange={(e) => setRole(e.target.value as ParticipantRole)}
+          >
+            {addableRoles.map((addable) => (
+              <option key={addable} value={addable}>{roleLabels[addable]}</option>
+            ))}
+          </select>
+          <button type="submit" disabled={isWorking || !email} className="btn btn-primary">
+            Add
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default ParticipantsPanel;
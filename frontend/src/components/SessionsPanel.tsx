@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from 'react-query';
+import { formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
+import { ComputerDesktopIcon } from '@heroicons/react/24/outline';
+import { apiService } from '../services/api';
+import { useAuth } from '../hooks/useAuth';
+import { Session } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+
+// Devices signed in to the account, each of which can be signed out
+const SessionsPanel: React.FC = () => {
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const { logout } = useAuth();
+  const [isWorking, setIsWorking] = useState(false);
+
+  const { data: sessions, isLoading } = useQuery('sessions', async () => {
+    const response = await apiService.getSessions();
+    return (response.data as any)?.sessions as Session[];
+  });
+
+  const run = async (action: () => Promise<any>, success: string) => {
+    setIsWorking(true);
+    try {
+      const response = await action();
+      toast.success(response.message || success);
+      queryClient.invalidateQueries('sessions');
+    } catch (error: any) {
+      toast.error(error.message || 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRevoke = async (session: Session) => {
+    if (session.current) {
+      logout();
+      navigate('/login');
+      return;
+    }
+    await run(() => apiService.revokeSession(session.id), 'Session signed out');
+  };
+
+  const otherSessions = sessions?.filter((session) => !session.current) || [];
+
+  return (
+    <div className="card p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Where you're signed in</h2>
+          <p className="text-sm text-gray-600">
+            Sign out any device you don't recognize, then change your password.
+          </p>
+        </div>
+        {otherSessions.length > 0 && (
+          <button
+            onClick={() => run(() => apiService.revokeOtherSessions(), 'Signed out of all other sessions')}
+            disabled={isWorking}
+            className="btn btn-outline text-sm"
+          >
+            Sign out all others
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <LoadingSpinner />
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {sessions?.map((session) => (
+            <li key={session.id} className="flex items-center justify-between py-3">
+              <div className="flex items-center space-x-3">
+                <ComputerDesktopIcon className="h-6 w-6 text-gray-400" />
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {session.device}
+                    {session.current && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800">
+                        This device
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {session.ipAddress || 'Unknown location'} · active{' '}
+                    {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={() => handleRevoke(session)}
+                disabled={isWorking}
+                className="text-sm text-red-600 hover:text-red-800"
+              >
+                Sign out
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SessionsPanel;
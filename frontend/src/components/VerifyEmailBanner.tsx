@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { apiService } from '../services/api';
+import { useAuth } from '../hooks/useAuth';
+
+// Reminds signed-in users to confirm their email address
+const VerifyEmailBanner: React.FC = () => {
+  const { user, isAuthenticated } = useAuth();
+  const [isSending, setIsSending] = useState(false);
+
+  if (!isAuthenticated || !user || user.emailVerified) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    setIsSending(true);
+    try {
+      await apiService.requestEmailVerification();
+      toast.success(`Verification email sent to ${user.email}`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to send verification email');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-yellow-50 border-b border-yellow-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between text-sm">
+        <p className="text-yellow-800">
+          Please confirm your email address. Until you do, partners can only reach you through an invitation link.
+        </p>
+        <button
+          onClick={handleResend}
+          disabled={isSending}
+          className="font-medium text-yellow-900 underline hover:text-yellow-700"
+        >
+          Resend email
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmailBanner;
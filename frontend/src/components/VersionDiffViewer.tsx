@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery } from 'react-query';
+import { format } from 'date-fns';
+import { FieldChange, VersionDiff, VersionSummary } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+
+interface VersionDiffViewerProps {
+  title: string;
+  queryKey: string;
+  fetchVersions: () => Promise<VersionSummary[]>;
+  fetchDiff: (from: string, to: string) => Promise<VersionDiff>;
+}
+
+const formatValue = (value: any): string => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+};
+
+const formatPath = (path: string) =>
+  path.replace(/\[(\d+)\]/g, (_, index) => ` #${Number(index) + 1}`).replace(/\./g, ' › ');
+
+const versionLabel = (version: VersionSummary) => {
+  const name = version.isCurrent ? 'Current' : version.version;
+  const editor = version.updatedByEmail ? ` by ${version.updatedByEmail}` : '';
+  return `${name} — ${format(new Date(version.updatedAt), 'MMM d, yyyy h:mm a')}${editor}`;
+};
+
+const Removed: React.FC<{ value: any }> = ({ value }) => (
+  <del className="block whitespace-pre-wrap rounded bg-red-50 px-2 py-1 text-red-700">
+    {formatValue(value)}
+  </del>
+);
+
+const Added: React.FC<{ value: any }> = ({ value }) => (
+  <ins className="block whitespace-pre-wrap rounded bg-green-50 px-2 py-1 text-green-700 no-underline">
+    {formatValue(value)}
+  </ins>
+);
+
+const ChangeRow: React.FC<{ change: FieldChange; kind: 'added' | 'removed' | 'changed' }> = ({ change, kind }) => (
+  <li className="py-3">
+    <p className="text-sm font-medium text-gray-900 mb-1">{formatPath(change.path)}</p>
+    <div className="space-y-1 text-sm font-mono">
+      {kind !== 'added' && <Removed value={change.oldValue} />}
+      {kind !== 'removed' && <Added value={change.newValue} />}
+    </div>
+  </li>
+);
+
+const VersionDiffViewer: React.FC<VersionDiffViewerProps> = ({ title, queryKey, fetchVersions, fetchDiff }) => {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('V0');
+
+  const { data: versions, isLoading } = useQuery([queryKey, 'versions'], fetchVersions);
+
+  // Default to comparing the most recent archived version with the current one
+  useEffect(() => {
+    if (!from && versions && versions.length > 1) {
+      setFrom(versions[1].version);
+    }
+  }, [versions, from]);
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery(
+    [queryKey, 'diff', from, to],
+    () => fetchDiff(from, to),
+    { enabled: !!from && from !== to }
+  );
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  const changeCount = diff ? diff.added.length + diff.removed.length + diff.changed.length : 0;
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">{title}</h3>
+
+      {!versions || versions.length < 2 ? (
+        <p className="text-sm text-gray-600">No earlier versions yet.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            <div className="form-group">
+              <label className="form-label">Compare</label>
+              <select className="input" value={from} onChange={(e) => setFrom(e.target.value)}>
+                {versions.map((version) => (
+                  <option key={version.version} value={version.version}>{versionLabel(version)}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label className="form-label">With</label>
+              <select className="input" value={to} onChange={(e) => setTo(e.target.value)}>
+                {versions.map((version) => (
+                  <option key={version.version} value={version.version}>{versionLabel(version)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {isDiffLoading ? (
+            <LoadingSpinner />
+          ) : from === to || changeCount === 0 ? (
+            <p className="text-sm text-gray-600">No differences between these versions.</p>
+          ) : diff && (
+            <ul className="divide-y divide-gray-200">
+              {diff.changed.map((change) => <ChangeRow key={`changed-${change.path}`} change={change} kind="changed" />)}
+              {diff.added.map((change) => <ChangeRow key={`added-${change.path}`} change={change} kind="added" />)}
+              {diff.removed.map((change) => <ChangeRow key={`removed-${change.path}`} change={change} kind="removed" />)}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VersionDiffViewer;
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { useQueryClient } from 'react-query';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { CheckCircleIcon, ClockIcon } from '@heroicons/react/24/outline';
+import { apiService } from '../services/api';
+import { Prenup, WaitingClock } from '../types';
+import { usePresentations } from '../hooks/usePresentations';
+import LoadingSpinner from './LoadingSpinner';
+
+interface WaitingPeriodPanelProps {
+  prenup: Prenup;
+  userId?: string;
+  // Only the parties receive the agreement to sign
+  readOnly?: boolean;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const formatRemaining = (ms: number) => {
+  const minutes = Math.max(0, Math.ceil(ms / MINUTE_MS));
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  return `${days}d ${hours}h ${minutes % 60}m`;
+};
+
+// Time left until `until`, ticking every minute; refreshes the waiting
+// clocks and transitions once it runs out
+const Countdown: React.FC<{ prenupId: string; until: string }> = ({ prenupId, until }) => {
+  const queryClient = useQueryClient();
+  const [now, setNow] = useState(Date.now());
+  const remaining = new Date(until).getTime() - now;
+  const expired = remaining <= 0;
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), MINUTE_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (expired) {
+      queryClient.invalidateQueries(['prenup-presentations', prenupId]);
+      queryClient.invalidateQueries(['prenup-transitions', prenupId]);
+    }
+  }, [expired, prenupId, queryClient]);
+
+  return <span className="font-mono">{formatRemaining(remaining)}</span>;
+};
+
+// When each party received the final text, and the countdown until they
+// may sign it
+const WaitingPeriodPanel: React.FC<WaitingPeriodPanelProps> = ({ prenup, userId, readOnly = false }) => {
+  const queryClient = useQueryClient();
+  const [isWorking, setIsWorking] = useState(false);
+  const { data: status, isLoading } = usePresentations(prenup);
+
+  if (prenup.status !== 'READY_FOR_REVIEW' && prenup.status !== 'PENDING_SIGNATURES') {
+    return null;
+  }
+
+  const partyName = (clock: WaitingClock, index: number) => {
+    if (clock.userId && clock.userId === userId) return 'You';
+    const party = index === 0 ? prenup.creator : prenup.partner;
+    return party ? `${party.firstName} ${party.lastName}` : 'Your partner';
+  };
+
+  const ownClock = status?.clocks.find((clock) => clock.userId && clock.userId === userId);
+
+  const handleAcknowledge = async () => {
+    if (!status) return;
+    setIsWorking(true);
+    try {
+      await apiService.acknowledgePresentation(prenup.id, status.contentHash);
+      toast.success('Receipt recorded');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to record receipt');
+    } finally {
+      // A 409 means the text changed; refetching shows the new version
+      queryClient.invalidateQueries(['prenup-presentations', prenup.id]);
+      queryClient.invalidateQueries(['prenup-transitions', prenup.id]);
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">Waiting Period</h3>
+
+      {isLoading || !status ? (
+        <LoadingSpinner />
+      ) : (
+        <>
+          <p className="text-sm text-gray-600 mb-4">
+            {status.waitingPeriodDays > 0
+              ? `Each party must have the final agreement for ${status.waitingPeriodDays} days before signing it. The period starts again if the agreement or a disclosure changes.`
+              : 'No waiting period applies; receipt of the final agreement is still recorded.'}
+          </p>
+
+          <ul className="divide-y divide-gray-200">
+            {status.clocks.map((clock, index) => (
+              <li key={index} className="py-3 flex items-start space-x-3">
+                {clock.elapsed ? (
+                  <CheckCircleIcon className="h-5 w-5 text-green-600 mt-0.5" />
+                ) : (
+                  <ClockIcon className="h-5 w-5 text-yellow-500 mt-0.5" />
+                )}
+                <div className="text-sm">
+                  <p className="font-medium text-gray-900">{partyName(clock, index)}</p>
+                  {!clock.presentedAt ? (
+                    <p className="text-gray-600">Has not received the final agreement</p>
+                  ) : (
+                    <p className="text-gray-600">
+                      Received {format(new Date(clock.presentedAt), 'MMM d, yyyy h:mm a')}
+                      {clock.elapsed ? ' • may sign' : (
+                        <> • may sign in <Countdown prenupId={prenup.id} until={clock.availableAt!} /></>
+                      )}
+                    </p>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {!readOnly && ownClock && !ownClock.presentedAt && (
+            <div className="mt-4 bg-blue-50 border border-blue-200 rounded-lg p-4">
+              <p className="text-sm text-blue-800 mb-3">{status.advisement}</p>
+              <button onClick={handleAcknowledge} disabled={isWorking} className="btn btn-primary">
+                I have received the final agreement
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default WaitingPeriodPanel;
@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useReducer, useEffect } from 'react';
-import { User, AuthResponse } from '../types';
+import { User, AuthResponse, MfaChallenge } from '../types';
 import { apiService } from '../services/api';
 
 interface AuthState {
@@ -7,12 +7,17 @@ interface AuthState {
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
+  // Set between the password step and the code step of a login
+  mfaToken: string | null;
 }
 
 type AuthAction =
   | { type: 'AUTH_START' }
   | { type: 'AUTH_SUCCESS'; payload: User }
   | { type: 'AUTH_FAILURE'; payload: string }
+  | { type: 'MFA_REQUIRED'; payload: string }
+  | { type: 'MFA_FAILURE'; payload: string }
+  | { type: 'MFA_CANCEL' }
   | { type: 'LOGOUT' }
   | { type: 'CLEAR_ERROR' };
 
@@ -21,6 +26,7 @@ const initialState: AuthState = {
   isAuthenticated: false,
   isLoading: true,
   error: null,
+  mfaToken: null,
 };
 
 function authReducer(state: AuthState, action: AuthAction): AuthState {
@@ -34,6 +40,7 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
         isAuthenticated: true,
         isLoading: false,
         error: null,
+        mfaToken: null,
       };
     case 'AUTH_FAILURE':
       return {
@@ -42,7 +49,15 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
         isAuthenticated: false,
         isLoading: false,
         error: action.payload,
+        mfaToken: null,
       };
+    case 'MFA_REQUIRED':
+      return { ...state, isLoading: false, error: null, mfaToken: action.payload };
+    // A wrong code keeps the challenge so the user can try again
+    case 'MFA_FAILURE':
+      return { ...state, isLoading: false, error: action.payload };
+    case 'MFA_CANCEL':
+      return { ...state, error: null, mfaToken: null };
     case 'LOGOUT':
       return {
         ...state,
@@ -59,7 +74,11 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
 }
 
 interface AuthContextType extends AuthState {
-  login: (email: string, password: string) => Promise<void>;
+  // Resolves with a challenge when the account needs a second factor; the
+  // challenge is also kept in `mfaToken` for completeMfaLogin
+  login: (email: string, password: string) => Promise<MfaChallenge | void>;
+  completeMfaLogin: (code: string) => Promise<void>;
+  cancelMfaLogin: () => void;
   register: (userData: {
     email: string;
     password: string;
@@ -67,6 +86,7 @@ interface AuthContextType extends AuthState {
     lastName: string;
   }) => Promise<void>;
   logout: () => void;
+  refreshUser: () => Promise<void>;
   clearError: () => void;
 }
 
@@ -87,6 +107,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           }
         } catch (error) {
           localStorage.removeItem('token');
+          localStorage.removeItem('refreshToken');
           localStorage.removeItem('user');
         }
       }
@@ -96,15 +117,24 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     initAuth();
   }, []);
 
+  const startSession = ({ user, token, refreshToken }: AuthResponse) => {
+    localStorage.setItem('token', token);
+    localStorage.setItem('refreshToken', refreshToken);
+    localStorage.setItem('user', JSON.stringify(user));
+    dispatch({ type: 'AUTH_SUCCESS', payload: user });
+  };
+
   const login = async (email: string, password: string) => {
     dispatch({ type: 'AUTH_START' });
     try {
       const response = await apiService.login(email, password);
       if (response.success && response.data) {
-        const { user, token } = response.data as AuthResponse;
-        localStorage.setItem('token', token);
-        localStorage.setItem('user', JSON.stringify(user));
-        dispatch({ type: 'AUTH_SUCCESS', payload: user });
+        const challenge = response.data as MfaChallenge;
+        if (challenge.mfaRequired) {
+          dispatch({ type: 'MFA_REQUIRED', payload: challenge.mfaToken });
+          return challenge;
+        }
+        startSession(response.data as AuthResponse);
       } else {
         throw new Error('Login failed');
       }
@@ -114,6 +144,27 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const completeMfaLogin = async (code: string) => {
+    if (!state.mfaToken) {
+      throw new Error('Sign in with your password first');
+    }
+    try {
+      const response = await apiService.completeMfaLogin(state.mfaToken, code);
+      if (response.success && response.data) {
+        startSession(response.data as AuthResponse);
+      } else {
+        throw new Error('Login failed');
+      }
+    } catch (error: any) {
+      dispatch({ type: 'MFA_FAILURE', payload: error.message });
+      throw error;
+    }
+  };
+
+  const cancelMfaLogin = () => {
+    dispatch({ type: 'MFA_CANCEL' });
+  };
+
   const register = async (userData: {
     email: string;
     password: string;
@@ -124,10 +175,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     try {
       const response = await apiService.register(userData);
       if (response.success && response.data) {
-        const { user, token } = response.data as AuthResponse;
-        localStorage.setItem('token', token);
-        localStorage.setItem('user', JSON.stringify(user));
-        dispatch({ type: 'AUTH_SUCCESS', payload: user });
+        startSession(response.data as AuthResponse);
       } else {
         throw new Error('Registration failed');
       }
@@ -138,11 +186,27 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   const logout = () => {
+    // Revoke the refresh token server-side; signing out locally doesn't wait on it
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (refreshToken) {
+      apiService.logout(refreshToken).catch(() => undefined);
+    }
     localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
     localStorage.removeItem('user');
     dispatch({ type: 'LOGOUT' });
   };
 
+  // Reloads the signed-in user, e.g. after their email was verified
+  const refreshUser = async () => {
+    const response = await apiService.getCurrentUser();
+    const user = (response.data as any)?.user as User | undefined;
+    if (user) {
+      localStorage.setItem('user', JSON.stringify(user));
+      dispatch({ type: 'AUTH_SUCCESS', payload: user });
+    }
+  };
+
   const clearError = () => {
     dispatch({ type: 'CLEAR_ERROR' });
   };
@@ -152,8 +216,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       value={{
         ...state,
         login,
+        completeMfaLogin,
+        cancelMfaLogin,
         register,
         logout,
+        refreshUser,
         clearError,
       }}
     >
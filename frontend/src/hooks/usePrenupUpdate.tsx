@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { useQueryClient } from 'react-query';
+import toast from 'react-hot-toast';
+import { apiService, ConflictError } from '../services/api';
+import { Prenup } from '../types';
+import MergeConflictDialog from '../components/MergeConflictDialog';
+
+interface Conflict {
+  mine: Partial<Prenup>;
+  theirs: Prenup;
+}
+
+// Saves prenup edits against the revision they were based on. When someone
+// else saved first, the returned dialog asks whether to keep these edits or
+// take the saved version; the ['prenup', id] query is kept in sync either way.
+export function usePrenupUpdate(prenup?: Prenup) {
+  const queryClient = useQueryClient();
+  const [conflict, setConflict] = useState<Conflict | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async (updates: Partial<Prenup>, base: Prenup | undefined = prenup): Promise<Prenup | null> => {
+    if (!base) return null;
+
+    setIsSaving(true);
+    try {
+      const response = await apiService.updatePrenup(base.id, updates, base.revision ?? 0);
+      const saved = (response.data as any)?.prenup as Prenup;
+      queryClient.setQueryData(['prenup', base.id], saved);
+      return saved;
+    } catch (error: any) {
+      if (error instanceof ConflictError && error.current?.prenup) {
+        setConflict({ mine: updates, theirs: error.current.prenup });
+      } else {
+        toast.error(error.message || 'Failed to save prenup');
+      }
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const keepMine = async () => {
+    if (!conflict) return;
+    const { mine, theirs } = conflict;
+    setConflict(null);
+
+    // Re-apply the edit on top of the latest revision
+    const saved = await save(mine, theirs);
+    if (saved) {
+      toast.success('Your changes were saved');
+    }
+  };
+
+  const takeTheirs = () => {
+    if (!conflict) return;
+    queryClient.setQueryData(['prenup', conflict.theirs.id], conflict.theirs);
+    setConflict(null);
+  };
+
+  const conflictDialog = (
+    <MergeConflictDialog
+      open={!!conflict}
+      mine={conflict?.mine || {}}
+      theirs={conflict?.theirs}
+      onKeepMine={keepMine}
+      onUseTheirs={takeTheirs}
+    />
+  );
+
+  return { save, isSaving, conflictDialog };
+}
@@ -0,0 +1,16 @@
+import { useQuery } from 'react-query';
+import { apiService } from '../services/api';
+import { Prenup, PresentationStatus } from '../types';
+
+// The parties' waiting clocks for the agreement text as it stands. Only
+// tracked once the agreement is up for review or signing.
+export function usePresentations(prenup: Prenup) {
+  return useQuery(
+    ['prenup-presentations', prenup.id, prenup.revision, prenup.status],
+    async () => {
+      const response = await apiService.getPresentations(prenup.id);
+      return response.data as PresentationStatus;
+    },
+    { enabled: prenup.status === 'READY_FOR_REVIEW' || prenup.status === 'PENDING_SIGNATURES' }
+  );
+}
@@ -0,0 +1,15 @@
+import { useSearchParams } from 'react-router-dom';
+
+// Where to send the user after signing in, from the `redirect` query
+// parameter. Only same-site paths are honored.
+export function useRedirectParam() {
+  const [searchParams] = useSearchParams();
+  const redirect = searchParams.get('redirect');
+  const redirectTo = redirect && redirect.startsWith('/') && !redirect.startsWith('//') ? redirect : null;
+
+  // Carries the redirect over when linking between login and register
+  const withRedirect = (path: string) =>
+    redirectTo ? `${path}?redirect=${encodeURIComponent(redirectTo)}` : path;
+
+  return { redirectTo, withRedirect };
+}
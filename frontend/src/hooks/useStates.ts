@@ -0,0 +1,16 @@
+import { useQuery } from 'react-query';
+import { apiService } from '../services/api';
+import { StateCompliance } from '../types';
+
+// Supported states and their requirements, as served by the backend. They
+// only change with a deploy, so they are fetched once per session.
+export function useStates() {
+  return useQuery(
+    ['states'],
+    async () => {
+      const response = await apiService.getStates();
+      return ((response.data as any)?.states || []) as StateCompliance[];
+    },
+    { staleTime: Infinity }
+  );
+}
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useInfiniteQuery, useQuery } from 'react-query';
+import { format } from 'date-fns';
+import { apiService } from '../services/api';
+import { PrenupStorage, User } from '../types';
+import LoadingSpinner from '../components/LoadingSpinner';
+import FileSize from '../components/FileSize';
+
+interface UsersPage {
+  users: User[];
+  nextCursor: string | null;
+}
+
+// Support console: find users and see where document storage goes
+const AdminPage: React.FC = () => {
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [prenupId, setPrenupId] = useState('');
+
+  const {
+    data: userPages,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery(
+    ['admin-users', search],
+    async ({ pageParam }) => {
+      const response = await apiService.adminListUsers(search, pageParam);
+      return response.data as UsersPage;
+    },
+    { getNextPageParam: (lastPage) => lastPage.nextCursor || undefined }
+  );
+
+  const { data: storage } = useQuery('admin-storage', async () => {
+    const response = await apiService.adminGetStorage();
+    return response.data as { prenups: PrenupStorage[]; totalSize: number };
+  });
+
+  const users = userPages?.pages.flatMap((page) => page.users) || [];
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearch(searchInput.trim());
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Admin</h1>
+          <p className="text-gray-600 mt-2">
+            Support tools. Prenup content and financial disclosures are never shown here.
+          </p>
+        </div>
+
+        <div className="card p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Users</h2>
+
+          <form onSubmit={handleSearch} className="flex space-x-3 mb-4">
+            <input
+              className="input flex-1"
+              placeholder="Search by email or name"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+            />
+            <button type="submit" className="btn btn-primary">
+              Search
+            </button>
+          </form>
+
+          {isLoading ? (
+            <LoadingSpinner />
+          ) : users.length === 0 ? (
+            <p className="text-sm text-gray-500">No users found.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {users.map((user) => (
+                <li key={user.id} className="py-3 flex items-center justify-between">
+                  <div>
+                    <Link to={`/admin/users/${user.id}`} className="text-sm font-medium text-primary-600 hover:text-primary-500">
+                      {user.firstName} {user.lastName}
+                    </Link>
+                    <p className="text-xs text-gray-500">
+                      {user.email} • {user.role.toLowerCase()} • Joined {format(new Date(user.createdAt), 'MMM d, yyyy')}
+                    </p>
+                  </div>
+                  {user.disabled && (
+                    <span className="inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                      disabled
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {hasNextPage && (
+            <button
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              className="btn btn-outline mt-4"
+            >
+              Load more
+            </button>
+          )}
+        </div>
+
+        <div className="card p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Prenup lookup</h2>
+          <div className="flex space-x-3">
+            <input
+              className="input flex-1"
+              placeholder="Prenup ID"
+              value={prenupId}
+              onChange={(e) => setPrenupId(e.target.value)}
+            />
+            <Link
+              to={`/admin/prenups/${prenupId.trim()}`}
+              className={`btn btn-primary ${prenupId.trim() ? '' : 'pointer-events-none opacity-50'}`}
+            >
+              Open
+            </Link>
+          </div>
+        </div>
+
+        <div className="card p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">Storage</h2>
+          {!storage ? (
+            <LoadingSpinner />
+          ) : (
+            <>
+              <p className="text-sm text-gray-600 mb-4">
+                <FileSize bytes={storage.totalSize} /> across {storage.prenups.length} prenups
+              </p>
+              <ul className="divide-y divide-gray-200">
+                {storage.prenups.filter((prenup) => prenup.totalSize > 0).map((prenup) => (
+                  <li key={prenup.prenupId} className="py-2 flex items-center justify-between text-sm">
+                    <Link to={`/admin/prenups/${prenup.prenupId}`} className="text-primary-600 hover:text-primary-500">
+                      {prenup.title}
+                    </Link>
+                    <span className="text-gray-700"><FileSize bytes={prenup.totalSize} /></span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminPage;
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useQuery, useQueryClient } from 'react-query';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { apiService } from '../services/api';
+import { AdminPrenupOverview, AuditExport } from '../types';
+import LoadingSpinner from '../components/LoadingSpinner';
+import FileSize from '../components/FileSize';
+import AuditTrailPanel from '../components/AuditTrailPanel';
+
+const isPendingCounsel = (participant: AdminPrenupOverview['participants'][number]) =>
+  participant.status === 'INVITED' && !!participant.expiresAt && new Date(participant.expiresAt) > new Date();
+
+// Metadata of a prenup for support: participants, invitations and storage
+const AdminPrenupPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const queryClient = useQueryClient();
+  const [isWorking, setIsWorking] = useState(false);
+
+  const { data: overview, isLoading } = useQuery(
+    ['admin-prenup', id],
+    async () => {
+      const response = await apiService.adminGetPrenup(id!);
+      return response.data as AdminPrenupOverview;
+    },
+    { enabled: !!id, retry: false }
+  );
+
+  const expire = async (invitationId: string) => {
+    setIsWorking(true);
+    try {
+      const response = await apiService.adminExpireInvitation(invitationId);
+      toast.success(response.message || 'Invitation expired');
+      queryClient.invalidateQueries(['admin-prenup', id]);
+    } catch (error: any) {
+      toast.error(error.message || 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!overview) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 text-center">
+          <h1 className="text-3xl font-bold text-gray-900 mb-4">Prenup not found</h1>
+          <Link to="/admin" className="btn btn-primary">Back to Admin</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const { prenup, participants, invitations, documents, storage } = overview;
+  const pendingCounsel = participants.filter(isPendingCounsel);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
+        <div>
+          <Link to="/admin" className="text-sm text-primary-600 hover:text-primary-500">← Admin</Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-2">{prenup.title}</h1>
+          <p className="text-gray-600 mt-2">
+            {prenup.state.replace(/_/g, ' ')}{prenup.lawVersion && ` (law ${prenup.lawVersion})`} • {prenup.status.replace(/_/g, ' ')} • Created{' '}
+            {format(new Date(prenup.createdAt), 'MMM d, yyyy')} • Last updated {format(new Date(prenup.updatedAt), 'MMM d, yyyy')}
+          </p>
+        </div>
+
+        <div className="card p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Participants</h2>
+          <ul className="divide-y divide-gray-200">
+            {participants.filter((participant) => participant.status === 'ACTIVE').map((participant) => (
+              <li key={participant.id} className="py-2 flex items-center justify-between text-sm">
+                {participant.userId ? (
+                  <Link to={`/admin/users/${participant.userId}`} className="text-primary-600 hover:text-primary-500">
+                    {participant.userName || participant.email}
+                  </Link>
+                ) : (
+                  <span className="text-gray-900">{participant.email}</span>
+                )}
+                <span className="text-gray-500">{participant.role.toLowerCase().replace(/_/g, ' ')}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="card p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Invitations</h2>
+          {invitations.length === 0 && pendingCounsel.length === 0 ? (
+            <p className="text-sm text-gray-500">No invitations.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {invitations.map((invitation) => (
+                <li key={invitation.id} className="py-2 flex items-center justify-between text-sm">
+                  <div>
+                    <p className="text-gray-900">Partner: {invitation.email}</p>
+                    <p className="text-xs text-gray-500">
+                      {invitation.status.toLowerCase()} • Expires {format(new Date(invitation.expiresAt), 'MMM d, yyyy')}
+                    </p>
+                  </div>
+                  {invitation.status === 'PENDING' && (
+                    <button
+                      onClick={() => expire(invitation.id)}
+                      disabled={isWorking}
+                      className="text-sm font-medium text-red-600 hover:text-red-500"
+                    >
+                      Expire
+                    </button>
+                  )}
+                </li>
+              ))}
+              {pendingCounsel.map((participant) => (
+                <li key={participant.id} className="py-2 flex items-center justify-between text-sm">
+                  <div>
+                    <p className="text-gray-900">Counsel: {participant.email}</p>
+                    <p className="text-xs text-gray-500">
+                      pending • Expires {format(new Date(participant.expiresAt!), 'MMM d, yyyy')}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => expire(participant.id)}
+                    disabled={isWorking}
+                    className="text-sm font-medium text-red-600 hover:text-red-500"
+                  >
+                    Expire
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="card p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">Documents</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            <FileSize bytes={storage.totalSize} /> in {documents.length} documents
+          </p>
+          <ul className="divide-y divide-gray-200">
+            {documents.map((document) => (
+              <li key={document.id} className="py-2 flex items-center justify-between text-sm">
+                <span className="text-gray-900">{document.filename}</span>
+                <span className="text-gray-500">
+                  {document.type.toLowerCase().replace(/_/g, ' ')} • <FileSize bytes={document.size} />
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <AuditTrailPanel
+          prenupId={prenup.id}
+          fetchTrail={async () => {
+            const response = await apiService.adminGetAuditTrail(prenup.id);
+            return response.data as AuditExport;
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default AdminPrenupPage;
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useQuery, useQueryClient } from 'react-query';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { apiService } from '../services/api';
+import { useAuth } from '../hooks/useAuth';
+import { AdminUserDetail } from '../types';
+import LoadingSpinner from '../components/LoadingSpinner';
+import FileSize from '../components/FileSize';
+
+// A user's account and prenups, with disabling and enabling the account and
+// granting the attorney role
+const AdminUserPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user: admin } = useAuth();
+  const queryClient = useQueryClient();
+  const [isWorking, setIsWorking] = useState(false);
+
+  const { data: detail, isLoading } = useQuery(
+    ['admin-user', id],
+    async () => {
+      const response = await apiService.adminGetUser(id!);
+      return response.data as AdminUserDetail;
+    },
+    { enabled: !!id, retry: false }
+  );
+
+  const toggleDisabled = async () => {
+    if (!detail) return;
+    const { user } = detail;
+    if (!user.disabled && !window.confirm(`Disable ${user.email}? They will be signed out everywhere.`)) {
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const response = user.disabled
+        ? await apiService.adminEnableUser(user.id)
+        : await apiService.adminDisableUser(user.id);
+      toast.success(response.message || 'Account updated');
+      queryClient.invalidateQueries(['admin-user', id]);
+      queryClient.invalidateQueries('admin-users');
+    } catch (error: any) {
+      toast.error(error.message || 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Attorneys sign up as ordinary users; the role is granted here once their standing is checked
+  const toggleAttorney = async () => {
+    if (!detail) return;
+    const { user } = detail;
+    const role = user.role === 'ATTORNEY' ? 'USER' : 'ATTORNEY';
+    const question = role === 'ATTORNEY'
+      ? `Grant ${user.email} the attorney role? They will be able to act as counsel.`
+      : `Remove the attorney role from ${user.email}?`;
+    if (!window.confirm(question)) {
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const response = await apiService.adminSetUserRole(user.id, role);
+      toast.success(response.message || 'Role updated');
+      queryClient.invalidateQueries(['admin-user', id]);
+      queryClient.invalidateQueries('admin-users');
+    } catch (error: any) {
+      toast.error(error.message || 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 text-center">
+          <h1 className="text-3xl font-bold text-gray-900 mb-4">User not found</h1>
+          <Link to="/admin" className="btn btn-primary">Back to Admin</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const { user, prenups } = detail;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
+        <div>
+          <Link to="/admin" className="text-sm text-primary-600 hover:text-primary-500">← Admin</Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-2">{user.firstName} {user.lastName}</h1>
+          <p className="text-gray-600 mt-2">{user.email}</p>
+        </div>
+
+        <div className="card p-6">
+          <dl className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500">Role</dt>
+              <dd className="text-gray-900">{user.role.toLowerCase()}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Joined</dt>
+              <dd className="text-gray-900">{format(new Date(user.createdAt), 'MMM d, yyyy')}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Email</dt>
+              <dd className="text-gray-900">{user.emailVerified ? 'Verified' : 'Not verified'}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Two-factor authentication</dt>
+              <dd className="text-gray-900">{user.mfaEnabled ? 'Enabled' : 'Not enabled'}</dd>
+            </div>
+          </dl>
+
+          <div className="mt-6 border-t border-gray-200 pt-4 flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              {user.disabled
+                ? `Disabled${user.disabledAt ? ` on ${format(new Date(user.disabledAt), 'MMM d, yyyy')}` : ''}`
+                : 'Account active'}
+            </p>
+            {user.id !== admin?.id && (
+              <button
+                onClick={toggleDisabled}
+                disabled={isWorking}
+                className={user.disabled ? 'btn btn-primary' : 'btn btn-outline text-red-600'}
+              >
+                {user.disabled ? 'Enable account' : 'Disable account'}
+              </button>
+            )}
+          </div>
+
+          {user.id !== admin?.id && user.role !== 'ADMIN' && (
+            <div className="mt-4 border-t border-gray-200 pt-4 flex items-center justify-between">
+              <p className="text-sm text-gray-600">
+                {user.role === 'ATTORNEY'
+                  ? 'Can act as counsel'
+                  : user.emailVerified
+                    ? 'Grant the attorney role once their standing is checked'
+                    : 'The attorney role needs a verified email'}
+              </p>
+              <button
+                onClick={toggleAttorney}
+                disabled={isWorking || (user.role !== 'ATTORNEY' && !user.emailVerified)}
+                className="btn btn-outline"
+              >
+                {user.role === 'ATTORNEY' ? 'Remove attorney role' : 'Grant attorney role'}
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="card p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Prenups</h2>
+          {prenups.length === 0 ? (
+            <p className="text-sm text-gray-500">Takes part in no prenups.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {prenups.map((prenup) => (
+                <li key={prenup.prenupId} className="py-3 flex items-center justify-between text-sm">
+                  <div>
+                    <Link to={`/admin/prenups/${prenup.prenupId}`} className="font-medium text-primary-600 hover:text-primary-500">
+                      {prenup.title}
+                    </Link>
+                    <p className="text-xs text-gray-500">{prenup.roles.join(', ').toLowerCase().replace(/_/g, ' ')}</p>
+                  </div>
+                  <span className="text-gray-700"><FileSize bytes={prenup.totalSize} /></span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminUserPage;
@@ -0,0 +1,120 @@
+import React from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useMutation, useQuery } from 'react-query';
+import { format } from 'date-fns';
+import { ScaleIcon } from '@heroicons/react/24/outline';
+import { apiService } from '../services/api';
+import { useAuth } from '../hooks/useAuth';
+import { CounselInvitationPreview } from '../types';
+import LoadingSpinner from '../components/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+// Landing page of a counsel invitation: an attorney accepts to represent a party
+const CounselInvitePage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const { user, isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const navigate = useNavigate();
+
+  const { data: preview, isLoading, error } = useQuery(
+    ['counsel-invitation', token],
+    async () => {
+      const response = await apiService.getCounselInvitation(token!);
+      return response.data as CounselInvitationPreview;
+    },
+    { enabled: !!token, retry: false }
+  );
+
+  const acceptMutation = useMutation(() => apiService.acceptCounselInvitation(token!), {
+    onSuccess: (response) => {
+      const prenupId = (response.data as any)?.counsel?.prenupId;
+      toast.success('You are now counsel on this prenup');
+      navigate(prenupId ? `/prenups/${prenupId}` : '/dashboard');
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to accept invitation');
+    }
+  });
+
+  if (isLoading || isAuthLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !preview) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-12">
+        <div className="max-w-md mx-auto px-4 text-center">
+          <h1 className="text-3xl font-bold text-gray-900 mb-4">Invitation unavailable</h1>
+          <p className="text-gray-600 mb-6">
+            {(error as any)?.message || 'This invitation link is invalid or has expired.'} Ask your client to send a new one.
+          </p>
+          <Link to="/" className="btn btn-primary">Back to home</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const redirect = encodeURIComponent(`/counsel-invite/${token}`);
+  const clientName = `${preview.client.firstName} ${preview.client.lastName}`;
+  const wrongAccount = !!user && user.email.toLowerCase() !== preview.invitation.email.toLowerCase();
+  const notAttorney = !!user && user.role !== 'ATTORNEY';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full card p-8 text-center space-y-6">
+        <ScaleIcon className="h-12 w-12 text-primary-600 mx-auto" />
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{clientName} asked you to be their counsel</h1>
+          <p className="text-gray-600 mt-2">
+            Review <span className="font-medium text-gray-900">{preview.prenup.title}</span>
+            {' '}({preview.prenup.state.replace(/_/g, ' ')}) and your client's financial disclosure, comment and approve.
+          </p>
+          <p className="text-sm text-gray-500 mt-2">
+            Sent to {preview.invitation.email} • Expires {format(new Date(preview.invitation.expiresAt), 'MMM d, yyyy')}
+          </p>
+        </div>
+
+        {isAuthenticated ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">Signed in as {user?.email}</p>
+            {wrongAccount && (
+              <p className="text-sm text-red-600">
+                This invitation can only be accepted by {preview.invitation.email}. Sign in with that account to continue.
+              </p>
+            )}
+            {!wrongAccount && notAttorney && (
+              <p className="text-sm text-red-600">
+                Only attorney accounts can act as counsel. An administrator grants the attorney role once your email is verified.
+              </p>
+            )}
+            <button
+              onClick={() => acceptMutation.mutate()}
+              disabled={acceptMutation.isLoading || wrongAccount || notAttorney}
+              className="btn btn-primary w-full"
+            >
+              {acceptMutation.isLoading ? <LoadingSpinner size="sm" className="mr-2" /> : null}
+              Accept and act as counsel
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <Link
+              to={`/register?redirect=${redirect}&email=${encodeURIComponent(preview.invitation.email)}&attorney=1`}
+              className="btn btn-primary w-full"
+            >
+              Create an account to accept
+            </Link>
+            <Link to={`/login?redirect=${redirect}`} className="btn btn-outline w-full">
+              I already have an account
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CounselInvitePage;
@@ -11,6 +11,7 @@ import {
 import { apiService } from '../services/api';
 import { USState } from '../types';
 import LoadingSpinner from '../components/LoadingSpinner';
+import { useStates } from '../hooks/useStates';
 import toast from 'react-hot-toast';
 
 interface CreatePrenupFormData {
@@ -25,7 +26,6 @@ const CreatePrenupPage: React.FC = () => {
   const {
     register,
     handleSubmit,
-    setValue,
     formState: { errors }
   } = useForm<CreatePrenupFormData>();
 
@@ -45,66 +45,14 @@ const CreatePrenupPage: React.FC = () => {
     }
   );
 
-  const states = [
-    {
-      code: 'CALIFORNIA' as USState,
-      name: 'California',
-      description: 'Community property state with 7-day waiting period requirement',
-      features: ['7-day waiting period', 'Full disclosure required', 'Fairness testing'],
-      complexity: 'Medium'
-    },
-    {
-      code: 'WASHINGTON' as USState,
-      name: 'Washington',
-      description: 'Community property state with comprehensive disclosure requirements',
-      features: ['Full disclosure required', 'Fair and reasonable standard', 'Community property rules'],
-      complexity: 'Medium'
-    },
-    {
-      code: 'NEW_YORK' as USState,
-      name: 'New York',
-      description: 'Requires notarization and has strict fairness standards',
-      features: ['Notarization required', 'Fair and reasonable standard', 'Independent representation recommended'],
-      complexity: 'High'
-    },
-    {
-      code: 'WASHINGTON_DC' as USState,
-      name: 'Washington D.C.',
-      description: 'Follows Uniform Premarital Agreement Act (UPAA)',
-      features: ['UPAA compliance', 'Disclosure requirements', 'Unconscionability protection'],
-      complexity: 'Low'
-    },
-    {
-      code: 'VIRGINIA' as USState,
-      name: 'Virginia',
-      description: 'Emphasizes voluntariness and full disclosure',
-      features: ['Voluntariness emphasis', 'Full disclosure required', 'Conscionability review'],
-      complexity: 'Low'
-    }
-  ];
+  const { data: states = [], isLoading: statesLoading } = useStates();
 
-  const handleStateSelect = (state: USState) => {
-    setSelectedState(state);
-    setValue('state', state);
-  };
+  const selectedStateInfo = states.find((state) => state.state === selectedState);
 
   const onSubmit = (data: CreatePrenupFormData) => {
     createPrenupMutation.mutate(data);
   };
 
-  const getComplexityColor = (complexity: string) => {
-    switch (complexity) {
-      case 'Low':
-        return 'bg-green-100 text-green-800';
-      case 'Medium':
-        return 'bg-yellow-100 text-yellow-800';
-      case 'High':
-        return 'bg-red-100 text-red-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
-  };
-
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -130,60 +78,58 @@ const CreatePrenupPage: React.FC = () => {
               Select the state where you plan to get married.
             </p>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {states.map((state) => (
-                <div
-                  key={state.code}
-                  className={`relative border-2 rounded-lg p-4 cursor-pointer transition-all ${
-                    selectedState === state.code
-                      ? 'border-primary-500 bg-primary-50'
-                      : 'border-gray-200 hover:border-gray-300'
-                  }`}
-                  onClick={() => handleStateSelect(state.code)}
-                >
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-2 mb-2">
-                        <MapPinIcon className="h-5 w-5 text-primary-600" />
-                        <h3 className="text-lg font-medium text-gray-900">
-                          {state.name}
-                        </h3>
-                        <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getComplexityColor(state.complexity)}`}>
-                          {state.complexity} complexity
-                        </span>
-                      </div>
-                      <p className="text-sm text-gray-600 mb-3">
-                        {state.description}
-                      </p>
-                      <ul className="space-y-1">
-                        {state.features.map((feature, index) => (
-                          <li key={index} className="flex items-center text-sm text-gray-600">
-                            <CheckCircleIcon className="h-4 w-4 text-green-500 mr-2 flex-shrink-0" />
-                            {feature}
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
-                    {selectedState === state.code && (
-                      <div className="ml-4">
-                        <div className="w-6 h-6 bg-primary-600 rounded-full flex items-center justify-center">
-                          <CheckCircleIcon className="h-4 w-4 text-white" />
-                        </div>
-                      </div>
-                    )}
-                  </div>
-                </div>
-              ))}
-            </div>
+            {statesLoading ? (
+              <LoadingSpinner />
+            ) : (
+              <select
+                {...register('state', {
+                  required: 'Please select a state',
+                  onChange: (event) => setSelectedState(event.target.value)
+                })}
+                className="input"
+                defaultValue=""
+              >
+                <option value="" disabled>Choose a state</option>
+                {states.map((state) => (
+                  <option key={state.state} value={state.state}>
+                    {state.displayName} ({state.code})
+                  </option>
+                ))}
+              </select>
+            )}
 
             {errors.state && (
               <p className="form-error mt-2">Please select a state</p>
             )}
 
-            <input
-              {...register('state', { required: 'Please select a state' })}
-              type="hidden"
-            />
+            {selectedStateInfo && (
+              <div className="mt-6 border-2 border-primary-500 bg-primary-50 rounded-lg p-4">
+                <div className="flex items-center space-x-2 mb-2">
+                  <MapPinIcon className="h-5 w-5 text-primary-600" />
+                  <h3 className="text-lg font-medium text-gray-900">
+                    {selectedStateInfo.displayName}
+                  </h3>
+                  {selectedStateInfo.uniformAct && (
+                    <span className="text-sm font-medium text-gray-500">{selectedStateInfo.uniformAct}</span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-600 mb-3">
+                  {selectedStateInfo.summary}
+                </p>
+                <ul className="space-y-1">
+                  {selectedStateInfo.requirements.filter((requirement) => requirement.required).map((requirement) => (
+                    <li key={requirement.name} className="flex items-center text-sm text-gray-600">
+                      <CheckCircleIcon className="h-4 w-4 text-green-500 mr-2 flex-shrink-0" />
+                      {requirement.name}
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-xs text-gray-500 mt-3">
+                  Based on {selectedStateInfo.citations.join('; ')}, in effect since {selectedStateInfo.effectiveFrom}.
+                  Your prenup stays under this version of the law.
+                </p>
+              </div>
+            )}
           </div>
 
           {/* Prenup Name */}
@@ -201,7 +201,7 @@ const DashboardPage: React.FC = () => {
                         >
                           View
                         </Link>
-                        {prenup.status !== 'EXECUTED' && (
+                        {prenup.status !== 'EXECUTED' && (prenup.createdBy === user?.id || prenup.partnerId === user?.id) && (
                           <Link
                             to={`/prenups/${prenup.id}/wizard`}
                             className="btn btn-primary"
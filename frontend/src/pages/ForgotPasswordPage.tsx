@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { EnvelopeIcon } from '@heroicons/react/24/outline';
+import { apiService } from '../services/api';
+import LoadingSpinner from '../components/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+interface ForgotPasswordFormData {
+  email: string;
+}
+
+const ForgotPasswordPage: React.FC = () => {
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting }
+  } = useForm<ForgotPasswordFormData>();
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    try {
+      await apiService.requestPasswordReset(data.email);
+      setSentTo(data.email);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to send reset link');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Reset your password
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Enter your email and we'll send you a link to choose a new password.
+          </p>
+        </div>
+
+        {sentTo ? (
+          <div className="card p-6 text-center space-y-4">
+            <EnvelopeIcon className="h-12 w-12 text-primary-600 mx-auto" />
+            <p className="text-gray-700">
+              If an account exists for <span className="font-medium">{sentTo}</span>, a reset link is on its way.
+              The link expires in 1 hour.
+            </p>
+            <Link to="/login" className="btn btn-primary w-full">Back to sign in</Link>
+          </div>
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div className="form-group">
+              <label htmlFor="email" className="form-label">
+                Email address
+              </label>
+              <input
+                {...register('email', {
+                  required: 'Email is required',
+                  pattern: {
+                    value: /^\S+@\S+$/i,
+                    message: 'Invalid email address'
+                  }
+                })}
+                type="email"
+                className="input"
+                placeholder="Enter your email"
+              />
+              {errors.email && (
+                <p className="form-error">{errors.email.message}</p>
+              )}
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full btn btn-primary py-3 text-base"
+            >
+              {isSubmitting ? <LoadingSpinner size="sm" className="mr-2" /> : null}
+              Send reset link
+            </button>
+
+            <div className="text-center">
+              <Link to="/login" className="text-sm text-gray-600 hover:text-gray-900">
+                ← Back to sign in
+              </Link>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPasswordPage;
@@ -0,0 +1,116 @@
+import React from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useMutation, useQuery } from 'react-query';
+import { format } from 'date-fns';
+import { EnvelopeOpenIcon } from '@heroicons/react/24/outline';
+import { apiService } from '../services/api';
+import { useAuth } from '../hooks/useAuth';
+import { InvitationPreview } from '../types';
+import LoadingSpinner from '../components/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+const InvitePage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const { user, isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const navigate = useNavigate();
+
+  const { data: preview, isLoading, error } = useQuery(
+    ['invitation', token],
+    async () => {
+      const response = await apiService.getInvitation(token!);
+      return response.data as InvitationPreview;
+    },
+    { enabled: !!token, retry: false }
+  );
+
+  const acceptMutation = useMutation(() => apiService.acceptInvitation(token!), {
+    onSuccess: (response) => {
+      const prenupId = (response.data as any)?.prenup?.id;
+      toast.success('You have joined the prenup');
+      navigate(prenupId ? `/prenups/${prenupId}` : '/dashboard');
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to accept invitation');
+    }
+  });
+
+  if (isLoading || isAuthLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !preview) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-12">
+        <div className="max-w-md mx-auto px-4 text-center">
+          <h1 className="text-3xl font-bold text-gray-900 mb-4">Invitation unavailable</h1>
+          <p className="text-gray-600 mb-6">
+            {(error as any)?.message || 'This invitation link is invalid or has expired.'} Ask your partner to send a new one.
+          </p>
+          <Link to="/" className="btn btn-primary">Back to home</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const redirect = encodeURIComponent(`/invite/${token}`);
+  const inviterName = `${preview.inviter.firstName} ${preview.inviter.lastName}`;
+  const wrongAccount =
+    preview.invitation.emailRestricted &&
+    !!user &&
+    user.email.toLowerCase() !== preview.invitation.email.toLowerCase();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full card p-8 text-center space-y-6">
+        <EnvelopeOpenIcon className="h-12 w-12 text-primary-600 mx-auto" />
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{inviterName} invited you</h1>
+          <p className="text-gray-600 mt-2">
+            Join <span className="font-medium text-gray-900">{preview.prenup.title}</span> as their partner
+            ({preview.prenup.state.replace(/_/g, ' ')}).
+          </p>
+          <p className="text-sm text-gray-500 mt-2">
+            Sent to {preview.invitation.email} • Expires {format(new Date(preview.invitation.expiresAt), 'MMM d, yyyy')}
+          </p>
+        </div>
+
+        {isAuthenticated ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">Signed in as {user?.email}</p>
+            {wrongAccount && (
+              <p className="text-sm text-red-600">
+                This invitation can only be accepted by {preview.invitation.email}. Sign in with that account to continue.
+              </p>
+            )}
+            <button
+              onClick={() => acceptMutation.mutate()}
+              disabled={acceptMutation.isLoading || wrongAccount}
+              className="btn btn-primary w-full"
+            >
+              {acceptMutation.isLoading ? <LoadingSpinner size="sm" className="mr-2" /> : null}
+              Accept invitation
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <Link
+              to={`/register?redirect=${redirect}&email=${encodeURIComponent(preview.invitation.email)}`}
+              className="btn btn-primary w-full"
+            >
+              Create an account to accept
+            </Link>
+            <Link to={`/login?redirect=${redirect}`} className="btn btn-outline w-full">
+              I already have an account
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InvitePage;
@@ -3,6 +3,7 @@ import { Link, useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline';
 import { useAuth } from '../hooks/useAuth';
+import { useRedirectParam } from '../hooks/useRedirectParam';
 import LoadingSpinner from '../components/LoadingSpinner';
 import toast from 'react-hot-toast';
 
@@ -13,8 +14,10 @@ interface LoginFormData {
 
 const LoginPage: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
-  const { login, isLoading, error } = useAuth();
+  const [code, setCode] = useState('');
+  const { login, completeMfaLogin, cancelMfaLogin, mfaToken, isLoading, error } = useAuth();
   const navigate = useNavigate();
+  const { redirectTo, withRedirect } = useRedirectParam();
   
   const {
     register,
@@ -24,14 +27,85 @@ const LoginPage: React.FC = () => {
 
   const onSubmit = async (data: LoginFormData) => {
     try {
-      await login(data.email, data.password);
+      const challenge = await login(data.email, data.password);
+      if (challenge) return;
       toast.success('Welcome back!');
-      navigate('/dashboard');
+      navigate(redirectTo || '/dashboard');
     } catch (error: any) {
       toast.error(error.message || 'Login failed');
     }
   };
 
+  const onSubmitCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await completeMfaLogin(code);
+      toast.success('Welcome back!');
+      navigate(redirectTo || '/dashboard');
+    } catch (error: any) {
+      setCode('');
+      toast.error(error.message || 'Verification failed');
+    }
+  };
+
+  if (mfaToken) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <div>
+            <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+              Two-factor authentication
+            </h2>
+            <p className="mt-2 text-center text-sm text-gray-600">
+              Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+            </p>
+          </div>
+
+          <form className="mt-8 space-y-6" onSubmit={onSubmitCode}>
+            <div className="form-group">
+              <label htmlFor="code" className="form-label">
+                Verification code
+              </label>
+              <input
+                id="code"
+                className="input tracking-widest"
+                autoComplete="one-time-code"
+                autoFocus
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+              />
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                <p className="text-sm text-red-600">{error}</p>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isLoading || !code}
+              className="w-full btn btn-primary py-3 text-base"
+            >
+              Verify
+            </button>
+
+            <div className="text-center">
+              <button
+                type="button"
+                onClick={cancelMfaLogin}
+                className="text-sm text-gray-600 hover:text-gray-900"
+              >
+                ← Sign in with a different account
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -42,7 +116,7 @@ const LoginPage: React.FC = () => {
           <p className="mt-2 text-center text-sm text-gray-600">
             Or{' '}
             <Link
-              to="/register"
+              to={withRedirect('/register')}
               className="font-medium text-primary-600 hover:text-primary-500"
             >
               create a new account
@@ -101,6 +175,14 @@ const LoginPage: React.FC = () => {
               {errors.password && (
                 <p className="form-error">{errors.password.message}</p>
               )}
+              <div className="mt-2 text-right">
+                <Link
+                  to="/forgot-password"
+                  className="text-sm font-medium text-primary-600 hover:text-primary-500"
+                >
+                  Forgot your password?
+                </Link>
+              </div>
             </div>
           </div>
 
@@ -1,34 +1,151 @@
 import React from 'react';
-import { useParams } from 'react-router-dom';
+import { Link, useParams } from 'react-router-dom';
+import { useQuery } from 'react-query';
+import { format } from 'date-fns';
+import { apiService } from '../services/api';
+import { AuditExport, FinancialDisclosure, Prenup, PrenupParticipant, VersionDiff, VersionSummary } from '../types';
+import LoadingSpinner from '../components/LoadingSpinner';
+import VersionDiffViewer from '../components/VersionDiffViewer';
+import LifecyclePanel from '../components/LifecyclePanel';
+import InvitationsPanel from '../components/InvitationsPanel';
+import CounselPanel from '../components/CounselPanel';
+import CommentsPanel from '../components/CommentsPanel';
+import ParticipantsPanel from '../components/ParticipantsPanel';
+import AuditTrailPanel from '../components/AuditTrailPanel';
+import ComplianceChecklist from '../components/ComplianceChecklist';
+import WaitingPeriodPanel from '../components/WaitingPeriodPanel';
+import { useAuth } from '../hooks/useAuth';
 
 const PrenupDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+
+  const { data: prenup, isLoading } = useQuery(
+    ['prenup', id],
+    async () => {
+      const response = await apiService.getPrenup(id!);
+      return (response.data as any)?.prenup as Prenup;
+    },
+    { enabled: !!id }
+  );
+
+  const { data: disclosures } = useQuery(
+    ['disclosures', id],
+    async () => {
+      const response = await apiService.getFinancialDisclosure(id!);
+      const { disclosure, partnerDisclosure } = (response.data as any) || {};
+      return [disclosure, partnerDisclosure].filter(Boolean) as FinancialDisclosure[];
+    },
+    { enabled: !!id }
+  );
+
+  const { data: participants } = useQuery(
+    ['prenup-participants', id],
+    async () => {
+      const response = await apiService.getParticipants(id!);
+      return (response.data as any)?.participants as PrenupParticipant[];
+    },
+    { enabled: !!id }
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!prenup) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 text-center">
+          <h1 className="text-3xl font-bold text-gray-900 mb-4">Prenup not found</h1>
+          <Link to="/dashboard" className="btn btn-primary">Back to Dashboard</Link>
+        </div>
+      </div>
+    );
+  }
+
+  // Everyone else who can open the prenup (counsel, notaries, witnesses
+  // and viewers) can only read it; of them only counsel comment
+  const isParty = prenup.createdBy === user?.id || prenup.partnerId === user?.id;
+  const isCounsel = !!participants?.some(
+    (participant) => participant.userId === user?.id && participant.role === 'COUNSEL' && participant.status === 'ACTIVE'
+  );
+
+  const disclosureOwner = (disclosure: FinancialDisclosure) =>
+    disclosure.userId === prenup.createdBy ? prenup.creator : prenup.partner;
 
   return (
     <div className="min-h-screen bg-gray-50 py-8">
-      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
-        <div className="text-center">
-          <h1 className="text-3xl font-bold text-gray-900 mb-4">
-            Prenup Details
-          </h1>
-          <p className="text-lg text-gray-600">
-            Prenup ID: {id}
-          </p>
-          <p className="text-sm text-gray-500 mt-4">
-            The prenup detail view will be implemented here with:
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">{prenup.title}</h1>
+          <p className="text-gray-600 mt-2">
+            {prenup.state.replace(/_/g, ' ')} • {prenup.status.replace(/_/g, ' ')} • Last updated{' '}
+            {format(new Date(prenup.updatedAt), 'MMM d, yyyy')}
           </p>
-          <ul className="text-sm text-gray-500 mt-2 max-w-md mx-auto text-left">
-            <li>• Agreement overview and status</li>
-            <li>• Partner information</li>
-            <li>• Financial disclosure summaries</li>
-            <li>• Document attachments</li>
-            <li>• Signature status</li>
-            <li>• Download options</li>
-          </ul>
         </div>
+
+        <LifecyclePanel prenup={prenup} userId={user?.id} readOnly={!isParty} canRecordNotarization={isCounsel} />
+
+        <WaitingPeriodPanel prenup={prenup} userId={user?.id} readOnly={!isParty} />
+
+        <ComplianceChecklist prenup={prenup} />
+
+        {prenup.createdBy === user?.id && <InvitationsPanel prenup={prenup} />}
+
+        <CounselPanel prenup={prenup} userId={user?.id} />
+
+        <ParticipantsPanel prenup={prenup} participants={participants} userId={user?.id} canManage={isParty} />
+
+        <CommentsPanel prenup={prenup} canComment={isParty || isCounsel} />
+
+        {(isParty || isCounsel) && (
+          <AuditTrailPanel
+            prenupId={prenup.id}
+            fetchTrail={async () => {
+              const response = await apiService.getAuditTrail(prenup.id);
+              return response.data as AuditExport;
+            }}
+          />
+        )}
+
+        <VersionDiffViewer
+          title="Agreement History"
+          queryKey={`prenup-${prenup.id}`}
+          fetchVersions={async () => {
+            const response = await apiService.getPrenupVersions(prenup.id);
+            return (response.data as any)?.versions as VersionSummary[];
+          }}
+          fetchDiff={async (from, to) => {
+            const response = await apiService.getPrenupDiff(prenup.id, from, to);
+            return (response.data as any)?.diff as VersionDiff;
+          }}
+        />
+
+        {disclosures?.map((disclosure) => {
+          const owner = disclosureOwner(disclosure);
+          return (
+            <VersionDiffViewer
+              key={disclosure.id}
+              title={`Financial Disclosure History${owner ? ` — ${owner.firstName} ${owner.lastName}` : ''}`}
+              queryKey={`disclosure-${disclosure.id}`}
+              fetchVersions={async () => {
+                const response = await apiService.getDisclosureVersions(disclosure.id);
+                return (response.data as any)?.versions as VersionSummary[];
+              }}
+              fetchDiff={async (from, to) => {
+                const response = await apiService.getDisclosureDiff(disclosure.id, from, to);
+                return (response.data as any)?.diff as VersionDiff;
+              }}
+            />
+          );
+        })}
       </div>
     </div>
   );
 };
 
-export default PrenupDetailPage;
\ No newline at end of file
+export default PrenupDetailPage;
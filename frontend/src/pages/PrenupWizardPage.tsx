@@ -1,5 +1,6 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
+import { useQuery } from 'react-query';
 import { 
   MapPinIcon, 
   ScaleIcon, 
@@ -13,183 +14,15 @@ import {
   InformationCircleIcon,
   ClockIcon
 } from '@heroicons/react/24/outline';
+import { apiService } from '../services/api';
+import { Prenup } from '../types';
+import { usePrenupUpdate } from '../hooks/usePrenupUpdate';
+import { useStates } from '../hooks/useStates';
+import LoadingSpinner from '../components/LoadingSpinner';
 
-interface StateRequirement {
-  id: string;
-  title: string;
-  description: string;
-  required: boolean;
-  category: 'timing' | 'disclosure' | 'execution' | 'fairness';
-}
-
-interface StateInfo {
-  name: string;
-  code: string;
-  requirements: StateRequirement[];
-  waitingPeriod: string;
-  notarizationRequired: boolean;
-  attorneyReviewRecommended: boolean;
-}
-
-const stateData: Record<string, StateInfo> = {
-  'california': {
-    name: 'California',
-    code: 'CA',
-    waitingPeriod: '7 days',
-    notarizationRequired: false,
-    attorneyReviewRecommended: true,
-    requirements: [
-      {
-        id: 'ca-1',
-        title: '7-Day Waiting Period',
-        description: 'Must wait 7 days after receiving the agreement before signing',
-        required: true,
-        category: 'timing'
-      },
-      {
-        id: 'ca-2',
-        title: 'Full Financial Disclosure',
-        description: 'Complete disclosure of all assets, debts, and income',
-        required: true,
-        category: 'disclosure'
-      },
-      {
-        id: 'ca-3',
-        title: 'Fairness Testing',
-        description: 'Agreement must be fair and reasonable at time of execution',
-        required: true,
-        category: 'fairness'
-      },
-      {
-        id: 'ca-4',
-        title: 'Independent Legal Counsel',
-        description: 'Each party should have opportunity to consult with attorney',
-        required: false,
-        category: 'execution'
-      }
-    ]
-  },
-  'washington': {
-    name: 'Washington',
-    code: 'WA',
-    waitingPeriod: 'None',
-    notarizationRequired: false,
-    attorneyReviewRecommended: true,
-    requirements: [
-      {
-        id: 'wa-1',
-        title: 'Community Property Rules',
-        description: 'Must address community property classification',
-        required: true,
-        category: 'disclosure'
-      },
-      {
-        id: 'wa-2',
-        title: 'Comprehensive Disclosure',
-        description: 'Full disclosure of financial circumstances',
-        required: true,
-        category: 'disclosure'
-      },
-      {
-        id: 'wa-3',
-        title: 'Fair Terms',
-        description: 'Agreement must be fair and reasonable',
-        required: true,
-        category: 'fairness'
-      }
-    ]
-  },
-  'new-york': {
-    name: 'New York',
-    code: 'NY',
-    waitingPeriod: 'None',
-    notarizationRequired: true,
-    attorneyReviewRecommended: true,
-    requirements: [
-      {
-        id: 'ny-1',
-        title: 'Mandatory Notarization',
-        description: 'Agreement must be notarized to be enforceable',
-        required: true,
-        category: 'execution'
-      },
-      {
-        id: 'ny-2',
-        title: 'Fair and Reasonable Standard',
-        description: 'Must be fair and reasonable at time of execution',
-        required: true,
-        category: 'fairness'
-      },
-      {
-        id: 'ny-3',
-        title: 'Full Disclosure',
-        description: 'Complete financial disclosure required',
-        required: true,
-        category: 'disclosure'
-      }
-    ]
-  },
-  'washington-dc': {
-    name: 'Washington D.C.',
-    code: 'DC',
-    waitingPeriod: 'None',
-    notarizationRequired: false,
-    attorneyReviewRecommended: false,
-    requirements: [
-      {
-        id: 'dc-1',
-        title: 'UPAA Compliance',
-        description: 'Must comply with Uniform Premarital Agreement Act',
-        required: true,
-        category: 'execution'
-      },
-      {
-        id: 'dc-2',
-        title: 'Disclosure Requirements',
-        description: 'Financial disclosure must be fair and reasonable',
-        required: true,
-        category: 'disclosure'
-      },
-      {
-        id: 'dc-3',
-        title: 'Voluntary Execution',
-        description: 'Must be entered into voluntarily',
-        required: true,
-        category: 'execution'
-      }
-    ]
-  },
-  'virginia': {
-    name: 'Virginia',
-    code: 'VA',
-    waitingPeriod: 'None',
-    notarizationRequired: false,
-    attorneyReviewRecommended: true,
-    requirements: [
-      {
-        id: 'va-1',
-        title: 'Voluntariness Emphasis',
-        description: 'Must be entered into voluntarily without coercion',
-        required: true,
-        category: 'execution'
-      },
-      {
-        id: 'va-2',
-        title: 'Full Disclosure',
-        description: 'Complete financial disclosure required',
-        required: true,
-        category: 'disclosure'
-      },
-      {
-        id: 'va-3',
-        title: 'Fair Terms',
-        description: 'Agreement must be fair and reasonable',
-        required: true,
-        category: 'fairness'
-      }
-    ]
-  }
-};
+// Questionnaires saved before states came from the API used keys like
+// 'new-york' rather than the state's code
+const normalizeStateKey = (key: string) => key.toUpperCase().replace(/-/g, '_');
 
 const PrenupWizardPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -209,6 +42,29 @@ const PrenupWizardPage: React.FC = () => {
     complexityLevel: 'low'
   });
 
+  const { data: prenup } = useQuery(
+    ['prenup', id],
+    async () => {
+      const response = await apiService.getPrenup(id!);
+      return (response.data as any)?.prenup as Prenup;
+    },
+    { enabled: !!id }
+  );
+  const { save, isSaving, conflictDialog } = usePrenupUpdate(prenup);
+  const { data: states = [], isLoading: statesLoading } = useStates();
+  const selectedStateInfo = states.find(state => state.state === selectedState);
+
+  // Resume from the saved questionnaire, including after a conflict is resolved
+  useEffect(() => {
+    const saved = prenup?.content?.questionnaire;
+    const state = saved?.state ? normalizeStateKey(saved.state) : prenup?.state || '';
+    setFormData(prev => ({ ...prev, ...saved, state }));
+    setSelectedState(state);
+    if (prenup?.progress?.currentStep) {
+      setCurrentStep(Math.min(prenup.progress.currentStep, 5));
+    }
+  }, [prenup]);
+
   const steps = [
     { id: 1, title: 'Enter Your State', icon: MapPinIcon },
     { id: 2, title: 'State Requirements', icon: ScaleIcon },
@@ -222,10 +78,19 @@ const PrenupWizardPage: React.FC = () => {
     setFormData(prev => ({ ...prev, state: stateKey }));
   };
 
-  const handleNext = () => {
-    if (currentStep < 5) {
-      setCurrentStep(currentStep + 1);
+  const handleNext = async () => {
+    if (currentStep >= 5) return;
+
+    if (prenup) {
+      const completedSteps = Array.from(new Set([...(prenup.progress?.completedSteps || []), currentStep]));
+      const saved = await save({
+        content: { ...prenup.content, questionnaire: formData },
+        progress: { ...prenup.progress, currentStep: currentStep + 1, completedSteps }
+      });
+      if (!saved) return;
     }
+
+    setCurrentStep(currentStep + 1);
   };
 
   const handlePrevious = () => {
@@ -240,9 +105,7 @@ const PrenupWizardPage: React.FC = () => {
 
   const getAIRecommendation = () => {
     const complexity = formData.complexityLevel;
-    const state = stateData[selectedState];
-    
-    if (complexity === 'high' || state?.attorneyReviewRecommended) {
+    if (complexity === 'high' || selectedStateInfo?.attorneyReviewRecommended) {
       return {
         recommendation: 'Attorney Review Recommended',
         reason: 'Your situation involves complex financial arrangements or your state strongly recommends legal counsel.',
@@ -278,49 +141,58 @@ const PrenupWizardPage: React.FC = () => {
               </p>
             </div>
             
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {Object.entries(stateData).map(([key, state]) => (
-                <button
-                  key={key}
-                  onClick={() => handleStateSelect(key)}
-                  className={`p-6 rounded-xl border-2 transition-all duration-200 text-left ${
-                    selectedState === key
-                      ? 'border-primary-500 bg-primary-50 shadow-lg'
-                      : 'border-gray-200 hover:border-primary-300 hover:shadow-md'
-                  }`}
-                >
-                  <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-xl font-semibold text-gray-900">{state.name}</h3>
-                    <span className="text-sm font-medium text-gray-500">{state.code}</span>
+            {statesLoading ? (
+              <LoadingSpinner />
+            ) : (
+              <select
+                value={selectedState}
+                onChange={(e) => handleStateSelect(e.target.value)}
+                className="input"
+              >
+                <option value="" disabled>Choose a state</option>
+                {states.map((state) => (
+                  <option key={state.state} value={state.state}>
+                    {state.displayName} ({state.code})
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {selectedStateInfo && (
+              <div className="p-6 rounded-xl border-2 border-primary-500 bg-primary-50 shadow-lg">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-xl font-semibold text-gray-900">{selectedStateInfo.displayName}</h3>
+                  <span className="text-sm font-medium text-gray-500">{selectedStateInfo.code}</span>
+                </div>
+                <p className="text-sm text-gray-600 mb-4">{selectedStateInfo.summary}</p>
+                <div className="space-y-2">
+                  <div className="flex items-center text-sm text-gray-600">
+                    <ClockIcon className="h-4 w-4 mr-2" />
+                    Waiting Period: {selectedStateInfo.waitingPeriodText}
                   </div>
-                  <div className="space-y-2">
-                    <div className="flex items-center text-sm text-gray-600">
-                      <ClockIcon className="h-4 w-4 mr-2" />
-                      Waiting Period: {state.waitingPeriod}
-                    </div>
-                    <div className="flex items-center text-sm text-gray-600">
-                      <DocumentCheckIcon className="h-4 w-4 mr-2" />
-                      Notarization: {state.notarizationRequired ? 'Required' : 'Not Required'}
-                    </div>
+                  <div className="flex items-center text-sm text-gray-600">
+                    <DocumentCheckIcon className="h-4 w-4 mr-2" />
+                    Notarization: {selectedStateInfo.notarizationRequired ? 'Required' : 'Not Required'}
                   </div>
-                </button>
-              ))}
-            </div>
+                </div>
+              </div>
+            )}
           </div>
         );
 
       case 2:
         if (!selectedState) return <div>Please select a state first.</div>;
-        const stateInfo = stateData[selectedState];
+        if (!selectedStateInfo) return <LoadingSpinner />;
+        const stateInfo = selectedStateInfo;
         
         return (
           <div className="space-y-8">
             <div className="text-center">
               <h2 className="text-3xl font-bold text-gray-900 mb-4">
-                {stateInfo.name} Requirements
+                {stateInfo.displayName} Requirements
               </h2>
               <p className="text-lg text-gray-600">
-                Here's what makes your prenup enforceable according to {stateInfo.name} laws.
+                Here's what makes your prenup enforceable according to {stateInfo.displayName} laws.
               </p>
             </div>
 
@@ -329,10 +201,10 @@ const PrenupWizardPage: React.FC = () => {
                 <InformationCircleIcon className="h-6 w-6 text-blue-600 mt-0.5 mr-3 flex-shrink-0" />
                 <div>
                   <h3 className="text-lg font-semibold text-blue-900 mb-2">
-                    Key Requirements for {stateInfo.name}
+                    Key Requirements for {stateInfo.displayName}
                   </h3>
                   <ul className="space-y-2 text-blue-800">
-                    <li>• Waiting Period: {stateInfo.waitingPeriod}</li>
+                    <li>• Waiting Period: {stateInfo.waitingPeriodText}</li>
                     <li>• Notarization: {stateInfo.notarizationRequired ? 'Required' : 'Not Required'}</li>
                     <li>• Attorney Review: {stateInfo.attorneyReviewRecommended ? 'Recommended' : 'Not Required'}</li>
                   </ul>
@@ -342,12 +214,12 @@ const PrenupWizardPage: React.FC = () => {
 
             <div className="space-y-6">
               {stateInfo.requirements.map((requirement) => (
-                <div key={requirement.id} className="card p-6">
+                <div key={requirement.name} className="card p-6">
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
                       <div className="flex items-center mb-2">
                         <h3 className="text-lg font-semibold text-gray-900">
-                          {requirement.title}
+                          {requirement.name}
                         </h3>
                         {requirement.required && (
                           <span className="ml-2 px-2 py-1 text-xs font-medium bg-red-100 text-red-800 rounded-full">
@@ -356,6 +228,9 @@ const PrenupWizardPage: React.FC = () => {
                         )}
                       </div>
                       <p className="text-gray-600">{requirement.description}</p>
+                      {requirement.citation && (
+                        <p className="text-xs text-gray-500 mt-1">{requirement.citation}</p>
+                      )}
                     </div>
                     <div className="ml-4">
                       {requirement.required ? (
@@ -626,7 +501,7 @@ const PrenupWizardPage: React.FC = () => {
         );
 
              case 5:
-         const stateInfoFinal = stateData[selectedState];
+         const stateInfoFinal = selectedStateInfo;
         
         return (
           <div className="space-y-8">
@@ -760,9 +635,9 @@ const PrenupWizardPage: React.FC = () => {
 
           <button
             onClick={handleNext}
-            disabled={currentStep === 5}
+            disabled={currentStep === 5 || isSaving}
             className={`btn btn-primary flex items-center ${
-              currentStep === 5 ? 'opacity-50 cursor-not-allowed' : ''
+              currentStep === 5 || isSaving ? 'opacity-50 cursor-not-allowed' : ''
             }`}
           >
             {currentStep === 5 ? 'Complete' : 'Next'}
@@ -770,6 +645,8 @@ const PrenupWizardPage: React.FC = () => {
           </button>
         </div>
       </div>
+
+      {conflictDialog}
     </div>
   );
 };
@@ -1,8 +1,9 @@
 import React, { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline';
 import { useAuth } from '../hooks/useAuth';
+import { useRedirectParam } from '../hooks/useRedirectParam';
 import LoadingSpinner from '../components/LoadingSpinner';
 import toast from 'react-hot-toast';
 
@@ -20,13 +21,22 @@ const RegisterPage: React.FC = () => {
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const { register: registerUser, isLoading, error } = useAuth();
   const navigate = useNavigate();
+  const { redirectTo, withRedirect } = useRedirectParam();
+  const [searchParams] = useSearchParams();
   
   const {
     register,
     handleSubmit,
     watch,
     formState: { errors }
-  } = useForm<RegisterFormData>();
+  } = useForm<RegisterFormData>({
+    // Invitation links pre-fill the invited address
+    defaultValues: {
+      email: searchParams.get('email') || ''
+    }
+  });
+  // Counsel invitations send attorneys here; the role itself is granted by an administrator
+  const forAttorney = searchParams.get('attorney') === '1';
 
   const password = watch('password');
 
@@ -39,7 +49,7 @@ const RegisterPage: React.FC = () => {
         password: data.password
       });
       toast.success('Account created successfully!');
-      navigate('/dashboard');
+      navigate(redirectTo || '/dashboard');
     } catch (error: any) {
       toast.error(error.message || 'Registration failed');
     }
@@ -55,7 +65,7 @@ const RegisterPage: React.FC = () => {
           <p className="mt-2 text-center text-sm text-gray-600">
             Or{' '}
             <Link
-              to="/login"
+              to={withRedirect('/login')}
               className="font-medium text-primary-600 hover:text-primary-500"
             >
               sign in to existing account
@@ -196,6 +206,13 @@ const RegisterPage: React.FC = () => {
               )}
             </div>
 
+            {forAttorney && (
+              <p className="text-sm text-gray-600">
+                Acting as counsel needs an attorney account. Once you have verified your email,
+                an administrator confirms your standing and enables it.
+              </p>
+            )}
+
             <div className="flex items-center">
               <input
                 {...register('acceptTerms', {
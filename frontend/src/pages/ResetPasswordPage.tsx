@@ -0,0 +1,117 @@
+import React from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { apiService } from '../services/api';
+import LoadingSpinner from '../components/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+interface ResetPasswordFormData {
+  password: string;
+  confirmPassword: string;
+}
+
+const ResetPasswordPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const navigate = useNavigate();
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting }
+  } = useForm<ResetPasswordFormData>();
+
+  const password = watch('password');
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    try {
+      await apiService.resetPassword(token!, data.password);
+      toast.success('Password updated. Please sign in.');
+      navigate('/login');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to reset password');
+    }
+  };
+
+  if (!token) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-12">
+        <div className="max-w-md mx-auto px-4 text-center">
+          <h1 className="text-3xl font-bold text-gray-900 mb-4">Invalid reset link</h1>
+          <p className="text-gray-600 mb-6">This link is missing its token. Request a new one to continue.</p>
+          <Link to="/forgot-password" className="btn btn-primary">Request a new link</Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Choose a new password
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            You'll be signed out on every device once it's changed.
+          </p>
+        </div>
+
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+          <div className="space-y-4">
+            <div className="form-group">
+              <label htmlFor="password" className="form-label">
+                New password
+              </label>
+              <input
+                {...register('password', {
+                  required: 'Password is required',
+                  minLength: {
+                    value: 8,
+                    message: 'Password must be at least 8 characters'
+                  }
+                })}
+                type="password"
+                className="input"
+                placeholder="Enter a new password"
+              />
+              {errors.password && (
+                <p className="form-error">{errors.password.message}</p>
+              )}
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="confirmPassword" className="form-label">
+                Confirm new password
+              </label>
+              <input
+                {...register('confirmPassword', {
+                  required: 'Please confirm your password',
+                  validate: value => value === password || 'Passwords do not match'
+                })}
+                type="password"
+                className="input"
+                placeholder="Confirm your new password"
+              />
+              {errors.confirmPassword && (
+                <p className="form-error">{errors.confirmPassword.message}</p>
+              )}
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full btn btn-primary py-3 text-base"
+          >
+            {isSubmitting ? <LoadingSpinner size="sm" className="mr-2" /> : null}
+            Update password
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPasswordPage;
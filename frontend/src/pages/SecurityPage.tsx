@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from 'react-query';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { ShieldCheckIcon, ShieldExclamationIcon } from '@heroicons/react/24/outline';
+import { apiService } from '../services/api';
+import { useAuth } from '../hooks/useAuth';
+import { MfaEnrollment, MfaStatus } from '../types';
+import LoadingSpinner from '../components/LoadingSpinner';
+import SessionsPanel from '../components/SessionsPanel';
+
+const RecoveryCodes: React.FC<{ codes: string[]; onDone: () => void }> = ({ codes, onDone }) => (
+  <div className="space-y-4">
+    <p className="text-sm text-gray-700">
+      Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose
+      access to your authenticator app. They will not be shown again.
+    </p>
+    <ul className="grid grid-cols-2 gap-2 bg-gray-50 border border-gray-200 rounded-md p-4 font-mono text-sm">
+      {codes.map((code) => (
+        <li key={code}>{code}</li>
+      ))}
+    </ul>
+    <button onClick={onDone} className="btn btn-primary">
+      I have saved my recovery codes
+    </button>
+  </div>
+);
+
+// Two-factor authentication and signed-in devices of the current user
+const SecurityPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { refreshUser } = useAuth();
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const { data: status, isLoading } = useQuery('mfa-status', async () => {
+    const response = await apiService.getMfaStatus();
+    return (response.data as any)?.mfa as MfaStatus;
+  });
+
+  const run = async (action: () => Promise<any>, success: string) => {
+    setIsWorking(true);
+    try {
+      const response = await action();
+      toast.success(response.message || success);
+      setCode('');
+      queryClient.invalidateQueries('mfa-status');
+      return response;
+    } catch (error: any) {
+      toast.error(error.message || 'Something went wrong');
+      return null;
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleBeginEnrollment = async () => {
+    const response = await run(() => apiService.beginMfaEnrollment(), 'Scan the code with your authenticator app');
+    if (response) {
+      setEnrollment(response.data as MfaEnrollment);
+    }
+  };
+
+  const handleConfirmEnrollment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const response = await run(() => apiService.confirmMfaEnrollment(code), 'Two-factor authentication enabled');
+    if (response) {
+      setEnrollment(null);
+      setRecoveryCodes((response.data as any).recoveryCodes);
+      refreshUser().catch(() => undefined);
+    }
+  };
+
+  const handleDisable = async () => {
+    const response = await run(() => apiService.disableMfa(code), 'Two-factor authentication disabled');
+    if (response) {
+      refreshUser().catch(() => undefined);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    const response = await run(() => apiService.regenerateRecoveryCodes(code), 'Recovery codes regenerated');
+    if (response) {
+      setRecoveryCodes((response.data as any).recoveryCodes);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Security</h1>
+        <p className="text-gray-600 mt-2">
+          Both parties need two-factor authentication before a prenup can be sent for signatures.
+        </p>
+      </div>
+
+      <div className="card p-6 space-y-6">
+        <div className="flex items-center space-x-3">
+          {status?.enabled ? (
+            <ShieldCheckIcon className="h-8 w-8 text-green-600" />
+          ) : (
+            <ShieldExclamationIcon className="h-8 w-8 text-yellow-500" />
+          )}
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Two-factor authentication</h2>
+            <p className="text-sm text-gray-600">
+              {status?.enabled
+                ? `Enabled${status.enabledAt ? ` since ${format(new Date(status.enabledAt), 'MMM d, yyyy')}` : ''} · ${status.recoveryCodesRemaining} recovery codes left`
+                : 'Not enabled'}
+            </p>
+          </div>
+        </div>
+
+        {recoveryCodes ? (
+          <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+        ) : status?.enabled ? (
+          <div className="space-y-4">
+            <div className="form-group">
+              <label htmlFor="code" className="form-label">
+                Authenticator or recovery code
+              </label>
+              <input
+                id="code"
+                className="input"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Required to regenerate recovery codes or turn two-factor authentication off.
+              </p>
+            </div>
+            <div className="flex space-x-3">
+              <button
+                onClick={handleRegenerate}
+                disabled={isWorking || !code}
+                className="btn btn-outline"
+              >
+                Regenerate recovery codes
+              </button>
+              <button
+                onClick={handleDisable}
+                disabled={isWorking || !code}
+                className="btn btn-outline text-red-600"
+              >
+                Disable
+              </button>
+            </div>
+          </div>
+        ) : enrollment ? (
+          <form onSubmit={handleConfirmEnrollment} className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Add this account to your authenticator app using the setup link or by entering the
+              key manually, then enter the 6-digit code it shows.
+            </p>
+            <div className="bg-gray-50 border border-gray-200 rounded-md p-4 space-y-2">
+              <p className="text-sm text-gray-600">Setup key</p>
+              <p className="font-mono text-sm break-all">{enrollment.secret}</p>
+              <a href={enrollment.otpauthUri} className="text-sm text-primary-600 hover:text-primary-500">
+                Open in authenticator app
+              </a>
+            </div>
+            <div className="form-group">
+              <label htmlFor="code" className="form-label">
+                Verification code
+              </label>
+              <input
+                id="code"
+                className="input"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+              />
+            </div>
+            <div className="flex space-x-3">
+              <button type="submit" disabled={isWorking || !code} className="btn btn-primary">
+                Enable
+              </button>
+              <button type="button" onClick={() => setEnrollment(null)} className="btn btn-outline">
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button onClick={handleBeginEnrollment} disabled={isWorking} className="btn btn-primary">
+            Set up two-factor authentication
+          </button>
+        )}
+      </div>
+
+      <SessionsPanel />
+    </div>
+  );
+};
+
+export default SecurityPage;
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useQuery } from 'react-query';
+import toast from 'react-hot-toast';
+import { CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { apiService } from '../services/api';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+// Lands here from the email sent when an account is locked after failed logins
+const UnlockAccountPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [email, setEmail] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  // The token is single-use, so the request is made once and never retried
+  const { isLoading, isSuccess, error } = useQuery(
+    ['unlock-account', token],
+    () => apiService.unlockAccount(token!),
+    {
+      enabled: !!token,
+      retry: false,
+      staleTime: Infinity,
+    }
+  );
+
+  const requestNewLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    try {
+      const response = await apiService.requestAccountUnlock(email);
+      toast.success(response.message || 'Unlock link sent');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to send unlock link');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (token && isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full card p-8 text-center space-y-6">
+        {isSuccess ? (
+          <>
+            <CheckCircleIcon className="h-12 w-12 text-green-600 mx-auto" />
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Account unlocked</h1>
+              <p className="text-gray-600 mt-2">
+                You can sign in again. If you don't remember your password, reset it instead of guessing.
+              </p>
+            </div>
+            <Link to="/login" className="btn btn-primary w-full">Sign in</Link>
+          </>
+        ) : (
+          <>
+            <ExclamationTriangleIcon className="h-12 w-12 text-yellow-500 mx-auto" />
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Unlock failed</h1>
+              <p className="text-gray-600 mt-2">
+                {(error as any)?.message || 'This unlock link is invalid.'} Enter your email to get a new link.
+              </p>
+            </div>
+            <form onSubmit={requestNewLink} className="space-y-4 text-left">
+              <input
+                type="email"
+                className="input"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="Enter your email"
+              />
+              <button type="submit" disabled={isSending || !email} className="btn btn-primary w-full">
+                Send unlock link
+              </button>
+            </form>
+            <Link to="/login" className="btn btn-outline w-full">Back to sign in</Link>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UnlockAccountPage;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useQuery } from 'react-query';
+import { CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { apiService } from '../services/api';
+import { useAuth } from '../hooks/useAuth';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+const VerifyEmailPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const { isAuthenticated, refreshUser } = useAuth();
+
+  // The token is single-use, so the request is made once and never retried
+  const { isLoading, isSuccess, error } = useQuery(
+    ['verify-email', token],
+    () => apiService.verifyEmail(token!),
+    {
+      enabled: !!token,
+      retry: false,
+      staleTime: Infinity,
+      onSuccess: () => {
+        if (isAuthenticated) {
+          refreshUser().catch(() => undefined);
+        }
+      },
+    }
+  );
+
+  if (token && isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full card p-8 text-center space-y-6">
+        {isSuccess ? (
+          <>
+            <CheckCircleIcon className="h-12 w-12 text-green-600 mx-auto" />
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Email verified</h1>
+              <p className="text-gray-600 mt-2">Thanks for confirming your email address.</p>
+            </div>
+            <Link to={isAuthenticated ? '/dashboard' : '/login'} className="btn btn-primary w-full">
+              {isAuthenticated ? 'Go to dashboard' : 'Sign in'}
+            </Link>
+          </>
+        ) : (
+          <>
+            <ExclamationTriangleIcon className="h-12 w-12 text-yellow-500 mx-auto" />
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Verification failed</h1>
+              <p className="text-gray-600 mt-2">
+                {(error as any)?.message || 'This verification link is invalid.'}{' '}
+                {isAuthenticated
+                  ? 'You can request a new link from the banner at the top of the page.'
+                  : 'Sign in to request a new link.'}
+              </p>
+            </div>
+            <Link to={isAuthenticated ? '/dashboard' : '/login'} className="btn btn-outline w-full">
+              {isAuthenticated ? 'Go to dashboard' : 'Sign in'}
+            </Link>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmailPage;
@@ -1,8 +1,30 @@
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
-import { ApiResponse } from '../types';
+import { ApiResponse, AuthResponse, ParticipantRole } from '../types';
+
+// Auth endpoints answer 401 for bad credentials; those are never retried
+const AUTH_URLS = [
+  '/auth/login',
+  '/auth/login/mfa',
+  '/auth/register',
+  '/auth/refresh',
+  '/auth/logout',
+  '/auth/password-reset/request',
+  '/auth/password-reset/confirm',
+];
+
+// Thrown when an update was based on a stale revision. `current` holds the
+// latest state the server returned, e.g. { prenup } or { disclosure }.
+export class ConflictError extends Error {
+  constructor(message: string, public readonly current: any) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
 
 class ApiService {
   private api: AxiosInstance;
+  // Shared by requests that fail together, so the refresh token is used once
+  private refreshing: Promise<string> | null = null;
 
   constructor() {
     this.api = axios.create({
@@ -26,26 +48,62 @@ class ApiService {
       (error) => Promise.reject(error)
     );
 
-    // Response interceptor to handle errors
+    // Response interceptor: an expired access token is renewed with the
+    // refresh token and the request retried once; if that fails, sign out
     this.api.interceptors.response.use(
       (response) => response,
-      (error) => {
-        if (error.response?.status === 401) {
-          localStorage.removeItem('token');
-          localStorage.removeItem('user');
-          window.location.href = '/login';
+      async (error) => {
+        const original = error.config;
+        if (error.response?.status !== 401 || !original || AUTH_URLS.includes(original.url)) {
+          return Promise.reject(error);
+        }
+
+        if (!original._retried && localStorage.getItem('refreshToken')) {
+          original._retried = true;
+          try {
+            const token = await this.refreshAccessToken();
+            original.headers.Authorization = `Bearer ${token}`;
+            return this.api.request(original);
+          } catch {
+            // Fall through to signing out
+          }
         }
+
+        localStorage.removeItem('token');
+        localStorage.removeItem('refreshToken');
+        localStorage.removeItem('user');
+        window.location.href = '/login';
         return Promise.reject(error);
       }
     );
   }
 
+  private refreshAccessToken(): Promise<string> {
+    if (!this.refreshing) {
+      this.refreshing = this.api
+        .post('/auth/refresh', { refreshToken: localStorage.getItem('refreshToken') })
+        .then((response) => {
+          const { token, refreshToken } = response.data.data as AuthResponse;
+          localStorage.setItem('token', token);
+          localStorage.setItem('refreshToken', refreshToken);
+          return token;
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+
   private async request<T>(config: AxiosRequestConfig): Promise<ApiResponse<T>> {
     try {
       const response = await this.api.request(config);
       return response.data;
     } catch (error: any) {
       const message = error.response?.data?.error || error.message || 'An error occurred';
+      if (error.response?.status === 409) {
+        throw new ConflictError(message, error.response.data?.data);
+      }
       throw new Error(message);
     }
   }
@@ -59,6 +117,14 @@ class ApiService {
     });
   }
 
+  async completeMfaLogin(mfaToken: string, code: string) {
+    return this.request({
+      method: 'POST',
+      url: '/auth/login/mfa',
+      data: { mfaToken, code },
+    });
+  }
+
   async register(userData: {
     email: string;
     password: string;
@@ -72,6 +138,120 @@ class ApiService {
     });
   }
 
+  async logout(refreshToken: string) {
+    return this.request({
+      method: 'POST',
+      url: '/auth/logout',
+      data: { refreshToken },
+    });
+  }
+
+  async requestPasswordReset(email: string) {
+    return this.request({
+      method: 'POST',
+      url: '/auth/password-reset/request',
+      data: { email },
+    });
+  }
+
+  async resetPassword(token: string, password: string) {
+    return this.request({
+      method: 'POST',
+      url: '/auth/password-reset/confirm',
+      data: { token, password },
+    });
+  }
+
+  async requestEmailVerification() {
+    return this.request({
+      method: 'POST',
+      url: '/auth/verify-email/request',
+    });
+  }
+
+  async verifyEmail(token: string) {
+    return this.request({
+      method: 'POST',
+      url: '/auth/verify-email/confirm',
+      data: { token },
+    });
+  }
+
+  async getSessions() {
+    return this.request({
+      method: 'GET',
+      url: '/auth/sessions',
+    });
+  }
+
+  async revokeSession(sessionId: string) {
+    return this.request({
+      method: 'DELETE',
+      url: `/auth/sessions/${sessionId}`,
+    });
+  }
+
+  async revokeOtherSessions() {
+    return this.request({
+      method: 'DELETE',
+      url: '/auth/sessions',
+    });
+  }
+
+  async requestAccountUnlock(email: string) {
+    return this.request({
+      method: 'POST',
+      url: '/auth/unlock/request',
+      data: { email },
+    });
+  }
+
+  async unlockAccount(token: string) {
+    return this.request({
+      method: 'POST',
+      url: '/auth/unlock/confirm',
+      data: { token },
+    });
+  }
+
+  async getMfaStatus() {
+    return this.request({
+      method: 'GET',
+      url: '/auth/mfa',
+    });
+  }
+
+  async beginMfaEnrollment() {
+    return this.request({
+      method: 'POST',
+      url: '/auth/mfa/enroll',
+    });
+  }
+
+  async confirmMfaEnrollment(code: string) {
+    return this.request({
+      method: 'POST',
+      url: '/auth/mfa/confirm',
+      data: { code },
+    });
+  }
+
+  async disableMfa(code: string) {
+    return this.request({
+      method: 'POST',
+      url: '/auth/mfa/disable',
+      data: { code },
+    });
+  }
+
+  async regenerateRecoveryCodes(code: string) {
+    return this.request({
+      method: 'POST',
+      url: '/auth/mfa/recovery-codes',
+      data: { code },
+    });
+  }
+
   async getCurrentUser() {
     return this.request({
       method: 'GET',
@@ -102,22 +282,261 @@ class ApiService {
     });
   }
 
-  async updatePrenup(id: string, data: any) {
+  // `revision` is the revision the edit was based on; a ConflictError is
+  // thrown if someone else saved in the meantime
+  async updatePrenup(id: string, data: any, revision: number) {
     return this.request({
       method: 'PUT',
       url: `/prenups/${id}`,
       data,
+      headers: { 'If-Match': `"${revision}"` },
+    });
+  }
+
+  async getPrenupVersions(id: string) {
+    return this.request({
+      method: 'GET',
+      url: `/prenups/${id}/versions`,
     });
   }
 
-  async invitePartner(prenupId: string, email: string) {
+  async getPrenupVersion(id: string, version: string) {
+    return this.request({
+      method: 'GET',
+      url: `/prenups/${id}/versions/${version}`,
+    });
+  }
+
+  async getPrenupDiff(id: string, from: string, to: string) {
+    return this.request({
+      method: 'GET',
+      url: `/prenups/${id}/diff`,
+      params: { from, to },
+    });
+  }
+
+  async getPrenupInvitations(prenupId: string) {
+    return this.request({
+      method: 'GET',
+      url: `/prenups/${prenupId}/invitations`,
+    });
+  }
+
+  async resendInvitation(prenupId: string, invitationId: string) {
     return this.request({
       method: 'POST',
-      url: `/prenups/${prenupId}/invite-partner`,
+      url: `/prenups/${prenupId}/invitations/${invitationId}/resend`,
+    });
+  }
+
+  async revokeInvitation(prenupId: string, invitationId: string) {
+    return this.request({
+      method: 'POST',
+      url: `/prenups/${prenupId}/invitations/${invitationId}/revoke`,
+    });
+  }
+
+  // Invitation endpoints
+  async getInvitation(token: string) {
+    return this.request({
+      method: 'GET',
+      url: `/invitations/${token}`,
+    });
+  }
+
+  async acceptInvitation(token: string) {
+    return this.request({
+      method: 'POST',
+      url: `/invitations/${token}/accept`,
+    });
+  }
+
+  async getCounselInvitation(token: string) {
+    return this.request({
+      method: 'GET',
+      url: `/invitations/counsel/${token}`,
+    });
+  }
+
+  async acceptCounselInvitation(token: string) {
+    return this.request({
+      method: 'POST',
+      url: `/invitations/counsel/${token}/accept`,
+    });
+  }
+
+  async getCounsel(prenupId: string) {
+    return this.request({
+      method: 'GET',
+      url: `/prenups/${prenupId}/counsel`,
+    });
+  }
+
+  async inviteCounsel(prenupId: string, email: string) {
+    return this.request({
+      method: 'POST',
+      url: `/prenups/${prenupId}/counsel`,
       data: { email },
     });
   }
 
+  async removeCounsel(prenupId: string, participantId: string) {
+    return this.request({
+      method: 'DELETE',
+      url: `/prenups/${prenupId}/counsel/${participantId}`,
+    });
+  }
+
+  async approveAsCounsel(prenupId: string, note?: string) {
+    return this.request({
+      method: 'POST',
+      url: `/prenups/${prenupId}/counsel/approve`,
+      data: { note },
+    });
+  }
+
+  async getParticipants(prenupId: string) {
+    return this.request({
+      method: 'GET',
+      url: `/prenups/${prenupId}/participants`,
+    });
+  }
+
+  async addParticipant(prenupId: string, email: string, role: ParticipantRole) {
+    return this.request({
+      method: 'POST',
+      url: `/prenups/${prenupId}/participants`,
+      data: { email, role },
+    });
+  }
+
+  async removeParticipant(prenupId: string, participantId: string) {
+    return this.request({
+      method: 'DELETE',
+      url: `/prenups/${prenupId}/participants/${participantId}`,
+    });
+  }
+
+  async getCompliance(prenupId: string) {
+    return this.request({
+      method: 'GET',
+      url: `/prenups/${prenupId}/compliance`,
+    });
+  }
+
+  async getComplianceReport(prenupId: string) {
+    return this.request({
+      method: 'GET',
+      url: `/prenups/${prenupId}/compliance-report`,
+    });
+  }
+
+  // The printable report; opened from a blob since the request needs the auth header
+  async getComplianceReportHtml(prenupId: string) {
+    const response = await this.api.get(`/prenups/${prenupId}/compliance-report`, {
+      params: { format: 'html' },
+      responseType: 'blob',
+    });
+    return response.data as Blob;
+  }
+
+  async getAuditTrail(prenupId: string) {
+    return this.request({
+      method: 'GET',
+      url: `/prenups/${prenupId}/audit`,
+    });
+  }
+
+  async getComments(prenupId: string) {
+    return this.request({
+      method: 'GET',
+      url: `/prenups/${prenupId}/comments`,
+    });
+  }
+
+  async addComment(prenupId: string, body: string) {
+    return this.request({
+      method: 'POST',
+      url: `/prenups/${prenupId}/comments`,
+      data: { body },
+    });
+  }
+
+  async getPrenupTransitions(id: string) {
+    return this.request({
+      method: 'GET',
+      url: `/prenups/${id}/transitions`,
+    });
+  }
+
+  async transitionPrenup(
+    id: string,
+    to: string,
+    notarization?: { notaryName: string; commissionNumber?: string; notarizedAt: string }
+  ) {
+    return this.request({
+      method: 'POST',
+      url: `/prenups/${id}/transitions`,
+      data: { to, notarization },
+    });
+  }
+
+  // Counsel confirm the notarization of the agreement
+  async recordNotarization(
+    prenupId: string,
+    notarization: { notaryName: string; commissionNumber?: string; notarizedAt: string }
+  ) {
+    return this.request({
+      method: 'POST',
+      url: `/prenups/${prenupId}/notarization`,
+      data: notarization,
+    });
+  }
+
+  async getPresentations(prenupId: string) {
+    return this.request({
+      method: 'GET',
+      url: `/prenups/${prenupId}/presentations`,
+    });
+  }
+
+  async acknowledgePresentation(prenupId: string, contentHash: string) {
+    return this.request({
+      method: 'POST',
+      url: `/prenups/${prenupId}/presentations`,
+      data: { contentHash },
+    });
+  }
+
+  async getSignatures(prenupId: string) {
+    return this.request({
+      method: 'GET',
+      url: `/prenups/${prenupId}/signatures`,
+    });
+  }
+
+  async signPrenup(prenupId: string) {
+    return this.request({
+      method: 'POST',
+      url: `/prenups/${prenupId}/signatures`,
+    });
+  }
+
+  async invitePartner(prenupId: string, email: string, allowAnyEmail = false) {
+    return this.request({
+      method: 'POST',
+      url: `/prenups/${prenupId}/invite-partner`,
+      data: { email, allowAnyEmail },
+    });
+  }
+
+  async getStates() {
+    return this.request({
+      method: 'GET',
+      url: '/prenups/states',
+    });
+  }
+
   async getStateRequirements(state: string) {
     return this.request({
       method: 'GET',
@@ -133,6 +552,7 @@ class ApiService {
     });
   }
 
+  // Include `revision` in data when updating an existing disclosure
   async saveFinancialDisclosure(data: any) {
     return this.request({
       method: 'POST',
@@ -155,6 +575,28 @@ class ApiService {
     });
   }
 
+  async getDisclosureVersions(disclosureId: string) {
+    return this.request({
+      method: 'GET',
+      url: `/financial/disclosures/${disclosureId}/versions`,
+    });
+  }
+
+  async getDisclosureVersion(disclosureId: string, version: string) {
+    return this.request({
+      method: 'GET',
+      url: `/financial/disclosures/${disclosureId}/versions/${version}`,
+    });
+  }
+
+  async getDisclosureDiff(disclosureId: string, from: string, to: string) {
+    return this.request({
+      method: 'GET',
+      url: `/financial/disclosures/${disclosureId}/diff`,
+      params: { from, to },
+    });
+  }
+
   // Document endpoints
   async uploadDocument(prenupId: string, file: File, type?: string) {
     const formData = new FormData();
@@ -191,6 +633,71 @@ class ApiService {
       url: `/documents/${documentId}`,
     });
   }
+
+  async adminListUsers(search?: string, cursor?: string) {
+    return this.request({
+      method: 'GET',
+      url: '/admin/users',
+      params: { search: search || undefined, cursor },
+    });
+  }
+
+  async adminGetUser(userId: string) {
+    return this.request({
+      method: 'GET',
+      url: `/admin/users/${userId}`,
+    });
+  }
+
+  async adminDisableUser(userId: string) {
+    return this.request({
+      method: 'POST',
+      url: `/admin/users/${userId}/disable`,
+    });
+  }
+
+  async adminEnableUser(userId: string) {
+    return this.request({
+      method: 'POST',
+      url: `/admin/users/${userId}/enable`,
+    });
+  }
+
+  async adminSetUserRole(userId: string, role: 'USER' | 'ATTORNEY') {
+    return this.request({
+      method: 'POST',
+      url: `/admin/users/${userId}/role`,
+      data: { role },
+    });
+  }
+
+  async adminGetPrenup(prenupId: string) {
+    return this.request({
+      method: 'GET',
+      url: `/admin/prenups/${prenupId}`,
+    });
+  }
+
+  async adminGetAuditTrail(prenupId: string) {
+    return this.request({
+      method: 'GET',
+      url: `/admin/prenups/${prenupId}/audit`,
+    });
+  }
+
+  async adminExpireInvitation(invitationId: string) {
+    return this.request({
+      method: 'POST',
+      url: `/admin/invitations/${invitationId}/expire`,
+    });
+  }
+
+  async adminGetStorage() {
+    return this.request({
+      method: 'GET',
+      url: '/admin/storage',
+    });
+  }
 }
 
 export const apiService = new ApiService();
\ No newline at end of file
@@ -3,16 +3,50 @@ export interface User {
   email: string;
   firstName: string;
   lastName: string;
-  role: 'USER' | 'ADMIN';
+  role: 'USER' | 'ADMIN' | 'ATTORNEY';
+  emailVerified?: boolean;
+  mfaEnabled?: boolean;
+  disabled?: boolean;
+  disabledAt?: string;
   createdAt: string;
 }
 
 export interface AuthResponse {
   user: User;
   token: string;
+  refreshToken: string;
 }
 
-export type USState = 'CALIFORNIA' | 'WASHINGTON' | 'NEW_YORK' | 'WASHINGTON_DC' | 'VIRGINIA';
+// Returned by login instead of tokens when the account has two-factor authentication
+export interface MfaChallenge {
+  mfaRequired: true;
+  mfaToken: string;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  enabledAt?: string;
+  recoveryCodesRemaining: number;
+}
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+// A device signed in to the account
+export interface Session {
+  id: string;
+  device: string;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+// Code of a jurisdiction served by GET /api/prenups/states, e.g. 'NEW_YORK'
+export type USState = string;
 
 export type PrenupStatus = 'DRAFT' | 'IN_PROGRESS' | 'READY_FOR_REVIEW' | 'PENDING_SIGNATURES' | 'EXECUTED' | 'CANCELLED';
 
@@ -20,6 +54,7 @@ export interface Prenup {
   id: string;
   title: string;
   state: USState;
+  lawVersion?: string;
   status: PrenupStatus;
   createdBy: string;
   partnerId?: string;
@@ -31,20 +66,54 @@ export interface Prenup {
   content: Record<string, any>;
   createdAt: string;
   updatedAt: string;
+  revision?: number;
   creator: User;
   partner?: User;
 }
 
+export type RequirementCategory = 'timing' | 'disclosure' | 'execution' | 'fairness';
+
 export interface StateRequirement {
   name: string;
   description: string;
   required: boolean;
+  category: RequirementCategory;
   waitingPeriod?: number;
+  citation?: string;
 }
 
+export type RuleStatus = 'pass' | 'fail' | 'unknown';
+
+// Result of checking one state requirement against the prenup's record
+export interface RequirementEvaluation {
+  name: string;
+  required: boolean;
+  citation?: string;
+  status: RuleStatus;
+  evidence: string[];
+}
+
+export interface ComplianceEvaluation {
+  state: USState;
+  lawVersion: string;
+  effectiveFrom: string;
+  status: RuleStatus;
+  evaluatedAt: string;
+  requirements: RequirementEvaluation[];
+}
+
+// One version of a jurisdiction's law
 export interface StateCompliance {
   state: USState;
   displayName: string;
+  code: string;
+  lawVersion: string;
+  effectiveFrom: string;
+  uniformAct?: 'UPAA' | 'UPMAA';
+  citations: string[];
+  summary: string;
+  waitingPeriodText: string;
+  attorneyReviewRecommended: boolean;
   totalSteps: number;
   requirements: StateRequirement[];
   disclosureRequirements: string[];
@@ -94,10 +163,16 @@ export interface FinancialDisclosure {
   netWorth: number;
   createdAt: string;
   updatedAt: string;
+  revision?: number;
   user?: User;
 }
 
-export type DocumentType = 'PRENUP_DRAFT' | 'PRENUP_FINAL' | 'FINANCIAL_STATEMENT' | 'SUPPORTING_DOCUMENT';
+export type DocumentType =
+  | 'PRENUP_DRAFT'
+  | 'PRENUP_FINAL'
+  | 'FINANCIAL_STATEMENT'
+  | 'SUPPORTING_DOCUMENT'
+  | 'NOTARIZED_AGREEMENT';
 
 export interface Document {
   id: string;
@@ -120,13 +195,202 @@ export interface Signature {
   status: SignatureStatus;
   signedAt?: string;
   ipAddress?: string;
+  contentHash?: string;
   createdAt: string;
   user: User;
 }
 
+// Where a party's waiting period stands for the current agreement text
+export interface WaitingClock {
+  userId?: string;
+  presentedAt?: string;
+  availableAt?: string;
+  elapsed: boolean;
+}
+
+export interface PresentationStatus {
+  contentHash: string;
+  waitingPeriodDays: number;
+  advisement: string;
+  // Party A first, then Party B
+  clocks: WaitingClock[];
+}
+
+export type InvitationStatus = 'PENDING' | 'ACCEPTED' | 'EXPIRED' | 'CANCELLED';
+
+export interface PartnerInvitation {
+  id: string;
+  email: string;
+  prenupId: string;
+  invitedBy: string;
+  status: InvitationStatus;
+  expiresAt: string;
+  allowAnyEmail?: boolean;
+  acceptedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Public preview shown on the invitation link before signing in
+export interface InvitationPreview {
+  invitation: { email: string; expiresAt: string; emailRestricted: boolean };
+  prenup: { id: string; title: string; state: USState };
+  inviter: { firstName: string; lastName: string };
+}
+
+export type ParticipantStatus = 'INVITED' | 'ACTIVE' | 'REMOVED';
+
+export type ParticipantRole = 'PARTY_A' | 'PARTY_B' | 'COUNSEL' | 'NOTARY' | 'WITNESS' | 'VIEWER';
+
+// Someone taking part in a prenup and in which role
+export interface PrenupParticipant {
+  id: string;
+  prenupId: string;
+  role: ParticipantRole;
+  email: string;
+  userId?: string;
+  userName?: string;
+  representing?: string;
+  status: ParticipantStatus;
+  acceptedAt?: string;
+  removedAt?: string;
+  createdAt: string;
+}
+
+// A party's independent counsel on a prenup
+export interface CounselAppointment {
+  id: string;
+  prenupId: string;
+  role: 'COUNSEL';
+  email: string;
+  userId?: string;
+  userName?: string;
+  representing: string;
+  status: ParticipantStatus;
+  expiresAt?: string;
+  acceptedAt?: string;
+  removedAt?: string;
+  approval?: { approvedAt: string; prenupRevision: number; note?: string };
+  createdAt: string;
+}
+
+// Public preview shown on a counsel invitation link
+export interface CounselInvitationPreview {
+  invitation: { email: string; expiresAt: string };
+  prenup: { id: string; title: string; state: USState };
+  client: { firstName: string; lastName: string };
+}
+
+export interface PrenupComment {
+  id: string;
+  prenupId: string;
+  authorId: string;
+  authorName: string;
+  asCounselFor?: string;
+  body: string;
+  createdAt: string;
+}
+
+export type Precondition =
+  | 'PARTNER_JOINED'
+  | 'DISCLOSURES_SUBMITTED'
+  | 'WAITING_PERIOD_ELAPSED'
+  | 'MFA_ENABLED'
+  | 'SIGNATURES_COLLECTED'
+  | 'NOTARIZED';
+
+export interface UnmetPrecondition {
+  precondition: Precondition;
+  message: string;
+}
+
+export interface AvailableTransition {
+  to: PrenupStatus;
+  allowed: boolean;
+  unmet: UnmetPrecondition[];
+}
+
+export interface VersionSummary {
+  version: string;
+  isCurrent: boolean;
+  updatedAt: string;
+  updatedBy?: string;
+  updatedByEmail?: string;
+}
+
+export interface FieldChange {
+  path: string;
+  oldValue?: any;
+  newValue?: any;
+}
+
+export interface VersionDiff {
+  from: string;
+  to: string;
+  added: FieldChange[];
+  removed: FieldChange[];
+  changed: FieldChange[];
+}
+
+// One entry of a prenup's hash-chained audit trail
+export interface AuditEvent {
+  id: string;
+  prenupId: string;
+  sequence: number;
+  action: string;
+  actorId: string;
+  ipAddress?: string;
+  userAgent?: string;
+  targetType: string;
+  targetId: string;
+  targetRevision?: number;
+  details?: Record<string, any>;
+  occurredAt: string;
+  previousHash: string;
+  hash: string;
+}
+
+export interface AuditExport {
+  prenupId: string;
+  exportedAt: string;
+  events: AuditEvent[];
+  verification: {
+    valid: boolean;
+    eventCount: number;
+    lastHash: string;
+    brokenAt?: number;
+    reason?: string;
+  };
+}
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
   error?: string;
   message?: string;
-}
\ No newline at end of file
+}
+
+// Admin console
+
+export interface PrenupStorage {
+  prenupId: string;
+  title: string;
+  totalSize: number; // Bytes
+}
+
+export interface AdminUserDetail {
+  user: User;
+  prenups: (PrenupStorage & { roles: ParticipantRole[] })[];
+}
+
+// A prenup as administrators see it: no content and no financial disclosures
+export interface AdminPrenupOverview {
+  prenup: Pick<Prenup, 'id' | 'title' | 'state' | 'lawVersion' | 'status' | 'createdBy' | 'partnerId' | 'createdAt' | 'updatedAt'> & {
+    createdByEmail?: string;
+    partnerEmail?: string;
+  };
+  participants: (PrenupParticipant & { expiresAt?: string })[];
+  invitations: PartnerInvitation[];
+  documents: { id: string; type: string; filename: string; size: number; mimeType: string; createdAt: string }[];
+  storage: PrenupStorage;
+}